@@ -1,19 +1,20 @@
 const dgram = require('dgram');
 const WebSocket = require('ws');
-
-// RTP header size to extract payload
-const RTP_HEADER_SIZE = 12;
+const { T140RtpReceiver, createSrtpKeysFromPassphrase } = require('../dist');
 
 // Set up UDP receivers for RTP and direct text 
-// Create socket for standard RTP
-const rtpSocket = dgram.createSocket('udp4');
-rtpSocket.bind(5004);
+// Create receiver for standard RTP
+const rtpReceiver = new T140RtpReceiver({ localPort: 5004 });
+rtpReceiver.on('error', (err) => console.error(`RTP receiver error (${err.type}): ${err.message}`));
 console.log('RTP receiver listening on port 5004');
 
-// Create socket for SRTP
-const srtpSocket = dgram.createSocket('udp4');
-srtpSocket.bind(5006);
-console.log('SRTP receiver listening on port 5006 (encryption not decoded)');
+// Create receiver for SRTP, using the same passphrase as demo.js
+const srtpReceiver = new T140RtpReceiver({
+  localPort: 5006,
+  srtpConfig: createSrtpKeysFromPassphrase('SecureT140Demo'),
+});
+srtpReceiver.on('error', (err) => console.error(`SRTP receiver error (${err.type}): ${err.message}`));
+console.log('SRTP receiver listening on port 5006');
 
 // Create socket for direct transmission
 const directSocket = dgram.createSocket('udp4');
@@ -32,22 +33,16 @@ const received = {
   websocket: ''
 };
 
-// RTP socket handler - extract payload from RTP packets
-rtpSocket.on('message', (msg) => {
-  if (msg.length > RTP_HEADER_SIZE) {
-    // Extract the payload (skip the RTP header)
-    const payload = msg.slice(RTP_HEADER_SIZE).toString('utf-8');
-    console.log(`RTP received: ${payload}`);
-    received.rtp += payload;
-  }
+// RTP receiver handler - text arrives decoded and in sequence order
+rtpReceiver.on('data', (text) => {
+  console.log(`RTP received: ${text}`);
+  received.rtp += text;
 });
 
-// SRTP socket handler - extract payload from SRTP packets
-// Note: We're not decrypting the SRTP here, just showing reception
-srtpSocket.on('message', (msg) => {
-  console.log(`SRTP packet received (${msg.length} bytes, encrypted)`);
-  // In a real implementation, we would decrypt this
-  received.srtp += '.'; // Just track that we received something
+// SRTP receiver handler - packets are authenticated and decrypted
+srtpReceiver.on('data', (text) => {
+  console.log(`SRTP received: ${text}`);
+  received.srtp += text;
 });
 
 // Direct socket handler - just receive the text directly
@@ -73,10 +68,10 @@ setTimeout(() => {
   console.log('\n=== RECEPTION SUMMARY ===');
   console.log(`WebSocket received ${received.websocket.length} characters`);
   console.log(`RTP received ${received.rtp.length} characters`);
-  console.log(`SRTP received ${received.srtp.length} markers (encrypted)`);
+  console.log(`SRTP received ${received.srtp.length} characters`);
   console.log(`Direct received ${received.direct.length} characters`);
   
-  // Print completeness of the message for RTP and Direct
+  // Print completeness of the message for RTP, SRTP and Direct
   const completeMessage = "This is a demonstration of T140LLM library. It shows how to transmit text streams efficiently over different transport mechanisms including WebSockets, RTP, and SRTP. This library is particularly useful for real-time text transmission in applications like chat, accessibility services, or streaming AI outputs.";
   
   console.log('\n=== MESSAGE COMPLETENESS ===');
@@ -85,6 +80,11 @@ setTimeout(() => {
     console.log(`RTP message complete: ${rtpComplete}`);
   }
   
+  if (received.srtp.length > 0) {
+    const srtpComplete = received.srtp === completeMessage;
+    console.log(`SRTP message complete: ${srtpComplete}`);
+  }
+
   if (received.direct.length > 0) {
     const directComplete = received.direct === completeMessage;
     console.log(`Direct message complete: ${directComplete}`);
@@ -101,8 +101,8 @@ setTimeout(() => {
 // Handle cleanup on exit
 process.on('SIGINT', () => {
   console.log('\nClosing receivers...');
-  rtpSocket.close();
-  srtpSocket.close();
+  rtpReceiver.close();
+  srtpReceiver.close();
   directSocket.close();
   wsClient.close();
   process.exit();
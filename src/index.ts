@@ -4,6 +4,7 @@ export * from './utils';
 export * from './rtp';
 export * from './processors';
 export * from './transport';
+export * from './sip';
 // Steganography is optional - import from 't140llm/steganography' if needed
 // export * from './steganography';
 
@@ -0,0 +1,39 @@
+/**
+ * Interface for AdaptiveRedundancyController configuration
+ */
+export interface AdaptiveControllerConfig {
+  minRedundancyLevel?: number; // Fewest RED generations on a clean path (default: 1)
+  maxRedundancyLevel?: number; // Most RED generations on a lossy path (default: 5)
+  highLossThreshold?: number; // Loss fraction at which protection is raised (default: 0.03)
+  lowLossThreshold?: number; // Loss fraction at or below which the path is clean (default: 0.005)
+  fecLossThreshold?: number; // Loss fraction at which FEC is switched on (default: 0.1)
+  allowFec?: boolean; // Let the controller switch FEC on and off (default: true)
+  congestionLossThreshold?: number; // Loss fraction treated as congestion (default: 0.2)
+  congestionRtt?: number; // Round-trip time in ms treated as congestion (default: 1000)
+  minCharRateLimit?: number; // Lowest cps the rate is cut to (default: 10)
+  maxCharRateLimit?: number; // Highest cps, restored on a clean path (default: the current limit)
+  rateDecreaseFactor?: number; // cps multiplier per congested report (default: 0.75)
+  rateIncreaseStep?: number; // cps added back per uncongested report (default: 2)
+  smoothing?: number; // Weight of the newest report in the loss average, 0-1 (default: 0.5)
+  stableReports?: number; // Clean reports in a row before protection is lowered (default: 3)
+}
+
+/**
+ * Loss and delay feedback from RTCP or any other channel
+ */
+export interface AdaptiveFeedback {
+  fractionLost: number; // Fraction of packets lost since the previous feedback (0-1)
+  roundTripTime?: number; // ms, if known
+}
+
+/**
+ * A settings change made by AdaptiveRedundancyController
+ */
+export interface AdaptiveDecision {
+  setting: 'redundancyLevel' | 'fecEnabled' | 'charRateLimit';
+  previous: number | boolean;
+  value: number | boolean;
+  reason: string; // Human-readable explanation, for logging
+  fractionLost: number; // Smoothed loss fraction the decision was based on
+  roundTripTime?: number; // Latest round-trip time in ms, if known
+}
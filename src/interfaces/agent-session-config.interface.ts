@@ -0,0 +1,48 @@
+import { RtpConfig } from './rtp-config.interface';
+import { RtpReceiverConfig } from './rtp-receiver-config.interface';
+import { ProcessorOptions, TextDataStream } from './text-data-stream.interface';
+
+/**
+ * Tells an agent's reply function that the reply was cancelled
+ *
+ * Shaped like the matching parts of an AbortSignal, so a listener can abort
+ * the request producing the reply.
+ */
+export interface AgentReplySignal {
+  readonly aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+/**
+ * Context passed to an agent's reply function
+ */
+export interface AgentReplyContext {
+  signal: AgentReplySignal; // Aborted when the reply is cancelled
+  turn: number; // 1 for the first remote turn, 2 for the second, ...
+}
+
+/**
+ * Produces the agent's reply to one turn of the remote party
+ */
+export type AgentReplyFunction = (
+  text: string,
+  context: AgentReplyContext
+) => TextDataStream | Promise<TextDataStream>;
+
+/**
+ * Interface for T140AgentSession configuration
+ */
+export interface T140AgentSessionConfig {
+  remoteAddress: string; // Where the agent's replies are sent
+  remotePort?: number; // Defaults to 5004
+  rtpConfig?: RtpConfig; // Configuration of the sending transport and rate limiting
+  receiverConfig?: RtpReceiverConfig; // Configuration of the receiver for the remote party's text
+  reply: AgentReplyFunction;
+  turnIdleTimeout?: number; // ms without typing that ends a turn (default: 2000, 0 disables)
+  endTurnOnNewline?: boolean; // A line break ends the turn (default: true)
+  isEndOfTurn?: (text: string) => boolean; // Custom end-of-turn check, called after each change
+  bargeIn?: boolean; // Cancel the reply when the remote party starts typing (default: true)
+  endReplyWithNewline?: boolean; // Send U+2028 after each reply (default: true)
+  processorOptions?: ProcessorOptions; // Options for processing the reply streams
+}
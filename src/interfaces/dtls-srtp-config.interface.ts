@@ -0,0 +1,34 @@
+import { SrtpConfig, SrtpProtectionProfile } from './srtp-config.interface';
+
+/**
+ * DTLS role; the client is the side with a=setup:active in SDP (RFC 5763)
+ */
+export type DtlsRole = 'client' | 'server';
+
+/**
+ * A certificate and key for DTLS, with the fingerprint to put in SDP
+ */
+export interface DtlsCertificate {
+  certPem: string;
+  keyPem: string;
+  fingerprint: string; // a=fingerprint value, e.g. 'sha-256 AB:CD:...'
+}
+
+/**
+ * Interface for DTLS-SRTP (RFC 5764) key negotiation options
+ */
+export interface DtlsSrtpConfig {
+  role: DtlsRole;
+  certificate: DtlsCertificate; // Our certificate, whose fingerprint the remote SDP received
+  remoteFingerprint: string; // The remote SDP's a=fingerprint value, e.g. 'sha-256 AB:CD:...'
+  profiles?: SrtpProtectionProfile[]; // Offered SRTP profiles (default: [1, 7])
+  handshakeTimeout?: number; // ms before the handshake is abandoned (default: 10000)
+}
+
+/**
+ * SRTP keying material exported from a completed DTLS handshake
+ */
+export interface DtlsSrtpKeys {
+  local: SrtpConfig; // Keys for what we send
+  remote: SrtpConfig; // Keys for what the remote party sends, e.g. for T140RtpReceiver
+}
@@ -0,0 +1,15 @@
+import { SrtpConfig } from './srtp-config.interface';
+import { TransportStream } from './transport-stream.interface';
+import { UdpTransportOptions } from './udp-transport-options.interface';
+
+/**
+ * Interface for one destination of a FanOutTransport; give either an
+ * address or a transport
+ */
+export interface FanOutDestinationConfig extends UdpTransportOptions {
+  address?: string; // IP address (unicast or multicast) or hostname to send to over UDP
+  port?: number; // UDP port to send to (default: 5004)
+  transport?: TransportStream; // Send through this transport instead of UDP
+  ssrc?: number; // SSRC of this destination's copy (default: random)
+  srtpConfig?: SrtpConfig; // Protect this destination's copy with its own SRTP key
+}
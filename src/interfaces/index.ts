@@ -3,4 +3,20 @@ export * from './text-data-stream.interface';
 export * from './t140-rtp-error.interface';
 export * from './rtp-config.interface';
 export * from './srtp-config.interface';
+export * from './dtls-srtp-config.interface';
 export * from './websocket-options.interface';
+export * from './websocket-auth.interface';
+export * from './websocket-backend.interface';
+export * from './websocket-frame.interface';
+export * from './tcp-transport-config.interface';
+export * from './seqpacket-transport-options.interface';
+export * from './udp-transport-options.interface';
+export * from './fan-out-config.interface';
+export * from './rtp-receiver-config.interface';
+export * from './jitter-buffer-config.interface';
+export * from './agent-session-config.interface';
+export * from './adaptive-controller-config.interface';
+export * from './sdp-options.interface';
+export * from './sdes-crypto.interface';
+export * from './sip-config.interface';
+export * from './resolved-address.interface';
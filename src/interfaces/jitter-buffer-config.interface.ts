@@ -0,0 +1,19 @@
+/**
+ * Interface for JitterBuffer configuration
+ */
+export interface JitterBufferConfig {
+  maxDelay?: number; // Max time in ms to wait for a missing packet (default: 1000)
+  maxPackets?: number; // Max out-of-order packets held before a gap is given up on
+}
+
+/**
+ * Packet counters reported by a JitterBuffer
+ */
+export interface JitterBufferStats {
+  received: number; // Packets pushed into the buffer
+  delivered: number; // Packets released in sequence order
+  late: number; // Packets that arrived after they had been declared lost
+  duplicate: number; // Packets already buffered or delivered
+  lost: number; // Packets given up on
+  buffered: number; // Packets currently waiting for a gap to be filled
+}
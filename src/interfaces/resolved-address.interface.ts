@@ -0,0 +1,12 @@
+/**
+ * IP version of an address: 4 for IPv4, 6 for IPv6
+ */
+export type IpFamily = 4 | 6;
+
+/**
+ * A remote address resolved from an IP literal or hostname
+ */
+export interface ResolvedAddress {
+  address: string; // IP address without brackets, e.g. 2001:db8::1
+  family: IpFamily;
+}
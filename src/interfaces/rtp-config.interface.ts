@@ -1,3 +1,6 @@
+import { DtlsSrtpConfig } from './dtls-srtp-config.interface';
+import { IpFamily } from './resolved-address.interface';
+import { UnixSocketFraming } from './seqpacket-transport-options.interface';
 import { LLMMetadata } from './text-data-stream.interface';
 import { TransportStream } from './transport-stream.interface';
 
@@ -13,6 +16,7 @@ export interface RtpConfig {
   fecEnabled?: boolean;
   fecPayloadType?: number;
   fecGroupSize?: number; // Number of packets to protect with a single FEC packet
+  fecSsrc?: number; // SSRC of the FEC stream (defaults to a random SSRC distinct from ssrc)
   processBackspaces?: boolean; // Enable T.140 backspace character processing
   charRateLimit?: number; // Character rate limit in characters per second
   redEnabled?: boolean; // Enable redundancy for T.140
@@ -33,4 +37,31 @@ export interface RtpConfig {
   useCsrcForStreamId?: boolean; // Use CSRC field for stream identification
   markerBit?: boolean; // Set RTP marker bit (RFC 4103 §5.1 M-bit for first packet after idle)
   bomPrewarm?: boolean; // Send BOM (U+FEFF) on transport creation to open NAT pinholes (RFC 4103)
+
+  // RTCP options
+  rtcpEnabled?: boolean; // Send SR/SDES reports and BYE, and parse inbound reports (default: false)
+  rtcpMux?: boolean; // Send RTCP on the RTP port (RFC 5761) instead of a separate port
+  rtcpPort?: number; // Remote RTCP port when not multiplexed (default: remote RTP port + 1)
+  rtcpInterval?: number; // Average ms between reports (default: 5000, randomized per RFC 3550)
+  cname?: string; // SDES canonical name (default: random per RFC 7022)
+
+  // Retransmission options (RFC 4588)
+  rtxPayloadType?: number; // Payload type of RTX packets; setting it enables retransmission on NACK
+  rtxSsrc?: number; // SSRC of the RTX stream (defaults to a random SSRC distinct from ssrc)
+  rtxHistorySize?: number; // Sent packets kept for retransmission (default: 256)
+
+  // DTLS-SRTP (RFC 5764)
+  dtlsSrtp?: DtlsSrtpConfig; // Negotiate SRTP keys with a DTLS handshake on the RTP channel
+
+  // Addressing
+  addressFamily?: IpFamily; // Only use 4 (IPv4) or 6 (IPv6) for a hostname (default: both)
+
+  // Symmetric RTP (RFC 4961)
+  localAddress?: string; // Local IP address to bind the UDP socket to (default: all addresses)
+  localPort?: number; // Local port to send from and receive on (default: ephemeral)
+  latchRemoteAddress?: boolean; // Send to the source of valid inbound RTP (default: false)
+  remoteSsrc?: number; // SSRC the remote side sends from; only it is latched onto (default: any)
+
+  // Direct socket mode
+  socketFraming?: UnixSocketFraming; // SEQPACKET messages or length-prefixed (default: seqpacket)
 }
@@ -0,0 +1,25 @@
+import { SrtpConfig } from './srtp-config.interface';
+import { InboundTransportStream, TransportStream } from './transport-stream.interface';
+
+/**
+ * Interface for T140RtpReceiver configuration
+ */
+export interface RtpReceiverConfig {
+  localAddress?: string; // Address to bind the UDP socket to (default: 0.0.0.0)
+  localPort?: number; // Port to bind the UDP socket to (default: 5004, 0 for ephemeral)
+  payloadType?: number; // Expected T.140 payload type
+  redPayloadType?: number; // Payload type of RFC 2198 RED packets
+  fecPayloadType?: number; // Payload type of RFC 5109 FEC packets
+  fecWindowSize?: number; // Number of recent media packets kept for FEC recovery
+  ssrc?: number; // Expected remote SSRC; if omitted the first SSRC seen is locked in
+  fecSsrc?: number; // Expected FEC SSRC; if omitted the first one after the media SSRC is locked in
+  reorderWindow?: number; // Max out-of-order packets held while waiting for a missing one
+  jitterBufferDelay?: number; // Max time in ms to wait for a missing packet (default: 1000)
+  lossMarker?: boolean; // Insert U+FFFD where text was lost (default: true, per RFC 4103)
+  inboundTransport?: InboundTransportStream; // Custom packet source to use instead of UDP
+  srtpConfig?: SrtpConfig; // Decrypt and authenticate inbound packets as SRTP
+  rtxPayloadType?: number; // Payload type of RFC 4588 RTX packets (retransmissions)
+  nackEnabled?: boolean; // Ask for missing packets with RFC 4585 generic NACKs (default: false)
+  feedbackTransport?: TransportStream; // Where NACKs go (default: back to the sender over UDP)
+  localSsrc?: number; // SSRC identifying this receiver in NACKs (default: random)
+}
@@ -0,0 +1,24 @@
+import { SrtpConfig } from './srtp-config.interface';
+
+/**
+ * Interface for options when building an SDES crypto attribute
+ */
+export interface SdesCryptoOptions {
+  tag?: number; // Attribute tag the answer refers back to (default: 1)
+  lifetime?: number; // Master key lifetime in packets, omitted if unset
+  mki?: number; // Master key identifier, omitted if unset
+  mkiLength?: number; // MKI field length in bytes (default: 4)
+}
+
+/**
+ * An SDES crypto attribute (RFC 4568) parsed from a remote offer or answer
+ */
+export interface SdesCryptoAttribute {
+  tag: number;
+  suite: string; // Crypto suite name, e.g. AES_CM_128_HMAC_SHA1_80
+  srtpConfig: SrtpConfig; // Master key, master salt and protection profile
+  lifetime?: number; // Master key lifetime in packets
+  mki?: number; // Master key identifier
+  mkiLength?: number; // MKI field length in bytes
+  sessionParams: string[]; // Session parameters such as UNENCRYPTED_SRTCP, not interpreted
+}
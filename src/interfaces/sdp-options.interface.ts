@@ -0,0 +1,33 @@
+import { RtpConfig } from './rtp-config.interface';
+
+/**
+ * Media direction attribute of an SDP media section
+ */
+export type SdpDirection = 'sendrecv' | 'sendonly' | 'recvonly' | 'inactive';
+
+/**
+ * Interface for options when building a T.140 SDP description
+ */
+export interface SdpOptions {
+  address: string; // Address the remote party should send to (IPv4 or IPv6)
+  port: number; // Local RTP port for the m=text line
+  cps?: number; // Highest character rate we accept (default: rtpConfig.charRateLimit)
+  protocol?: string; // Transport protocol of the m=text line (default: RTP/AVP)
+  direction?: SdpDirection; // Media direction (default: sendrecv)
+  sessionId?: string; // o= session id (default: derived from the current time)
+  sessionVersion?: number; // o= session version (default: 1)
+  sessionName?: string; // s= line (default: -)
+  attributes?: string[]; // Extra media-level attributes, without the leading a=
+}
+
+/**
+ * A T.140 media description parsed from a remote SDP offer or answer
+ */
+export interface T140SdpDescription {
+  remoteAddress: string; // Connection address of the m=text section
+  remotePort: number; // RTP port of the m=text section (0 if the stream was rejected)
+  protocol: string; // Transport protocol, e.g. RTP/AVP or RTP/SAVP
+  direction: SdpDirection;
+  rtpConfig: RtpConfig; // Negotiated payload types, redundancy depth, cps and RTCP settings
+  attributes: string[]; // All media-level attributes, without the leading a=
+}
@@ -0,0 +1,15 @@
+/**
+ * How RTP packets are delimited on a Unix domain socket
+ * - 'seqpacket': A SOCK_SEQPACKET socket carries one packet per message
+ * - 'length-prefixed': A stream socket carries each packet behind its
+ *   16-bit length (RFC 4571 framing), for platforms without SEQPACKET
+ */
+export type UnixSocketFraming = 'seqpacket' | 'length-prefixed';
+
+/**
+ * Interface for SeqpacketTransport and SeqpacketListener options
+ */
+export interface SeqpacketTransportOptions {
+  framing?: UnixSocketFraming; // Socket type and packet framing (default: seqpacket)
+  maxQueueSize?: number; // Packets held until connected; older ones are dropped (default: 256)
+}
@@ -0,0 +1,36 @@
+import { RtpConfig } from './rtp-config.interface';
+
+/**
+ * Transport protocol carrying SIP signalling
+ */
+export type SipTransportProtocol = 'udp' | 'tcp';
+
+/**
+ * Interface for SipUserAgent configuration
+ */
+export interface SipUserAgentConfig {
+  username: string; // User part of our SIP URI and From header
+  domain?: string; // Host part of our SIP URI (default: publicAddress)
+  displayName?: string; // Display name in the From header
+  password?: string; // Password for digest authentication challenges
+  authUsername?: string; // Digest username, if different from username
+  transport?: SipTransportProtocol; // Signalling transport (default: udp)
+  localAddress?: string; // Address to bind to (default: 0.0.0.0)
+  localPort?: number; // Port to bind to (default: 5060, 0 for ephemeral)
+  publicAddress?: string; // Address put in Via, Contact and SDP (default: a local IPv4 address)
+  rtpPort?: number; // Local RTP port offered in SDP, for a T140RtpReceiver (default: 5004)
+  rtpConfig?: RtpConfig; // Local media settings offered in SDP and used for the call's transport
+  sessionExpires?: number; // Session interval in seconds to ask for (default: 1800, 0 disables)
+  minSessionExpires?: number; // Smallest session interval in seconds we accept (default: 90)
+  autoAnswer?: boolean; // Answer incoming calls immediately (default: false)
+  userAgent?: string; // User-Agent header value (default: t140llm)
+  timerT1?: number; // RFC 3261 T1 in ms; retransmissions and timeouts scale with it (default: 500)
+}
+
+/**
+ * Interface for options of an outgoing call
+ */
+export interface SipCallOptions {
+  headers?: Record<string, string>; // Extra headers for the INVITE
+  sessionExpires?: number; // Overrides the user agent's session interval for this call
+}
@@ -7,10 +7,10 @@ import { RtpConfig } from './rtp-config.interface';
 export type SrtpProtectionProfile =
   | 0x0001  // SRTP_AES128_CM_HMAC_SHA1_80
   | 0x0002  // SRTP_AES128_CM_HMAC_SHA1_32
-  | 0x0005  // SRTP_AEAD_AES_128_GCM
-  | 0x0006  // SRTP_AEAD_AES_256_GCM
-  | 0x0007  // DOUBLE_AEAD_AES_128_GCM_AEAD_AES_128_GCM
-  | 0x0008; // DOUBLE_AEAD_AES_256_GCM_AEAD_AES_256_GCM
+  | 0x0005  // SRTP_NULL_HMAC_SHA1_80
+  | 0x0006  // SRTP_NULL_HMAC_SHA1_32
+  | 0x0007  // SRTP_AEAD_AES_128_GCM
+  | 0x0008; // SRTP_AEAD_AES_256_GCM
 
 /**
  * Interface for SRTP specific configuration
@@ -19,5 +19,9 @@ export interface SrtpConfig extends Omit<RtpConfig, 'charRateLimit'> {
   masterKey: Buffer;
   masterSalt: Buffer;
   profile?: SrtpProtectionProfile;
-  isSRTCP?: boolean; // Default: false
+  isSRTCP?: boolean; // Protect RTCP as SRTCP (default: false, so no RTCP is sent under SRTP)
+  mki?: number; // Master key identifier carried in every packet (RFC 3711 §3.1)
+  mkiLength?: number; // MKI field length in bytes (default: 4)
+  keyLifetime?: number; // Packets the sender protects with one key before rekeying itself
+  rekeyInterval?: number; // ms between rekeys scheduled by the sender
 }
@@ -8,6 +8,8 @@ export enum T140RtpErrorType {
   INVALID_CONFIG = 'INVALID_CONFIG',     // Invalid configuration errors
   RATE_LIMIT_ERROR = 'RATE_LIMIT_ERROR', // Rate limiting errors
   RESOURCE_ERROR = 'RESOURCE_ERROR',     // Resource allocation/deallocation errors
+  INVALID_PACKET = 'INVALID_PACKET',     // Malformed or unexpected inbound packets
+  AGENT_ERROR = 'AGENT_ERROR',           // Failures of an agent session's reply function
 }
 
 /**
@@ -0,0 +1,20 @@
+import { TLSOptions } from './websocket-options.interface';
+
+/**
+ * Which side opens the TCP connection, as in SDP a=setup (RFC 4145)
+ */
+export type TcpSetupRole = 'active' | 'passive';
+
+/**
+ * Interface for TcpTransport configuration
+ */
+export interface TcpTransportConfig {
+  port: number; // Remote port when active, local port to listen on when passive (0 for ephemeral)
+  host?: string; // Remote host when active, local address when passive (default: 0.0.0.0)
+  setup?: TcpSetupRole; // Connect out or wait for the peer (default: active)
+  tls?: TLSOptions; // Use TLS; passive needs cert and key (PEM)
+  reconnect?: boolean; // Reconnect after the connection drops, when active (default: true)
+  reconnectDelay?: number; // ms before the first reconnect, doubled per attempt (default: 500)
+  maxReconnectDelay?: number; // Cap on the reconnect delay in ms (default: 30000)
+  maxQueueSize?: number; // Packets held while disconnected; older ones are dropped (default: 256)
+}
@@ -10,8 +10,41 @@ export interface TransportStream {
    */
   send(data: Buffer, callback?: (error?: Error) => void): void;
 
+  /**
+   * Optional method to register a listener for packets coming back from
+   * the far end, such as RTCP reports when RTCP is enabled
+   */
+  on?(event: 'data', listener: (data: Buffer) => void): unknown;
+
+  /**
+   * Optional method to detach a previously registered listener
+   */
+  removeListener?(event: 'data', listener: (data: Buffer) => void): unknown;
+
   /**
    * Optional method to close the transport and clean up resources
    */
   close?(): void;
 }
+
+/**
+ * Interface for custom inbound sources that can feed raw RTP packets
+ * into T140RtpReceiver instead of the default UDP socket
+ */
+export interface InboundTransportStream {
+  /**
+   * Register a listener for inbound packets; each 'data' event carries
+   * exactly one RTP packet
+   */
+  on(event: 'data', listener: (data: Buffer) => void): unknown;
+
+  /**
+   * Optional method to detach a previously registered listener
+   */
+  removeListener?(event: 'data', listener: (data: Buffer) => void): unknown;
+
+  /**
+   * Optional method to close the source and clean up resources
+   */
+  close?(): void;
+}
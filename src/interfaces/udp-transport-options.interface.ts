@@ -0,0 +1,8 @@
+/**
+ * Interface for options of the built-in UDP TransportStream
+ */
+export interface UdpTransportOptions {
+  multicastTtl?: number; // Hops multicast packets may travel (default: 1)
+  multicastInterface?: string; // Local interface address multicast packets leave from
+  multicastLoopback?: boolean; // Deliver multicast packets to this host too (default: true)
+}
@@ -0,0 +1,49 @@
+import { IncomingMessage } from 'http';
+import { URL } from 'url';
+
+/**
+ * What is known about an authenticated WebSocket client, e.g. its user ID
+ */
+export type WebSocketClaims = Record<string, unknown>;
+
+/**
+ * A WebSocket client asking to connect, as seen by a verifyClient hook
+ */
+export interface WebSocketClientInfo {
+  request: IncomingMessage; // The HTTP upgrade request, with its headers
+  url: URL; // The URL the client connected to
+  address: string; // The client's IP address
+  origin?: string; // The Origin header, sent by browsers
+  claims: WebSocketClaims; // What the bearer token, signed URL and client certificate established
+}
+
+/**
+ * Decides whether a client may connect
+ *
+ * Returns false to reject it, true to accept it, or claims to accept it
+ * and add them to the connection's claims.
+ */
+export type WebSocketClientVerifier = (
+  info: WebSocketClientInfo
+) => boolean | WebSocketClaims | Promise<boolean | WebSocketClaims>;
+
+/**
+ * Checks a bearer token, returning the claims it carries or undefined if
+ * the token is not valid
+ */
+export type WebSocketTokenVerifier = (
+  token: string
+) => WebSocketClaims | undefined | Promise<WebSocketClaims | undefined>;
+
+/**
+ * Interface for WebSocket server authentication
+ *
+ * With any of bearerTokens, verifyBearerToken or hmacSecret set, a client
+ * must present a valid bearer token or a validly signed URL.
+ */
+export interface WebSocketAuthOptions {
+  bearerTokens?: string[]; // Tokens accepted in an `Authorization: Bearer` header
+  verifyBearerToken?: WebSocketTokenVerifier; // Check other bearer tokens, e.g. JWTs
+  hmacSecret?: string | Buffer; // Accept URLs signed with signWebSocketUrl() and this key
+  verifyClient?: WebSocketClientVerifier; // Final check, after the built-in ones have passed
+}
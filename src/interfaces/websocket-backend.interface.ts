@@ -0,0 +1,42 @@
+import { IncomingMessage } from 'http';
+import { URL } from 'url';
+import { RtpConfig } from './rtp-config.interface';
+import { UnixSocketFraming } from './seqpacket-transport-options.interface';
+import { SrtpConfig } from './srtp-config.interface';
+import { TransportStream } from './transport-stream.interface';
+import { WebSocketClaims } from './websocket-auth.interface';
+
+/**
+ * What a WebSocket connection is bridged to
+ *
+ * Give one of `transport`, `remoteAddress` or `socketPath`. Whatever it is,
+ * the connection's text is sent by its own T140RtpTransport, so the SSRC,
+ * sequence numbers, RED, FEC and rate limit come from `rtpConfig`.
+ */
+export interface WebSocketBackend {
+  transport?: TransportStream; // Send the RTP packets through this transport
+  remoteAddress?: string; // Send RTP over UDP to this IP address or hostname
+  remotePort?: number; // UDP port for remoteAddress (default: 5004)
+  socketPath?: string; // Send RTP to this Unix socket (direct socket mode)
+  socketFraming?: UnixSocketFraming; // Framing for socketPath (default: seqpacket)
+  srtpConfig?: SrtpConfig; // Protect the packets with SRTP
+  rtpConfig?: RtpConfig; // SSRC, payload types, RED, FEC and charRateLimit for this connection
+}
+
+/**
+ * What is known about a WebSocket connection when its backend is chosen
+ */
+export interface WebSocketConnectionContext {
+  connectionId: number; // Increases with every connection the server accepts
+  url: URL; // The URL the client connected to, e.g. ws://host/call/42?codec=red
+  request: IncomingMessage; // The HTTP upgrade request, with its headers
+  address: string; // The client's IP address
+  claims: WebSocketClaims; // What authentication established, e.g. the user (empty without auth)
+}
+
+/**
+ * Chooses the backend for a new WebSocket connection
+ */
+export type WebSocketBackendFactory = (
+  context: WebSocketConnectionContext
+) => WebSocketBackend | Promise<WebSocketBackend>;
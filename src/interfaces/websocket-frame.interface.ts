@@ -0,0 +1,36 @@
+import { LLMMetadata } from './text-data-stream.interface';
+
+/**
+ * The content of a frame of the t140.v1 WebSocket subprotocol
+ * - 'start': A stream begins
+ * - 'text': T.140 text, without backspaces
+ * - 'erase': Erase the last `count` characters (T.140 backspaces)
+ * - 'metadata': LLM metadata, such as a tool call
+ * - 'end': The stream ended normally
+ * - 'error': The stream or the peer failed
+ * - 'keepalive': Nothing to send; keeps idle connections open
+ * - 'session': From the server, the token that resumes this client's session
+ * - 'ack': From the server, every frame up to `ack` has arrived
+ * - 'resume': From a reconnected client, before it replays the frames the
+ *   server has not acknowledged; its seq is that of the first new frame
+ *   after the replay
+ */
+export type T140WebSocketFrameBody =
+  | { type: 'start' }
+  | { type: 'text'; text: string }
+  | { type: 'erase'; count: number }
+  | { type: 'metadata'; metadata: LLMMetadata }
+  | { type: 'end' }
+  | { type: 'error'; message: string }
+  | { type: 'keepalive' }
+  | { type: 'session'; token: string }
+  | { type: 'ack'; ack: number }
+  | { type: 'resume'; token: string };
+
+/**
+ * A frame of the t140.v1 WebSocket subprotocol, sent as one JSON text message
+ *
+ * `seq` counts the frames each side sends, from 0, so the receiver can
+ * detect a gap and drop frames it already has.
+ */
+export type T140WebSocketFrame = T140WebSocketFrameBody & { seq: number };
@@ -7,11 +7,25 @@ export interface TLSOptions {
   key?: string;
 }
 
+/**
+ * Interface for reconnecting a T140WebSocketClient after its connection drops
+ */
+export interface WebSocketReconnectOptions {
+  delay?: number; // ms before the first reconnect, doubled per attempt (default: 500)
+  maxDelay?: number; // Cap on the reconnect delay in ms (default: 30000)
+  jitter?: number; // Fraction of each delay taken off at random, 0 to 1 (default: 0.5)
+  maxAttempts?: number; // Reconnects in a row before giving up (default: unlimited)
+  replayBufferSize?: number; // Unacknowledged t140.v1 frames kept for replay (default: 1024)
+}
+
 export interface WebSocketOptions {
   tlsOptions?: TLSOptions;
+  subprotocol?: boolean; // Offer t140.v1; the server must accept it (default: false, raw text)
+  reconnect?: boolean | WebSocketReconnectOptions; // Reconnect and resume (default: false)
 }
 
 export interface AttachStreamOptions extends ProcessorOptions {
   sendMetadataOverWebsocket?: boolean;
   tlsOptions?: TLSOptions;
+  keepaliveInterval?: number; // Idle ms before a t140.v1 keepalive, 0 for none (default: 15000)
 }
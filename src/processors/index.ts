@@ -3,3 +3,4 @@ export * from './process-ai-stream-to-rtp';
 export * from './process-ai-stream-to-srtp';
 export * from './process-ai-stream-to-direct-socket';
 export * from './process-ai-stream-to-multiplex';
+export * from './t140-agent-session';
@@ -7,6 +7,7 @@ import {
   TransportStream,
 } from '../interfaces';
 import { createRtpPacket } from '../rtp/create-rtp-packet';
+import { SeqpacketTransport } from '../transport/seqpacket-transport';
 import {
   DEFAULT_T140_PAYLOAD_TYPE,
   MAX_METADATA_PAYLOAD_SIZE,
@@ -103,6 +104,10 @@ export function attachStreamToDirectSocketTransport(
 /**
  * Creates a direct socket transport for T.140 RTP transmission
  *
+ * Unless a customTransport is given, packets go to a SeqpacketTransport,
+ * one packet per SEQPACKET message (or length-prefixed with
+ * `socketFraming: 'length-prefixed'`).
+ *
  * @param socketPath Path to the SEQPACKET socket
  * @param rtpConfig RTP configuration options
  * @returns The transport and a function to attach a stream to it
@@ -122,8 +127,8 @@ export function createDirectSocketTransport(
     ssrc: number;
   };
 } {
-  const transport =
-    rtpConfig.customTransport || net.createConnection(socketPath);
+  const transport = rtpConfig.customTransport ||
+    new SeqpacketTransport(socketPath, { framing: rtpConfig.socketFraming });
 
   const rtpState = {
     sequenceNumber: rtpConfig.initialSequenceNumber || 0,
@@ -14,6 +14,14 @@ import {
   resolveStreamOptions,
 } from '../utils/stream-processor';
 
+/**
+ * Options controlling the lifetime of a stream attached to an RTP transport
+ */
+export interface RtpStreamAttachOptions {
+  keepTransportOpen?: boolean; // Leave the transport open when the stream ends (default: false)
+  onClose?: () => void; // Called once the stream has ended or failed and its text was sent
+}
+
 /**
  * Attach a stream to an existing T140 RTP transport with rate limiting
  *
@@ -21,29 +29,34 @@ import {
  * @param stream The stream to attach
  * @param rtpConfig RTP configuration options
  * @param processorOptions Processor options for handling the stream
+ * @param attachOptions Options controlling what happens when the stream ends
+ * @returns A function that cancels the stream: queued text is dropped and
+ * nothing more is read from the stream
  */
 export function attachStreamToRtpTransport(
   transport: T140RtpTransport,
   stream: TextDataStream,
   rtpConfig: RtpConfig = {},
-  processorOptions: ProcessorOptions = {}
-): void {
-  const charRateLimit = rtpConfig.charRateLimit || DEFAULT_CHAR_RATE_LIMIT;
+  processorOptions: ProcessorOptions = {},
+  attachOptions: RtpStreamAttachOptions = {}
+): () => void {
+  const configuredRateLimit = rtpConfig.charRateLimit || DEFAULT_CHAR_RATE_LIMIT;
   const charQueue: string[] = [];
   let lastSendTime = Date.now();
-  let tokenBucket = charRateLimit;
-  const tokenRefillRate = charRateLimit / TOKEN_REFILL_RATE_DIVISOR;
+  let tokenBucket = transport.getCharRateLimit() ?? configuredRateLimit;
   let drainTimer: NodeJS.Timeout | null = null;
   let isIdle = true;
   let idleTimer: NodeJS.Timeout | null = null;
 
   function refillTokens(): void {
+    // The transport's limit may be changed while the stream runs (e.g. under congestion)
+    const charRateLimit = transport.getCharRateLimit() ?? configuredRateLimit;
     const now = Date.now();
     const elapsedMs = now - lastSendTime;
     lastSendTime = now;
     tokenBucket = Math.min(
       charRateLimit,
-      tokenBucket + elapsedMs * tokenRefillRate
+      tokenBucket + elapsedMs * (charRateLimit / TOKEN_REFILL_RATE_DIVISOR)
     );
   }
 
@@ -82,7 +95,12 @@ export function attachStreamToRtpTransport(
     metadataCallback: rtpConfig.metadataCallback,
   });
 
-  attachStreamProcessor(stream, options, {
+  function clearTimers(): void {
+    if (drainTimer) { clearTimeout(drainTimer); drainTimer = null; }
+    if (idleTimer) { clearTimeout(idleTimer); idleTimer = null; }
+  }
+
+  const detach = attachStreamProcessor(stream, options, {
     sendText: (text, graphemes) => {
       charQueue.push(...(graphemes || toGraphemes(text)));
       if (!drainTimer) {
@@ -90,18 +108,25 @@ export function attachStreamToRtpTransport(
       }
     },
     onStreamEnd: () => {
-      if (drainTimer) { clearTimeout(drainTimer); drainTimer = null; }
-      if (idleTimer) { clearTimeout(idleTimer); idleTimer = null; }
+      clearTimers();
       if (charQueue.length > 0) {
         transport.sendText(charQueue.join(''));
       }
     },
     close: () => {
-      if (drainTimer) { clearTimeout(drainTimer); drainTimer = null; }
-      if (idleTimer) { clearTimeout(idleTimer); idleTimer = null; }
-      transport.close();
+      clearTimers();
+      if (!attachOptions.keepTransportOpen) {
+        transport.close();
+      }
+      attachOptions.onClose?.();
     },
   });
+
+  return () => {
+    detach();
+    clearTimers();
+    charQueue.length = 0;
+  };
 }
 
 /**
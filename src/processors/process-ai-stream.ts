@@ -1,97 +1,126 @@
 import WebSocket from 'ws';
-import { AttachStreamOptions, TextDataStream, WebSocketOptions } from '../interfaces';
-import { WS_SERVER_PORT } from '../utils/constants';
+import {
+  AttachStreamOptions,
+  T140WebSocketFrameBody,
+  TextDataStream,
+  WebSocketOptions,
+} from '../interfaces';
+import { T140WebSocketClient } from '../transport/websocket-client';
+import { DEFAULT_WS_KEEPALIVE_INTERVAL, WS_SERVER_PORT } from '../utils/constants';
 import {
   attachStreamProcessor,
   resolveStreamOptions,
 } from '../utils/stream-processor';
 
-function isWebSocketConnected(ws: WebSocket): boolean {
-  return ws.readyState === WebSocket.OPEN;
-}
-
 /**
  * Attach a stream to an existing WebSocket connection
  *
- * @param ws The WebSocket connection to attach the stream to
+ * If the connection negotiated the t140.v1 subprotocol, the stream is sent
+ * as typed frames with sequence numbers: 'start', then 'text' and 'erase'
+ * (for backspaces), 'metadata' when enabled, and 'end' or 'error' when the
+ * stream finishes, with 'keepalive' frames while it is idle. Otherwise text
+ * is sent as raw text messages and metadata as `{ type: 'metadata' }` JSON.
+ * Anything sent before the connection opens is held until it does.
+ *
+ * Given a T140WebSocketClient with `reconnect`, the stream also survives
+ * the connection dropping and being resumed.
+ *
+ * @param ws The WebSocket connection or client to attach the stream to
  * @param stream The stream to attach
  * @param processorOptions Processor options for handling the stream
  */
 export function attachStreamToWebSocket(
-  ws: WebSocket,
+  ws: WebSocket | T140WebSocketClient,
   stream: TextDataStream,
   processorOptions: AttachStreamOptions = {}
 ): void {
-  let buffer = '';
+  const client = ws instanceof T140WebSocketClient ? ws : new T140WebSocketClient(ws);
+  const keepaliveInterval = processorOptions.keepaliveInterval ?? DEFAULT_WS_KEEPALIVE_INTERVAL;
+  let keepaliveTimer: NodeJS.Timeout | null = null;
 
-  ws.on('open', () => {
-    const sock = (ws as any)._socket;
-    if (sock && typeof sock.setNoDelay === 'function') {
-      sock.setNoDelay(true);
-    }
-    if (buffer) {
-      const dataToSend = buffer;
-      buffer = '';
-      ws.send(dataToSend);
+  const stopKeepalive = () => {
+    if (keepaliveTimer) { clearTimeout(keepaliveTimer); keepaliveTimer = null; }
+  };
+  const armKeepalive = () => {
+    stopKeepalive();
+    if (keepaliveInterval > 0 && client.state === 'open' && client.usesSubprotocol) {
+      keepaliveTimer = setTimeout(() => {
+        keepaliveTimer = null;
+        send({ type: 'keepalive' });
+      }, keepaliveInterval);
     }
-  });
+  };
+  const send = (body: T140WebSocketFrameBody) => {
+    client.send(body);
+    armKeepalive();
+  };
+
+  client.on('open', armKeepalive);
+  client.on('reconnecting', stopKeepalive);
+  client.on('close', stopKeepalive);
 
   const options = resolveStreamOptions(processorOptions, {
     sendMetadataOverTransport: processorOptions.sendMetadataOverWebsocket,
   });
 
-  attachStreamProcessor(stream, options, {
-    sendText: (text) => {
-      if (isWebSocketConnected(ws)) {
-        ws.send(text);
-      } else {
-        buffer += text;
-      }
-    },
-    sendMetadata: (metadata) => {
-      if (isWebSocketConnected(ws)) {
-        ws.send(JSON.stringify({ type: 'metadata', content: metadata }));
-      }
+  send({ type: 'start' });
+  attachStreamProcessor(stream, {
+    ...options,
+    onError: (error) => {
+      send({ type: 'error', message: error.message });
+      options.onError?.(error);
     },
+  }, {
+    sendText: (text) => send({ text, type: 'text' }),
+    sendMetadata: (metadata) => send({ metadata, type: 'metadata' }),
+    onStreamEnd: () => send({ type: 'end' }),
     close: () => {
-      if (isWebSocketConnected(ws)) {
-        ws.close();
-      }
+      stopKeepalive();
+      client.close();
     },
   });
 }
 
+/**
+ * Create a WebSocket connection for T.140, before the stream is available
+ *
+ * Text is sent as raw text messages unless `options.subprotocol` offers
+ * t140.v1, which the server must then accept. With `options.reconnect`,
+ * the connection is reopened when it drops and, with t140.v1, the stream
+ * resumes where the server's acknowledgements left off (see
+ * T140WebSocketClient); `connection` is then whichever socket is current.
+ *
+ * @param websocketUrl The URL to connect to
+ * @param options TLS, subprotocol and reconnect settings
+ * @returns The connection, its client and a function to attach a stream
+ */
 export function createT140WebSocketTransport(
   websocketUrl: string = `ws://localhost:${WS_SERVER_PORT}`,
   options: WebSocketOptions = {}
 ): {
   connection: WebSocket;
+  client: T140WebSocketClient;
   attachStream: (
     stream: TextDataStream,
     processorOptions?: AttachStreamOptions
   ) => void;
 } {
-  const isSecure = websocketUrl.startsWith('wss://');
-  const wsOptions: WebSocket.ClientOptions =
-    isSecure && options.tlsOptions
-      ? {
-        rejectUnauthorized: options.tlsOptions.rejectUnauthorized !== false,
-        ca: options.tlsOptions.ca,
-        cert: options.tlsOptions.cert,
-        key: options.tlsOptions.key,
-      }
-      : {};
-
-  const ws = new WebSocket(websocketUrl, wsOptions);
+  const client = new T140WebSocketClient(websocketUrl, options);
 
   const attachStream = (
     stream: TextDataStream,
     processorOptions: AttachStreamOptions = {}
   ) => {
-    attachStreamToWebSocket(ws, stream, processorOptions);
+    attachStreamToWebSocket(client, stream, processorOptions);
   };
 
-  return { attachStream, connection: ws };
+  return {
+    attachStream,
+    client,
+    get connection(): WebSocket {
+      return client.socket;
+    },
+  };
 }
 
 /** @deprecated Use createT140WebSocketTransport instead */
@@ -108,6 +137,7 @@ export function processAIStream(
     handleMetadata: options.handleMetadata,
     metadataCallback: options.metadataCallback,
     sendMetadataOverWebsocket: options.sendMetadataOverWebsocket,
+    keepaliveInterval: options.keepaliveInterval,
     onError: options.onError,
   };
 
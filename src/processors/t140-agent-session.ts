@@ -0,0 +1,381 @@
+import { EventEmitter } from 'events';
+import {
+  AgentReplySignal,
+  T140AgentSessionConfig,
+  T140RtpError,
+  TextDataStream,
+} from '../interfaces';
+import { T140RtpReceiver } from '../rtp/t140-rtp-receiver';
+import { T140RtpTransport } from '../rtp/t140-rtp-transport';
+import {
+  DEFAULT_RTP_PORT,
+  DEFAULT_TURN_IDLE_TIMEOUT,
+  LINE_SEPARATOR,
+} from '../utils/constants';
+import { ErrorFactory } from '../utils/error-factory';
+import { T140Presentation } from '../utils/t140-presentation';
+import { attachStreamToRtpTransport } from './process-ai-stream-to-rtp';
+
+/**
+ * The signal handed to one reply, aborted when the reply is cancelled
+ */
+class ReplySignal implements AgentReplySignal {
+  private emitter: EventEmitter = new EventEmitter();
+  private cancelled: boolean = false;
+
+  get aborted(): boolean {
+    return this.cancelled;
+  }
+
+  addEventListener(type: 'abort', listener: () => void): void {
+    this.emitter.on(type, listener);
+  }
+
+  removeEventListener(type: 'abort', listener: () => void): void {
+    this.emitter.removeListener(type, listener);
+  }
+
+  abort(): void {
+    if (!this.cancelled) {
+      this.cancelled = true;
+      this.emitter.emit('abort');
+      this.emitter.removeAllListeners();
+    }
+  }
+}
+
+/**
+ * End a reply stream nobody will read, so the request behind it is closed
+ */
+function releaseStream(stream: TextDataStream): void {
+  const destroyable = stream as { destroy?: () => void };
+  try {
+    if (typeof destroyable.destroy === 'function') {
+      destroyable.destroy();
+    } else if (Symbol.asyncIterator in stream) {
+      const iterator = (stream as AsyncIterable<unknown>)[Symbol.asyncIterator]();
+      iterator.return?.()?.catch(() => undefined);
+    }
+  } catch {
+    // The stream is being dropped either way
+  }
+}
+
+/**
+ * Why a reply was cancelled
+ */
+export type AgentReplyCancelReason = 'barge-in' | 'cancel' | 'close';
+
+/**
+ * A reply that is being produced or sent
+ */
+interface ActiveReply {
+  signal: ReplySignal;
+  cancel?: () => void; // Set once the reply stream is attached to the transport
+}
+
+/**
+ * A conversational T.140 session between an agent (e.g. an LLM) and a
+ * remote party typing in real time
+ *
+ * The remote party's text arrives through a T140RtpReceiver and is applied
+ * to a T140Presentation, so backspaces are honoured. A turn ends on a line
+ * break, after `turnIdleTimeout` ms without typing, or when `isEndOfTurn`
+ * returns true. The reply function is then called with the turn's text and
+ * the TextDataStream it returns is sent back through the rate-limited RTP
+ * pipeline. If the remote party starts typing while a reply is being sent
+ * (barge-in), the reply is cancelled and its signal is aborted. A stream
+ * returned after its reply was cancelled is destroyed, or its iterator
+ * returned, without being read.
+ *
+ * Events:
+ * - 'text': Emitted when the remote party's current turn changes (text: string)
+ * - 'turn': Emitted with the text of each completed remote turn (text: string)
+ * - 'replyStart': Emitted when the reply function is called (text: string, turn: number)
+ * - 'replyEnd': Emitted once a reply has been sent in full (turn: number)
+ * - 'replyCancelled': Emitted when a reply is cut short
+ *   (turn: number, reason: AgentReplyCancelReason)
+ * - 'close': Emitted after the session has been closed
+ * - 'error': Emitted with a T140RtpError from the transport or receiver, or an
+ *   AGENT_ERROR when the reply function or its stream fails
+ *
+ * Example usage:
+ * ```typescript
+ * const session = createT140AgentSession({
+ *   remoteAddress: '192.0.2.10',
+ *   receiverConfig: { localPort: 5004 },
+ *   reply: async (text, { signal }) => {
+ *     const stream = await openai.chat.completions.create({ ... });
+ *     signal.addEventListener('abort', () => stream.controller.abort());
+ *     return stream;
+ *   },
+ * });
+ * ```
+ */
+export class T140AgentSession extends EventEmitter {
+  readonly transport: T140RtpTransport;
+  readonly receiver: T140RtpReceiver;
+  private config: T140AgentSessionConfig;
+  private presentation: T140Presentation = new T140Presentation();
+  private idleTimer?: ReturnType<typeof setTimeout>;
+  private activeReply?: ActiveReply;
+  private activeTurn: number = 0;
+  private pendingTurns: string[] = [];
+  private turnCount: number = 0;
+  private closed: boolean = false;
+
+  constructor(config: T140AgentSessionConfig) {
+    super();
+
+    if (typeof config.reply !== 'function') {
+      throw new Error('An agent session requires a reply function');
+    }
+    if (config.turnIdleTimeout !== undefined && config.turnIdleTimeout < 0) {
+      throw new Error('Turn idle timeout must not be negative');
+    }
+
+    this.config = {
+      ...config,
+      remotePort: config.remotePort ?? DEFAULT_RTP_PORT,
+      rtpConfig: config.rtpConfig ?? {},
+      turnIdleTimeout: config.turnIdleTimeout ?? DEFAULT_TURN_IDLE_TIMEOUT,
+      endTurnOnNewline: config.endTurnOnNewline ?? true,
+      bargeIn: config.bargeIn ?? true,
+      endReplyWithNewline: config.endReplyWithNewline ?? true,
+      processorOptions: config.processorOptions ?? {},
+    };
+
+    this.transport = new T140RtpTransport(
+      config.remoteAddress,
+      this.config.remotePort,
+      this.config.rtpConfig
+    );
+    this.receiver = new T140RtpReceiver(config.receiverConfig);
+
+    this.transport.on('error', (err: T140RtpError) => this.emit('error', err));
+    this.receiver.on('error', (err: T140RtpError) => this.emit('error', err));
+    this.receiver.on('data', (text: string) => this._handleRemoteText(text));
+  }
+
+  /**
+   * Whether a reply is currently being produced or sent
+   */
+  get replying(): boolean {
+    return this.activeReply !== undefined;
+  }
+
+  /**
+   * The remote party's text for the turn in progress
+   */
+  get currentTurnText(): string {
+    return this.presentation.text;
+  }
+
+  /**
+   * Cancel the reply in progress, if any
+   *
+   * @returns true if a reply was cancelled
+   */
+  cancelReply(): boolean {
+    return this._cancelReply('cancel');
+  }
+
+  /**
+   * Close the session, cancelling any reply and closing the transport and receiver
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    this._clearIdleTimer();
+    this.pendingTurns = [];
+    this._cancelReply('close');
+    this.receiver.close();
+    this.transport.close();
+    this.emit('close');
+  }
+
+  /**
+   * Apply text typed by the remote party and check for the end of the turn
+   */
+  private _handleRemoteText(text: string): void {
+    if (this.closed) {
+      return;
+    }
+
+    const previous = this.presentation.text;
+    this.presentation.write(text);
+    if (this.presentation.text === previous) {
+      // Keepalives and control codes are not typing
+      return;
+    }
+
+    if (this.config.bargeIn && this.activeReply) {
+      this._cancelReply('barge-in');
+    }
+
+    this.emit('text', this.presentation.text);
+    this._restartIdleTimer();
+    this._checkEndOfTurn();
+  }
+
+  private _checkEndOfTurn(): void {
+    const text = this.presentation.text;
+
+    if (this.config.endTurnOnNewline) {
+      const lineBreak = text.lastIndexOf('\n');
+      if (lineBreak >= 0) {
+        this._endTurn(text.slice(0, lineBreak), text.slice(lineBreak + 1));
+        return;
+      }
+    }
+
+    if (this.config.isEndOfTurn?.(text)) {
+      this._endTurn(text, '');
+    }
+  }
+
+  private _restartIdleTimer(): void {
+    this._clearIdleTimer();
+    if (!this.config.turnIdleTimeout) {
+      return;
+    }
+
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = undefined;
+      this._endTurn(this.presentation.text, '');
+    }, this.config.turnIdleTimeout);
+  }
+
+  private _clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = undefined;
+    }
+  }
+
+  /**
+   * Hand a finished turn to the reply function, keeping any text typed after it
+   */
+  private _endTurn(turnText: string, remainder: string): void {
+    this._clearIdleTimer();
+    this.presentation.clear();
+    if (remainder) {
+      this.presentation.write(remainder);
+      this._restartIdleTimer();
+    }
+
+    const text = turnText.trim();
+    if (!text) {
+      return;
+    }
+
+    this.emit('turn', text);
+    if (this.activeReply) {
+      // Barge-in is off: answer once the current reply is done
+      this.pendingTurns.push(text);
+    } else {
+      this._startReply(text);
+    }
+  }
+
+  private _startReply(text: string): void {
+    const reply: ActiveReply = { signal: new ReplySignal() };
+    this.turnCount += 1;
+    const turn = this.turnCount;
+    this.activeReply = reply;
+    this.activeTurn = turn;
+    this.emit('replyStart', text, turn);
+
+    Promise.resolve()
+      .then(() => this.config.reply(text, { turn, signal: reply.signal }))
+      .then((stream: TextDataStream) => {
+        if (this.activeReply !== reply) {
+          // Cancelled while the reply was being produced
+          releaseStream(stream);
+          return;
+        }
+
+        const processorOptions = this.config.processorOptions!;
+        reply.cancel = attachStreamToRtpTransport(
+          this.transport,
+          stream,
+          this.config.rtpConfig,
+          {
+            ...processorOptions,
+            onError: (err: Error) => {
+              processorOptions.onError?.(err);
+              this._failReply(reply, err);
+            },
+          },
+          {
+            keepTransportOpen: true,
+            onClose: () => this._finishReply(reply),
+          }
+        );
+      })
+      .catch((err) => {
+        this._failReply(reply, err instanceof Error ? err : new Error(String(err)));
+      });
+  }
+
+  private _finishReply(reply: ActiveReply): void {
+    if (this.activeReply !== reply) {
+      return;
+    }
+    this.activeReply = undefined;
+
+    if (this.config.endReplyWithNewline) {
+      this.transport.sendText(LINE_SEPARATOR);
+    }
+    this.emit('replyEnd', this.activeTurn);
+    this._startPendingTurn();
+  }
+
+  private _failReply(reply: ActiveReply, err: Error): void {
+    if (this.activeReply !== reply) {
+      return;
+    }
+    this.activeReply = undefined;
+
+    this.emit('error', ErrorFactory.AGENT('Agent reply failed', err));
+    this._startPendingTurn();
+  }
+
+  private _cancelReply(reason: AgentReplyCancelReason): boolean {
+    const reply = this.activeReply;
+    if (!reply) {
+      return false;
+    }
+    this.activeReply = undefined;
+
+    reply.signal.abort();
+    reply.cancel?.();
+    if (this.config.endReplyWithNewline && reason !== 'close') {
+      // Start the next reply on a fresh line
+      this.transport.sendText(LINE_SEPARATOR);
+    }
+    this.emit('replyCancelled', this.activeTurn, reason);
+    return true;
+  }
+
+  private _startPendingTurn(): void {
+    const next = this.pendingTurns.shift();
+    if (next !== undefined && !this.closed) {
+      this._startReply(next);
+    }
+  }
+}
+
+/**
+ * Create a bidirectional T.140 session in which an agent replies to the
+ * remote party's typed turns
+ *
+ * @param config Session configuration, including the reply function
+ * @returns The session
+ */
+export function createT140AgentSession(config: T140AgentSessionConfig): T140AgentSession {
+  return new T140AgentSession(config);
+}
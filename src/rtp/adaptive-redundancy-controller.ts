@@ -0,0 +1,264 @@
+import { EventEmitter } from 'events';
+import {
+  AdaptiveControllerConfig,
+  AdaptiveDecision,
+  AdaptiveFeedback,
+} from '../interfaces';
+import {
+  DEFAULT_CHAR_RATE_LIMIT,
+  DEFAULT_CONGESTION_LOSS_THRESHOLD,
+  DEFAULT_CONGESTION_RTT,
+  DEFAULT_FEC_LOSS_THRESHOLD,
+  DEFAULT_FEEDBACK_SMOOTHING,
+  DEFAULT_HIGH_LOSS_THRESHOLD,
+  DEFAULT_LOW_LOSS_THRESHOLD,
+  DEFAULT_MAX_REDUNDANCY_LEVEL,
+  DEFAULT_MIN_CHAR_RATE_LIMIT,
+  DEFAULT_MIN_REDUNDANCY_LEVEL,
+  DEFAULT_RATE_DECREASE_FACTOR,
+  DEFAULT_RATE_INCREASE_STEP,
+  DEFAULT_STABLE_REPORTS,
+} from '../utils/constants';
+import { RtcpReceptionReport } from './rtcp';
+import { T140RtpTransport } from './t140-rtp-transport';
+
+/**
+ * Format a loss fraction for decision reasons
+ */
+function formatLoss(fractionLost: number): string {
+  return `${(fractionLost * 100).toFixed(1)}%`;
+}
+
+/**
+ * Adapts a transport's redundancy, FEC and character rate to the path
+ *
+ * Feedback comes from the transport's RTCP receiver reports, or from any
+ * other channel through update(). Loss is smoothed over reports, then:
+ * - loss at or above `highLossThreshold` raises the RED generation count
+ *   one step at a time (when RED is enabled), and loss at or above
+ *   `fecLossThreshold` with redundancy maxed out (or RED off) switches FEC on
+ * - `stableReports` clean reports in a row switch FEC off again, then lower
+ *   the RED generation count one step at a time
+ * - loss at or above `congestionLossThreshold`, or a round-trip time at or
+ *   above `congestionRtt`, cuts the cps cap; it is raised again in small
+ *   steps while the path is not congested
+ *
+ * Events:
+ * - 'decision': Emitted for every settings change (decision: AdaptiveDecision)
+ *
+ * Example usage:
+ * ```typescript
+ * const transport = new T140RtpTransport('192.0.2.10', 5004, {
+ *   redEnabled: true,
+ *   rtcpEnabled: true,
+ * });
+ * const controller = new AdaptiveRedundancyController(transport);
+ * controller.on('decision', (d) => console.log(`${d.setting} -> ${d.value}: ${d.reason}`));
+ * ```
+ */
+export class AdaptiveRedundancyController extends EventEmitter {
+  private transport: T140RtpTransport;
+  private config: Required<AdaptiveControllerConfig>;
+  private smoothedLoss?: number;
+  private cleanReports: number = 0;
+  private charRateLimit: number;
+  private reportListener?: (report: RtcpReceptionReport) => void;
+
+  constructor(transport: T140RtpTransport, config: AdaptiveControllerConfig = {}) {
+    super();
+
+    const transportConfig = transport.getConfig();
+    const currentRateLimit = transport.getCharRateLimit() ??
+      (transportConfig.charRateLimit || DEFAULT_CHAR_RATE_LIMIT);
+
+    this.transport = transport;
+    this.config = {
+      minRedundancyLevel: config.minRedundancyLevel ?? DEFAULT_MIN_REDUNDANCY_LEVEL,
+      maxRedundancyLevel: config.maxRedundancyLevel ?? DEFAULT_MAX_REDUNDANCY_LEVEL,
+      highLossThreshold: config.highLossThreshold ?? DEFAULT_HIGH_LOSS_THRESHOLD,
+      lowLossThreshold: config.lowLossThreshold ?? DEFAULT_LOW_LOSS_THRESHOLD,
+      fecLossThreshold: config.fecLossThreshold ?? DEFAULT_FEC_LOSS_THRESHOLD,
+      allowFec: config.allowFec ?? true,
+      congestionLossThreshold: config.congestionLossThreshold ?? DEFAULT_CONGESTION_LOSS_THRESHOLD,
+      congestionRtt: config.congestionRtt ?? DEFAULT_CONGESTION_RTT,
+      minCharRateLimit: config.minCharRateLimit ?? DEFAULT_MIN_CHAR_RATE_LIMIT,
+      maxCharRateLimit: config.maxCharRateLimit ?? currentRateLimit,
+      rateDecreaseFactor: config.rateDecreaseFactor ?? DEFAULT_RATE_DECREASE_FACTOR,
+      rateIncreaseStep: config.rateIncreaseStep ?? DEFAULT_RATE_INCREASE_STEP,
+      smoothing: config.smoothing ?? DEFAULT_FEEDBACK_SMOOTHING,
+      stableReports: config.stableReports ?? DEFAULT_STABLE_REPORTS,
+    };
+
+    const {
+      minRedundancyLevel,
+      maxRedundancyLevel,
+      lowLossThreshold,
+      highLossThreshold,
+      minCharRateLimit,
+      maxCharRateLimit,
+      smoothing,
+    } = this.config;
+    if (minRedundancyLevel < 1 || maxRedundancyLevel < minRedundancyLevel) {
+      throw new Error('Redundancy levels must satisfy 1 <= min <= max');
+    }
+    if (lowLossThreshold > highLossThreshold) {
+      throw new Error('Low loss threshold must not exceed the high loss threshold');
+    }
+    if (minCharRateLimit <= 0 || maxCharRateLimit < minCharRateLimit) {
+      throw new Error('Character rate limits must satisfy 0 < min <= max');
+    }
+    if (smoothing <= 0 || smoothing > 1) {
+      throw new Error('Smoothing must be greater than 0 and at most 1');
+    }
+
+    this.charRateLimit = Math.min(maxCharRateLimit, Math.max(minCharRateLimit, currentRateLimit));
+
+    this.reportListener = (report: RtcpReceptionReport) => {
+      this.update({ fractionLost: report.fractionLost, roundTripTime: report.roundTripTime });
+    };
+    this.transport.on('receiverReport', this.reportListener);
+  }
+
+  /**
+   * The smoothed loss fraction, once feedback has arrived
+   */
+  get fractionLost(): number | undefined {
+    return this.smoothedLoss;
+  }
+
+  /**
+   * Apply one piece of feedback and adjust the transport
+   *
+   * Called automatically for RTCP receiver reports about the transport's
+   * stream; call it directly for feedback from other channels.
+   *
+   * @param feedback Loss (and optionally round-trip time) since the previous feedback
+   */
+  update(feedback: AdaptiveFeedback): void {
+    const sample = Math.min(1, Math.max(0, feedback.fractionLost));
+    this.smoothedLoss = this.smoothedLoss === undefined
+      ? sample
+      : this.config.smoothing * sample + (1 - this.config.smoothing) * this.smoothedLoss;
+
+    this._adjustRate(this.smoothedLoss, feedback.roundTripTime);
+    this._adjustProtection(this.smoothedLoss, feedback.roundTripTime);
+  }
+
+  /**
+   * Stop following the transport's receiver reports
+   */
+  stop(): void {
+    if (this.reportListener) {
+      this.transport.removeListener('receiverReport', this.reportListener);
+      this.reportListener = undefined;
+    }
+  }
+
+  /**
+   * Cut the cps cap under congestion, and restore it gradually otherwise
+   */
+  private _adjustRate(loss: number, roundTripTime?: number): void {
+    const { congestionLossThreshold, congestionRtt, highLossThreshold } = this.config;
+    const previous = this.charRateLimit;
+
+    if (loss >= congestionLossThreshold) {
+      this._cutRate(loss, roundTripTime, `congestion: loss ${formatLoss(loss)}`);
+    } else if (roundTripTime !== undefined && roundTripTime >= congestionRtt) {
+      this._cutRate(loss, roundTripTime, `congestion: round-trip time ${Math.round(roundTripTime)} ms`);
+    } else if (loss < highLossThreshold && previous < this.config.maxCharRateLimit) {
+      this.charRateLimit = Math.min(
+        this.config.maxCharRateLimit,
+        previous + this.config.rateIncreaseStep
+      );
+      this._apply('charRateLimit', previous, this.charRateLimit, loss, roundTripTime,
+        `no congestion: loss ${formatLoss(loss)}`);
+    }
+  }
+
+  private _cutRate(loss: number, roundTripTime: number | undefined, reason: string): void {
+    const previous = this.charRateLimit;
+    this.charRateLimit = Math.max(
+      this.config.minCharRateLimit,
+      Math.floor(previous * this.config.rateDecreaseFactor)
+    );
+    if (this.charRateLimit !== previous) {
+      this._apply('charRateLimit', previous, this.charRateLimit, loss, roundTripTime, reason);
+    }
+  }
+
+  /**
+   * Raise or lower RED redundancy and FEC with the loss level
+   */
+  private _adjustProtection(loss: number, roundTripTime?: number): void {
+    const transportConfig = this.transport.getConfig();
+    const level = transportConfig.redundancyLevel!;
+    const { highLossThreshold, lowLossThreshold, fecLossThreshold } = this.config;
+
+    if (loss >= highLossThreshold) {
+      this.cleanReports = 0;
+      const reason = `loss ${formatLoss(loss)} at or above ${formatLoss(highLossThreshold)}`;
+
+      if (transportConfig.redEnabled && level < this.config.maxRedundancyLevel) {
+        this._apply('redundancyLevel', level, level + 1, loss, roundTripTime, reason);
+      } else if (this.config.allowFec && !transportConfig.fecEnabled && loss >= fecLossThreshold) {
+        this._apply('fecEnabled', false, true, loss, roundTripTime,
+          `loss ${formatLoss(loss)} at or above ${formatLoss(fecLossThreshold)}`);
+      }
+      return;
+    }
+
+    if (loss > lowLossThreshold) {
+      // Moderate loss: hold the current protection
+      this.cleanReports = 0;
+      return;
+    }
+
+    this.cleanReports += 1;
+    if (this.cleanReports < this.config.stableReports) {
+      return;
+    }
+    this.cleanReports = 0;
+
+    const reason = `${this.config.stableReports} reports at or below ` +
+      `${formatLoss(lowLossThreshold)} loss`;
+    if (this.config.allowFec && transportConfig.fecEnabled) {
+      this._apply('fecEnabled', true, false, loss, roundTripTime, reason);
+    } else if (transportConfig.redEnabled && level > this.config.minRedundancyLevel) {
+      this._apply('redundancyLevel', level, level - 1, loss, roundTripTime, reason);
+    }
+  }
+
+  /**
+   * Change one transport setting and report the decision
+   */
+  private _apply(
+    setting: AdaptiveDecision['setting'],
+    previous: number | boolean,
+    value: number | boolean,
+    fractionLost: number,
+    roundTripTime: number | undefined,
+    reason: string
+  ): void {
+    switch (setting) {
+      case 'redundancyLevel':
+        this.transport.setRedundancyLevel(value as number);
+        break;
+      case 'fecEnabled':
+        this.transport.setFecEnabled(value as boolean);
+        break;
+      case 'charRateLimit':
+        this.transport.setCharRateLimit(value as number);
+        break;
+    }
+
+    const decision: AdaptiveDecision = {
+      setting,
+      previous,
+      value,
+      reason,
+      fractionLost,
+      roundTripTime,
+    };
+    this.emit('decision', decision);
+  }
+}
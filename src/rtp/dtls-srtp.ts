@@ -0,0 +1,226 @@
+import * as crypto from 'crypto';
+import createDebug from 'debug';
+import { Transport } from 'werift-dtls/lib/common/src';
+// werift-dtls 0.5.x has no working package entry point, so import its DTLS module directly
+import {
+  CipherContext,
+  DtlsClient,
+  DtlsServer,
+  DtlsSocket,
+  HashAlgorithm,
+  NamedCurveAlgorithm,
+  SignatureAlgorithm,
+} from 'werift-dtls/lib/dtls/src';
+import {
+  ProtectionProfileAeadAes128Gcm,
+  ProtectionProfileAes128CmHmacSha1_80,
+} from 'werift-rtp';
+import {
+  DtlsCertificate,
+  DtlsSrtpConfig,
+  DtlsSrtpKeys,
+  SrtpProtectionProfile,
+} from '../interfaces';
+import {
+  DEFAULT_DTLS_HANDSHAKE_TIMEOUT,
+  DTLS_FIRST_BYTE_MAX,
+  DTLS_FIRST_BYTE_MIN,
+  SRTP_AEAD_MASTER_SALT_SIZE,
+  SRTP_MASTER_KEY_SIZE,
+  SRTP_MASTER_SALT_SIZE,
+} from '../utils/constants';
+
+const debug = createDebug('t140llm:dtls');
+
+/**
+ * Master key and salt sizes of the profiles werift-dtls can negotiate
+ */
+const PROFILE_KEY_SIZES: Record<number, { keySize: number; saltSize: number }> = {
+  [ProtectionProfileAes128CmHmacSha1_80]: {
+    keySize: SRTP_MASTER_KEY_SIZE,
+    saltSize: SRTP_MASTER_SALT_SIZE,
+  },
+  [ProtectionProfileAeadAes128Gcm]: {
+    keySize: SRTP_MASTER_KEY_SIZE,
+    saltSize: SRTP_AEAD_MASTER_SALT_SIZE,
+  },
+};
+
+const DEFAULT_DTLS_PROFILES: SrtpProtectionProfile[] = [
+  ProtectionProfileAes128CmHmacSha1_80,
+  ProtectionProfileAeadAes128Gcm,
+];
+
+function toDer(certificate: string | Buffer): Buffer {
+  if (Buffer.isBuffer(certificate)) {
+    return certificate;
+  }
+  const base64 = certificate.replace(/-----(BEGIN|END) CERTIFICATE-----/g, '').replace(/\s/g, '');
+  return Buffer.from(base64, 'base64');
+}
+
+/**
+ * Fingerprint of a certificate in SDP a=fingerprint form (RFC 8122)
+ *
+ * @param certificate The certificate as PEM or DER
+ * @param hashFunction Hash function name as used in SDP (default: sha-256)
+ * @returns The fingerprint, e.g. `sha-256 AB:CD:...`
+ */
+export function getDtlsFingerprint(
+  certificate: string | Buffer,
+  hashFunction: string = 'sha-256'
+): string {
+  const digest = crypto.createHash(hashFunction.replace('-', '').toLowerCase())
+    .update(toDer(certificate))
+    .digest('hex')
+    .toUpperCase();
+  return `${hashFunction.toLowerCase()} ${digest.match(/../g)!.join(':')}`;
+}
+
+/**
+ * Create a self-signed ECDSA P-256 certificate for DTLS
+ *
+ * @returns The certificate, its key and its SDP fingerprint
+ */
+export async function createDtlsCertificate(): Promise<DtlsCertificate> {
+  const { certPem, keyPem } = await CipherContext.createSelfSignedCertificateWithKey(
+    { hash: HashAlgorithm.sha256_4, signature: SignatureAlgorithm.ecdsa_3 },
+    NamedCurveAlgorithm.secp256r1_23
+  );
+  return { certPem, keyPem, fingerprint: getDtlsFingerprint(certPem) };
+}
+
+/**
+ * Whether a packet on a shared RTP channel is a DTLS record (RFC 7983)
+ */
+export function isDtlsPacket(data: Buffer): boolean {
+  return data.length > 0 && data[0] >= DTLS_FIRST_BYTE_MIN && data[0] <= DTLS_FIRST_BYTE_MAX;
+}
+
+/**
+ * One DTLS-SRTP (RFC 5764) handshake over a caller-provided packet channel
+ *
+ * The caller sends what `send` is given on the RTP 5-tuple and hands
+ * inbound DTLS records to handlePacket(). Once the handshake completes,
+ * the peer certificate is checked against the fingerprint from its SDP
+ * and the SRTP master keys are exported with the `EXTRACTOR-dtls_srtp`
+ * label. Both sides must present certificates (RFC 5763 §5).
+ *
+ * Example usage:
+ * ```typescript
+ * const session = new DtlsSrtpSession(config, (data) => socket.send(data, port, host));
+ * socket.on('message', (data) => isDtlsPacket(data) && session.handlePacket(data));
+ * const keys = await session.connect();
+ * ```
+ */
+export class DtlsSrtpSession {
+  private config: DtlsSrtpConfig;
+  private socket: DtlsSocket;
+  private channel: Transport;
+  private abort?: (error: Error) => void;
+
+  /**
+   * @param config Role, certificates and profiles
+   * @param send Sends one datagram to the remote party
+   */
+  constructor(config: DtlsSrtpConfig, send: (data: Buffer) => void) {
+    this.config = config;
+    this.channel = {
+      type: 'udp',
+      address: {} as Transport['address'],
+      closed: false,
+      onData: () => undefined,
+      send: (data: Buffer) => Promise.resolve(send(data)),
+      close: async () => undefined,
+    };
+
+    const certificate = config.certificate;
+    const isRsa = crypto.createPrivateKey(certificate.keyPem).asymmetricKeyType === 'rsa';
+    const options = {
+      transport: this.channel,
+      cert: certificate.certPem,
+      key: certificate.keyPem,
+      signatureHash: {
+        hash: HashAlgorithm.sha256_4,
+        signature: isRsa ? SignatureAlgorithm.rsa_1 : SignatureAlgorithm.ecdsa_3,
+      },
+      srtpProfiles: (config.profiles ?? DEFAULT_DTLS_PROFILES) as (1 | 7)[],
+      certificateRequest: true,
+    };
+    this.socket = config.role === 'client' ? new DtlsClient(options) : new DtlsServer(options);
+  }
+
+  /**
+   * Feed one inbound DTLS record
+   */
+  handlePacket(data: Buffer): void {
+    this.channel.onData(data, undefined as never);
+  }
+
+  /**
+   * Run the handshake and export SRTP keys
+   *
+   * @returns Keys for sending and for receiving
+   * @throws Error if the handshake fails or times out, the peer fingerprint
+   * does not match, or no common SRTP profile was negotiated
+   */
+  async connect(): Promise<DtlsSrtpKeys> {
+    const timeout = this.config.handshakeTimeout ?? DEFAULT_DTLS_HANDSHAKE_TIMEOUT;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      await Promise.race([
+        new Promise<void>((resolve, reject) => {
+          this.abort = reject;
+          this.socket.onError.once(reject);
+          if (this.socket instanceof DtlsClient) {
+            this.socket.connect().then(resolve, reject);
+          } else {
+            this.socket.onConnect.once(() => resolve());
+          }
+        }),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`DTLS handshake timed out after ${timeout} ms`)),
+            timeout
+          );
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer!);
+      this.abort = undefined;
+    }
+    debug('DTLS handshake complete as %s', this.config.role);
+
+    const remoteCertificate = this.socket.remoteCertificate;
+    if (!remoteCertificate) {
+      throw new Error('DTLS peer did not present a certificate');
+    }
+    const [hashFunction] = this.config.remoteFingerprint.trim().split(/\s+/);
+    const fingerprint = getDtlsFingerprint(remoteCertificate, hashFunction);
+    if (fingerprint.toLowerCase() !== this.config.remoteFingerprint.trim().toLowerCase()) {
+      throw new Error('DTLS peer certificate does not match the SDP fingerprint');
+    }
+
+    const profile = this.socket.srtp.srtpProfile;
+    const sizes = profile !== undefined ? PROFILE_KEY_SIZES[profile] : undefined;
+    if (!sizes) {
+      throw new Error('DTLS handshake did not negotiate an SRTP profile');
+    }
+    const keys = this.socket.extractSessionKeys(sizes.keySize, sizes.saltSize);
+    // RTCP on the same channel is protected as SRTCP with the same keys (RFC 5764)
+    return {
+      local: { profile, masterKey: keys.localKey, masterSalt: keys.localSalt, isSRTCP: true },
+      remote: { profile, masterKey: keys.remoteKey, masterSalt: keys.remoteSalt, isSRTCP: true },
+    };
+  }
+
+  /**
+   * Stop the handshake or connection
+   */
+  close(): void {
+    this.abort?.(new Error('DTLS session closed'));
+    this.channel.closed = true;
+    this.socket.close();
+  }
+}
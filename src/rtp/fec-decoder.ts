@@ -0,0 +1,278 @@
+import { EventEmitter } from 'events';
+import {
+  DEFAULT_FEC_WINDOW_SIZE,
+  FEC_EXT_OFFSET_FLAGS,
+  FEC_EXT_OFFSET_LENGTH,
+  FEC_EXT_OFFSET_MASK,
+  FEC_EXT_OFFSET_MEDIA_PT,
+  FEC_EXT_OFFSET_SN_BASE,
+  FEC_EXT_OFFSET_TIMESTAMP,
+  FEC_FLAGS_RECOVERY_MASK,
+  FEC_HEADER_EXTENSION_SIZE,
+  MAX_PENDING_FEC_PACKETS,
+  RTP_HEADER_SIZE,
+  RTP_OFFSET_PAYLOAD_TYPE,
+  RTP_OFFSET_SEQUENCE,
+  RTP_OFFSET_SSRC,
+  RTP_OFFSET_TIMESTAMP,
+  RTP_OFFSET_VERSION,
+  RTP_VERSION,
+  RTP_VERSION_SHIFT,
+} from '../utils/constants';
+import {
+  addToSequenceNumber,
+  sequenceNumberDistance,
+} from '../utils/sequence-number';
+import { parseRtpPacket } from './parse-rtp-packet';
+
+/**
+ * The recovery fields of an FEC packet built by T140RtpTransport
+ */
+export interface ParsedFecPacket {
+  sequenceNumber: number; // Sequence number of the FEC packet itself
+  ssrc: number; // SSRC of the FEC stream
+  snBase: number;
+  mask: number; // Bit i set when snBase + i is protected
+  protectedSequenceNumbers: number[];
+  flagsRecovery: number; // XOR of the protected packets' P, X and CC bits
+  payloadTypeRecovery: number; // XOR of the protected packets' M and PT bits
+  timestampRecovery: number;
+  lengthRecovery: number;
+  payload: Buffer; // XOR of everything after the protected packets' fixed headers
+}
+
+/**
+ * What the decoder keeps of each received media packet
+ */
+interface StoredMediaPacket {
+  flags: number;
+  payloadTypeByte: number;
+  timestamp: number;
+  body: Buffer; // Everything after the 12-byte fixed header
+}
+
+/**
+ * Parse an XOR parity packet as produced by T140RtpTransport
+ *
+ * @param data The raw FEC packet
+ * @returns The recovery fields and parity payload
+ * @throws Error if the packet is not a valid RTP packet or the FEC header is truncated
+ */
+export function parseFecPacket(data: Buffer): ParsedFecPacket {
+  const packet = parseRtpPacket(data);
+  const fecData = packet.payload;
+  if (fecData.length < FEC_HEADER_EXTENSION_SIZE) {
+    throw new Error(
+      `FEC header truncated: ${fecData.length} bytes, need ${FEC_HEADER_EXTENSION_SIZE}`
+    );
+  }
+
+  const snBase = fecData.readUInt16BE(FEC_EXT_OFFSET_SN_BASE);
+  const mask = fecData.readUInt16BE(FEC_EXT_OFFSET_MASK);
+  if (mask === 0) {
+    throw new Error('FEC packet does not protect any packets');
+  }
+
+  const protectedSequenceNumbers: number[] = [];
+  for (let bit = 0; bit < 16; bit += 1) {
+    if (mask & (1 << bit)) {
+      protectedSequenceNumbers.push(addToSequenceNumber(snBase, bit));
+    }
+  }
+
+  return {
+    snBase,
+    mask,
+    protectedSequenceNumbers,
+    sequenceNumber: packet.sequenceNumber,
+    ssrc: packet.ssrc,
+    flagsRecovery: fecData.readUInt8(FEC_EXT_OFFSET_FLAGS) & FEC_FLAGS_RECOVERY_MASK,
+    payloadTypeRecovery: fecData.readUInt8(FEC_EXT_OFFSET_MEDIA_PT),
+    timestampRecovery: fecData.readUInt32BE(FEC_EXT_OFFSET_TIMESTAMP),
+    lengthRecovery: fecData.readUInt16BE(FEC_EXT_OFFSET_LENGTH),
+    payload: fecData.slice(FEC_HEADER_EXTENSION_SIZE),
+  };
+}
+
+/**
+ * Rebuilds lost media packets from the XOR parity packets sent by
+ * T140RtpTransport when `fecEnabled` is set (RFC 5109 §8)
+ *
+ * The decoder keeps a window of the most recent media packets. Each FEC
+ * packet names the packets it protects through its SN base and mask; when
+ * exactly one of those is missing, XORing the FEC packet with the others
+ * gives back the missing packet's header fields and payload. FEC packets
+ * that arrive while more than one protected packet is missing are held
+ * until enough media has arrived, or until they fall out of the window.
+ *
+ * Events:
+ * - 'recovered': Emitted with each rebuilt packet (packet: Buffer, sequenceNumber: number,
+ *   total: number), where total is the number of packets recovered so far
+ */
+export class FecDecoder extends EventEmitter {
+  private windowSize: number;
+  private mediaPackets: Map<number, StoredMediaPacket> = new Map();
+  private pendingFecPackets: ParsedFecPacket[] = [];
+  private highestSequenceNumber?: number;
+  private mediaSsrc?: number;
+  private recoveredCount: number = 0;
+
+  constructor(windowSize: number = DEFAULT_FEC_WINDOW_SIZE) {
+    super();
+    this.windowSize = windowSize;
+  }
+
+  /**
+   * Number of media packets rebuilt so far
+   */
+  get recovered(): number {
+    return this.recoveredCount;
+  }
+
+  /**
+   * Record a received media packet, exactly as it arrived on the wire
+   *
+   * @param data The raw RTP packet (including any RED encapsulation)
+   */
+  addMediaPacket(data: Buffer): void {
+    if (data.length < RTP_HEADER_SIZE) {
+      return;
+    }
+
+    const sequenceNumber = data.readUInt16BE(RTP_OFFSET_SEQUENCE);
+    this.mediaSsrc = data.readUInt32BE(RTP_OFFSET_SSRC);
+    this._store(sequenceNumber, {
+      flags: data.readUInt8(RTP_OFFSET_VERSION),
+      payloadTypeByte: data.readUInt8(RTP_OFFSET_PAYLOAD_TYPE),
+      timestamp: data.readUInt32BE(RTP_OFFSET_TIMESTAMP),
+      body: Buffer.from(data.slice(RTP_HEADER_SIZE)),
+    });
+
+    // A new media packet may leave a pending FEC packet with one gap
+    this._processPending();
+  }
+
+  /**
+   * Add a received FEC packet and try to recover from it
+   *
+   * @param data The raw FEC packet
+   * @throws Error if the FEC packet is malformed
+   */
+  addFecPacket(data: Buffer): void {
+    const fec = parseFecPacket(data);
+    this.pendingFecPackets.push(fec);
+    if (this.pendingFecPackets.length > MAX_PENDING_FEC_PACKETS) {
+      this.pendingFecPackets.shift();
+    }
+    this._processPending();
+  }
+
+  /**
+   * Forget all stored media and pending FEC packets
+   */
+  reset(): void {
+    this.mediaPackets.clear();
+    this.pendingFecPackets = [];
+    this.highestSequenceNumber = undefined;
+  }
+
+  /**
+   * Keep a media packet in the window, evicting anything too old
+   */
+  private _store(sequenceNumber: number, packet: StoredMediaPacket): void {
+    this.mediaPackets.set(sequenceNumber, packet);
+
+    if (
+      this.highestSequenceNumber === undefined ||
+      sequenceNumberDistance(this.highestSequenceNumber, sequenceNumber) > 0
+    ) {
+      this.highestSequenceNumber = sequenceNumber;
+    }
+
+    for (const seq of this.mediaPackets.keys()) {
+      if (this._isOutsideWindow(seq)) {
+        this.mediaPackets.delete(seq);
+      }
+    }
+  }
+
+  private _isOutsideWindow(sequenceNumber: number): boolean {
+    return this.highestSequenceNumber !== undefined &&
+      sequenceNumberDistance(sequenceNumber, this.highestSequenceNumber) >= this.windowSize;
+  }
+
+  /**
+   * Try every pending FEC packet, repeating while recoveries unlock others
+   */
+  private _processPending(): void {
+    let progress = true;
+    while (progress) {
+      progress = false;
+      for (const fec of [...this.pendingFecPackets]) {
+        const missing = fec.protectedSequenceNumbers.filter((seq) => {
+          return !this.mediaPackets.has(seq);
+        });
+
+        if (missing.length > 1 && !missing.some((seq) => this._isOutsideWindow(seq))) {
+          // Wait for more media packets
+          continue;
+        }
+
+        // Either fully received, recoverable now, or never recoverable
+        this.pendingFecPackets.splice(this.pendingFecPackets.indexOf(fec), 1);
+        if (missing.length === 1 && !this._isOutsideWindow(missing[0])) {
+          this._recover(fec, missing[0]);
+          progress = true;
+        }
+      }
+    }
+  }
+
+  /**
+   * XOR an FEC packet with the received packets it protects to rebuild the missing one
+   */
+  private _recover(fec: ParsedFecPacket, sequenceNumber: number): void {
+    let flags = fec.flagsRecovery;
+    let payloadTypeByte = fec.payloadTypeRecovery;
+    let timestamp = fec.timestampRecovery;
+    let length = fec.lengthRecovery;
+    const body = Buffer.from(fec.payload);
+
+    for (const seq of fec.protectedSequenceNumbers) {
+      if (seq === sequenceNumber) {
+        continue;
+      }
+      const media = this.mediaPackets.get(seq)!;
+      flags ^= media.flags & FEC_FLAGS_RECOVERY_MASK;
+      payloadTypeByte ^= media.payloadTypeByte;
+      timestamp ^= media.timestamp;
+      length ^= media.body.length;
+      for (let i = 0; i < media.body.length && i < body.length; i += 1) {
+        body[i] ^= media.body[i];
+      }
+    }
+
+    if (length > body.length) {
+      // The parity payload is as long as the longest protected packet,
+      // so a longer length means the FEC packet does not match
+      return;
+    }
+
+    const header = Buffer.alloc(RTP_HEADER_SIZE);
+    header.writeUInt8((RTP_VERSION << RTP_VERSION_SHIFT) | flags, RTP_OFFSET_VERSION);
+    header.writeUInt8(payloadTypeByte, RTP_OFFSET_PAYLOAD_TYPE);
+    header.writeUInt16BE(sequenceNumber, RTP_OFFSET_SEQUENCE);
+    header.writeUInt32BE(timestamp >>> 0, RTP_OFFSET_TIMESTAMP);
+    header.writeUInt32BE(this.mediaSsrc ?? 0, RTP_OFFSET_SSRC);
+    const packet = Buffer.concat([header, body.slice(0, length)]);
+
+    this._store(sequenceNumber, {
+      payloadTypeByte,
+      flags: packet.readUInt8(RTP_OFFSET_VERSION),
+      timestamp: timestamp >>> 0,
+      body: packet.slice(RTP_HEADER_SIZE),
+    });
+    this.recoveredCount += 1;
+    this.emit('recovered', packet, sequenceNumber, this.recoveredCount);
+  }
+}
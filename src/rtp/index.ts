@@ -1,3 +1,13 @@
 export * from './create-rtp-packet';
+export * from './parse-rtp-packet';
+export * from './rtcp';
+export * from './red-depacketizer';
+export * from './fec-decoder';
+export * from './jitter-buffer';
+export * from './adaptive-redundancy-controller';
+export * from './srtp-decryptor';
+export * from './srtcp-encryptor';
+export * from './dtls-srtp';
 export * from './t140-rtp-transport';
+export * from './t140-rtp-receiver';
 export * from './t140-rtp-multiplexer';
@@ -0,0 +1,204 @@
+import { EventEmitter } from 'events';
+import { JitterBufferConfig, JitterBufferStats } from '../interfaces';
+import {
+  DEFAULT_JITTER_BUFFER_DELAY,
+  DEFAULT_REORDER_WINDOW,
+  JITTER_BUFFER_LOSS_HISTORY,
+} from '../utils/constants';
+import {
+  addToSequenceNumber,
+  sequenceNumberDistance,
+} from '../utils/sequence-number';
+import { ParsedRtpPacket } from './parse-rtp-packet';
+
+/**
+ * A packet waiting in the buffer, with the time it arrived
+ */
+interface BufferedPacket {
+  packet: ParsedRtpPacket;
+  arrivedAt: number;
+}
+
+/**
+ * Jitter/reorder buffer that releases RTP packets in sequence order
+ *
+ * Packets ahead of the next expected sequence number are held until the gap
+ * is filled. A gap is given up on once the packet after it has waited
+ * `maxDelay` milliseconds, or once more than `maxPackets` packets are
+ * waiting; the missing packets are then reported through a 'loss' event so
+ * the receiver can insert the RFC 4103 missing-text marker (U+FFFD).
+ *
+ * Events:
+ * - 'packet': Emitted for each packet, in sequence order (ParsedRtpPacket)
+ * - 'loss': Emitted when a gap is given up on (sequenceNumber: number, count: number),
+ *   where sequenceNumber is the first missing packet
+ */
+export class JitterBuffer extends EventEmitter {
+  private maxDelay: number;
+  private maxPackets: number;
+  private expectedSequenceNumber?: number;
+  private buffer: Map<number, BufferedPacket> = new Map();
+  private lostSequenceNumbers: Set<number> = new Set();
+  private gapTimer?: ReturnType<typeof setTimeout>;
+  private stats: JitterBufferStats = {
+    received: 0,
+    delivered: 0,
+    late: 0,
+    duplicate: 0,
+    lost: 0,
+    buffered: 0,
+  };
+
+  constructor(config: JitterBufferConfig = {}) {
+    super();
+    this.maxDelay = config.maxDelay ?? DEFAULT_JITTER_BUFFER_DELAY;
+    this.maxPackets = config.maxPackets ?? DEFAULT_REORDER_WINDOW;
+
+    if (this.maxDelay < 0 || this.maxPackets < 0) {
+      throw new Error('Jitter buffer delay and size must not be negative');
+    }
+  }
+
+  /**
+   * Get a snapshot of the packet counters
+   */
+  getStats(): JitterBufferStats {
+    return { ...this.stats, buffered: this.buffer.size };
+  }
+
+  /**
+   * Add a packet and release everything that is now in order
+   *
+   * @param packet A parsed RTP packet
+   */
+  push(packet: ParsedRtpPacket): void {
+    this.stats.received += 1;
+
+    if (this.expectedSequenceNumber === undefined) {
+      this.expectedSequenceNumber = packet.sequenceNumber;
+    }
+
+    const distance = sequenceNumberDistance(
+      this.expectedSequenceNumber,
+      packet.sequenceNumber
+    );
+
+    if (distance < 0) {
+      // Behind the playout point: either given up on earlier, or a repeat
+      if (this.lostSequenceNumbers.delete(packet.sequenceNumber)) {
+        this.stats.late += 1;
+      } else {
+        this.stats.duplicate += 1;
+      }
+      return;
+    }
+
+    if (this.buffer.has(packet.sequenceNumber)) {
+      this.stats.duplicate += 1;
+      return;
+    }
+
+    this.buffer.set(packet.sequenceNumber, { packet, arrivedAt: Date.now() });
+
+    if (this.buffer.size > this.maxPackets) {
+      // Waited for enough packets: give up on the gap
+      this._skipGap();
+    }
+
+    this._drain();
+  }
+
+  /**
+   * Give up on every gap and release all buffered packets now
+   */
+  flush(): void {
+    while (this.buffer.size > 0) {
+      this._skipGap();
+      this._drain();
+    }
+  }
+
+  /**
+   * Drop all buffered packets and start over
+   */
+  reset(): void {
+    this._clearTimer();
+    this.buffer.clear();
+    this.lostSequenceNumbers.clear();
+    this.expectedSequenceNumber = undefined;
+  }
+
+  /**
+   * Deliver consecutive packets, then wait for the next gap if there is one
+   */
+  private _drain(): void {
+    let next = this.buffer.get(this.expectedSequenceNumber!);
+    while (next) {
+      this.buffer.delete(next.packet.sequenceNumber);
+      this.expectedSequenceNumber = addToSequenceNumber(next.packet.sequenceNumber);
+      this.stats.delivered += 1;
+      this.emit('packet', next.packet);
+      next = this.buffer.get(this.expectedSequenceNumber);
+    }
+
+    this._clearTimer();
+    if (this.buffer.size === 0) {
+      return;
+    }
+
+    // The packet right after the gap decides how much longer we wait
+    const oldest = this.buffer.get(this._oldestBufferedSequenceNumber())!;
+    const wait = Math.max(oldest.arrivedAt + this.maxDelay - Date.now(), 0);
+    this.gapTimer = setTimeout(() => {
+      this.gapTimer = undefined;
+      this._skipGap();
+      this._drain();
+    }, wait);
+  }
+
+  /**
+   * Declare the packets before the oldest buffered packet lost
+   */
+  private _skipGap(): void {
+    if (this.buffer.size === 0) {
+      return;
+    }
+
+    const oldest = this._oldestBufferedSequenceNumber();
+    const first = this.expectedSequenceNumber!;
+    const count = sequenceNumberDistance(first, oldest);
+    if (count <= 0) {
+      return;
+    }
+
+    for (let i = Math.max(count - JITTER_BUFFER_LOSS_HISTORY, 0); i < count; i += 1) {
+      this.lostSequenceNumbers.add(addToSequenceNumber(first, i));
+    }
+    while (this.lostSequenceNumbers.size > JITTER_BUFFER_LOSS_HISTORY) {
+      // Sets iterate in insertion order, so this drops the oldest entry
+      const stale = this.lostSequenceNumbers.values().next().value as number;
+      this.lostSequenceNumbers.delete(stale);
+    }
+
+    this.stats.lost += count;
+    this.expectedSequenceNumber = oldest;
+    this.emit('loss', first, count);
+  }
+
+  private _oldestBufferedSequenceNumber(): number {
+    let oldest: number | undefined;
+    for (const seq of this.buffer.keys()) {
+      if (oldest === undefined || sequenceNumberDistance(seq, oldest) > 0) {
+        oldest = seq;
+      }
+    }
+    return oldest!;
+  }
+
+  private _clearTimer(): void {
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = undefined;
+    }
+  }
+}
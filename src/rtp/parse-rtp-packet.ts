@@ -0,0 +1,126 @@
+import {
+  RTP_CSRC_COUNT_MASK,
+  RTP_CSRC_ENTRY_SIZE,
+  RTP_EXTENSION_HEADER_SIZE,
+  RTP_EXTENSION_MASK,
+  RTP_EXTENSION_WORD_SIZE,
+  RTP_HEADER_SIZE,
+  RTP_MARKER_MASK,
+  RTP_OFFSET_CSRC,
+  RTP_OFFSET_PAYLOAD_TYPE,
+  RTP_OFFSET_SEQUENCE,
+  RTP_OFFSET_SSRC,
+  RTP_OFFSET_TIMESTAMP,
+  RTP_OFFSET_VERSION,
+  RTP_PADDING_MASK,
+  RTP_PAYLOAD_TYPE_MASK,
+  RTP_VERSION,
+  RTP_VERSION_SHIFT,
+} from '../utils/constants';
+
+/**
+ * RTP header extension block (RFC 3550 §5.3.1)
+ */
+export interface RtpHeaderExtension {
+  profile: number;
+  data: Buffer;
+}
+
+/**
+ * A fully decoded RTP packet
+ */
+export interface ParsedRtpPacket {
+  version: number;
+  padding: boolean;
+  extension: boolean;
+  marker: boolean;
+  payloadType: number;
+  sequenceNumber: number;
+  timestamp: number;
+  ssrc: number;
+  csrcList: number[];
+  headerExtension?: RtpHeaderExtension;
+  headerSize: number; // Fixed header + CSRC list + extension, in bytes
+  payload: Buffer;    // Payload with any padding removed
+}
+
+/**
+ * Parse an RTP packet per RFC 3550, including the CSRC list,
+ * header extension and trailing padding
+ *
+ * @param data Buffer containing a complete RTP packet
+ * @returns The decoded header fields and payload
+ * @throws Error if the packet is truncated or is not RTP version 2
+ */
+export function parseRtpPacket(data: Buffer): ParsedRtpPacket {
+  if (data.length < RTP_HEADER_SIZE) {
+    throw new Error(
+      `RTP packet too short: ${data.length} bytes, need at least ${RTP_HEADER_SIZE}`
+    );
+  }
+
+  const firstByte = data.readUInt8(RTP_OFFSET_VERSION);
+  const secondByte = data.readUInt8(RTP_OFFSET_PAYLOAD_TYPE);
+
+  const version = firstByte >> RTP_VERSION_SHIFT;
+  if (version !== RTP_VERSION) {
+    throw new Error(`Unsupported RTP version ${version}`);
+  }
+
+  const padding = (firstByte & RTP_PADDING_MASK) !== 0;
+  const extension = (firstByte & RTP_EXTENSION_MASK) !== 0;
+  const csrcCount = firstByte & RTP_CSRC_COUNT_MASK;
+
+  let headerSize = RTP_HEADER_SIZE + csrcCount * RTP_CSRC_ENTRY_SIZE;
+  if (data.length < headerSize) {
+    throw new Error(`RTP packet truncated inside CSRC list (CC=${csrcCount})`);
+  }
+
+  const csrcList: number[] = [];
+  for (let i = 0; i < csrcCount; i += 1) {
+    csrcList.push(data.readUInt32BE(RTP_OFFSET_CSRC + i * RTP_CSRC_ENTRY_SIZE));
+  }
+
+  let headerExtension: RtpHeaderExtension | undefined;
+  if (extension) {
+    if (data.length < headerSize + RTP_EXTENSION_HEADER_SIZE) {
+      throw new Error('RTP packet truncated inside header extension');
+    }
+    const profile = data.readUInt16BE(headerSize);
+    const extensionLength = data.readUInt16BE(headerSize + 2) * RTP_EXTENSION_WORD_SIZE;
+    const extensionStart = headerSize + RTP_EXTENSION_HEADER_SIZE;
+    if (data.length < extensionStart + extensionLength) {
+      throw new Error('RTP header extension length exceeds packet size');
+    }
+    headerExtension = {
+      profile,
+      data: data.slice(extensionStart, extensionStart + extensionLength),
+    };
+    headerSize = extensionStart + extensionLength;
+  }
+
+  let payloadEnd = data.length;
+  if (padding) {
+    // The last octet of the packet counts the padding octets, itself included
+    const paddingLength = data.readUInt8(data.length - 1);
+    if (paddingLength === 0 || headerSize + paddingLength > data.length) {
+      throw new Error(`Invalid RTP padding length ${paddingLength}`);
+    }
+    payloadEnd -= paddingLength;
+  }
+
+  return {
+    csrcList,
+    extension,
+    headerExtension,
+    headerSize,
+    padding,
+    version,
+    marker: (secondByte & RTP_MARKER_MASK) !== 0,
+    payloadType: secondByte & RTP_PAYLOAD_TYPE_MASK,
+    sequenceNumber: data.readUInt16BE(RTP_OFFSET_SEQUENCE),
+    timestamp: data.readUInt32BE(RTP_OFFSET_TIMESTAMP),
+    ssrc: data.readUInt32BE(RTP_OFFSET_SSRC),
+    payload: data.slice(headerSize, payloadEnd),
+  };
+}
@@ -0,0 +1,206 @@
+import {
+  DEFAULT_RED_PAYLOAD_TYPE,
+  RED_BLOCK_LENGTH_BITS,
+  RED_F_BIT_FLAG,
+  RED_HEADER_SIZE_PER_BLOCK,
+  RED_MAX_BLOCK_LENGTH,
+  RED_OFFSET_BLOCK_LENGTH,
+  RED_OFFSET_TIMESTAMP_OFFSET,
+  RED_PRIMARY_HEADER_SIZE,
+  RED_SEQUENCE_HISTORY,
+  RTP_PAYLOAD_TYPE_MASK,
+} from '../utils/constants';
+import {
+  addToSequenceNumber,
+  sequenceNumberDistance,
+} from '../utils/sequence-number';
+import { ParsedRtpPacket } from './parse-rtp-packet';
+
+/**
+ * A single block from an RFC 2198 RED payload
+ */
+export interface RedBlock {
+  payloadType: number;
+  timestampOffset: number; // 0 for the primary block
+  payload: Buffer;
+}
+
+/**
+ * A media packet produced by the RED depacketizer
+ */
+export interface RedDepacketizedPacket extends ParsedRtpPacket {
+  recovered: boolean; // true when rebuilt from a redundant generation
+}
+
+/**
+ * Split an RFC 2198 RED payload into its blocks
+ *
+ * @param payload The RTP payload of a RED packet
+ * @returns The redundant blocks in the order they appear, followed by the primary block
+ * @throws Error if the block headers or lengths do not fit the payload
+ */
+export function parseRedPayload(payload: Buffer): RedBlock[] {
+  const headers: { payloadType: number; timestampOffset: number; length: number }[] = [];
+  let offset = 0;
+
+  // Walk the block headers; every header with the F bit set is followed by another
+  while (true) {
+    if (offset >= payload.length) {
+      throw new Error('RED payload truncated inside block headers');
+    }
+    const firstByte = payload.readUInt8(offset);
+    const payloadType = firstByte & RTP_PAYLOAD_TYPE_MASK;
+
+    if ((firstByte & RED_F_BIT_FLAG) === 0) {
+      headers.push({ payloadType, timestampOffset: 0, length: -1 });
+      offset += RED_PRIMARY_HEADER_SIZE;
+      break;
+    }
+
+    if (offset + RED_HEADER_SIZE_PER_BLOCK > payload.length) {
+      throw new Error('RED payload truncated inside block headers');
+    }
+    const offsetAndLength =
+      payload.readUInt16BE(offset + RED_OFFSET_TIMESTAMP_OFFSET) * 256 +
+      payload.readUInt8(offset + RED_OFFSET_BLOCK_LENGTH);
+    headers.push({
+      payloadType,
+      timestampOffset: Math.floor(offsetAndLength / (1 << RED_BLOCK_LENGTH_BITS)),
+      length: offsetAndLength & RED_MAX_BLOCK_LENGTH,
+    });
+    offset += RED_HEADER_SIZE_PER_BLOCK;
+  }
+
+  // Block data follows the headers in the same order; the primary takes the rest
+  const blocks: RedBlock[] = [];
+  for (const header of headers) {
+    const length = header.length < 0 ? payload.length - offset : header.length;
+    if (offset + length > payload.length) {
+      throw new Error('RED block length exceeds payload size');
+    }
+    blocks.push({
+      payloadType: header.payloadType,
+      timestampOffset: header.timestampOffset,
+      payload: payload.slice(offset, offset + length),
+    });
+    offset += length;
+  }
+
+  return blocks;
+}
+
+/**
+ * Turns RED packets back into the media packets they carry, using the
+ * redundant generations to fill sequence gaps (RFC 2198, RFC 4103 §4)
+ *
+ * Per RFC 4103 each redundant generation repeats the primary block of one of
+ * the immediately preceding packets, so the generation with the smallest
+ * timestamp offset is the previous sequence number, the next one is two back,
+ * and so on. Generations are only used for sequence numbers that have not
+ * been seen yet; everything else is dropped as a duplicate.
+ */
+export class RedDepacketizer {
+  private redPayloadType: number;
+  private highestSequenceNumber?: number;
+  private recentSequenceNumbers: Set<number> = new Set();
+  private recoveredCount: number = 0;
+
+  constructor(redPayloadType: number = DEFAULT_RED_PAYLOAD_TYPE) {
+    this.redPayloadType = redPayloadType;
+  }
+
+  /**
+   * Number of media packets rebuilt from redundant generations so far
+   */
+  get recovered(): number {
+    return this.recoveredCount;
+  }
+
+  /**
+   * Record a media sequence number as received
+   *
+   * @param sequenceNumber The sequence number that arrived
+   * @returns false if it had already been seen
+   */
+  markReceived(sequenceNumber: number): boolean {
+    if (this.recentSequenceNumbers.has(sequenceNumber)) {
+      return false;
+    }
+
+    this.recentSequenceNumbers.add(sequenceNumber);
+    if (this.recentSequenceNumbers.size > RED_SEQUENCE_HISTORY) {
+      // Sets iterate in insertion order, so this drops the oldest entry
+      const oldest = this.recentSequenceNumbers.values().next().value as number;
+      this.recentSequenceNumbers.delete(oldest);
+    }
+
+    if (
+      this.highestSequenceNumber === undefined ||
+      sequenceNumberDistance(this.highestSequenceNumber, sequenceNumber) > 0
+    ) {
+      this.highestSequenceNumber = sequenceNumber;
+    }
+    return true;
+  }
+
+  /**
+   * Expand one packet into the media packets it carries
+   *
+   * Packets that are not RED are passed through unchanged. For RED packets,
+   * any redundant generation whose sequence number is missing is returned
+   * first (oldest first, flagged as recovered), followed by the primary block.
+   *
+   * @param packet A parsed RTP packet
+   * @returns The media packets to hand to the next stage, in sequence order
+   * @throws Error if the RED payload is malformed
+   */
+  depacketize(packet: ParsedRtpPacket): RedDepacketizedPacket[] {
+    if (packet.payloadType !== this.redPayloadType) {
+      this.markReceived(packet.sequenceNumber);
+      return [{ ...packet, recovered: false }];
+    }
+
+    const blocks = parseRedPayload(packet.payload);
+    const primary = blocks[blocks.length - 1];
+    const generations = blocks
+      .slice(0, -1)
+      .sort((a, b) => a.timestampOffset - b.timestampOffset);
+
+    const result: RedDepacketizedPacket[] = [];
+
+    // Only fill gaps once there is a reference point; on the very first
+    // packet there is no way to tell what is missing
+    if (this.highestSequenceNumber !== undefined) {
+      for (let generation = generations.length; generation >= 1; generation -= 1) {
+        const sequenceNumber = addToSequenceNumber(packet.sequenceNumber, -generation);
+        const age = sequenceNumberDistance(sequenceNumber, this.highestSequenceNumber);
+        if (age >= RED_SEQUENCE_HISTORY || !this.markReceived(sequenceNumber)) {
+          continue;
+        }
+
+        const block = generations[generation - 1];
+        this.recoveredCount += 1;
+        result.push({
+          ...packet,
+          sequenceNumber,
+          marker: false,
+          payloadType: block.payloadType,
+          timestamp: (packet.timestamp - block.timestampOffset) >>> 0,
+          payload: block.payload,
+          recovered: true,
+        });
+      }
+    }
+
+    if (this.markReceived(packet.sequenceNumber)) {
+      result.push({
+        ...packet,
+        payloadType: primary.payloadType,
+        payload: primary.payload,
+        recovered: false,
+      });
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,549 @@
+import {
+  NTP_EPOCH_OFFSET,
+  NTP_FRACTION_SCALE,
+  RTCP_DELAY_UNITS_PER_SECOND,
+  RTCP_FMT_GENERIC_NACK,
+  RTCP_HEADER_SIZE,
+  RTCP_MAX_COUNT,
+  RTCP_MUX_MAX_PT,
+  RTCP_MUX_MIN_PT,
+  RTCP_NACK_BITMASK_SIZE,
+  RTCP_PT_BYE,
+  RTCP_PT_RR,
+  RTCP_PT_RTPFB,
+  RTCP_PT_SDES,
+  RTCP_PT_SR,
+  RTCP_REPORT_BLOCK_SIZE,
+  RTCP_SDES_CNAME,
+  RTCP_SENDER_INFO_SIZE,
+  RTP_OFFSET_PAYLOAD_TYPE,
+  RTP_OFFSET_VERSION,
+  RTP_PADDING_MASK,
+  RTP_VERSION,
+  RTP_VERSION_SHIFT,
+} from '../utils/constants';
+
+/**
+ * A 64-bit NTP timestamp split into its two 32-bit halves
+ */
+export interface NtpTimestamp {
+  seconds: number; // Seconds since 1900-01-01
+  fraction: number; // Fraction of a second, in units of 2^-32 s
+}
+
+/**
+ * Sender information carried in a sender report (RFC 3550 §6.4.1)
+ */
+export interface RtcpSenderInfo {
+  ntpTimestamp: NtpTimestamp;
+  rtpTimestamp: number; // RTP timestamp corresponding to ntpTimestamp
+  packetCount: number; // RTP packets sent since the start of transmission
+  octetCount: number; // Payload octets sent since the start of transmission
+}
+
+/**
+ * Reception report about one source (RFC 3550 §6.4.1)
+ */
+export interface RtcpReportBlock {
+  ssrc: number; // Source the report is about
+  fractionLost: number; // Fraction of packets lost since the previous report (0-1)
+  packetsLost: number; // Cumulative number of packets lost (may be negative)
+  highestSequenceNumber: number; // Extended highest sequence number received
+  jitter: number; // Interarrival jitter, in RTP timestamp units
+  lastSenderReport: number; // Middle 32 bits of the NTP timestamp of the last SR, or 0
+  delaySinceLastSenderReport: number; // Delay since that SR, in units of 1/65536 s
+}
+
+/**
+ * A reception report about a locally sent stream, from an inbound SR or RR
+ */
+export interface RtcpReceptionReport extends RtcpReportBlock {
+  reporterSsrc: number; // SSRC of the endpoint that sent the report
+  roundTripTime?: number; // ms, when the report refers to one of our sender reports
+}
+
+/**
+ * Sender report (SR)
+ */
+export interface RtcpSenderReport {
+  type: 'sr';
+  ssrc: number;
+  senderInfo: RtcpSenderInfo;
+  reportBlocks: RtcpReportBlock[];
+}
+
+/**
+ * Receiver report (RR)
+ */
+export interface RtcpReceiverReport {
+  type: 'rr';
+  ssrc: number;
+  reportBlocks: RtcpReportBlock[];
+}
+
+/**
+ * One item of a source description chunk
+ */
+export interface RtcpSdesItem {
+  type: number; // 1 = CNAME, 2 = NAME, ...
+  value: string;
+}
+
+/**
+ * Source description (SDES)
+ */
+export interface RtcpSourceDescription {
+  type: 'sdes';
+  chunks: { ssrc: number; items: RtcpSdesItem[] }[];
+}
+
+/**
+ * Goodbye (BYE)
+ */
+export interface RtcpBye {
+  type: 'bye';
+  ssrcs: number[];
+  reason?: string;
+}
+
+/**
+ * Generic NACK (RFC 4585 §6.2.1): a request to retransmit lost packets
+ */
+export interface RtcpGenericNack {
+  type: 'nack';
+  senderSsrc: number; // SSRC of the endpoint asking for retransmission
+  mediaSsrc: number; // SSRC of the stream the packets were lost from
+  sequenceNumbers: number[]; // Lost sequence numbers
+}
+
+/**
+ * Any other RTCP packet, kept undecoded
+ */
+export interface RtcpOtherPacket {
+  type: 'other';
+  packetType: number;
+  count: number; // The 5-bit count / format field
+  payload: Buffer; // Everything after the 4-byte common header, without padding
+}
+
+export type RtcpPacket =
+  | RtcpSenderReport
+  | RtcpReceiverReport
+  | RtcpSourceDescription
+  | RtcpBye
+  | RtcpGenericNack
+  | RtcpOtherPacket;
+
+/**
+ * Convert a Unix time in milliseconds to an NTP timestamp
+ */
+export function toNtpTimestamp(unixMs: number): NtpTimestamp {
+  const totalSeconds = unixMs / 1000 + NTP_EPOCH_OFFSET;
+  const seconds = Math.floor(totalSeconds);
+  return {
+    seconds: seconds >>> 0,
+    fraction: Math.floor((totalSeconds - seconds) * NTP_FRACTION_SCALE) >>> 0,
+  };
+}
+
+/**
+ * The middle 32 bits of an NTP timestamp, as used in LSR and for round-trip time
+ */
+export function ntpMiddle32(ntp: NtpTimestamp): number {
+  return (((ntp.seconds & 0xFFFF) << 16) | (ntp.fraction >>> 16)) >>> 0;
+}
+
+/**
+ * Round-trip time from a report block about our own stream (RFC 3550 §6.4.1)
+ *
+ * @param block Report block from the remote party
+ * @param arrivalMs Unix time in milliseconds at which the report arrived
+ * @returns Round-trip time in milliseconds, or undefined if no SR has been reported on
+ */
+export function calculateRoundTripTime(
+  block: RtcpReportBlock,
+  arrivalMs: number
+): number | undefined {
+  if (block.lastSenderReport === 0) {
+    return undefined;
+  }
+  const arrival = ntpMiddle32(toNtpTimestamp(arrivalMs));
+  const rtt = (arrival - block.lastSenderReport - block.delaySinceLastSenderReport) >>> 0;
+  return (rtt / RTCP_DELAY_UNITS_PER_SECOND) * 1000;
+}
+
+/**
+ * Check whether a packet on an RTP/RTCP-multiplexed port is RTCP (RFC 5761 §4)
+ */
+export function isRtcpPacket(data: Buffer): boolean {
+  if (data.length < RTCP_HEADER_SIZE) {
+    return false;
+  }
+  const packetType = data.readUInt8(RTP_OFFSET_PAYLOAD_TYPE);
+  return data.readUInt8(RTP_OFFSET_VERSION) >> RTP_VERSION_SHIFT === RTP_VERSION &&
+    packetType >= RTCP_MUX_MIN_PT && packetType <= RTCP_MUX_MAX_PT;
+}
+
+/**
+ * Build an RTCP packet from its type, count field and 32-bit aligned body
+ */
+function buildRtcpPacket(packetType: number, count: number, body: Buffer): Buffer {
+  const header = Buffer.alloc(RTCP_HEADER_SIZE);
+  header.writeUInt8((RTP_VERSION << RTP_VERSION_SHIFT) | count, 0);
+  header.writeUInt8(packetType, 1);
+  // Length in 32-bit words minus one, counting the header
+  header.writeUInt16BE((RTCP_HEADER_SIZE + body.length) / 4 - 1, 2);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Zero-pad a buffer to a multiple of 4 bytes
+ */
+function padToWord(data: Buffer): Buffer {
+  const padding = (4 - (data.length % 4)) % 4;
+  return padding ? Buffer.concat([data, Buffer.alloc(padding)]) : data;
+}
+
+function writeReportBlocks(blocks: RtcpReportBlock[]): Buffer {
+  if (blocks.length > RTCP_MAX_COUNT) {
+    throw new Error(`At most ${RTCP_MAX_COUNT} report blocks fit in one RTCP packet`);
+  }
+
+  const data = Buffer.alloc(blocks.length * RTCP_REPORT_BLOCK_SIZE);
+  blocks.forEach((block, i) => {
+    const offset = i * RTCP_REPORT_BLOCK_SIZE;
+    const fraction = Math.min(255, Math.max(0, Math.floor(block.fractionLost * 256)));
+    // Cumulative loss is a 24-bit two's complement number, clamped to its range
+    const lost = Math.min(0x7FFFFF, Math.max(-0x800000, block.packetsLost)) & 0xFFFFFF;
+    data.writeUInt32BE(block.ssrc >>> 0, offset);
+    data.writeUInt32BE(((fraction << 24) | lost) >>> 0, offset + 4);
+    data.writeUInt32BE(block.highestSequenceNumber >>> 0, offset + 8);
+    data.writeUInt32BE(block.jitter >>> 0, offset + 12);
+    data.writeUInt32BE(block.lastSenderReport >>> 0, offset + 16);
+    data.writeUInt32BE(block.delaySinceLastSenderReport >>> 0, offset + 20);
+  });
+  return data;
+}
+
+/**
+ * Create a sender report (SR) packet
+ *
+ * @param ssrc SSRC of the sender
+ * @param senderInfo Timestamps and counts of the sent stream
+ * @param reportBlocks Reception reports about streams this endpoint receives
+ */
+export function createRtcpSenderReport(
+  ssrc: number,
+  senderInfo: RtcpSenderInfo,
+  reportBlocks: RtcpReportBlock[] = []
+): Buffer {
+  const info = Buffer.alloc(4 + RTCP_SENDER_INFO_SIZE);
+  info.writeUInt32BE(ssrc >>> 0, 0);
+  info.writeUInt32BE(senderInfo.ntpTimestamp.seconds >>> 0, 4);
+  info.writeUInt32BE(senderInfo.ntpTimestamp.fraction >>> 0, 8);
+  info.writeUInt32BE(senderInfo.rtpTimestamp >>> 0, 12);
+  info.writeUInt32BE(senderInfo.packetCount >>> 0, 16);
+  info.writeUInt32BE(senderInfo.octetCount >>> 0, 20);
+  return buildRtcpPacket(
+    RTCP_PT_SR,
+    reportBlocks.length,
+    Buffer.concat([info, writeReportBlocks(reportBlocks)])
+  );
+}
+
+/**
+ * Create a receiver report (RR) packet
+ *
+ * @param ssrc SSRC of the reporting endpoint
+ * @param reportBlocks Reception reports; empty when nothing has been received
+ */
+export function createRtcpReceiverReport(
+  ssrc: number,
+  reportBlocks: RtcpReportBlock[] = []
+): Buffer {
+  const reporter = Buffer.alloc(4);
+  reporter.writeUInt32BE(ssrc >>> 0, 0);
+  return buildRtcpPacket(
+    RTCP_PT_RR,
+    reportBlocks.length,
+    Buffer.concat([reporter, writeReportBlocks(reportBlocks)])
+  );
+}
+
+/**
+ * Create a source description (SDES) packet carrying a CNAME
+ *
+ * @param ssrc SSRC the description is for
+ * @param cname Canonical name of the endpoint (at most 255 bytes of UTF-8)
+ */
+export function createRtcpSdes(ssrc: number, cname: string): Buffer {
+  const value = Buffer.from(cname, 'utf-8');
+  if (value.length > 255) {
+    throw new Error('CNAME must be at most 255 bytes');
+  }
+
+  const chunk = Buffer.alloc(4 + 2 + value.length);
+  chunk.writeUInt32BE(ssrc >>> 0, 0);
+  chunk.writeUInt8(RTCP_SDES_CNAME, 4);
+  chunk.writeUInt8(value.length, 5);
+  value.copy(chunk, 6);
+  // The item list ends with at least one null octet, then pads to a word boundary
+  const terminated = Buffer.concat([chunk, Buffer.alloc(1)]);
+  return buildRtcpPacket(RTCP_PT_SDES, 1, padToWord(terminated));
+}
+
+/**
+ * Create a goodbye (BYE) packet
+ *
+ * @param ssrcs Sources that are leaving
+ * @param reason Optional reason for leaving (at most 255 bytes of UTF-8)
+ */
+export function createRtcpBye(ssrcs: number[], reason?: string): Buffer {
+  if (ssrcs.length > RTCP_MAX_COUNT) {
+    throw new Error(`At most ${RTCP_MAX_COUNT} sources fit in one BYE packet`);
+  }
+
+  const sources = Buffer.alloc(ssrcs.length * 4);
+  ssrcs.forEach((ssrc, i) => sources.writeUInt32BE(ssrc >>> 0, i * 4));
+
+  let body = sources;
+  if (reason) {
+    const text = Buffer.from(reason, 'utf-8');
+    if (text.length > 255) {
+      throw new Error('BYE reason must be at most 255 bytes');
+    }
+    body = padToWord(Buffer.concat([sources, Buffer.from([text.length]), text]));
+  }
+  return buildRtcpPacket(RTCP_PT_BYE, ssrcs.length, body);
+}
+
+/**
+ * Create a generic NACK packet (RFC 4585 §6.2.1)
+ *
+ * Sequence numbers are packed into PID/BLP pairs, each covering a packet
+ * and the 16 packets after it.
+ *
+ * @param senderSsrc SSRC of the endpoint asking for retransmission
+ * @param mediaSsrc SSRC of the stream the packets were lost from
+ * @param sequenceNumbers Lost sequence numbers
+ */
+export function createRtcpNack(
+  senderSsrc: number,
+  mediaSsrc: number,
+  sequenceNumbers: number[]
+): Buffer {
+  if (sequenceNumbers.length === 0) {
+    throw new Error('A NACK needs at least one sequence number');
+  }
+
+  const pending = [...new Set(sequenceNumbers.map((seq) => seq & 0xFFFF))];
+  const entries: Buffer[] = [];
+  while (pending.length > 0) {
+    const pid = pending.shift()!;
+    let bitmask = 0;
+    for (let i = pending.length - 1; i >= 0; i -= 1) {
+      const distance = (pending[i] - pid - 1) & 0xFFFF;
+      if (distance < RTCP_NACK_BITMASK_SIZE) {
+        bitmask |= 1 << distance;
+        pending.splice(i, 1);
+      }
+    }
+    const entry = Buffer.alloc(4);
+    entry.writeUInt16BE(pid, 0);
+    entry.writeUInt16BE(bitmask, 2);
+    entries.push(entry);
+  }
+
+  const ssrcs = Buffer.alloc(8);
+  ssrcs.writeUInt32BE(senderSsrc >>> 0, 0);
+  ssrcs.writeUInt32BE(mediaSsrc >>> 0, 4);
+  return buildRtcpPacket(RTCP_PT_RTPFB, RTCP_FMT_GENERIC_NACK, Buffer.concat([ssrcs, ...entries]));
+}
+
+function readReportBlocks(body: Buffer, offset: number, count: number): RtcpReportBlock[] {
+  if (body.length < offset + count * RTCP_REPORT_BLOCK_SIZE) {
+    throw new Error('RTCP report blocks truncated');
+  }
+
+  const blocks: RtcpReportBlock[] = [];
+  for (let i = 0; i < count; i += 1) {
+    const start = offset + i * RTCP_REPORT_BLOCK_SIZE;
+    const lossWord = body.readUInt32BE(start + 4);
+    const lost = lossWord & 0xFFFFFF;
+    blocks.push({
+      ssrc: body.readUInt32BE(start),
+      fractionLost: (lossWord >>> 24) / 256,
+      packetsLost: lost & 0x800000 ? lost - 0x1000000 : lost,
+      highestSequenceNumber: body.readUInt32BE(start + 8),
+      jitter: body.readUInt32BE(start + 12),
+      lastSenderReport: body.readUInt32BE(start + 16),
+      delaySinceLastSenderReport: body.readUInt32BE(start + 20),
+    });
+  }
+  return blocks;
+}
+
+function readSdesChunks(body: Buffer, count: number): RtcpSourceDescription['chunks'] {
+  const chunks: RtcpSourceDescription['chunks'] = [];
+  let offset = 0;
+
+  for (let i = 0; i < count; i += 1) {
+    if (body.length < offset + 4) {
+      throw new Error('RTCP SDES chunk truncated');
+    }
+    const ssrc = body.readUInt32BE(offset);
+    const items: RtcpSdesItem[] = [];
+    offset += 4;
+
+    // Items run until a null type octet
+    while (offset < body.length && body[offset] !== 0) {
+      if (body.length < offset + 2 || body.length < offset + 2 + body[offset + 1]) {
+        throw new Error('RTCP SDES item truncated');
+      }
+      const length = body[offset + 1];
+      items.push({
+        type: body[offset],
+        value: body.slice(offset + 2, offset + 2 + length).toString('utf-8'),
+      });
+      offset += 2 + length;
+    }
+
+    // Skip the terminating null octet and the padding after it
+    offset = (Math.floor(offset / 4) + 1) * 4;
+    chunks.push({ ssrc, items });
+  }
+  return chunks;
+}
+
+function readNack(body: Buffer): RtcpGenericNack {
+  if (body.length < 8) {
+    throw new Error('RTCP NACK packet truncated');
+  }
+
+  const sequenceNumbers: number[] = [];
+  for (let offset = 8; offset + 4 <= body.length; offset += 4) {
+    const pid = body.readUInt16BE(offset);
+    const bitmask = body.readUInt16BE(offset + 2);
+    sequenceNumbers.push(pid);
+    for (let i = 0; i < RTCP_NACK_BITMASK_SIZE; i += 1) {
+      if (bitmask & (1 << i)) {
+        sequenceNumbers.push((pid + i + 1) & 0xFFFF);
+      }
+    }
+  }
+
+  return {
+    sequenceNumbers,
+    type: 'nack',
+    senderSsrc: body.readUInt32BE(0),
+    mediaSsrc: body.readUInt32BE(4),
+  };
+}
+
+function readBye(body: Buffer, count: number): RtcpBye {
+  if (body.length < count * 4) {
+    throw new Error('RTCP BYE packet truncated');
+  }
+
+  const ssrcs: number[] = [];
+  for (let i = 0; i < count; i += 1) {
+    ssrcs.push(body.readUInt32BE(i * 4));
+  }
+
+  const reasonOffset = count * 4;
+  if (body.length > reasonOffset) {
+    const length = body[reasonOffset];
+    if (length > 0 && body.length >= reasonOffset + 1 + length) {
+      const reason = body.slice(reasonOffset + 1, reasonOffset + 1 + length).toString('utf-8');
+      return { ssrcs, reason, type: 'bye' };
+    }
+  }
+  return { ssrcs, type: 'bye' };
+}
+
+/**
+ * Parse a compound RTCP packet (RFC 3550 §6.1)
+ *
+ * @param data Buffer containing one or more RTCP packets
+ * @returns The packets in order; unknown packet types are returned as 'other'
+ * @throws Error if a packet is truncated or is not version 2
+ */
+export function parseRtcpPackets(data: Buffer): RtcpPacket[] {
+  const packets: RtcpPacket[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    if (data.length < offset + RTCP_HEADER_SIZE) {
+      throw new Error('RTCP packet header truncated');
+    }
+
+    const firstByte = data.readUInt8(offset);
+    if (firstByte >> RTP_VERSION_SHIFT !== RTP_VERSION) {
+      throw new Error(`Unsupported RTCP version: ${firstByte >> RTP_VERSION_SHIFT}`);
+    }
+    const count = firstByte & RTCP_MAX_COUNT;
+    const packetType = data.readUInt8(offset + 1);
+    const length = (data.readUInt16BE(offset + 2) + 1) * 4;
+    if (data.length < offset + length) {
+      throw new Error(`RTCP packet truncated: need ${length} bytes, have ${data.length - offset}`);
+    }
+
+    let bodyEnd = offset + length;
+    if (firstByte & RTP_PADDING_MASK) {
+      const padding = data.readUInt8(bodyEnd - 1);
+      if (padding === 0 || padding > length - RTCP_HEADER_SIZE) {
+        throw new Error(`Invalid RTCP padding length: ${padding}`);
+      }
+      bodyEnd -= padding;
+    }
+    const body = data.slice(offset + RTCP_HEADER_SIZE, bodyEnd);
+
+    switch (packetType) {
+      case RTCP_PT_SR:
+        if (body.length < 4 + RTCP_SENDER_INFO_SIZE) {
+          throw new Error('RTCP sender report truncated');
+        }
+        packets.push({
+          type: 'sr',
+          ssrc: body.readUInt32BE(0),
+          senderInfo: {
+            ntpTimestamp: { seconds: body.readUInt32BE(4), fraction: body.readUInt32BE(8) },
+            rtpTimestamp: body.readUInt32BE(12),
+            packetCount: body.readUInt32BE(16),
+            octetCount: body.readUInt32BE(20),
+          },
+          reportBlocks: readReportBlocks(body, 4 + RTCP_SENDER_INFO_SIZE, count),
+        });
+        break;
+      case RTCP_PT_RR:
+        if (body.length < 4) {
+          throw new Error('RTCP receiver report truncated');
+        }
+        packets.push({
+          type: 'rr',
+          ssrc: body.readUInt32BE(0),
+          reportBlocks: readReportBlocks(body, 4, count),
+        });
+        break;
+      case RTCP_PT_SDES:
+        packets.push({ type: 'sdes', chunks: readSdesChunks(body, count) });
+        break;
+      case RTCP_PT_BYE:
+        packets.push(readBye(body, count));
+        break;
+      case RTCP_PT_RTPFB:
+        if (count === RTCP_FMT_GENERIC_NACK) {
+          packets.push(readNack(body));
+        } else {
+          packets.push({ packetType, count, type: 'other', payload: body });
+        }
+        break;
+      default:
+        packets.push({ packetType, count, type: 'other', payload: body });
+    }
+
+    offset += length;
+  }
+
+  return packets;
+}
@@ -0,0 +1,96 @@
+import {
+  ProtectionProfileAeadAes128Gcm,
+  ProtectionProfileAes128CmHmacSha1_80,
+  SrtcpSession,
+} from 'werift-rtp';
+import { SrtpConfig, SrtpProtectionProfile } from '../interfaces';
+import { DEFAULT_SRTP_MKI_LENGTH } from '../utils/constants';
+import { addSrtpMki, encodeSrtpMki } from '../utils/security';
+
+/**
+ * One master key's SRTCP session
+ */
+interface SrtcpKey {
+  session: SrtcpSession;
+  profile: SrtpProtectionProfile;
+  mki?: Buffer; // The encoded MKI field, if packets are tagged
+}
+
+/**
+ * Derive the SRTCP session for a master key
+ */
+function createSrtcpKey(srtpConfig: SrtpConfig): SrtcpKey {
+  if (!srtpConfig.masterKey || !srtpConfig.masterSalt) {
+    throw new Error('SRTP configuration missing required master key or salt');
+  }
+  const profile = srtpConfig.profile ?? ProtectionProfileAes128CmHmacSha1_80;
+  if (profile !== ProtectionProfileAes128CmHmacSha1_80 &&
+    profile !== ProtectionProfileAeadAes128Gcm) {
+    throw new Error(`Unsupported SRTP profile ${profile} for SRTCP`);
+  }
+  const mki = srtpConfig.mki !== undefined
+    ? encodeSrtpMki(srtpConfig.mki, srtpConfig.mkiLength ?? DEFAULT_SRTP_MKI_LENGTH)
+    : undefined;
+
+  const session = new SrtcpSession({
+    profile,
+    keys: {
+      localMasterKey: srtpConfig.masterKey,
+      localMasterSalt: srtpConfig.masterSalt,
+      remoteMasterKey: srtpConfig.masterKey,
+      remoteMasterSalt: srtpConfig.masterSalt,
+    },
+  });
+  return { session, profile, mki };
+}
+
+/**
+ * Encrypts and authenticates outbound RTCP as SRTCP (RFC 3711 §3.4) — the
+ * send-side counterpart to `SrtpDecryptor.decryptRtcp`
+ *
+ * Takes the same SrtpConfig as SRTP; werift's SrtcpSession derives the
+ * SRTCP session keys from the master key and adds the E flag, the SRTCP
+ * index and the tag. With an MKI, the MKI field is added as for SRTP.
+ * rekey() switches keys without restarting the SRTCP index.
+ *
+ * Supported profiles: AES128_CM_HMAC_SHA1_80 (1, the default) and
+ * AEAD_AES_128_GCM (7).
+ */
+export class SrtcpEncryptor {
+  private key: SrtcpKey;
+
+  /**
+   * @param srtpConfig The SRTP configuration to protect RTCP with
+   * @throws Error if the key material is missing, the profile is unsupported
+   * or the MKI is invalid
+   */
+  constructor(srtpConfig: SrtpConfig) {
+    this.key = createSrtcpKey(srtpConfig);
+  }
+
+  /**
+   * Switch to a new master key, continuing each SSRC's SRTCP index
+   *
+   * @param srtpConfig The new SRTP configuration
+   * @throws Error if the new configuration cannot be used
+   */
+  rekey(srtpConfig: SrtpConfig): void {
+    const previous = this.key.session.localContext;
+    this.key = createSrtcpKey(srtpConfig);
+    for (const [ssrc, state] of Object.entries(previous.srtcpSSRCStates)) {
+      this.key.session.localContext.srtcpSSRCStates[Number(ssrc)] = { ...state };
+    }
+  }
+
+  /**
+   * Protect one compound RTCP packet
+   *
+   * @param packet The plain RTCP packet
+   * @returns The SRTCP packet
+   */
+  encrypt(packet: Buffer): Buffer {
+    const { session, profile, mki } = this.key;
+    const encrypted = session.encrypt(packet);
+    return mki ? addSrtpMki(encrypted, mki, profile) : encrypted;
+  }
+}
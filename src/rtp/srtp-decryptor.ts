@@ -0,0 +1,466 @@
+import { createDecipheriv, createHmac, timingSafeEqual } from 'crypto';
+import {
+  ProtectionProfileAeadAes128Gcm,
+  ProtectionProfileAes128CmHmacSha1_80,
+  SrtpSession,
+} from 'werift-rtp';
+import { SrtpConfig } from '../interfaces';
+import {
+  DEFAULT_SRTP_MKI_LENGTH,
+  DEFAULT_SRTP_REKEY_GRACE_PERIOD,
+  RTP_CSRC_COUNT_MASK,
+  RTP_CSRC_ENTRY_SIZE,
+  RTP_EXTENSION_HEADER_SIZE,
+  RTP_EXTENSION_MASK,
+  RTP_EXTENSION_WORD_SIZE,
+  RTP_HEADER_SIZE,
+  RTP_MAX_SEQUENCE_NUMBER,
+  RTP_OFFSET_SEQUENCE,
+  RTP_OFFSET_SSRC,
+  RTP_OFFSET_VERSION,
+  RTP_SEQUENCE_HALF_RANGE,
+  SRTCP_E_FLAG,
+  SRTCP_HEADER_SIZE,
+  SRTCP_INDEX_MASK,
+  SRTCP_INDEX_SIZE,
+  SRTCP_OFFSET_SSRC,
+  SRTP_AEAD_IV_SIZE,
+  SRTP_AEAD_TAG_SIZE,
+  SRTP_HMAC_SHA1_80_TAG_SIZE,
+  SRTP_REPLAY_WINDOW_SIZE,
+} from '../utils/constants';
+import { encodeSrtpMki } from '../utils/security';
+
+/**
+ * Per-SSRC receive state: rollover counter and replay window (RFC 3711 §3.3)
+ */
+interface SrtpReceiveState {
+  rolloverCounter: number;
+  highestSequenceNumber: number; // s_l in RFC 3711 Appendix A
+  highestIndex: number;
+  receivedIndexes: Set<number>;
+}
+
+/**
+ * Per-SSRC SRTCP replay window (RFC 3711 §3.4)
+ */
+interface SrtcpReceiveState {
+  highestIndex: number;
+  receivedIndexes: Set<number>;
+}
+
+/**
+ * One master key the decryptor accepts
+ */
+interface SrtpKey {
+  session: SrtpSession;
+  profile: number;
+  tagSize: number;
+  mki?: Buffer; // The encoded MKI field, if the sender tags packets
+  expires?: number; // Date.now() after which a replaced key is dropped
+}
+
+/**
+ * Decrypts and authenticates inbound SRTP packets — the receive-side
+ * counterpart to `T140RtpTransport.setupSrtp`
+ *
+ * Takes the same SrtpConfig as the sender. werift's SrtpSession derives the
+ * session keys, but its decrypt does not check the authentication tag, so
+ * the tag is verified here before anything is decrypted. The rollover
+ * counter is estimated from the sequence number as in RFC 3711 Appendix A,
+ * and a sliding window of recently accepted packet indexes rejects replays.
+ *
+ * After rekey(), the replaced key keeps working for a grace period so
+ * packets already in flight still decrypt. With an MKI (RFC 3711 §3.1) the
+ * key is picked by the MKI field of each packet; without one, each key is
+ * tried until a tag verifies. Rollover counters and the replay window
+ * belong to the stream, so they carry over to the new key.
+ *
+ * decryptRtcp() does the same for SRTCP (RFC 3711 §3.4), whose packets
+ * carry their own index, so no rollover counter is needed.
+ *
+ * Supported profiles: AES128_CM_HMAC_SHA1_80 (1, the default) and
+ * AEAD_AES_128_GCM (7).
+ */
+export class SrtpDecryptor {
+  private keys: SrtpKey[]; // Current key first
+  private states: Map<number, SrtpReceiveState> = new Map();
+  private rtcpStates: Map<number, SrtcpReceiveState> = new Map();
+  private replayedCount: number = 0;
+
+  /**
+   * @param srtpConfig The SRTP configuration shared with the sender
+   * @throws Error if the key material is missing or the profile is unsupported
+   */
+  constructor(srtpConfig: SrtpConfig) {
+    this.keys = [this._createKey(srtpConfig)];
+  }
+
+  /**
+   * Switch to a new master key
+   *
+   * The current key stays usable for `gracePeriod` ms, for packets sent
+   * before the sender switched. A previous key with the same MKI is
+   * dropped at once.
+   *
+   * @param srtpConfig The sender's new SRTP configuration
+   * @param gracePeriod How long the replaced key is still accepted, in ms
+   * @throws Error if the key material is missing or the profile is unsupported
+   */
+  rekey(srtpConfig: SrtpConfig, gracePeriod: number = DEFAULT_SRTP_REKEY_GRACE_PERIOD): void {
+    const key = this._createKey(srtpConfig);
+    const expires = Date.now() + gracePeriod;
+    const previous = this.keys
+      .filter((old) => !(key.mki && old.mki && key.mki.equals(old.mki)))
+      .map((old) => ({ ...old, expires: Math.min(old.expires ?? expires, expires) }));
+    this.keys = [key, ...previous];
+    this._pruneKeys();
+  }
+
+  /**
+   * Number of packets dropped by the replay window so far
+   */
+  get replayed(): number {
+    return this.replayedCount;
+  }
+
+  /**
+   * Authenticate and decrypt one SRTP packet
+   *
+   * @param data The SRTP packet as received
+   * @returns The plain RTP packet, or undefined if the packet is a replay
+   * @throws Error if the packet is malformed or fails authentication
+   */
+  decrypt(data: Buffer): Buffer | undefined {
+    this._pruneKeys();
+    const headerSize = this._headerSize(data);
+    const trailerSize = Math.min(...this.keys.map((key) => key.tagSize + (key.mki?.length ?? 0)));
+    if (data.length < headerSize + trailerSize) {
+      throw new Error(`SRTP packet too short: ${data.length} bytes`);
+    }
+
+    const sequenceNumber = data.readUInt16BE(RTP_OFFSET_SEQUENCE);
+    const ssrc = data.readUInt32BE(RTP_OFFSET_SSRC);
+    const state = this.states.get(ssrc) ?? {
+      rolloverCounter: 0,
+      highestSequenceNumber: sequenceNumber,
+      highestIndex: -1,
+      receivedIndexes: new Set<number>(),
+    };
+
+    const rolloverCounter = this._estimateRolloverCounter(state, sequenceNumber);
+    const index = rolloverCounter * RTP_MAX_SEQUENCE_NUMBER + sequenceNumber;
+    if (
+      state.receivedIndexes.has(index) ||
+      index <= state.highestIndex - SRTP_REPLAY_WINDOW_SIZE
+    ) {
+      this.replayedCount += 1;
+      return undefined;
+    }
+
+    let packet: Buffer | undefined;
+    let lastError: Error | undefined;
+    for (const key of this.keys) {
+      const protectedPacket = this._stripMki(key, data, headerSize);
+      if (!protectedPacket) {
+        continue;
+      }
+      try {
+        packet = key.profile === ProtectionProfileAeadAes128Gcm
+          ? this._decryptGcm(
+            key, protectedPacket, headerSize, ssrc, rolloverCounter, sequenceNumber
+          )
+          : this._decryptCtr(key, protectedPacket, rolloverCounter);
+        break;
+      } catch (err) {
+        lastError = err as Error;
+      }
+    }
+    if (!packet) {
+      throw lastError ?? new Error('SRTP packet carries an unknown MKI');
+    }
+
+    // Only authenticated packets may move the window and rollover counter
+    this.states.set(ssrc, state);
+    state.receivedIndexes.add(index);
+    if (index > state.highestIndex) {
+      state.highestIndex = index;
+      state.highestSequenceNumber = sequenceNumber;
+      state.rolloverCounter = rolloverCounter;
+      for (const received of state.receivedIndexes) {
+        if (received <= index - SRTP_REPLAY_WINDOW_SIZE) {
+          state.receivedIndexes.delete(received);
+        }
+      }
+    }
+
+    return packet;
+  }
+
+  /**
+   * Authenticate and decrypt one SRTCP packet
+   *
+   * @param data The SRTCP packet as received
+   * @returns The plain compound RTCP packet, or undefined if the packet is a replay
+   * @throws Error if the packet is malformed or fails authentication
+   */
+  decryptRtcp(data: Buffer): Buffer | undefined {
+    this._pruneKeys();
+    const trailerSize = Math.min(...this.keys.map((key) => key.tagSize + (key.mki?.length ?? 0)));
+    if (data.length < SRTCP_HEADER_SIZE + SRTCP_INDEX_SIZE + trailerSize) {
+      throw new Error(`SRTCP packet too short: ${data.length} bytes`);
+    }
+
+    let result: { packet: Buffer; index: number } | undefined;
+    let lastError: Error | undefined;
+    for (const key of this.keys) {
+      const protectedPacket = this._stripMki(key, data, SRTCP_HEADER_SIZE + SRTCP_INDEX_SIZE);
+      if (!protectedPacket) {
+        continue;
+      }
+      try {
+        result = key.profile === ProtectionProfileAeadAes128Gcm
+          ? this._decryptRtcpGcm(key, protectedPacket)
+          : this._decryptRtcpCtr(key, protectedPacket);
+        break;
+      } catch (err) {
+        lastError = err as Error;
+      }
+    }
+    if (!result) {
+      throw lastError ?? new Error('SRTCP packet carries an unknown MKI');
+    }
+
+    // The index is authenticated, so the window can move right away
+    const ssrc = data.readUInt32BE(SRTCP_OFFSET_SSRC);
+    const state = this.rtcpStates.get(ssrc) ?? { highestIndex: -1, receivedIndexes: new Set() };
+    const { index } = result;
+    if (
+      state.receivedIndexes.has(index) ||
+      index <= state.highestIndex - SRTP_REPLAY_WINDOW_SIZE
+    ) {
+      this.replayedCount += 1;
+      return undefined;
+    }
+    this.rtcpStates.set(ssrc, state);
+    state.receivedIndexes.add(index);
+    if (index > state.highestIndex) {
+      state.highestIndex = index;
+      for (const received of state.receivedIndexes) {
+        if (received <= index - SRTP_REPLAY_WINDOW_SIZE) {
+          state.receivedIndexes.delete(received);
+        }
+      }
+    }
+
+    return result.packet;
+  }
+
+  /**
+   * Derive the session keys for one master key
+   */
+  private _createKey(srtpConfig: SrtpConfig): SrtpKey {
+    if (!srtpConfig.masterKey || !srtpConfig.masterSalt) {
+      throw new Error('SRTP configuration missing required master key or salt');
+    }
+
+    const profile = srtpConfig.profile ?? ProtectionProfileAes128CmHmacSha1_80;
+    let tagSize: number;
+    if (profile === ProtectionProfileAes128CmHmacSha1_80) {
+      tagSize = SRTP_HMAC_SHA1_80_TAG_SIZE;
+    } else if (profile === ProtectionProfileAeadAes128Gcm) {
+      tagSize = SRTP_AEAD_TAG_SIZE;
+    } else {
+      throw new Error(`Unsupported SRTP profile ${profile} for decryption`);
+    }
+
+    const session = new SrtpSession({
+      profile,
+      keys: {
+        localMasterKey: srtpConfig.masterKey,
+        localMasterSalt: srtpConfig.masterSalt,
+        remoteMasterKey: srtpConfig.masterKey,
+        remoteMasterSalt: srtpConfig.masterSalt,
+      },
+    });
+    const mki = srtpConfig.mki !== undefined
+      ? encodeSrtpMki(srtpConfig.mki, srtpConfig.mkiLength ?? DEFAULT_SRTP_MKI_LENGTH)
+      : undefined;
+    return { session, profile, tagSize, mki };
+  }
+
+  /**
+   * Drop replaced keys whose grace period is over
+   */
+  private _pruneKeys(): void {
+    const now = Date.now();
+    this.keys = this.keys.filter((key) => key.expires === undefined || key.expires > now);
+  }
+
+  /**
+   * Remove the MKI field if it matches the key: in front of the tag for
+   * AES-CM (RFC 3711 §3.1), after it for AEAD (RFC 7714)
+   *
+   * @returns The packet without its MKI, or undefined if the MKI is another key's
+   */
+  private _stripMki(key: SrtpKey, data: Buffer, headerSize: number): Buffer | undefined {
+    if (!key.mki) {
+      return data;
+    }
+    const start = key.profile === ProtectionProfileAeadAes128Gcm
+      ? data.length - key.mki.length
+      : data.length - key.tagSize - key.mki.length;
+    if (start < headerSize || !data.slice(start, start + key.mki.length).equals(key.mki)) {
+      return undefined;
+    }
+    return Buffer.concat([data.slice(0, start), data.slice(start + key.mki.length)]);
+  }
+
+  /**
+   * Guess the rollover counter of a packet from its sequence number (RFC 3711 Appendix A)
+   */
+  private _estimateRolloverCounter(state: SrtpReceiveState, sequenceNumber: number): number {
+    const { rolloverCounter, highestSequenceNumber } = state;
+
+    if (highestSequenceNumber < RTP_SEQUENCE_HALF_RANGE) {
+      if (sequenceNumber - highestSequenceNumber > RTP_SEQUENCE_HALF_RANGE) {
+        return Math.max(rolloverCounter - 1, 0);
+      }
+      return rolloverCounter;
+    }
+
+    if (highestSequenceNumber - RTP_SEQUENCE_HALF_RANGE > sequenceNumber) {
+      return rolloverCounter + 1;
+    }
+    return rolloverCounter;
+  }
+
+  /**
+   * Verify the HMAC-SHA1 tag, then decrypt with AES-CM
+   */
+  private _decryptCtr(key: SrtpKey, data: Buffer, rolloverCounter: number): Buffer {
+    const context = key.session.remoteContext;
+    const authenticated = data.slice(0, data.length - key.tagSize);
+    const tag = data.slice(data.length - key.tagSize);
+    const expected = context.generateSrtpAuthTag(authenticated, rolloverCounter);
+
+    if (!timingSafeEqual(tag, expected)) {
+      throw new Error('SRTP authentication tag mismatch');
+    }
+
+    const [packet] = context.cipher.decryptRtp(data, rolloverCounter);
+    return packet;
+  }
+
+  /**
+   * Decrypt with AES-GCM, using the header as additional authenticated data (RFC 7714)
+   */
+  private _decryptGcm(
+    key: SrtpKey,
+    data: Buffer,
+    headerSize: number,
+    ssrc: number,
+    rolloverCounter: number,
+    sequenceNumber: number
+  ): Buffer {
+    const context = key.session.remoteContext;
+    const iv = Buffer.alloc(SRTP_AEAD_IV_SIZE);
+    iv.writeUInt32BE(ssrc, 2);
+    iv.writeUInt32BE(rolloverCounter, 6);
+    iv.writeUInt16BE(sequenceNumber, 10);
+    for (let i = 0; i < iv.length; i += 1) {
+      iv[i] ^= context.srtpSessionSalt[i];
+    }
+
+    const header = data.slice(0, headerSize);
+    const decipher = createDecipheriv('aes-128-gcm', context.srtpSessionKey, iv);
+    decipher.setAAD(header);
+    decipher.setAuthTag(data.slice(data.length - key.tagSize));
+
+    try {
+      const payload = decipher.update(data.slice(headerSize, data.length - key.tagSize));
+      decipher.final();
+      return Buffer.concat([header, payload]);
+    } catch (err) {
+      throw new Error(`SRTP authentication failed: ${(err as Error).message}`);
+    }
+  }
+
+  /**
+   * Verify the HMAC-SHA1 tag of an SRTCP packet, then decrypt it with AES-CM if the E flag is set
+   */
+  private _decryptRtcpCtr(key: SrtpKey, data: Buffer): { packet: Buffer; index: number } {
+    const context = key.session.remoteContext;
+    const indexOffset = data.length - key.tagSize - SRTCP_INDEX_SIZE;
+    const authenticated = data.slice(0, data.length - key.tagSize);
+    const tag = data.slice(data.length - key.tagSize);
+    // werift's SRTCP decrypt leaves the tag unchecked
+    const expected = createHmac('sha1', context.srtcpSessionAuthTag)
+      .update(authenticated)
+      .digest()
+      .slice(0, key.tagSize);
+
+    if (!timingSafeEqual(tag, expected)) {
+      throw new Error('SRTCP authentication tag mismatch');
+    }
+
+    const index = data.readUInt32BE(indexOffset) & SRTCP_INDEX_MASK;
+    const packet = data[indexOffset] & SRTCP_E_FLAG
+      ? context.cipher.decryptRTCP(data)[0]
+      : data.slice(0, indexOffset);
+    return { packet, index };
+  }
+
+  /**
+   * Decrypt an SRTCP packet with AES-GCM (RFC 7714 §9); without the E flag
+   * the whole packet is only authenticated
+   */
+  private _decryptRtcpGcm(key: SrtpKey, data: Buffer): { packet: Buffer; index: number } {
+    const context = key.session.remoteContext;
+    const indexOffset = data.length - SRTCP_INDEX_SIZE;
+    const tagOffset = indexOffset - key.tagSize;
+    const indexField = data.slice(indexOffset);
+    const index = data.readUInt32BE(indexOffset) & SRTCP_INDEX_MASK;
+    const encrypted = (data[indexOffset] & SRTCP_E_FLAG) !== 0;
+
+    const iv = Buffer.alloc(SRTP_AEAD_IV_SIZE);
+    iv.writeUInt32BE(data.readUInt32BE(SRTCP_OFFSET_SSRC), 2);
+    iv.writeUInt32BE(index, 8);
+    for (let i = 0; i < iv.length; i += 1) {
+      iv[i] ^= context.srtcpSessionSalt[i];
+    }
+
+    const header = data.slice(0, encrypted ? SRTCP_HEADER_SIZE : tagOffset);
+    const decipher = createDecipheriv('aes-128-gcm', context.srtcpSessionKey, iv);
+    decipher.setAAD(Buffer.concat([header, indexField]));
+    decipher.setAuthTag(data.slice(tagOffset, indexOffset));
+
+    try {
+      const payload = decipher.update(data.slice(header.length, tagOffset));
+      decipher.final();
+      return { index, packet: Buffer.concat([header, payload]) };
+    } catch (err) {
+      throw new Error(`SRTCP authentication failed: ${(err as Error).message}`);
+    }
+  }
+
+  /**
+   * Size of the plaintext RTP header, which SRTP leaves unencrypted
+   */
+  private _headerSize(data: Buffer): number {
+    if (data.length < RTP_HEADER_SIZE) {
+      throw new Error(`SRTP packet too short: ${data.length} bytes`);
+    }
+
+    const firstByte = data.readUInt8(RTP_OFFSET_VERSION);
+    let headerSize = RTP_HEADER_SIZE + (firstByte & RTP_CSRC_COUNT_MASK) * RTP_CSRC_ENTRY_SIZE;
+    if (firstByte & RTP_EXTENSION_MASK) {
+      if (data.length < headerSize + RTP_EXTENSION_HEADER_SIZE) {
+        throw new Error('SRTP packet truncated inside header extension');
+      }
+      headerSize += RTP_EXTENSION_HEADER_SIZE +
+        data.readUInt16BE(headerSize + 2) * RTP_EXTENSION_WORD_SIZE;
+    }
+    return headerSize;
+  }
+}
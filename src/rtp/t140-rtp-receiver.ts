@@ -0,0 +1,674 @@
+import * as dgram from 'dgram';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import {
+  InboundTransportStream,
+  JitterBufferStats,
+  RtpReceiverConfig,
+  SrtpConfig,
+  TransportStream,
+} from '../interfaces';
+import {
+  DEFAULT_FEC_PAYLOAD_TYPE,
+  DEFAULT_FEC_WINDOW_SIZE,
+  DEFAULT_JITTER_BUFFER_DELAY,
+  DEFAULT_RECEIVER_ADDRESS,
+  DEFAULT_RED_PAYLOAD_TYPE,
+  DEFAULT_REORDER_WINDOW,
+  DEFAULT_RTP_PORT,
+  DEFAULT_T140_PAYLOAD_TYPE,
+  MAX_NACK_SEQUENCE_NUMBERS,
+  MISSING_TEXT_MARKER,
+  RECEIVER_TEXT_QUEUE_SIZE,
+  RTX_OSN_SIZE,
+} from '../utils/constants';
+import { ErrorFactory } from '../utils/error-factory';
+import { generateSecureSSRC } from '../utils/security';
+import { addToSequenceNumber, sequenceNumberDistance } from '../utils/sequence-number';
+import { FecDecoder } from './fec-decoder';
+import { JitterBuffer } from './jitter-buffer';
+import { ParsedRtpPacket, parseRtpPacket } from './parse-rtp-packet';
+import { RedDepacketizedPacket, RedDepacketizer } from './red-depacketizer';
+import { createRtcpNack, isRtcpPacket, parseRtcpPackets, RtcpPacket } from './rtcp';
+import { SrtcpEncryptor } from './srtcp-encryptor';
+import { SrtpDecryptor } from './srtp-decryptor';
+
+/**
+ * Class to receive T.140 text over RTP — the counterpart to T140RtpTransport
+ *
+ * Events:
+ * - 'listening': Emitted once the UDP socket is bound
+ * - 'packet': Emitted for every accepted packet, in sequence order (ParsedRtpPacket)
+ * - 'data': Emitted with the decoded T.140 text of each packet (string, ParsedRtpPacket),
+ *   or with the U+FFFD missing-text marker (string, undefined) where text was lost
+ * - 'loss': Emitted when missing packets are given up on (sequenceNumber: number, count: number)
+ * - 'recovered': Emitted when a lost packet is rebuilt or retransmitted
+ *   (ParsedRtpPacket, source: 'red' | 'fec' | 'rtx')
+ * - 'nack': Emitted when missing packets are requested (sequenceNumbers: number[])
+ * - 'rtcp': Emitted for RTCP multiplexed on the RTP port (packets: RtcpPacket[])
+ * - 'close': Emitted after the receiver has been closed
+ * - 'error': Emitted when an error occurs. Error object contains:
+ *   - type: T140RtpErrorType - the type of error
+ *   - message: string - human-readable error message
+ *   - cause?: Error - original error that caused this error (if available)
+ *
+ * Error Types:
+ * - NETWORK_ERROR: UDP socket errors, including bind failures
+ * - INVALID_PACKET: Malformed packets, or packets with an unexpected payload type or SSRC
+ * - FEC_ERROR: Malformed FEC packets
+ * - ENCRYPTION_ERROR: SRTP packets that fail authentication
+ * - RESOURCE_ERROR: Errors while closing the socket or custom source
+ *
+ * Packets pass through a jitter buffer that puts them back in sequence order.
+ * A missing packet is waited for up to `jitterBufferDelay` ms (or until
+ * `reorderWindow` later packets are waiting); after that it is counted as
+ * lost and, as RFC 4103 recommends, U+FFFD is inserted into the text.
+ *
+ * RED packets (RFC 2198) are split into their primary and redundant blocks,
+ * and redundant generations are used to fill any sequence gaps. FEC packets
+ * (RFC 5109) are used to rebuild a single lost packet out of each protected
+ * group; rebuilt packets go through the same pipeline as received ones.
+ * Like media packets, FEC packets must come from one SSRC, `fecSsrc` or the
+ * first one seen after the media SSRC.
+ *
+ * RTX packets (RFC 4588) are unwrapped and put into the jitter buffer under
+ * their original sequence number. With `nackEnabled`, a generic NACK
+ * (RFC 4585) is sent for every gap in the sequence numbers, to the
+ * `feedbackTransport` or back to the address the last accepted packet of
+ * the stream came from (so the sender must listen for RTCP on its RTP
+ * socket, e.g. with `rtcpMux`). Packets that fail the SRTP or SSRC checks
+ * do not move it.
+ *
+ * With an SRTP configuration (the same SrtpConfig the sender uses), every
+ * packet is authenticated and decrypted first; replayed packets are dropped.
+ * When the sender rolls its key, pass the new configuration to rekeySrtp();
+ * the old key is still accepted for a grace period. Under SRTP, RTCP is
+ * only accepted and NACKs are only sent as SRTCP, which `isSRTCP` enables.
+ *
+ * The receiver is also an AsyncIterable yielding the same text as the 'data'
+ * event, ending when close() is called. Text is held from construction on,
+ * so a loop started after packets arrived still gets them; only the last
+ * RECEIVER_TEXT_QUEUE_SIZE (1024) chunks not yet read are kept.
+ *
+ * Example usage:
+ * ```typescript
+ * const receiver = new T140RtpReceiver({ localPort: 5004 });
+ * for await (const text of receiver) {
+ *   process.stdout.write(text);
+ * }
+ * ```
+ */
+export class T140RtpReceiver extends EventEmitter {
+  private config: RtpReceiverConfig;
+  private udpSocket?: dgram.Socket;
+  private inboundTransport?: InboundTransportStream;
+  private inboundListener?: (data: Buffer) => void;
+  private remoteSsrc?: number;
+  private fecSsrc?: number;
+  private localSsrc: number;
+  private remoteAddress?: AddressInfo;
+  private highestSequenceNumber?: number;
+  private jitterBuffer: JitterBuffer;
+  private redDepacketizer: RedDepacketizer;
+  private fecDecoder: FecDecoder;
+  private srtpDecryptor?: SrtpDecryptor;
+  private srtcpEncryptor?: SrtcpEncryptor; // Set when SRTCP is enabled (isSRTCP)
+  private cleartextNackReported: boolean = false;
+  private textQueue: string[] = [];
+  private pendingReads: ((result: IteratorResult<string>) => void)[] = [];
+  private closed: boolean = false;
+
+  constructor(config: RtpReceiverConfig = {}) {
+    super();
+
+    const localPort = config.localPort ?? DEFAULT_RTP_PORT;
+    if (!config.inboundTransport && (localPort < 0 || localPort > 65535)) {
+      throw new Error('Port number must be between 0 and 65535');
+    }
+
+    this.config = {
+      localPort,
+      localAddress: config.localAddress ?? DEFAULT_RECEIVER_ADDRESS,
+      payloadType: config.payloadType ?? DEFAULT_T140_PAYLOAD_TYPE,
+      redPayloadType: config.redPayloadType ?? DEFAULT_RED_PAYLOAD_TYPE,
+      fecPayloadType: config.fecPayloadType ?? DEFAULT_FEC_PAYLOAD_TYPE,
+      fecWindowSize: config.fecWindowSize ?? DEFAULT_FEC_WINDOW_SIZE,
+      ssrc: config.ssrc,
+      fecSsrc: config.fecSsrc,
+      reorderWindow: config.reorderWindow ?? DEFAULT_REORDER_WINDOW,
+      jitterBufferDelay: config.jitterBufferDelay ?? DEFAULT_JITTER_BUFFER_DELAY,
+      lossMarker: config.lossMarker ?? true,
+      inboundTransport: config.inboundTransport,
+      srtpConfig: config.srtpConfig,
+      rtxPayloadType: config.rtxPayloadType,
+      nackEnabled: config.nackEnabled ?? false,
+      feedbackTransport: config.feedbackTransport,
+    };
+    this.remoteSsrc = config.ssrc;
+    this.fecSsrc = config.fecSsrc;
+    this.localSsrc = config.localSsrc ?? generateSecureSSRC();
+    this.jitterBuffer = new JitterBuffer({
+      maxDelay: this.config.jitterBufferDelay,
+      maxPackets: this.config.reorderWindow,
+    });
+    this.jitterBuffer.on('packet', (packet: ParsedRtpPacket) => this._deliver(packet));
+    this.jitterBuffer.on('loss', (sequenceNumber: number, count: number) => {
+      this._handleLoss(sequenceNumber, count);
+    });
+    this.redDepacketizer = new RedDepacketizer(this.config.redPayloadType);
+    this.fecDecoder = new FecDecoder(this.config.fecWindowSize);
+    this.fecDecoder.on('recovered', (data: Buffer) => this._handleRecoveredPacket(data));
+    if (config.srtpConfig) {
+      this.srtpDecryptor = new SrtpDecryptor(config.srtpConfig);
+      if (config.srtpConfig.isSRTCP) {
+        this.srtcpEncryptor = new SrtcpEncryptor(config.srtpConfig);
+      }
+    }
+
+    if (config.inboundTransport) {
+      // Feed packets from the custom source into the receive pipeline
+      this.inboundTransport = config.inboundTransport;
+      this.inboundListener = (data: Buffer) => this.handlePacket(data);
+      this.inboundTransport.on('data', this.inboundListener);
+      return;
+    }
+
+    try {
+      this.udpSocket = dgram.createSocket('udp4');
+    } catch (err) {
+      throw new Error(`Failed to create UDP socket: ${err}`);
+    }
+
+    this.udpSocket.on('error', (err) => {
+      this.emit('error', ErrorFactory.NETWORK('UDP socket error', err));
+    });
+    this.udpSocket.on('message', (msg, rinfo) => this._handlePacket(msg, rinfo));
+    this.udpSocket.on('listening', () => this.emit('listening'));
+    this.udpSocket.bind(localPort, this.config.localAddress);
+  }
+
+  /**
+   * Get the local address the UDP socket is bound to, if any
+   */
+  address(): AddressInfo | undefined {
+    try {
+      return this.udpSocket?.address();
+    } catch (_err) {
+      // Socket not bound yet
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the jitter buffer's packet counters
+   */
+  getStats(): JitterBufferStats {
+    return this.jitterBuffer.getStats();
+  }
+
+  /**
+   * Initialize SRTP decryption for all subsequent packets
+   *
+   * @param srtpConfig The SRTP configuration shared with the sender
+   */
+  setupSrtp(srtpConfig: SrtpConfig): void {
+    try {
+      const decryptor = new SrtpDecryptor(srtpConfig);
+      this.srtcpEncryptor = srtpConfig.isSRTCP ? new SrtcpEncryptor(srtpConfig) : undefined;
+      this.srtpDecryptor = decryptor;
+    } catch (err) {
+      this.emit('error', ErrorFactory.INVALID_CONFIG(
+        'Failed to initialize SRTP decryption',
+        err as Error
+      ));
+    }
+  }
+
+  /**
+   * Switch to the sender's new SRTP key, keeping the old one for in-flight packets
+   *
+   * Sets up SRTP if it was not set up yet.
+   *
+   * @param srtpConfig The sender's new SRTP configuration
+   * @param gracePeriod How long the previous key is still accepted, in ms (default: 5000)
+   */
+  rekeySrtp(srtpConfig: SrtpConfig, gracePeriod?: number): void {
+    if (!this.srtpDecryptor) {
+      this.setupSrtp(srtpConfig);
+      return;
+    }
+    try {
+      this.srtpDecryptor.rekey(srtpConfig, gracePeriod);
+      if (!srtpConfig.isSRTCP) {
+        this.srtcpEncryptor = undefined;
+      } else if (this.srtcpEncryptor) {
+        this.srtcpEncryptor.rekey(srtpConfig);
+      } else {
+        this.srtcpEncryptor = new SrtcpEncryptor(srtpConfig);
+      }
+    } catch (err) {
+      this.emit('error', ErrorFactory.INVALID_CONFIG(
+        'Failed to rekey SRTP decryption',
+        err as Error
+      ));
+    }
+  }
+
+  /**
+   * Feed one raw RTP packet into the receive pipeline
+   *
+   * Called automatically for packets arriving on the UDP socket or the custom
+   * inbound source; may also be called directly by other packet sources.
+   *
+   * @param data Buffer containing a complete RTP (or, with SRTP set up, SRTP) packet
+   */
+  handlePacket(data: Buffer): void {
+    this._handlePacket(data);
+  }
+
+  /**
+   * @param data The packet
+   * @param rinfo Where a packet on the UDP socket came from; NACKs go there
+   * once it has passed the SRTP and SSRC checks
+   */
+  private _handlePacket(data: Buffer, rinfo?: dgram.RemoteInfo): void {
+    if (this.closed) {
+      return;
+    }
+
+    if (isRtcpPacket(data)) {
+      // RTCP multiplexed on the RTP port (RFC 5761); under SRTP only SRTCP is accepted
+      if (!this.srtpDecryptor) {
+        this._handleRtcp(data);
+      } else if (this.srtcpEncryptor) {
+        this._handleSrtcp(data);
+      }
+      return;
+    }
+
+    let rtpData = data;
+    if (this.srtpDecryptor) {
+      let decrypted: Buffer | undefined;
+      try {
+        decrypted = this.srtpDecryptor.decrypt(data);
+      } catch (err) {
+        this.emit('error', ErrorFactory.ENCRYPTION(
+          'Failed to authenticate SRTP packet - packet dropped',
+          err as Error
+        ));
+        return;
+      }
+      if (!decrypted) {
+        // Replayed packet
+        return;
+      }
+      rtpData = decrypted;
+    }
+
+    let packet: ParsedRtpPacket;
+    try {
+      packet = parseRtpPacket(rtpData);
+    } catch (err) {
+      this.emit('error', ErrorFactory.INVALID_PACKET(
+        'Failed to parse inbound RTP packet',
+        err as Error
+      ));
+      return;
+    }
+
+    // FEC packets travel on their own SSRC, which is checked separately
+    if (packet.payloadType === this.config.fecPayloadType) {
+      if (!this._acceptFecSource(packet)) {
+        return;
+      }
+      try {
+        this.fecDecoder.addFecPacket(rtpData);
+      } catch (err) {
+        this.emit('error', ErrorFactory.FEC('Failed to decode FEC packet', err as Error));
+      }
+      return;
+    }
+
+    // RTX packets also have an SSRC of their own
+    if (packet.payloadType === this.config.rtxPayloadType) {
+      this._handleRtxPacket(packet);
+      return;
+    }
+
+    if (!this._acceptSource(packet)) {
+      return;
+    }
+    if (rinfo) {
+      // Only a packet from the stream itself may redirect feedback
+      this.remoteAddress = rinfo;
+    }
+
+    if (this.config.nackEnabled) {
+      this._requestMissing(packet.sequenceNumber);
+    }
+    this.fecDecoder.addMediaPacket(rtpData);
+    this._processPacket(packet);
+  }
+
+  /**
+   * Unwrap an RTX packet into the packet it retransmits (RFC 4588 §4)
+   */
+  private _handleRtxPacket(packet: ParsedRtpPacket): void {
+    if (this.remoteSsrc === undefined) {
+      // Nothing to associate the retransmission with yet
+      return;
+    }
+    if (packet.payload.length < RTX_OSN_SIZE) {
+      this.emit('error', ErrorFactory.INVALID_PACKET(
+        'RTX packet too short for its original sequence number'
+      ));
+      return;
+    }
+
+    const original: ParsedRtpPacket = {
+      ...packet,
+      payloadType: this.config.payloadType!,
+      sequenceNumber: packet.payload.readUInt16BE(0),
+      ssrc: this.remoteSsrc,
+      payload: packet.payload.slice(RTX_OSN_SIZE),
+    };
+    this._processPacket(original, 'rtx');
+  }
+
+  /**
+   * Send a generic NACK for any sequence numbers skipped before this packet
+   */
+  private _requestMissing(sequenceNumber: number): void {
+    const highest = this.highestSequenceNumber;
+    if (highest !== undefined && sequenceNumberDistance(highest, sequenceNumber) <= 0) {
+      // Reordered, duplicated or retransmitted
+      return;
+    }
+    this.highestSequenceNumber = sequenceNumber;
+
+    if (highest === undefined) {
+      return;
+    }
+    const gap = sequenceNumberDistance(highest, sequenceNumber) - 1;
+    if (gap === 0) {
+      return;
+    }
+
+    // Ask for at most the most recent MAX_NACK_SEQUENCE_NUMBERS packets
+    const missing: number[] = [];
+    for (let i = Math.max(1, gap - MAX_NACK_SEQUENCE_NUMBERS + 1); i <= gap; i += 1) {
+      missing.push(addToSequenceNumber(highest, i));
+    }
+    this._sendNack(missing);
+  }
+
+  private _sendNack(sequenceNumbers: number[]): void {
+    const feedbackTransport: TransportStream | undefined = this.config.feedbackTransport;
+    if (!feedbackTransport && !(this.udpSocket && this.remoteAddress)) {
+      return;
+    }
+
+    let nack = createRtcpNack(this.localSsrc, this.remoteSsrc!, sequenceNumbers);
+    if (this.srtpDecryptor) {
+      if (!this.srtcpEncryptor) {
+        // Feedback never leaves in the clear next to SRTP
+        if (!this.cleartextNackReported) {
+          this.cleartextNackReported = true;
+          this.emit('error', ErrorFactory.INVALID_CONFIG(
+            'NACKs are not sent in the clear while SRTP is enabled; set isSRTCP to send SRTCP'
+          ));
+        }
+        return;
+      }
+      try {
+        nack = this.srtcpEncryptor.encrypt(nack);
+      } catch (err) {
+        this.emit('error', ErrorFactory.ENCRYPTION(
+          'Failed to encrypt NACK with SRTCP - NACK not sent',
+          err as Error
+        ));
+        return;
+      }
+    }
+    const onSent = (err?: Error | null) => {
+      if (err) {
+        this.emit('error', ErrorFactory.NETWORK('Failed to send NACK', err));
+      }
+    };
+    if (feedbackTransport) {
+      feedbackTransport.send(nack, onSent);
+    } else {
+      this.udpSocket!.send(nack, this.remoteAddress!.port, this.remoteAddress!.address, onSent);
+    }
+    this.emit('nack', sequenceNumbers);
+  }
+
+  private _handleSrtcp(data: Buffer): void {
+    let decrypted: Buffer | undefined;
+    try {
+      decrypted = this.srtpDecryptor!.decryptRtcp(data);
+    } catch (err) {
+      this.emit('error', ErrorFactory.ENCRYPTION(
+        'Failed to authenticate SRTCP packet - packet dropped',
+        err as Error
+      ));
+      return;
+    }
+    if (decrypted) {
+      this._handleRtcp(decrypted);
+    }
+  }
+
+  private _handleRtcp(data: Buffer): void {
+    let packets: RtcpPacket[];
+    try {
+      packets = parseRtcpPackets(data);
+    } catch (err) {
+      this.emit('error', ErrorFactory.INVALID_PACKET(
+        'Failed to parse inbound RTCP packet',
+        err as Error
+      ));
+      return;
+    }
+    this.emit('rtcp', packets);
+  }
+
+  /**
+   * Parse a packet rebuilt by the FEC decoder and feed it into the pipeline
+   */
+  private _handleRecoveredPacket(data: Buffer): void {
+    if (this.closed) {
+      return;
+    }
+
+    let packet: ParsedRtpPacket;
+    try {
+      packet = parseRtpPacket(data);
+    } catch (err) {
+      this.emit('error', ErrorFactory.FEC('Recovered packet is not valid RTP', err as Error));
+      return;
+    }
+    if (!this._acceptSource(packet)) {
+      return;
+    }
+
+    this._processPacket(packet, 'fec');
+  }
+
+  /**
+   * Split a packet into its media packets and put them in sequence order
+   */
+  private _processPacket(packet: ParsedRtpPacket, source?: 'fec' | 'rtx'): void {
+    let mediaPackets: RedDepacketizedPacket[];
+    try {
+      mediaPackets = this.redDepacketizer.depacketize(packet);
+    } catch (err) {
+      this.emit('error', ErrorFactory.INVALID_PACKET(
+        'Failed to decode RED packet',
+        err as Error
+      ));
+      return;
+    }
+
+    for (const media of mediaPackets) {
+      if (media.payloadType !== this.config.payloadType) {
+        this.emit('error', ErrorFactory.INVALID_PACKET(
+          `Unexpected payload type ${media.payloadType}, expected ${this.config.payloadType}`
+        ));
+        continue;
+      }
+
+      if (media.recovered) {
+        this.emit('recovered', media, 'red');
+      } else if (source) {
+        this.emit('recovered', media, source);
+      }
+      this.jitterBuffer.push(media);
+    }
+  }
+
+  /**
+   * Validate the SSRC of an inbound packet, locking in the first one seen
+   * when no SSRC was configured
+   */
+  private _acceptSource(packet: ParsedRtpPacket): boolean {
+    if (this.remoteSsrc === undefined) {
+      this.remoteSsrc = packet.ssrc;
+      return true;
+    }
+
+    if (packet.ssrc !== this.remoteSsrc) {
+      this.emit('error', ErrorFactory.INVALID_PACKET(
+        `Unexpected SSRC ${packet.ssrc}, expected ${this.remoteSsrc}`
+      ));
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Validate the SSRC of an FEC packet, locking in the first one seen once
+   * the media SSRC is known when no FEC SSRC was configured
+   */
+  private _acceptFecSource(packet: ParsedRtpPacket): boolean {
+    if (this.remoteSsrc === undefined) {
+      // There is no stream to protect yet
+      return false;
+    }
+    if (this.fecSsrc === undefined) {
+      this.fecSsrc = packet.ssrc;
+      return true;
+    }
+
+    if (packet.ssrc !== this.fecSsrc) {
+      this.emit('error', ErrorFactory.INVALID_PACKET(
+        `Unexpected FEC SSRC ${packet.ssrc}, expected ${this.fecSsrc}`
+      ));
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Report packets the jitter buffer gave up on and mark the missing text
+   */
+  private _handleLoss(sequenceNumber: number, count: number): void {
+    this.emit('loss', sequenceNumber, count);
+    if (this.config.lossMarker) {
+      this._deliverText(MISSING_TEXT_MARKER);
+    }
+  }
+
+  /**
+   * Emit a packet and its decoded T.140 text
+   */
+  private _deliver(packet: ParsedRtpPacket): void {
+    this.emit('packet', packet);
+
+    if (packet.payload.length === 0) {
+      return;
+    }
+
+    this._deliverText(packet.payload.toString('utf-8'), packet);
+  }
+
+  /**
+   * Emit text and hand it to any async iterator
+   */
+  private _deliverText(text: string, packet?: ParsedRtpPacket): void {
+    this.emit('data', text, packet);
+
+    const read = this.pendingReads.shift();
+    if (read) {
+      read({ done: false, value: text });
+      return;
+    }
+    this.textQueue.push(text);
+    if (this.textQueue.length > RECEIVER_TEXT_QUEUE_SIZE) {
+      // Nobody is reading; keep the most recent text
+      this.textQueue.shift();
+    }
+  }
+
+  /**
+   * Iterate over received text, starting with any not read yet, until the
+   * receiver is closed
+   */
+  readonly [Symbol.asyncIterator] = (): AsyncIterator<string> => {
+    return {
+      next: (): Promise<IteratorResult<string>> => {
+        if (this.textQueue.length > 0) {
+          return Promise.resolve({ done: false, value: this.textQueue.shift()! });
+        }
+        if (this.closed) {
+          return Promise.resolve({ done: true, value: undefined });
+        }
+        return new Promise((resolve) => {
+          this.pendingReads.push(resolve);
+        });
+      },
+      return: (): Promise<IteratorResult<string>> => {
+        this.close();
+        return Promise.resolve({ done: true, value: undefined });
+      },
+    };
+  }
+
+  /**
+   * Close the receiver and release the socket or custom source
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    try {
+      if (this.inboundTransport) {
+        if (this.inboundListener && this.inboundTransport.removeListener) {
+          this.inboundTransport.removeListener('data', this.inboundListener);
+        }
+        if (typeof this.inboundTransport.close === 'function') {
+          this.inboundTransport.close();
+        }
+      } else if (this.udpSocket) {
+        this.udpSocket.close();
+      }
+    } catch (err) {
+      this.emit('error', ErrorFactory.RESOURCE(
+        'Error closing receiver resources',
+        err as Error
+      ));
+    }
+
+    this.jitterBuffer.reset();
+    this.fecDecoder.reset();
+    for (const read of this.pendingReads.splice(0)) {
+      read({ done: true, value: undefined });
+    }
+
+    this.emit('close');
+  }
+}
@@ -1,11 +1,22 @@
 import * as dgram from 'dgram';
 import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
 import { RtpPacket, SrtpSession } from 'werift-rtp';
 import {
+  DtlsSrtpConfig,
+  DtlsSrtpKeys,
+  IpFamily,
   RtpConfig,
   SrtpConfig,
   TransportStream,
 } from '../interfaces';
+import {
+  getAddressFamily,
+  isValidHostname,
+  normalizeAddress,
+  openUdpSocket,
+  udpSocketType,
+} from '../utils/address';
 import {
   BIT_SHIFT_128,
   BIT_SHIFT_16,
@@ -15,7 +26,10 @@ import {
   DEFAULT_FEC_PAYLOAD_TYPE,
   DEFAULT_REDUNDANCY_LEVEL,
   DEFAULT_RED_PAYLOAD_TYPE,
+  DEFAULT_RTCP_INTERVAL,
   DEFAULT_RTP_PORT,
+  DEFAULT_RTX_HISTORY_SIZE,
+  DEFAULT_SRTP_MKI_LENGTH,
   DEFAULT_T140_PAYLOAD_TYPE,
   DEFAULT_TIMESTAMP_INCREMENT,
   FEC_EXT_OFFSET_FLAGS,
@@ -24,14 +38,20 @@ import {
   FEC_EXT_OFFSET_MEDIA_PT,
   FEC_EXT_OFFSET_SN_BASE,
   FEC_EXT_OFFSET_TIMESTAMP,
+  FEC_FLAGS_RECOVERY_MASK,
   FEC_HEADER_EXTENSION_SIZE,
+  RED_BLOCK_LENGTH_BITS,
   RED_F_BIT_FLAG,
   RED_HEADER_SIZE_PER_BLOCK,
   RED_MAX_BLOCK_LENGTH,
+  RED_MAX_TIMESTAMP_OFFSET,
   RED_OFFSET_BLOCK_LENGTH,
   RED_OFFSET_TIMESTAMP_OFFSET,
   RED_PRIMARY_HEADER_SIZE,
+  RTP_CSRC_COUNT_MASK,
+  RTP_CSRC_ENTRY_SIZE,
   RTP_HEADER_SIZE,
+  RTP_MARKER_MASK,
   RTP_MAX_SEQUENCE_NUMBER,
   RTP_OFFSET_PAYLOAD_TYPE,
   RTP_OFFSET_SEQUENCE,
@@ -39,10 +59,33 @@ import {
   RTP_OFFSET_TIMESTAMP,
   RTP_OFFSET_VERSION,
   RTP_VERSION,
+  RTX_OSN_SIZE,
 } from '../utils/constants';
 import { ErrorFactory } from '../utils/error-factory';
-import { generateSecureSSRC } from '../utils/security';
+import {
+  addSrtpMki,
+  encodeSrtpMki,
+  generateCname,
+  generateSecureSSRC,
+  generateSrtpMasterKeys,
+} from '../utils/security';
 import { createRtpPacket } from './create-rtp-packet';
+import { DtlsSrtpSession, isDtlsPacket } from './dtls-srtp';
+import { parseRtpPacket } from './parse-rtp-packet';
+import {
+  calculateRoundTripTime,
+  createRtcpBye,
+  createRtcpReceiverReport,
+  createRtcpSdes,
+  createRtcpSenderReport,
+  isRtcpPacket,
+  parseRtcpPackets,
+  RtcpPacket,
+  RtcpReceptionReport,
+  toNtpTimestamp,
+} from './rtcp';
+import { SrtcpEncryptor } from './srtcp-encryptor';
+import { SrtpDecryptor } from './srtp-decryptor';
 
 /**
  * Class to manage RTP/SRTP connections for sending T.140 data
@@ -77,6 +120,63 @@ import { createRtpPacket } from './create-rtp-packet';
  *   - Occurs during socket creation/closing
  *   - Memory allocation issues
  *
+ * - INVALID_PACKET: Malformed inbound RTCP packets
+ *
+ * RTCP (RFC 3550), enabled with `rtcpEnabled`, is sent to the remote RTP
+ * port + 1, or on the RTP port itself with `rtcpMux` (RFC 5761) or a custom
+ * transport. A compound SR (or RR before any text is sent) plus SDES CNAME
+ * goes out every `rtcpInterval` ms on average, and BYE is sent on close().
+ * Once SRTP is set up, RTCP is sent and accepted only as SRTCP (RFC 3711
+ * §3.4), with `isSRTCP` and the same master keys as RTP: ours outbound, the
+ * peer's inbound; without `isSRTCP` no RTCP is sent at all and INVALID_CONFIG
+ * is reported once.
+ * Over UDP, inbound RTCP is only taken from the remote address and port
+ * it is sent to (the latched ones once latched); it is parsed and reported
+ * through these events:
+ * - 'rtcp': Every inbound compound RTCP packet (packets: RtcpPacket[])
+ * - 'receiverReport': A report block about this stream (report: RtcpReceptionReport)
+ * - 'bye': The remote party left (ssrcs: number[], reason?: string)
+ * - 'nack': The remote party asked for lost packets (sequenceNumbers: number[])
+ *
+ * With `rtxPayloadType` set, recently sent packets are kept and resent in
+ * RFC 4588 RTX format (own SSRC and sequence numbers, original sequence number
+ * in front of the payload) when a generic NACK (RFC 4585) asks for them.
+ * The T.140 packet is resent even when it was first sent inside RED.
+ *
+ * With `dtlsSrtp` set (or after startDtlsSrtp()), SRTP keys are negotiated
+ * with a DTLS handshake (RFC 5764) on the RTP channel itself. The peer
+ * certificate must match the fingerprint from its SDP. Text sent before the
+ * handshake completes is held back and sent encrypted afterwards; if the
+ * handshake fails, text is dropped and ENCRYPTION_ERROR is reported.
+ * - 'dtlsConnected': SRTP keys were negotiated (keys: DtlsSrtpKeys)
+ *
+ * SRTP keys can be rolled with rekeySrtp(), on a timer with `rekeyInterval`
+ * or after `keyLifetime` packets. With `mki` set, every packet carries the
+ * MKI of its key (RFC 3711 §3.1), so receivers can tell keys apart while
+ * both are in use. The rollover counter carries over to the new key. The
+ * new configuration must reach the receiver (e.g. in a new SDES offer):
+ * - 'srtpRekey': The sender switched keys (srtpConfig: SrtpConfig)
+ *
+ * The remote address may be an IPv4 or IPv6 literal (brackets optional) or a
+ * hostname. Literals get a udp4 or udp6 socket right away. Hostnames are
+ * resolved first, trying IPv6 and IPv4 addresses alternately (RFC 8305)
+ * until one can be reached, or only the family in `addressFamily`; text
+ * sent meanwhile goes out once the socket is open, and a hostname that
+ * cannot be used is reported as INVALID_CONFIG.
+ *
+ * For symmetric RTP (RFC 4961), `localAddress` and `localPort` bind the UDP
+ * socket so packets leave from the advertised port (RTCP from the port
+ * above it). Inbound RTP from the remote address and port arrives on the
+ * same socket, so the transport can be a T140RtpReceiver's inboundTransport.
+ * With `latchRemoteAddress` the source of the first valid inbound RTP packet,
+ * wherever it comes from, replaces the remote address and port (latching
+ * behind NAT). The packet must carry the T.140 or RED payload type and, if
+ * `remoteSsrc` is set, that SSRC; once SRTP is in use it must also
+ * authenticate under the peer's key:
+ * - 'listening': The UDP socket is bound (address: AddressInfo)
+ * - 'latched': Packets now go to the latched source (address: string, port: number)
+ * - 'data': One inbound RTP packet from the remote side (data: Buffer)
+ *
  * Example usage:
  * ```typescript
  * const transport = new T140RtpTransport('127.0.0.1', 5004);
@@ -94,7 +194,22 @@ export class T140RtpTransport extends EventEmitter {
   private timestamp: number;
   private config: RtpConfig;
   private srtpSession?: SrtpSession;
+  private srtpConfig?: SrtpConfig;
+  // The peer's own key, when it differs from ours
+  private remoteSrtpConfig?: SrtpConfig;
+  private srtpMki?: Buffer;
+  private packetsUnderKey: number = 0;
+  private rekeyTimer?: ReturnType<typeof setTimeout>;
+  private srtcpEncryptor?: SrtcpEncryptor;
+  private srtcpDecryptor?: SrtpDecryptor;
+  private cleartextRtcpReported: boolean = false;
   private udpSocket?: dgram.Socket;
+  private udpSocketReady?: Promise<void>;
+  private addressFamily?: IpFamily;
+  private latched: boolean = false;
+  // Authenticates the packet latched onto once SRTP is in use
+  private latchDecryptor?: SrtpDecryptor;
+  private rtcpPortFollowsRemote: boolean = true;
   private customTransport?: TransportStream;
   private remoteAddress: string;
   private remotePort: number;
@@ -102,7 +217,23 @@ export class T140RtpTransport extends EventEmitter {
   private packetSequenceNumbers: number[] = [];
   private packetTimestamps: number[] = [];
   private fecCounter: number = 0;
+  private fecSeqNum: number = 0;
   private redPackets: Buffer[] = [];
+  private rtcpSocket?: dgram.Socket;
+  private rtcpTimer?: ReturnType<typeof setTimeout>;
+  private rtcpListener?: (data: Buffer, rinfo?: dgram.RemoteInfo) => void;
+  private packetsSent: number = 0;
+  private octetsSent: number = 0;
+  private lastRtpTimestamp: number = 0;
+  private charRateLimitOverride?: number;
+  private sentHistory: Map<number, Buffer> = new Map();
+  private rtxSeqNum: number = 0;
+  private dtlsSession?: DtlsSrtpSession;
+  private dtlsListener?: (data: Buffer, rinfo?: dgram.RemoteInfo) => void;
+  private pendingTexts: { text: string; options?: Partial<RtpConfig> }[] = [];
+  // Where DTLS-SRTP negotiation stands; once asked for, nothing leaves in the clear
+  private dtlsState?: 'negotiating' | 'connected' | 'failed';
+  private closed: boolean = false;
 
   constructor(
     remoteAddress: string,
@@ -116,32 +247,54 @@ export class T140RtpTransport extends EventEmitter {
 
     // If a custom transport is provided, we don't need to validate address and port
     // but we still store them for compatibility
+    const addressFamily = remoteAddress ? getAddressFamily(remoteAddress) : undefined;
+    // A local address limits the remote side to its family
+    const localFamily = config.localAddress ? getAddressFamily(config.localAddress) : undefined;
+    const requiredFamily = config.addressFamily ?? localFamily;
     if (!this.customTransport) {
       // Validate remote address
       if (!remoteAddress) {
-        throw new Error(
+        throw ErrorFactory.INVALID_CONFIG(
           'Remote address is required when no custom transport is provided'
         );
       }
 
-      // Basic validation of the remote address format
-      // This performs basic IPv4 validation and rejects obviously invalid addresses
-      if (
-        !/^(\d{1,3}\.){3}\d{1,3}$/.test(remoteAddress) &&
-        remoteAddress !== 'localhost' &&
-        !/^\[?[0-9a-fA-F:]+\]?$/.test(remoteAddress) &&
-        !/^[a-zA-Z0-9][a-zA-Z0-9.-]*[a-zA-Z0-9]$/.test(remoteAddress)
-      ) {
-        throw new Error('Invalid remote address format');
+      // The address must be an IPv4 or IPv6 literal or a hostname
+      if (!addressFamily && !isValidHostname(remoteAddress)) {
+        throw ErrorFactory.INVALID_CONFIG(`Invalid remote address format: ${remoteAddress}`);
+      }
+      if (config.localAddress && !localFamily) {
+        throw ErrorFactory.INVALID_CONFIG(`Invalid local address: ${config.localAddress}`);
+      }
+      if (localFamily && config.addressFamily && localFamily !== config.addressFamily) {
+        throw ErrorFactory.INVALID_CONFIG(
+          `Local address ${config.localAddress} is not an IPv${config.addressFamily} address`
+        );
+      }
+      if (addressFamily && requiredFamily && addressFamily !== requiredFamily) {
+        throw ErrorFactory.INVALID_CONFIG(
+          `${remoteAddress} is not an IPv${requiredFamily} address`
+        );
       }
 
-      // Validate port number is within valid range
-      if (remotePort < 0 || remotePort > 65535) {
-        throw new Error('Port number must be between 0 and 65535');
+      // Validate port numbers are within valid range
+      if (!Number.isInteger(remotePort) || remotePort < 0 || remotePort > 65535) {
+        throw ErrorFactory.INVALID_CONFIG('Port number must be between 0 and 65535');
+      }
+      const localPort = config.localPort;
+      if (localPort !== undefined &&
+        (!Number.isInteger(localPort) || localPort < 0 || localPort > 65535)) {
+        throw ErrorFactory.INVALID_CONFIG('Local port number must be between 0 and 65535');
+      }
+      const remoteSsrc = config.remoteSsrc;
+      if (remoteSsrc !== undefined &&
+        (!Number.isInteger(remoteSsrc) || remoteSsrc < 0 || remoteSsrc > 0xffffffff)) {
+        throw ErrorFactory.INVALID_CONFIG('Remote SSRC must be a 32-bit unsigned integer');
       }
     }
 
-    this.remoteAddress = remoteAddress;
+    this.remoteAddress = remoteAddress ? normalizeAddress(remoteAddress) : remoteAddress;
+    this.addressFamily = addressFamily;
     this.remotePort = remotePort;
     // Generate a secure random SSRC if not provided
     const secureSSRC = generateSecureSSRC();
@@ -156,55 +309,449 @@ export class T140RtpTransport extends EventEmitter {
       fecEnabled: config.fecEnabled ?? false,
       fecPayloadType: config.fecPayloadType ?? DEFAULT_FEC_PAYLOAD_TYPE,
       fecGroupSize: config.fecGroupSize ?? DEFAULT_FEC_GROUP_SIZE,
+      fecSsrc: config.fecSsrc,
       charRateLimit: config.charRateLimit ?? 0, // 0 means no rate limit
       redEnabled: config.redEnabled ?? false, // Redundancy disabled by default
       redPayloadType: config.redPayloadType ?? DEFAULT_RED_PAYLOAD_TYPE,
       redundancyLevel: config.redundancyLevel ?? DEFAULT_REDUNDANCY_LEVEL,
       customTransport: config.customTransport,
+      rtcpEnabled: config.rtcpEnabled ?? false,
+      rtcpMux: config.rtcpMux ?? false,
+      rtcpPort: config.rtcpPort ?? remotePort + 1,
+      rtcpInterval: config.rtcpInterval ?? DEFAULT_RTCP_INTERVAL,
+      cname: config.cname ?? generateCname(),
+      rtxPayloadType: config.rtxPayloadType,
+      rtxSsrc: config.rtxSsrc,
+      rtxHistorySize: config.rtxHistorySize ?? DEFAULT_RTX_HISTORY_SIZE,
+      addressFamily: requiredFamily,
+      localAddress: config.localAddress ? normalizeAddress(config.localAddress) : undefined,
+      localPort: config.localPort,
+      latchRemoteAddress: config.latchRemoteAddress ?? false,
+      remoteSsrc: config.remoteSsrc,
     };
+    this.rtcpPortFollowsRemote = config.rtcpPort === undefined;
 
     this.seqNum = this.config.initialSequenceNumber!;
     this.timestamp = this.config.initialTimestamp!;
 
+    // FEC packets need an SSRC of their own, distinct from the media SSRC
+    while (this.config.fecSsrc === undefined || this.config.fecSsrc === this.config.ssrc) {
+      this.config.fecSsrc = generateSecureSSRC();
+    }
+
+    // Likewise for RTX packets, which must not share an SSRC with media or FEC
+    while (
+      this.config.rtxSsrc === undefined ||
+      this.config.rtxSsrc === this.config.ssrc ||
+      this.config.rtxSsrc === this.config.fecSsrc
+    ) {
+      this.config.rtxSsrc = generateSecureSSRC();
+    }
+
     // Create UDP socket only if no custom transport is provided
-    if (!this.customTransport) {
+    if (!this.customTransport && this.addressFamily) {
+      let socket: dgram.Socket;
       try {
-        this.udpSocket = dgram.createSocket('udp4');
-
-        // Set up UDP socket error handler
-        this.udpSocket.on('error', (err) => {
-          this.emit('error', ErrorFactory.NETWORK('UDP socket error', err));
-        });
+        socket = dgram.createSocket(udpSocketType(this.addressFamily));
       } catch (err) {
         throw new Error(`Failed to create UDP socket: ${err}`);
       }
+      this._attachUdpSocket(socket);
+      const localBinding = this._getLocalBinding();
+      if (localBinding) {
+        // Sends made before the bind completes are queued by the socket
+        socket.bind(localBinding);
+      }
+    } else if (!this.customTransport) {
+      this.udpSocketReady = this._openUdpSocketForHostname();
+    }
+
+    if (this.config.rtcpEnabled && this.udpSocketReady) {
+      // RTCP needs to know the address family, and listens on the RTP socket with rtcpMux
+      this.udpSocketReady.then(() => {
+        if (this.udpSocket && !this.closed) {
+          this._startRtcp();
+        }
+      });
+    } else if (this.config.rtcpEnabled) {
+      this._startRtcp();
+    }
+
+    if (config.dtlsSrtp) {
+      this.startDtlsSrtp(config.dtlsSrtp).catch((err) => {
+        // A handshake cut short by close() is not an error
+        if (!this.closed) {
+          this.emit('error', err);
+        }
+      });
+    }
+  }
+
+  /**
+   * Make a socket the RTP socket
+   */
+  private _attachUdpSocket(socket: dgram.Socket): void {
+    this.udpSocket = socket;
+    // Set up UDP socket error handler
+    socket.on('error', (err) => {
+      this.emit('error', ErrorFactory.NETWORK('UDP socket error', err));
+    });
+    socket.on('listening', () => this.emit('listening', socket.address()));
+    socket.on('message', (data: Buffer, rinfo: dgram.RemoteInfo) => {
+      this._handleUdpMessage(data, rinfo);
+    });
+  }
+
+  /**
+   * Where to bind the RTP socket, if a local address or port is configured
+   */
+  private _getLocalBinding(portOffset: number = 0): dgram.BindOptions | undefined {
+    const { localAddress, localPort } = this.config;
+    if (localAddress === undefined && localPort === undefined) {
+      return undefined;
+    }
+    return { address: localAddress, port: localPort ? localPort + portOffset : 0 };
+  }
+
+  /**
+   * Latch onto the first valid inbound RTP packet's source if asked to, then
+   * pass RTP from the remote side on as 'data'; RTCP and DTLS have their own
+   * listeners
+   */
+  private _handleUdpMessage(data: Buffer, rinfo: dgram.RemoteInfo): void {
+    if (this.config.latchRemoteAddress && !this.latched && this._canLatchOnto(data)) {
+      this.latched = true;
+      this.latchDecryptor = undefined;
+      this.remoteAddress = rinfo.address;
+      this.remotePort = rinfo.port;
+      if (this.rtcpPortFollowsRemote) {
+        this.config.rtcpPort = rinfo.port + 1;
+      }
+      this.emit('latched', rinfo.address, rinfo.port);
+    }
+
+    if (!this._isFromRemote(rinfo, this.remotePort)) {
+      return;
+    }
+    if (!isRtcpPacket(data) && !isDtlsPacket(data)) {
+      this.emit('data', data);
+    }
+  }
+
+  /**
+   * Whether a datagram came from the remote address and the given port;
+   * packets from a custom transport carry no source and always do
+   */
+  private _isFromRemote(rinfo: dgram.RemoteInfo | undefined, port: number): boolean {
+    return !rinfo || (rinfo.address === this.remoteAddress && rinfo.port === port);
+  }
+
+  /**
+   * Whether an inbound packet is RTP the peer sent: the T.140 or RED payload
+   * type, the expected SSRC, and authenticated once SRTP is in use
+   */
+  private _canLatchOnto(data: Buffer): boolean {
+    if (isRtcpPacket(data) || isDtlsPacket(data)) {
+      return false;
+    }
+    let packet: Buffer | undefined = data;
+    try {
+      if (this.srtpSession || this.dtlsState) {
+        // Before the keys are known, nothing can be authenticated
+        packet = this.latchDecryptor?.decrypt(data);
+      }
+      if (!packet) {
+        return false;
+      }
+      const { payloadType, ssrc } = parseRtpPacket(packet);
+      const expected = this.config;
+      return (payloadType === expected.payloadType || payloadType === expected.redPayloadType) &&
+        (expected.remoteSsrc === undefined || ssrc === expected.remoteSsrc);
+    } catch {
+      // Malformed, or failed authentication
+      return false;
+    }
+  }
+
+  /**
+   * The local address and port of the RTP socket, once it is bound
+   */
+  getLocalAddress(): AddressInfo | undefined {
+    try {
+      return this.udpSocket?.address();
+    } catch {
+      // Not bound yet
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolve the remote hostname and open a socket of the family that reaches it
+   */
+  private async _openUdpSocketForHostname(): Promise<void> {
+    const hostname = this.remoteAddress;
+    try {
+      const { socket, address, family } = await openUdpSocket(
+        hostname,
+        this.remotePort,
+        this.config.addressFamily,
+        this._getLocalBinding()
+      );
+      if (this.closed) {
+        socket.close();
+        return;
+      }
+      this.remoteAddress = address;
+      this.addressFamily = family;
+      this._attachUdpSocket(socket);
+    } catch (err) {
+      if (!this.closed) {
+        this.emit('error', ErrorFactory.INVALID_CONFIG(
+          `Cannot send to remote address ${hostname}`,
+          err as Error
+        ));
+      }
+    } finally {
+      this.udpSocketReady = undefined;
+    }
+  }
+
+  /**
+   * Set up the RTCP channel and schedule the first report
+   */
+  private _startRtcp(): void {
+    // Only RTCP from the remote side is expected back on the RTP port or custom transport
+    this.rtcpListener = (data: Buffer, rinfo?: dgram.RemoteInfo) => {
+      if (isRtcpPacket(data) && this._isFromRemote(rinfo, this.remotePort)) {
+        this.handleRtcpPacket(data);
+      }
+    };
+
+    if (this.customTransport) {
+      // RTCP shares the custom transport; reports come back through its 'data' events
+      this.customTransport.on?.('data', this.rtcpListener);
+    } else if (this.config.rtcpMux) {
+      this.udpSocket!.on('message', this.rtcpListener);
+    } else {
+      try {
+        this.rtcpSocket = dgram.createSocket(udpSocketType(this.addressFamily!));
+      } catch (err) {
+        throw new Error(`Failed to create RTCP socket: ${err}`);
+      }
+      this.rtcpSocket.on('error', (err) => {
+        this.emit('error', ErrorFactory.NETWORK('RTCP socket error', err));
+      });
+      this.rtcpSocket.on('message', (msg: Buffer, rinfo: dgram.RemoteInfo) => {
+        // Symmetric RTCP comes from the port reports are sent to (RFC 4961)
+        if (this._isFromRemote(rinfo, this.config.rtcpPort!)) {
+          this.handleRtcpPacket(msg);
+        }
+      });
+      // RTCP goes out from the port above the RTP port (RFC 3550 §11)
+      const rtcpBinding = this._getLocalBinding(1);
+      if (rtcpBinding) {
+        this.rtcpSocket.bind(rtcpBinding);
+      }
+    }
+
+    this._scheduleRtcpReport();
+  }
+
+  /**
+   * Schedule the next report, randomized to 0.5-1.5 times the interval (RFC 3550 §6.3.1)
+   */
+  private _scheduleRtcpReport(): void {
+    const delay = this.config.rtcpInterval! * (0.5 + Math.random());
+    this.rtcpTimer = setTimeout(() => {
+      this._sendRtcp(this._createRtcpReport(), (err) => {
+        if (err) {
+          this.emit('error', ErrorFactory.NETWORK('Failed to send RTCP report', err));
+        }
+      });
+      this._scheduleRtcpReport();
+    }, delay);
+    // Reports alone should not keep the process alive
+    this.rtcpTimer.unref();
+  }
+
+  /**
+   * Build a compound report: SR once text has been sent (RR before that) plus SDES CNAME
+   */
+  private _createRtcpReport(): Buffer {
+    const ssrc = this.config.ssrc!;
+    const report = this.packetsSent > 0
+      ? createRtcpSenderReport(ssrc, {
+        ntpTimestamp: toNtpTimestamp(Date.now()),
+        rtpTimestamp: this.lastRtpTimestamp,
+        packetCount: this.packetsSent,
+        octetCount: this.octetsSent,
+      })
+      : createRtcpReceiverReport(ssrc);
+    return Buffer.concat([report, createRtcpSdes(ssrc, this.config.cname!)]);
+  }
+
+  /**
+   * Send an RTCP packet on the RTCP socket, or on the RTP channel when multiplexed
+   */
+  private _sendRtcp(plainPacket: Buffer, callback: (error?: Error) => void): void {
+    const packet = this._protectRtcp(plainPacket);
+    if (!packet) {
+      callback();
+    } else if (this.rtcpSocket) {
+      this.rtcpSocket.send(
+        packet,
+        0,
+        packet.length,
+        this.config.rtcpPort!,
+        this.remoteAddress,
+        (err) => callback(err ?? undefined)
+      );
+    } else {
+      this._sendPacket(packet, callback);
+    }
+  }
+
+  /**
+   * Handle one inbound compound RTCP packet
+   *
+   * Called automatically for RTCP arriving on the RTCP socket, the RTP socket
+   * (with rtcpMux) or the custom transport; may also be called directly.
+   * Once SRTP is in use, only authenticated SRTCP is accepted.
+   *
+   * @param data Buffer containing a compound RTCP (or SRTCP) packet
+   */
+  handleRtcpPacket(data: Buffer): void {
+    let rtcpData = data;
+    if (this.srtpSession || this.dtlsState) {
+      if (!this.srtcpDecryptor) {
+        // Plain RTCP could be forged, and SRTCP cannot be read without isSRTCP
+        return;
+      }
+      let decrypted: Buffer | undefined;
+      try {
+        decrypted = this.srtcpDecryptor.decryptRtcp(data);
+      } catch (err) {
+        this.emit('error', ErrorFactory.ENCRYPTION(
+          'Failed to authenticate SRTCP packet - packet dropped',
+          err as Error
+        ));
+        return;
+      }
+      if (!decrypted) {
+        // Replayed packet
+        return;
+      }
+      rtcpData = decrypted;
+    }
+
+    let packets: RtcpPacket[];
+    try {
+      packets = parseRtcpPackets(rtcpData);
+    } catch (err) {
+      this.emit('error', ErrorFactory.INVALID_PACKET(
+        'Failed to parse inbound RTCP packet',
+        err as Error
+      ));
+      return;
+    }
+
+    const arrival = Date.now();
+    this.emit('rtcp', packets);
+
+    for (const packet of packets) {
+      if (packet.type === 'sr' || packet.type === 'rr') {
+        for (const block of packet.reportBlocks) {
+          if (block.ssrc !== this.config.ssrc) {
+            continue;
+          }
+          const report: RtcpReceptionReport = {
+            ...block,
+            reporterSsrc: packet.ssrc,
+            roundTripTime: calculateRoundTripTime(block, arrival),
+          };
+          this.emit('receiverReport', report);
+        }
+      } else if (packet.type === 'bye') {
+        this.emit('bye', packet.ssrcs, packet.reason);
+      } else if (packet.type === 'nack' && packet.mediaSsrc === this.config.ssrc) {
+        this.emit('nack', packet.sequenceNumbers);
+        this.retransmit(packet.sequenceNumbers);
+      }
     }
   }
 
   /**
    * Initialize and configure SRTP
+   *
+   * Replaces any current key outright; use rekeySrtp() to keep the
+   * rollover counter.
+   *
+   * @param srtpConfig The key and options for what we send
+   * @param remoteSrtpConfig The key the peer protects its SRTCP and RTP with
+   * (default: `srtpConfig`)
    */
-  setupSrtp(srtpConfig: SrtpConfig): void {
+  setupSrtp(srtpConfig: SrtpConfig, remoteSrtpConfig?: SrtpConfig): void {
     try {
       // Validate required keys
-      if (!srtpConfig.masterKey || !srtpConfig.masterSalt) {
+      const remoteConfig = remoteSrtpConfig ?? srtpConfig;
+      if (!srtpConfig.masterKey || !srtpConfig.masterSalt ||
+        !remoteConfig.masterKey || !remoteConfig.masterSalt) {
         this.emit('error', ErrorFactory.INVALID_CONFIG(
           'SRTP configuration missing required master key or salt'
         ));
         return;
       }
 
+      let mki: Buffer | undefined;
+      try {
+        mki = srtpConfig.mki !== undefined
+          ? encodeSrtpMki(srtpConfig.mki, srtpConfig.mkiLength ?? DEFAULT_SRTP_MKI_LENGTH)
+          : undefined;
+      } catch (err) {
+        this.emit('error', ErrorFactory.INVALID_CONFIG('Invalid SRTP MKI', err as Error));
+        return;
+      }
+
+      // RTCP is protected with the same master keys as RTP, or not sent at all
+      let srtcpEncryptor: SrtcpEncryptor | undefined;
+      let srtcpDecryptor: SrtpDecryptor | undefined;
+      if (srtpConfig.isSRTCP) {
+        try {
+          srtcpEncryptor = new SrtcpEncryptor(srtpConfig);
+          srtcpDecryptor = new SrtpDecryptor(remoteConfig);
+        } catch (err) {
+          this.emit('error', ErrorFactory.INVALID_CONFIG(
+            'Invalid SRTCP configuration',
+            err as Error
+          ));
+          return;
+        }
+      }
+
+      // Like its SRTCP, the packet to latch onto is expected under the peer's key
+      const latchDecryptor = this.config.latchRemoteAddress && !this.latched
+        ? new SrtpDecryptor(remoteConfig)
+        : undefined;
+
       // Create SRTP session with key material
       // Profile 1 = SRTP_AES128_CM_HMAC_SHA1_80 (default)
       this.srtpSession = new SrtpSession({
         keys: {
           localMasterKey: srtpConfig.masterKey,
           localMasterSalt: srtpConfig.masterSalt,
-          remoteMasterKey: srtpConfig.masterKey,
-          remoteMasterSalt: srtpConfig.masterSalt,
+          remoteMasterKey: remoteConfig.masterKey,
+          remoteMasterSalt: remoteConfig.masterSalt,
         },
         profile: srtpConfig.profile ?? 1,
       });
+      this.srtpConfig = srtpConfig;
+      this.remoteSrtpConfig = remoteSrtpConfig;
+      this.srtpMki = mki;
+      this.srtcpEncryptor = srtcpEncryptor;
+      this.srtcpDecryptor = srtcpDecryptor;
+      this.latchDecryptor = latchDecryptor;
+      this.packetsUnderKey = 0;
+      this._scheduleRekey();
     } catch (err) {
       this.emit('error', ErrorFactory.ENCRYPTION(
         'Failed to initialize SRTP session',
@@ -213,6 +760,296 @@ export class T140RtpTransport extends EventEmitter {
     }
   }
 
+  /**
+   * Switch to a new SRTP master key
+   *
+   * Without a configuration, a random key and salt for the current profile
+   * are generated and the MKI (if any) is incremented. Rollover counters
+   * and SRTCP indexes carry over, so the receiver's packet index stays in
+   * step. When the peer's key changes too, its SRTCP under the old key is
+   * accepted for a while. Emits 'srtpRekey' with the new configuration,
+   * which the receiver needs.
+   *
+   * @param srtpConfig The new key, salt and options (default: random keys)
+   * @param remoteSrtpConfig The peer's new key (default: the peer's current
+   * key if setupSrtp() was given one, otherwise the new `srtpConfig`)
+   * @returns The configuration now in use, or undefined if SRTP is not set up
+   * or the new configuration is invalid
+   */
+  rekeySrtp(srtpConfig?: SrtpConfig, remoteSrtpConfig?: SrtpConfig): SrtpConfig | undefined {
+    const previous = this.srtpSession;
+    const current = this.srtpConfig;
+    if (!previous || !current) {
+      this.emit('error', ErrorFactory.INVALID_CONFIG('Cannot rekey before SRTP is set up'));
+      return undefined;
+    }
+
+    let next = srtpConfig;
+    if (!next) {
+      const mkiLength = current.mkiLength ?? DEFAULT_SRTP_MKI_LENGTH;
+      next = {
+        ...current,
+        ...generateSrtpMasterKeys(current.profile),
+        mki: current.mki !== undefined
+          ? (current.mki + 1) % 2 ** (8 * Math.min(mkiLength, 6))
+          : undefined,
+      };
+    }
+
+    // Without a key of its own, the peer is taken to share ours
+    const previousRemote = this.remoteSrtpConfig ?? current;
+    const nextRemote = remoteSrtpConfig ?? this.remoteSrtpConfig;
+    const srtcpEncryptor = this.srtcpEncryptor;
+    const srtcpDecryptor = this.srtcpDecryptor;
+    const latchDecryptor = this.latchDecryptor;
+    this.setupSrtp(next, nextRemote);
+    const session = this.srtpSession;
+    if (!session || session === previous) {
+      return undefined;
+    }
+
+    // The packet index (ROC and sequence number) continues across keys
+    const states = previous.localContext;
+    for (const [ssrc, state] of Object.entries(states.srtpSSRCStates)) {
+      session.localContext.srtpSSRCStates[Number(ssrc)] = { ...state };
+    }
+    // Inbound contexts keep their replay state, and the old key for a while
+    const remoteChanged = (nextRemote ?? next) !== previousRemote;
+    if (next.isSRTCP && srtcpEncryptor && srtcpDecryptor) {
+      // setupSrtp() has already checked the configuration
+      srtcpEncryptor.rekey(next);
+      if (remoteChanged) {
+        srtcpDecryptor.rekey(nextRemote ?? next);
+      }
+      this.srtcpEncryptor = srtcpEncryptor;
+      this.srtcpDecryptor = srtcpDecryptor;
+    }
+    if (latchDecryptor && this.latchDecryptor) {
+      if (remoteChanged) {
+        latchDecryptor.rekey(nextRemote ?? next);
+      }
+      this.latchDecryptor = latchDecryptor;
+    }
+
+    this.emit('srtpRekey', next);
+    return next;
+  }
+
+  /**
+   * Start the timer for the next scheduled rekey, if `rekeyInterval` is set
+   */
+  private _scheduleRekey(): void {
+    if (this.rekeyTimer) {
+      clearTimeout(this.rekeyTimer);
+      this.rekeyTimer = undefined;
+    }
+    const interval = this.srtpConfig?.rekeyInterval;
+    if (interval && !this.closed) {
+      this.rekeyTimer = setTimeout(() => this.rekeySrtp(), interval);
+      // A pending rekey should not keep the process alive
+      this.rekeyTimer.unref?.();
+    }
+  }
+
+  /**
+   * Protect one RTP packet with the current SRTP key, adding its MKI
+   *
+   * Rekeys first once `keyLifetime` packets used the current key.
+   */
+  private _encryptRtp(packet: Buffer): Buffer {
+    const keyLifetime = this.srtpConfig?.keyLifetime;
+    if (keyLifetime && this.packetsUnderKey >= keyLifetime) {
+      this.rekeySrtp();
+    }
+
+    const rtp = RtpPacket.deSerialize(packet);
+    const encrypted = this.srtpSession!.encrypt(rtp.payload, rtp.header);
+    this.packetsUnderKey += 1;
+    return this.srtpMki
+      ? addSrtpMki(encrypted, this.srtpMki, this.srtpConfig!.profile)
+      : encrypted;
+  }
+
+  /**
+   * Protect an outbound RTCP packet as SRTCP once SRTP is in use
+   *
+   * @returns The packet to send, or undefined if it must not be sent
+   */
+  private _protectRtcp(packet: Buffer): Buffer | undefined {
+    if (!this.srtpSession && !this.dtlsState) {
+      return packet;
+    }
+    if (!this.srtcpEncryptor) {
+      // Reports and BYE never leave in the clear next to SRTP
+      if (this.srtpSession && !this.cleartextRtcpReported) {
+        this.cleartextRtcpReported = true;
+        this.emit('error', ErrorFactory.INVALID_CONFIG(
+          'RTCP is not sent in the clear while SRTP is enabled; set isSRTCP to send SRTCP'
+        ));
+      }
+      return undefined;
+    }
+
+    try {
+      return this.srtcpEncryptor.encrypt(packet);
+    } catch (err) {
+      this.emit('error', ErrorFactory.ENCRYPTION(
+        'Failed to encrypt RTCP packet with SRTCP - packet not sent',
+        err as Error
+      ));
+      return undefined;
+    }
+  }
+
+  /**
+   * Negotiate SRTP keys with a DTLS handshake on the RTP channel (RFC 5764)
+   *
+   * DTLS records share the UDP socket or custom transport with RTP. Over the
+   * UDP socket only records from the remote address and port are accepted,
+   * and the server role needs the peer to reach this socket first. Calls to
+   * sendText() made before the handshake completes, including while the
+   * remote hostname is resolved, are sent once SRTP is set up; after a
+   * failed handshake sendText() sends nothing until a new one succeeds.
+   *
+   * @param dtlsConfig Role, certificates and fingerprint from the remote SDP
+   * @returns The negotiated keys; `remote` decrypts what the peer sends
+   * @throws T140RtpError (ENCRYPTION_ERROR) if the handshake fails
+   */
+  async startDtlsSrtp(dtlsConfig: DtlsSrtpConfig): Promise<DtlsSrtpKeys> {
+    if (this.dtlsState === 'negotiating' || this.dtlsState === 'connected' || this.srtpSession) {
+      throw ErrorFactory.ENCRYPTION('SRTP keys are already set up or being negotiated');
+    }
+    if (this.customTransport && !this.customTransport.on) {
+      throw ErrorFactory.INVALID_CONFIG('DTLS needs a custom transport that emits data events');
+    }
+    this.dtlsState = 'negotiating';
+
+    let keys: DtlsSrtpKeys;
+    try {
+      keys = await this._negotiateDtls(dtlsConfig);
+    } catch (err) {
+      this._stopDtls();
+      this.dtlsState = 'failed';
+      this.pendingTexts = [];
+      throw err;
+    }
+
+    this.setupSrtp(keys.local, keys.remote);
+    this.dtlsState = 'connected';
+    this.emit('dtlsConnected', keys);
+    this.pendingTexts.splice(0).forEach(({ text, options }) => this.sendText(text, options));
+    return keys;
+  }
+
+  /**
+   * Wait for the RTP socket if need be, then run the DTLS handshake on it
+   */
+  private async _negotiateDtls(dtlsConfig: DtlsSrtpConfig): Promise<DtlsSrtpKeys> {
+    if (this.udpSocketReady) {
+      // Records are exchanged on the RTP socket, which waits for the hostname
+      await this.udpSocketReady;
+      if (!this.udpSocket) {
+        throw ErrorFactory.INVALID_CONFIG('DTLS needs a reachable remote address');
+      }
+    }
+
+    const session = new DtlsSrtpSession(dtlsConfig, (data) => {
+      this._sendPacket(data, (err) => {
+        if (err) {
+          this.emit('error', ErrorFactory.NETWORK('Failed to send DTLS record', err));
+        }
+      });
+    });
+    this.dtlsSession = session;
+    this.dtlsListener = (data: Buffer, rinfo?: dgram.RemoteInfo) => {
+      if (this._isFromRemote(rinfo, this.remotePort) && isDtlsPacket(data)) {
+        session.handlePacket(data);
+      }
+    };
+    if (this.customTransport) {
+      this.customTransport.on!('data', this.dtlsListener);
+    } else {
+      this.udpSocket!.on('message', this.dtlsListener);
+    }
+
+    try {
+      return await session.connect();
+    } catch (err) {
+      throw ErrorFactory.ENCRYPTION('DTLS-SRTP handshake failed', err as Error);
+    }
+  }
+
+  /**
+   * Close the DTLS session and stop routing DTLS records to it
+   */
+  private _stopDtls(): void {
+    if (this.dtlsListener) {
+      if (this.customTransport) {
+        this.customTransport.removeListener?.('data', this.dtlsListener);
+      } else {
+        this.udpSocket?.removeListener('message', this.dtlsListener);
+      }
+      this.dtlsListener = undefined;
+    }
+    this.dtlsSession?.close();
+    this.dtlsSession = undefined;
+  }
+
+  /**
+   * Get a copy of the transport's current configuration
+   */
+  getConfig(): RtpConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Change the number of redundant generations in each RED packet
+   *
+   * Takes effect from the next packet; has no effect while RED is disabled.
+   *
+   * @param redundancyLevel Number of redundant generations (at least 1)
+   */
+  setRedundancyLevel(redundancyLevel: number): void {
+    if (!Number.isInteger(redundancyLevel) || redundancyLevel < 1) {
+      throw new Error('Redundancy level must be a positive integer');
+    }
+    this.config.redundancyLevel = redundancyLevel;
+    // Drop generations that no longer fit
+    this.redPackets = this.redPackets.slice(-redundancyLevel);
+  }
+
+  /**
+   * Switch FEC packet generation on or off
+   *
+   * When switching off, an FEC packet for the packets sent so far in the
+   * current group is sent first.
+   */
+  setFecEnabled(fecEnabled: boolean): void {
+    if (!fecEnabled) {
+      this._sendRemainingFecPackets();
+    }
+    this.config.fecEnabled = fecEnabled;
+  }
+
+  /**
+   * Override the character rate limit of streams attached to this transport
+   *
+   * @param charRateLimit Characters per second
+   */
+  setCharRateLimit(charRateLimit: number): void {
+    if (!(charRateLimit > 0)) {
+      throw new Error('Character rate limit must be positive');
+    }
+    this.charRateLimitOverride = charRateLimit;
+  }
+
+  /**
+   * The character rate limit set with setCharRateLimit(), if any
+   */
+  getCharRateLimit(): number | undefined {
+    return this.charRateLimitOverride;
+  }
+
   /**
    * Create a Forward Error Correction (FEC) packet according to RFC 5109
    * Using XOR-based FEC for a group of RTP packets
@@ -248,10 +1085,11 @@ export class T140RtpTransport extends EventEmitter {
     const csrcCount = 0;
     const marker = 0;
     const payloadType = this.config.fecPayloadType!;
-    const ssrc = this.config.ssrc!;
-    // Use the highest sequence number + 1 for the FEC packet
-    const maxSeqNum = Math.max(...sequenceNumbers);
-    const fecSeqNum = (maxSeqNum + 1) % RTP_MAX_SEQUENCE_NUMBER;
+    // FEC packets form their own RTP stream with a separate SSRC and sequence
+    // space, so they never collide with media packets (or their SRTP index)
+    const ssrc = this.config.fecSsrc!;
+    const fecSeqNum = this.fecSeqNum;
+    this.fecSeqNum = (this.fecSeqNum + 1) % RTP_MAX_SEQUENCE_NUMBER;
     // Use the highest timestamp for the FEC packet
     const fecTimestamp = Math.max(...timestamps);
 
@@ -270,13 +1108,16 @@ export class T140RtpTransport extends EventEmitter {
     const fecHeaderExt = Buffer.alloc(FEC_HEADER_EXTENSION_SIZE);
     // E bit: Extension bit (always 0 for simple XOR-based FEC)
     // L bit: Long mask bit (0 for now, fewer than 16 packets)
-    // P bit: Protection length field present (0 for now)
-    // X bit: Reserved (0)
-    // CC bits: CSRC count from the FEC header
-    // M bit: RTP marker bit state from the FEC header
-    // PT bits: FEC payload type
-    fecHeaderExt.writeUInt8(0, FEC_EXT_OFFSET_FLAGS); // E, L, P, X, CC, M bits
-    fecHeaderExt.writeUInt8(this.config.payloadType!, FEC_EXT_OFFSET_MEDIA_PT); // Original media PT
+    // P, X, CC recovery: XOR of the protected packets' P, X and CC fields
+    // M + PT recovery: XOR of the protected packets' marker bit and payload type
+    let flagsRecovery = 0;
+    let payloadTypeRecovery = 0;
+    for (const packet of packets) {
+      flagsRecovery ^= packet.readUInt8(RTP_OFFSET_VERSION) & FEC_FLAGS_RECOVERY_MASK;
+      payloadTypeRecovery ^= packet.readUInt8(RTP_OFFSET_PAYLOAD_TYPE);
+    }
+    fecHeaderExt.writeUInt8(flagsRecovery, FEC_EXT_OFFSET_FLAGS); // E, L, P, X, CC bits
+    fecHeaderExt.writeUInt8(payloadTypeRecovery, FEC_EXT_OFFSET_MEDIA_PT); // M, PT bits
     // SN base: first sequence number this FEC packet protects
     fecHeaderExt.writeUInt16BE(sequenceNumbers[0], FEC_EXT_OFFSET_SN_BASE);
     // Timestamp recovery field: XOR of all protected packets' timestamps (RFC 5109)
@@ -326,19 +1167,18 @@ export class T140RtpTransport extends EventEmitter {
 
   /**
    * Create a RED packet with redundancy according to RFC 2198
+   *
+   * The primary packet's RTP header (including any CSRC list and marker bit)
+   * is reused with the RED payload type. Redundant generations are ordered
+   * oldest first with the primary block last, as RFC 4103 recommends.
    */
   private _createRedPacket(
-    primaryData: string,
-    redundantPackets: Buffer[],
-    markerBit?: boolean
+    primaryPacket: Buffer,
+    redundantPackets: Buffer[]
   ): Buffer {
-    if (!this.config.redEnabled || redundantPackets.length === 0) {
-      // If RED is not enabled or no redundant packets available,
-      // just create a normal RTP packet
-      return createRtpPacket(this.seqNum, this.timestamp, primaryData, {
-        payloadType: this.config.payloadType,
-        ssrc: this.config.ssrc,
-      });
+    if (redundantPackets.length === 0) {
+      // No redundant packets available, just send the primary packet
+      return primaryPacket;
     }
 
     // Determine how many redundant packets to include
@@ -348,92 +1188,71 @@ export class T140RtpTransport extends EventEmitter {
       this.config.redundancyLevel || DEFAULT_REDUNDANCY_LEVEL
     );
 
-    // Start with RTP header
-    const rtpHeader = Buffer.alloc(RTP_HEADER_SIZE);
-    const version = RTP_VERSION;
-    const padding = 0;
-    const extension = 0;
-    const csrcCount = 0;
-    const marker = markerBit ? 1 : 0;
-    const payloadType = this.config.redPayloadType!;
-    const ssrc = this.config.ssrc!;
-
-    // Create RTP header
-    rtpHeader.writeUInt8(
-      version * BIT_SHIFT_64 + padding * BIT_SHIFT_32 + extension * BIT_SHIFT_16 + csrcCount,
-      RTP_OFFSET_VERSION
-    );
-    rtpHeader.writeUInt8(marker * BIT_SHIFT_128 + payloadType, RTP_OFFSET_PAYLOAD_TYPE);
-    rtpHeader.writeUInt16BE(this.seqNum, RTP_OFFSET_SEQUENCE);
-    rtpHeader.writeUInt32BE(this.timestamp, RTP_OFFSET_TIMESTAMP);
-    rtpHeader.writeUInt32BE(ssrc, RTP_OFFSET_SSRC);
+    // Start with the primary packet's RTP header, switching to the RED payload type
+    const primaryHeaderSize = this._rtpHeaderSize(primaryPacket);
+    const rtpHeader = Buffer.from(primaryPacket.slice(0, primaryHeaderSize));
+    const marker = rtpHeader.readUInt8(RTP_OFFSET_PAYLOAD_TYPE) & RTP_MARKER_MASK;
+    rtpHeader.writeUInt8(marker + this.config.redPayloadType!, RTP_OFFSET_PAYLOAD_TYPE);
+    const primaryTimestamp = primaryPacket.readUInt32BE(RTP_OFFSET_TIMESTAMP);
 
     // Create RED headers and payloads
     // Format for each redundant block:
     // 1 byte: F(1) + Block PT(7)
-    // 2 bytes: Timestamp offset (uint16)
-    // 1 byte: Block length (uint8)
+    // 14 bits: Timestamp offset
+    // 10 bits: Block length
     // For the primary data (last block):
     // 1 byte: F(0) + Block PT(7)
+    const blockHeaders: Buffer[] = [];
+    const blockPayloads: Buffer[] = [];
 
-    const redHeaders = Buffer.alloc(
-      redundancyLevel * RED_HEADER_SIZE_PER_BLOCK + RED_PRIMARY_HEADER_SIZE
-    );
-    let offset = 0;
-
-    // Add headers for redundant blocks
-    for (let i = 0; i < redundancyLevel; i += 1) {
-      // Get the packet to include as redundant data
-      // Most recent redundant packet first
-      const packet = redundantPackets[redundantPackets.length - 1 - i];
-
-      // Calculate timestamp offset (primary timestamp - redundant timestamp)
-      // We need to extract the timestamp from the RTP header
+    for (const packet of redundantPackets.slice(-redundancyLevel)) {
+      // Timestamp offset is the primary timestamp minus the redundant timestamp
       const redPacketTimestamp = packet.readUInt32BE(RTP_OFFSET_TIMESTAMP);
-      // 16-bit value using modulo instead of bitwise AND
-      const timestampOffset = (this.timestamp - redPacketTimestamp) % RTP_MAX_SEQUENCE_NUMBER;
+      const timestampOffset = (primaryTimestamp - redPacketTimestamp) >>> 0;
+      if (timestampOffset > RED_MAX_TIMESTAMP_OFFSET) {
+        // Too old to be expressed in 14 bits; RFC 2198 says to leave it out
+        continue;
+      }
 
-      // Calculate payload length (packet length - RTP header size)
-      const payloadLength = Math.min(packet.length - RTP_HEADER_SIZE, RED_MAX_BLOCK_LENGTH);
+      // Payload without the RTP header, capped at the 10-bit block length
+      const headerSize = this._rtpHeaderSize(packet);
+      const payloadLength = Math.min(packet.length - headerSize, RED_MAX_BLOCK_LENGTH);
+      const offsetAndLength =
+        timestampOffset * (1 << RED_BLOCK_LENGTH_BITS) + payloadLength;
 
       // Write RED header for this block
       // F bit = 1 (more blocks follow)
-      redHeaders.writeUInt8(
-        RED_F_BIT_FLAG + this.config.payloadType!,
-        offset
-      ); // F=1 + block PT
-      redHeaders.writeUInt16BE(
-        timestampOffset,
-        offset + RED_OFFSET_TIMESTAMP_OFFSET
-      ); // Timestamp offset
-      redHeaders.writeUInt8(
-        payloadLength,
-        offset + RED_OFFSET_BLOCK_LENGTH
-      ); // Block length
-      offset += RED_HEADER_SIZE_PER_BLOCK;
+      const blockHeader = Buffer.alloc(RED_HEADER_SIZE_PER_BLOCK);
+      blockHeader.writeUInt8(RED_F_BIT_FLAG + this.config.payloadType!, 0);
+      blockHeader.writeUInt16BE(
+        Math.floor(offsetAndLength / 256),
+        RED_OFFSET_TIMESTAMP_OFFSET
+      );
+      blockHeader.writeUInt8(offsetAndLength % 256, RED_OFFSET_BLOCK_LENGTH);
+      blockHeaders.push(blockHeader);
+      blockPayloads.push(packet.slice(headerSize, headerSize + payloadLength));
     }
 
     // Add header for primary data (F bit = 0, no timestamp offset, no length)
-    redHeaders.writeUInt8(this.config.payloadType!, offset); // F=0 + block PT
-
-    // Create primary data payload
-    const primaryPayload = Buffer.from(primaryData, 'utf-8');
+    const primaryHeader = Buffer.alloc(RED_PRIMARY_HEADER_SIZE);
+    primaryHeader.writeUInt8(this.config.payloadType!, 0); // F=0 + block PT
 
     // Combine all parts: RTP header + RED headers + redundant payloads + primary payload
-    const buffers = [rtpHeader, redHeaders];
-
-    // Add redundant payloads (skipping their RTP headers)
-    for (let i = 0; i < redundancyLevel; i += 1) {
-      const packet = redundantPackets[redundantPackets.length - 1 - i];
-      const payload = packet.slice(RTP_HEADER_SIZE);
-      buffers.push(payload);
-    }
-
-    // Add primary payload
-    buffers.push(primaryPayload);
+    return Buffer.concat([
+      rtpHeader,
+      ...blockHeaders,
+      primaryHeader,
+      ...blockPayloads,
+      primaryPacket.slice(primaryHeaderSize),
+    ]);
+  }
 
-    // Combine all buffers
-    return Buffer.concat(buffers);
+  /**
+   * Size of the RTP header of a locally built packet, including its CSRC list
+   */
+  private _rtpHeaderSize(packet: Buffer): number {
+    return RTP_HEADER_SIZE +
+      (packet.readUInt8(RTP_OFFSET_VERSION) & RTP_CSRC_COUNT_MASK) * RTP_CSRC_ENTRY_SIZE;
   }
 
   /**
@@ -443,16 +1262,24 @@ export class T140RtpTransport extends EventEmitter {
    * @param options Optional overrides for this packet only
    */
   sendText(text: string, options?: Partial<RtpConfig>): void {
+    // Nothing leaves unencrypted once DTLS-SRTP was asked for; text is held
+    // while the handshake runs and dropped if it failed
+    if (this.dtlsState && !this.srtpSession) {
+      if (this.dtlsState === 'negotiating') {
+        this.pendingTexts.push({ text, options });
+      }
+      return;
+    }
+
     // Apply options as overrides to the config for this packet
     const packetOptions = options ? { ...this.config, ...options } : this.config;
 
     // Check if we should use RED (redundancy) encoding
     let packet: Buffer;
+    let mediaPacket: Buffer; // The plain T.140 packet, with or without RED around it
     if (packetOptions.redEnabled && this.redPackets.length > 0) {
-      // Create a RED packet with redundancy
-      const redPacket = this._createRedPacket(text, this.redPackets, packetOptions.markerBit);
-
-      // Store the packet for future redundancy use
+      // Build the plain packet first; it is both the primary block and
+      // the copy kept for future redundancy
       const normalPacket = createRtpPacket(this.seqNum, this.timestamp, text, {
         payloadType: packetOptions.payloadType,
         ssrc: packetOptions.ssrc,
@@ -463,6 +1290,9 @@ export class T140RtpTransport extends EventEmitter {
         markerBit: packetOptions.markerBit,
       });
 
+      // Create a RED packet with redundancy
+      const redPacket = this._createRedPacket(normalPacket, this.redPackets);
+
       // Keep original non-RED packet for redundancy
       this.redPackets.push(Buffer.from(normalPacket));
 
@@ -472,6 +1302,7 @@ export class T140RtpTransport extends EventEmitter {
       }
 
       packet = redPacket;
+      mediaPacket = normalPacket;
     } else {
       // Create normal RTP packet
       const rtpPacket = createRtpPacket(this.seqNum, this.timestamp, text, {
@@ -495,14 +1326,18 @@ export class T140RtpTransport extends EventEmitter {
       }
 
       packet = rtpPacket;
+      mediaPacket = rtpPacket;
+    }
+
+    if (this.config.rtxPayloadType !== undefined) {
+      this._storeForRetransmission(this.seqNum, mediaPacket);
     }
 
     // Encrypt the packet if using SRTP
     let finalPacket: Buffer;
     try {
       if (this.srtpSession) {
-        const rtp = RtpPacket.deSerialize(packet);
-        finalPacket = this.srtpSession.encrypt(rtp.payload, rtp.header);
+        finalPacket = this._encryptRtp(packet);
       } else {
         finalPacket = packet;
       }
@@ -522,6 +1357,11 @@ export class T140RtpTransport extends EventEmitter {
       }
     });
 
+    // Sender statistics for RTCP sender reports
+    this.packetsSent += 1;
+    this.octetsSent += packet.length - this._rtpHeaderSize(packet);
+    this.lastRtpTimestamp = this.timestamp;
+
     // If FEC is enabled, add this packet to the buffer for FEC calculation
     if (this.config.fecEnabled) {
       // Reuse the packet already created above instead of creating a duplicate
@@ -547,8 +1387,7 @@ export class T140RtpTransport extends EventEmitter {
           let finalFecPacket: Buffer;
           try {
             if (this.srtpSession) {
-              const fecRtp = RtpPacket.deSerialize(fecPacket);
-              finalFecPacket = this.srtpSession.encrypt(fecRtp.payload, fecRtp.header);
+              finalFecPacket = this._encryptRtp(fecPacket);
             } else {
               finalFecPacket = fecPacket;
             }
@@ -583,6 +1422,81 @@ export class T140RtpTransport extends EventEmitter {
     this.timestamp = (this.timestamp + this.config.timestampIncrement!) >>> 0;
   }
 
+  /**
+   * Resend packets in RTX format (RFC 4588)
+   *
+   * Called automatically for generic NACKs about this stream; packets that
+   * are no longer in the history are skipped.
+   *
+   * @param sequenceNumbers Sequence numbers of the packets to resend
+   * @returns The number of packets resent
+   */
+  retransmit(sequenceNumbers: number[]): number {
+    if (this.config.rtxPayloadType === undefined) {
+      return 0;
+    }
+
+    let resent = 0;
+    for (const sequenceNumber of sequenceNumbers) {
+      const original = this.sentHistory.get(sequenceNumber);
+      if (!original) {
+        continue;
+      }
+
+      let rtxPacket = this._createRtxPacket(original);
+      try {
+        if (this.srtpSession) {
+          rtxPacket = this._encryptRtp(rtxPacket);
+        }
+      } catch (err) {
+        this.emit('error', ErrorFactory.ENCRYPTION(
+          'Failed to encrypt RTX packet with SRTP - packet not sent',
+          err as Error
+        ));
+        continue;
+      }
+
+      this._sendPacket(rtxPacket, (err) => {
+        if (err) {
+          this.emit('error', ErrorFactory.NETWORK('Failed to send RTX packet', err));
+        }
+      });
+      resent += 1;
+    }
+    return resent;
+  }
+
+  /**
+   * Keep a sent packet for retransmission, dropping the oldest beyond the history size
+   */
+  private _storeForRetransmission(sequenceNumber: number, packet: Buffer): void {
+    // Re-inserting moves a reused sequence number to the end of the Map's order
+    this.sentHistory.delete(sequenceNumber);
+    this.sentHistory.set(sequenceNumber, Buffer.from(packet));
+    if (this.sentHistory.size > this.config.rtxHistorySize!) {
+      const oldest = this.sentHistory.keys().next().value;
+      this.sentHistory.delete(oldest);
+    }
+  }
+
+  /**
+   * Wrap a sent packet in RTX format: RTX payload type, SSRC and sequence
+   * number, with the original sequence number in front of the payload
+   */
+  private _createRtxPacket(original: Buffer): Buffer {
+    const headerSize = this._rtpHeaderSize(original);
+    const header = Buffer.from(original.slice(0, headerSize));
+    const marker = header.readUInt8(RTP_OFFSET_PAYLOAD_TYPE) & RTP_MARKER_MASK;
+    header.writeUInt8(marker + this.config.rtxPayloadType!, RTP_OFFSET_PAYLOAD_TYPE);
+    header.writeUInt16BE(this.rtxSeqNum, RTP_OFFSET_SEQUENCE);
+    header.writeUInt32BE(this.config.rtxSsrc!, RTP_OFFSET_SSRC);
+    this.rtxSeqNum = (this.rtxSeqNum + 1) % RTP_MAX_SEQUENCE_NUMBER;
+
+    const originalSequenceNumber = Buffer.alloc(RTX_OSN_SIZE);
+    originalSequenceNumber.writeUInt16BE(original.readUInt16BE(RTP_OFFSET_SEQUENCE), 0);
+    return Buffer.concat([header, originalSequenceNumber, original.slice(headerSize)]);
+  }
+
   /**
    * Helper method to send a packet using either the custom transport or UDP socket
    */
@@ -593,6 +1507,9 @@ export class T140RtpTransport extends EventEmitter {
     if (this.customTransport) {
       // Use the custom transport
       this.customTransport.send(packet, callback);
+    } else if (this.udpSocketReady) {
+      // Wait until the hostname is resolved
+      this.udpSocketReady.then(() => this._sendPacket(packet, callback));
     } else if (this.udpSocket) {
       // Use the UDP socket
       this.udpSocket.send(
@@ -629,8 +1546,7 @@ export class T140RtpTransport extends EventEmitter {
       let finalFecPacket: Buffer;
       try {
         if (this.srtpSession) {
-          const fecRtp = RtpPacket.deSerialize(fecPacket);
-          finalFecPacket = this.srtpSession.encrypt(fecRtp.payload, fecRtp.header);
+          finalFecPacket = this._encryptRtp(fecPacket);
         } else {
           finalFecPacket = fecPacket;
         }
@@ -665,16 +1581,85 @@ export class T140RtpTransport extends EventEmitter {
     try {
       // Send any remaining FEC packets
       this._sendRemainingFecPackets();
+      this.closed = true;
+      this._stopDtls();
+      if (this.rekeyTimer) {
+        clearTimeout(this.rekeyTimer);
+        this.rekeyTimer = undefined;
+      }
 
-      // Close the socket or custom transport
-      if (
-        this.customTransport &&
-        typeof this.customTransport.close === 'function'
-      ) {
-        this.customTransport.close();
-      } else if (this.udpSocket) {
-        this.udpSocket.close();
+      if (this.config.rtcpEnabled && this.rtcpListener) {
+        this._stopRtcp();
+        return;
       }
+
+      this._closeTransport();
+    } catch (err) {
+      this.emit('error', ErrorFactory.RESOURCE(
+        'Error closing transport resources',
+        err as Error
+      ));
+    }
+  }
+
+  /**
+   * Stop reporting, send BYE and then close the RTCP and RTP channels
+   */
+  private _stopRtcp(): void {
+    if (this.rtcpTimer) {
+      clearTimeout(this.rtcpTimer);
+      this.rtcpTimer = undefined;
+    }
+    if (this.customTransport) {
+      this.customTransport.removeListener?.('data', this.rtcpListener!);
+    } else if (this.udpSocket) {
+      this.udpSocket.removeListener('message', this.rtcpListener!);
+    }
+    this.rtcpListener = undefined;
+
+    // BYE goes in a compound packet that starts with a report (RFC 3550 §6.1)
+    const ssrc = this.config.ssrc!;
+    const bye = this._protectRtcp(Buffer.concat([this._createRtcpReport(), createRtcpBye([ssrc])]));
+    const rtcpSocket = this.rtcpSocket;
+    this.rtcpSocket = undefined;
+
+    if (!bye) {
+      if (rtcpSocket) {
+        this._closeSocket(rtcpSocket);
+      }
+      this._closeTransport();
+    } else if (rtcpSocket) {
+      rtcpSocket.send(bye, 0, bye.length, this.config.rtcpPort!, this.remoteAddress, () => {
+        this._closeSocket(rtcpSocket);
+      });
+      this._closeTransport();
+    } else if (this.customTransport) {
+      // Custom transports need not call back, so close right after handing over BYE
+      this._sendPacket(bye);
+      this._closeTransport();
+    } else {
+      // Let BYE leave the socket before closing it
+      this._sendPacket(bye, () => this._closeTransport());
+    }
+  }
+
+  /**
+   * Close the socket or custom transport
+   */
+  private _closeTransport(): void {
+    if (
+      this.customTransport &&
+      typeof this.customTransport.close === 'function'
+    ) {
+      this.customTransport.close();
+    } else if (this.udpSocket) {
+      this._closeSocket(this.udpSocket);
+    }
+  }
+
+  private _closeSocket(socket: dgram.Socket): void {
+    try {
+      socket.close();
     } catch (err) {
       this.emit('error', ErrorFactory.RESOURCE(
         'Error closing transport resources',
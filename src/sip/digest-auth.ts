@@ -0,0 +1,129 @@
+import * as crypto from 'crypto';
+import { SIP_RANDOM_BYTES } from '../utils/constants';
+
+/**
+ * A digest challenge from WWW-Authenticate or Proxy-Authenticate
+ */
+export interface DigestChallenge {
+  realm: string;
+  nonce: string;
+  opaque?: string;
+  algorithm: string; // MD5 unless the challenge names another
+  qop?: string[]; // Offered quality-of-protection values
+  stale?: boolean; // The nonce expired but the credentials were accepted
+}
+
+/**
+ * Credentials used to answer a digest challenge
+ */
+export interface DigestCredentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Hash functions of the supported digest algorithms (RFC 2617, RFC 8760)
+ */
+const DIGEST_HASHES: Record<string, string> = {
+  MD5: 'md5',
+  'SHA-256': 'sha256',
+};
+
+function digestHash(algorithm: string, value: string): string {
+  return crypto.createHash(algorithm).update(value).digest('hex');
+}
+
+/**
+ * Parse a Digest challenge header value
+ *
+ * @param header The WWW-Authenticate or Proxy-Authenticate value
+ * @returns The challenge parameters
+ * @throws Error if the header is not a Digest challenge with realm and nonce
+ */
+export function parseDigestChallenge(header: string): DigestChallenge {
+  const scheme = /^\s*Digest\s+/i.exec(header);
+  if (!scheme) {
+    throw new Error(`Unsupported authentication scheme: ${header.split(/\s/)[0]}`);
+  }
+
+  const params: Record<string, string> = {};
+  const paramPattern = /([\w-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^,\s]+))/g;
+  let match = paramPattern.exec(header);
+  while (match) {
+    params[match[1].toLowerCase()] = match[2] ?? match[3];
+    match = paramPattern.exec(header);
+  }
+
+  if (params.realm === undefined || !params.nonce) {
+    throw new Error('Digest challenge is missing realm or nonce');
+  }
+
+  return {
+    realm: params.realm,
+    nonce: params.nonce,
+    opaque: params.opaque,
+    algorithm: params.algorithm ?? 'MD5',
+    qop: params.qop?.split(',').map((value) => value.trim()),
+    stale: params.stale?.toLowerCase() === 'true',
+  };
+}
+
+/**
+ * Answer a digest challenge (RFC 2617 §3.2.2, RFC 8760)
+ *
+ * MD5 and SHA-256 are supported, with or without `-sess`. When the
+ * challenge offers `qop=auth` it is used with a fresh cnonce.
+ *
+ * @param challenge The parsed challenge
+ * @param credentials Username and password
+ * @param method Method of the request being authorized
+ * @param uri Request-URI of the request being authorized
+ * @param nonceCount How many times this nonce has been used, including now
+ * @param cnonce Client nonce (default: random)
+ * @returns The Authorization or Proxy-Authorization header value
+ * @throws Error if the challenge uses an unsupported algorithm
+ */
+export function createDigestAuthorization(
+  challenge: DigestChallenge,
+  credentials: DigestCredentials,
+  method: string,
+  uri: string,
+  nonceCount: number = 1,
+  cnonce: string = crypto.randomBytes(SIP_RANDOM_BYTES).toString('hex')
+): string {
+  const sessionAlgorithm = /-sess$/i.test(challenge.algorithm);
+  const baseAlgorithm = challenge.algorithm.replace(/-sess$/i, '').toUpperCase();
+  const hash = DIGEST_HASHES[baseAlgorithm];
+  if (!hash) {
+    throw new Error(`Unsupported digest algorithm: ${challenge.algorithm}`);
+  }
+
+  const { realm, nonce } = challenge;
+  let ha1 = digestHash(hash, `${credentials.username}:${realm}:${credentials.password}`);
+  if (sessionAlgorithm) {
+    ha1 = digestHash(hash, `${ha1}:${nonce}:${cnonce}`);
+  }
+  const ha2 = digestHash(hash, `${method}:${uri}`);
+
+  const qop = challenge.qop?.includes('auth') ? 'auth' : undefined;
+  const nc = nonceCount.toString(16).padStart(8, '0');
+  const response = qop
+    ? digestHash(hash, `${ha1}:${nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+    : digestHash(hash, `${ha1}:${nonce}:${ha2}`);
+
+  const params = [
+    `username="${credentials.username}"`,
+    `realm="${realm}"`,
+    `nonce="${nonce}"`,
+    `uri="${uri}"`,
+    `response="${response}"`,
+    `algorithm=${challenge.algorithm}`,
+  ];
+  if (challenge.opaque !== undefined) {
+    params.push(`opaque="${challenge.opaque}"`);
+  }
+  if (qop) {
+    params.push(`qop=${qop}`, `nc=${nc}`, `cnonce="${cnonce}"`);
+  }
+  return `Digest ${params.join(', ')}`;
+}
@@ -0,0 +1,4 @@
+export * from './sip-message';
+export * from './digest-auth';
+export * from './sip-call';
+export * from './sip-user-agent';
@@ -0,0 +1,812 @@
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import {
+  ProcessorOptions,
+  RtpConfig,
+  SdpOptions,
+  SipCallOptions,
+  T140SdpDescription,
+  TextDataStream,
+} from '../interfaces';
+import { createT140RtpTransport } from '../processors/process-ai-stream-to-rtp';
+import { T140RtpTransport } from '../rtp/t140-rtp-transport';
+import {
+  DEFAULT_SIP_PORT,
+  SESSION_EXPIRY_MARGIN,
+  SIP_RANDOM_BYTES,
+} from '../utils/constants';
+import {
+  createT140Sdp,
+  createT140SdpAnswer,
+  negotiateT140RtpConfig,
+  parseT140Sdp,
+} from '../utils/sdp';
+import {
+  createDigestAuthorization,
+  DigestCredentials,
+  parseDigestChallenge,
+} from './digest-auth';
+import {
+  getHeaderParameter,
+  getHeaderUri,
+  getSipHeader,
+  parseCSeq,
+  parseSipUri,
+  SipRequest,
+  SipResponse,
+} from './sip-message';
+
+/**
+ * Host and port a SIP message is sent to or came from
+ */
+export interface SipAddress {
+  host: string;
+  port: number;
+}
+
+/**
+ * What a call needs from the user agent that owns it
+ */
+export interface SipCallContext {
+  localIdentity: string; // From/To value for us, without a tag
+  contact: string; // Contact header value
+  credentials?: DigestCredentials;
+  rtpConfig: RtpConfig;
+  sdpOptions: SdpOptions;
+  sessionExpires: number;
+  minSessionExpires: number;
+  allow: string;
+
+  /**
+   * Send a request in a new client transaction and resolve with its final response
+   */
+  sendRequest(
+    request: SipRequest,
+    destination: SipAddress,
+    onProvisional?: (response: SipResponse) => void
+  ): Promise<SipResponse>;
+
+  /**
+   * Send the ACK for a 2xx response to an INVITE
+   */
+  sendAck(ack: SipRequest, destination: SipAddress, invite: SipRequest): void;
+
+  /**
+   * Answer a request received by the user agent
+   */
+  sendResponse(
+    request: SipRequest,
+    status: number,
+    reason: string,
+    headers?: Record<string, string>,
+    body?: string
+  ): void;
+}
+
+export type SipCallDirection = 'outgoing' | 'incoming';
+export type SipCallState = 'calling' | 'ringing' | 'established' | 'terminated';
+export type SipCallEndReason =
+  'local' | 'remote' | 'rejected' | 'cancelled' | 'expired' | 'failed';
+
+type SessionRefresher = 'uac' | 'uas';
+
+const SDP_CONTENT_TYPE = 'application/sdp';
+
+function randomToken(): string {
+  return crypto.randomBytes(SIP_RANDOM_BYTES).toString('hex');
+}
+
+/**
+ * Session-Expires of a request or response (RFC 4028 §4)
+ */
+function sessionExpiresOf(
+  message: SipRequest | SipResponse
+): { interval: number; refresher?: SessionRefresher } | undefined {
+  const value = getSipHeader(message, 'session-expires');
+  if (!value) {
+    return undefined;
+  }
+  const refresher = getHeaderParameter(value, 'refresher')?.toLowerCase();
+  return {
+    interval: parseInt(value, 10),
+    refresher: refresher === 'uac' || refresher === 'uas' ? refresher : undefined,
+  };
+}
+
+function supportsTimer(request: SipRequest): boolean {
+  return [...(request.headers.supported ?? []), ...(request.headers.require ?? [])]
+    .some((value) => value.split(',').some((tag) => tag.trim().toLowerCase() === 'timer'));
+}
+
+/**
+ * A SIP dialog carrying one T.140 text stream
+ *
+ * Calls are created by SipUserAgent: call() places one, and incoming
+ * INVITEs are announced with the user agent's 'incomingCall' event. Once the call
+ * is established, `transport` is a T140RtpTransport sending to the address,
+ * port and payload types negotiated in SDP, and attachStream() streams an
+ * LLM response into it.
+ *
+ * With a negotiated session interval (RFC 4028), the refresher sends a
+ * re-INVITE halfway through each interval, and the other side hangs up if
+ * no refresh arrives before the interval runs out.
+ *
+ * Events:
+ * - 'progress': A provisional response to our INVITE (status: number, reason: string)
+ * - 'established': The call is up (transport: T140RtpTransport)
+ * - 'refreshed': The session interval was refreshed
+ * - 'ended': The call is over (reason: SipCallEndReason)
+ *
+ * Example usage:
+ * ```typescript
+ * ua.on('incomingCall', (call: SipCall) => {
+ *   call.on('established', () => call.attachStream(llmStream));
+ *   call.accept();
+ * });
+ * ```
+ */
+export class SipCall extends EventEmitter {
+  readonly callId: string;
+  readonly direction: SipCallDirection;
+  readonly remoteUri: string;
+  private context: SipCallContext;
+  private callState: SipCallState;
+  private localIdentity: string;
+  private remoteIdentity: string;
+  private remoteTarget: string;
+  private routeSet: string[] = [];
+  private localSeq: number = 0;
+  private remoteSeq: number = 0;
+  private localSdp?: string;
+  private lastInvite?: SipRequest;
+  private pendingInvite?: SipRequest;
+  private provisionalReceived = false;
+  private cancelRequested = false;
+  private cancelSent = false;
+  private acceptCallbacks?: { resolve: () => void; reject: (error: Error) => void };
+  private sessionInterval?: number;
+  private isRefresher = false;
+  private sessionTimer?: ReturnType<typeof setTimeout>;
+  private rtpTransport?: T140RtpTransport;
+  private remoteDescription?: T140SdpDescription;
+  private attach?: (stream: TextDataStream, processorOptions?: ProcessorOptions) => void;
+
+  /**
+   * @param context The owning user agent
+   * @param target The URI to call, or the INVITE of an incoming call
+   */
+  constructor(context: SipCallContext, target: string | SipRequest) {
+    super();
+
+    this.context = context;
+    const localTag = randomToken();
+
+    if (typeof target === 'string') {
+      this.direction = 'outgoing';
+      this.callState = 'calling';
+      this.callId = `${randomToken()}@${context.sdpOptions.address}`;
+      this.remoteUri = target;
+      this.remoteTarget = target;
+      this.localIdentity = `${context.localIdentity};tag=${localTag}`;
+      this.remoteIdentity = `<${target}>`;
+    } else {
+      const from = getSipHeader(target, 'from') ?? '';
+      const contact = getSipHeader(target, 'contact');
+      this.direction = 'incoming';
+      this.callState = 'ringing';
+      this.callId = getSipHeader(target, 'call-id') ?? '';
+      this.remoteUri = getHeaderUri(from);
+      this.remoteTarget = contact ? getHeaderUri(contact) : this.remoteUri;
+      this.routeSet = [...(target.headers['record-route'] ?? [])];
+      this.localIdentity = `${getSipHeader(target, 'to')};tag=${localTag}`;
+      this.remoteIdentity = from;
+      this.remoteSeq = parseCSeq(getSipHeader(target, 'cseq') ?? '').seq;
+      this.pendingInvite = target;
+    }
+  }
+
+  get state(): SipCallState {
+    return this.callState;
+  }
+
+  /**
+   * The transport for sending text, once the call is established
+   */
+  get transport(): T140RtpTransport | undefined {
+    return this.rtpTransport;
+  }
+
+  /**
+   * The remote party's negotiated media description, once the call is established
+   */
+  get remote(): T140SdpDescription | undefined {
+    return this.remoteDescription;
+  }
+
+  /**
+   * Stream text into the call's transport
+   *
+   * @param stream The text stream, e.g. an LLM response
+   * @param processorOptions Options for processing the stream
+   * @throws Error if the call is not established
+   */
+  attachStream(stream: TextDataStream, processorOptions?: ProcessorOptions): void {
+    if (!this.attach || this.callState !== 'established') {
+      throw new Error('Call is not established');
+    }
+    this.attach(stream, processorOptions);
+  }
+
+  /**
+   * Send the INVITE of an outgoing call; called by SipUserAgent.call()
+   *
+   * Digest challenges are answered once, and a 422 response is retried
+   * with the remote party's Min-SE.
+   *
+   * @returns A promise that resolves when the call is established
+   */
+  async invite(options: SipCallOptions = {}): Promise<void> {
+    let sessionExpires = options.sessionExpires ?? this.context.sessionExpires;
+    this.localSdp = createT140Sdp(this.context.rtpConfig, {
+      ...this.context.sdpOptions,
+      sessionId: String(Date.now()),
+    });
+
+    let confirmed = false;
+    let endReason: SipCallEndReason = 'failed';
+    try {
+      let response = await this._sendInvite(sessionExpires, options.headers);
+      const minSe = Number(getSipHeader(response, 'min-se'));
+      if (response.status === 422 && minSe > sessionExpires) {
+        sessionExpires = minSe;
+        response = await this._sendInvite(sessionExpires, options.headers);
+      }
+
+      if (response.status >= 300) {
+        endReason = 'rejected';
+        throw new Error(`Call to ${this.remoteUri} failed: ${response.status} ${response.reason}`);
+      }
+
+      this._confirmDialog(response);
+      this._sendAck(this.lastInvite!, response);
+      confirmed = true;
+      if (this.cancelRequested || this.callState === 'terminated') {
+        throw new Error(`Call to ${this.remoteUri} was cancelled`);
+      }
+
+      this._applySessionTimer(response, 'uac');
+      this._establish(parseT140Sdp(response.body));
+    } catch (err) {
+      if (confirmed) {
+        await this._sendBye();
+      }
+      this._end(this.cancelRequested ? 'cancelled' : endReason);
+      throw err;
+    }
+  }
+
+  /**
+   * Check an incoming INVITE and ring; called by SipUserAgent
+   *
+   * @returns false if the INVITE was refused (488 or 422) and the call is over
+   */
+  handleInvite(request: SipRequest): boolean {
+    try {
+      parseT140Sdp(request.body);
+    } catch (err) {
+      this.context.sendResponse(request, 488, 'Not Acceptable Here', this._toHeader());
+      this._end('failed');
+      return false;
+    }
+
+    const sessionHeaders = this._acceptSessionTimer(request);
+    if (!sessionHeaders) {
+      this._end('failed');
+      return false;
+    }
+
+    this.context.sendResponse(request, 180, 'Ringing', {
+      ...this._toHeader(),
+      contact: this.context.contact,
+    });
+    return true;
+  }
+
+  /**
+   * Answer a ringing incoming call
+   *
+   * @returns A promise that resolves when the caller acknowledges the answer
+   */
+  accept(): Promise<void> {
+    const invite = this.pendingInvite;
+    if (this.direction !== 'incoming' || this.callState !== 'ringing' || !invite) {
+      return Promise.reject(new Error('Only a ringing incoming call can be accepted'));
+    }
+
+    this.localSdp = createT140SdpAnswer(invite.body, this.context.rtpConfig, {
+      ...this.context.sdpOptions,
+      sessionId: String(Date.now()),
+    });
+
+    return new Promise<void>((resolve, reject) => {
+      this.acceptCallbacks = { resolve, reject };
+      this.context.sendResponse(invite, 200, 'OK', {
+        ...this._toHeader(),
+        ...this._acceptSessionTimer(invite),
+        contact: this.context.contact,
+        allow: this.context.allow,
+        'content-type': SDP_CONTENT_TYPE,
+      }, this.localSdp);
+    });
+  }
+
+  /**
+   * Refuse a ringing incoming call
+   *
+   * @param status Final response status (default: 486)
+   * @param reason Reason phrase (default: Busy Here)
+   */
+  reject(status: number = 486, reason: string = 'Busy Here'): void {
+    if (this.direction !== 'incoming' || this.callState !== 'ringing' || !this.pendingInvite) {
+      throw new Error('Only a ringing incoming call can be rejected');
+    }
+    if (status < 300 || status > 699) {
+      throw new Error('Rejection status must be between 300 and 699');
+    }
+    this.context.sendResponse(this.pendingInvite, status, reason, this._toHeader());
+    this._end('rejected');
+  }
+
+  /**
+   * End the call: BYE when established, CANCEL while an outgoing call is
+   * ringing, and 603 Decline for a ringing incoming call
+   */
+  async hangup(): Promise<void> {
+    if (this.callState === 'terminated') {
+      return;
+    }
+
+    if (this.callState === 'established') {
+      await this._sendBye();
+      this._end('local');
+    } else if (this.direction === 'incoming') {
+      this.reject(603, 'Decline');
+    } else {
+      // CANCEL may only follow a provisional response (RFC 3261 §9.1)
+      this.cancelRequested = true;
+      if (this.provisionalReceived) {
+        this._sendCancel();
+      }
+    }
+  }
+
+  /**
+   * Handle a request within this dialog; called by SipUserAgent
+   */
+  handleRequest(request: SipRequest): void {
+    const { seq } = parseCSeq(getSipHeader(request, 'cseq') ?? '');
+    if (seq < this.remoteSeq) {
+      this.context.sendResponse(request, 500, 'Server Internal Error');
+      return;
+    }
+    this.remoteSeq = seq;
+
+    switch (request.method) {
+      case 'BYE':
+        this.context.sendResponse(request, 200, 'OK');
+        this._end('remote');
+        break;
+      case 'INVITE':
+      case 'UPDATE':
+        this._handleRefresh(request);
+        break;
+      case 'OPTIONS':
+        this.context.sendResponse(request, 200, 'OK', { allow: this.context.allow });
+        break;
+      default:
+        this.context.sendResponse(request, 501, 'Not Implemented');
+    }
+  }
+
+  /**
+   * Handle the ACK for our 2xx answer; called by SipUserAgent
+   */
+  handleAck(): void {
+    const callbacks = this.acceptCallbacks;
+    const invite = this.pendingInvite;
+    if (!callbacks || !invite) {
+      return;
+    }
+    this.acceptCallbacks = undefined;
+    this.pendingInvite = undefined;
+
+    try {
+      this._establish(parseT140Sdp(invite.body));
+      callbacks.resolve();
+    } catch (err) {
+      this._sendBye().then(() => this._end('failed'));
+      callbacks.reject(err as Error);
+    }
+  }
+
+  /**
+   * Give up on a 2xx answer that was never acknowledged; called by SipUserAgent
+   */
+  handleAckTimeout(): void {
+    if (!this.acceptCallbacks) {
+      return;
+    }
+    const { reject } = this.acceptCallbacks;
+    this.acceptCallbacks = undefined;
+    this._sendBye().then(() => this._end('failed'));
+    reject(new Error('Caller never acknowledged the answer'));
+  }
+
+  /**
+   * Handle a CANCEL of the ringing incoming call; called by SipUserAgent
+   */
+  handleCancel(): void {
+    if (this.callState === 'ringing' && this.pendingInvite) {
+      this.context.sendResponse(this.pendingInvite, 487, 'Request Terminated', this._toHeader());
+      this._end('cancelled');
+    }
+  }
+
+  private async _sendInvite(
+    sessionExpires: number,
+    headers: Record<string, string> = {}
+  ): Promise<SipResponse> {
+    const sessionHeaders: Record<string, string> = sessionExpires > 0
+      ? {
+        supported: 'timer',
+        'session-expires': String(sessionExpires),
+        'min-se': String(this.context.minSessionExpires),
+      }
+      : {};
+    const request = this._createRequest('INVITE', {
+      ...sessionHeaders,
+      ...headers,
+    }, this.localSdp);
+
+    return this._request(request, (response) => {
+      this.provisionalReceived = true;
+      if (response.status > 100 && this.callState === 'calling') {
+        this.callState = 'ringing';
+      }
+      this.emit('progress', response.status, response.reason);
+      if (this.cancelRequested && !this.cancelSent) {
+        this._sendCancel();
+      }
+    });
+  }
+
+  /**
+   * Send a request, answering one digest challenge if we have credentials
+   */
+  private async _request(
+    request: SipRequest,
+    onProvisional?: (response: SipResponse) => void
+  ): Promise<SipResponse> {
+    if (request.method === 'INVITE') {
+      this.lastInvite = request;
+    }
+    const response = await this.context.sendRequest(request, this._nextHop(), onProvisional);
+
+    const challenge = response.status === 401
+      ? getSipHeader(response, 'www-authenticate')
+      : response.status === 407 ? getSipHeader(response, 'proxy-authenticate') : undefined;
+    const credentials = this.context.credentials;
+    if (!challenge || !credentials) {
+      return response;
+    }
+
+    const retry = this._createRequest(request.method, {}, request.body);
+    for (const name of Object.keys(request.headers)) {
+      if (name !== 'via' && name !== 'cseq') {
+        retry.headers[name] = [...request.headers[name]];
+      }
+    }
+    const authorization = createDigestAuthorization(
+      parseDigestChallenge(challenge), credentials, request.method, request.uri
+    );
+    retry.headers[response.status === 401 ? 'authorization' : 'proxy-authorization'] = [
+      authorization,
+    ];
+
+    if (retry.method === 'INVITE') {
+      this.lastInvite = retry;
+    }
+    return this.context.sendRequest(retry, this._nextHop(), onProvisional);
+  }
+
+  /**
+   * Build a request within the dialog
+   */
+  private _createRequest(
+    method: string,
+    headers: Record<string, string> = {},
+    body: string = ''
+  ): SipRequest {
+    this.localSeq += 1;
+    const request: SipRequest = {
+      method,
+      body,
+      type: 'request',
+      uri: this.remoteTarget,
+      headers: {
+        from: [this.localIdentity],
+        to: [this.remoteIdentity],
+        'call-id': [this.callId],
+        cseq: [`${this.localSeq} ${method}`],
+      },
+    };
+
+    if (this.routeSet.length) {
+      request.headers.route = [...this.routeSet];
+    }
+    if (method === 'INVITE' || method === 'UPDATE') {
+      request.headers.contact = [this.context.contact];
+      request.headers.allow = [this.context.allow];
+    }
+    for (const name of Object.keys(headers)) {
+      request.headers[name.toLowerCase()] = [headers[name]];
+    }
+    if (body) {
+      request.headers['content-type'] = [SDP_CONTENT_TYPE];
+    }
+    return request;
+  }
+
+  /**
+   * Take the remote tag, target and route set from a 2xx to our INVITE
+   */
+  private _confirmDialog(response: SipResponse): void {
+    this.remoteIdentity = getSipHeader(response, 'to') ?? this.remoteIdentity;
+    const contact = getSipHeader(response, 'contact');
+    if (contact) {
+      this.remoteTarget = getHeaderUri(contact);
+    }
+    this.routeSet = [...(response.headers['record-route'] ?? [])].reverse();
+  }
+
+  private _sendAck(invite: SipRequest, response: SipResponse): void {
+    const { seq } = parseCSeq(getSipHeader(invite, 'cseq') ?? '');
+    const ack: SipRequest = {
+      type: 'request',
+      method: 'ACK',
+      uri: this.remoteTarget,
+      body: '',
+      headers: {
+        from: [this.localIdentity],
+        to: [getSipHeader(response, 'to') ?? this.remoteIdentity],
+        'call-id': [this.callId],
+        cseq: [`${seq} ACK`],
+      },
+    };
+    if (this.routeSet.length) {
+      ack.headers.route = [...this.routeSet];
+    }
+    for (const name of ['authorization', 'proxy-authorization']) {
+      if (invite.headers[name]) {
+        ack.headers[name] = [...invite.headers[name]];
+      }
+    }
+    this.context.sendAck(ack, this._nextHop(), invite);
+  }
+
+  /**
+   * CANCEL the pending INVITE, reusing its Via (RFC 3261 §9.1)
+   */
+  private _sendCancel(): void {
+    const invite = this.lastInvite;
+    if (!invite || !invite.headers.via) {
+      return;
+    }
+    this.cancelSent = true;
+    const { seq } = parseCSeq(getSipHeader(invite, 'cseq') ?? '');
+    const cancel: SipRequest = {
+      type: 'request',
+      method: 'CANCEL',
+      uri: invite.uri,
+      body: '',
+      headers: {
+        via: [invite.headers.via[0]],
+        from: [...invite.headers.from],
+        to: [...invite.headers.to],
+        'call-id': [this.callId],
+        cseq: [`${seq} CANCEL`],
+      },
+    };
+    if (invite.headers.route) {
+      cancel.headers.route = [...invite.headers.route];
+    }
+    this.context.sendRequest(cancel, this._nextHop()).catch(() => undefined);
+  }
+
+  private async _sendBye(): Promise<void> {
+    try {
+      await this._request(this._createRequest('BYE'));
+    } catch (err) {
+      // The call is over whether or not BYE got through
+    }
+  }
+
+  private _nextHop(): SipAddress {
+    const uri = parseSipUri(
+      this.routeSet.length ? getHeaderUri(this.routeSet[0]) : this.remoteTarget
+    );
+    return { host: uri.host, port: uri.port ?? DEFAULT_SIP_PORT };
+  }
+
+  private _toHeader(): Record<string, string> {
+    return { to: this.localIdentity };
+  }
+
+  /**
+   * Answer a re-INVITE or UPDATE, which refreshes the session (RFC 4028 §9)
+   */
+  private _handleRefresh(request: SipRequest): void {
+    if (this.callState !== 'established') {
+      this.context.sendResponse(request, 491, 'Request Pending');
+      return;
+    }
+
+    const sessionHeaders = this._acceptSessionTimer(request);
+    if (!sessionHeaders) {
+      return;
+    }
+    const body = request.method === 'INVITE' || request.body ? this.localSdp ?? '' : '';
+    this.context.sendResponse(request, 200, 'OK', {
+      ...sessionHeaders,
+      contact: this.context.contact,
+      ...(body ? { 'content-type': SDP_CONTENT_TYPE } : {}),
+    }, body);
+
+    this._startSessionTimer();
+    this.emit('refreshed');
+  }
+
+  /**
+   * Take the session interval of a request we answer as UAS
+   *
+   * @returns Headers for the 2xx, or undefined if the interval was too small
+   * and 422 was sent
+   */
+  private _acceptSessionTimer(request: SipRequest): Record<string, string> | undefined {
+    const requested = sessionExpiresOf(request);
+    if (!requested) {
+      this.sessionInterval = undefined;
+      return {};
+    }
+
+    const minSessionExpires = this.context.minSessionExpires;
+    if (requested.interval < minSessionExpires) {
+      this.context.sendResponse(request, 422, 'Session Interval Too Small', {
+        ...this._toHeader(),
+        'min-se': String(minSessionExpires),
+      });
+      return undefined;
+    }
+
+    const refresher = requested.refresher ?? (supportsTimer(request) ? 'uac' : 'uas');
+    this.sessionInterval = requested.interval;
+    this.isRefresher = refresher === 'uas';
+
+    const headers: Record<string, string> = {
+      'session-expires': `${requested.interval};refresher=${refresher}`,
+    };
+    if (refresher === 'uac') {
+      headers.require = 'timer';
+    }
+    return headers;
+  }
+
+  /**
+   * Take the session interval from a 2xx to a request we sent as UAC
+   */
+  private _applySessionTimer(response: SipResponse, role: SessionRefresher): void {
+    const session = sessionExpiresOf(response);
+    this.sessionInterval = session?.interval;
+    this.isRefresher = (session?.refresher ?? 'uac') === role;
+  }
+
+  private _startSessionTimer(): void {
+    this._stopSessionTimer();
+    const interval = this.sessionInterval;
+    if (!interval || this.callState !== 'established') {
+      return;
+    }
+
+    // Refresh halfway; otherwise hang up shortly before expiry (RFC 4028 §10)
+    const delay = this.isRefresher
+      ? interval / 2
+      : interval - Math.min(SESSION_EXPIRY_MARGIN, interval / 3);
+    this.sessionTimer = setTimeout(() => {
+      this.sessionTimer = undefined;
+      if (this.isRefresher) {
+        this._refresh();
+      } else {
+        this._sendBye().then(() => this._end('expired'));
+      }
+    }, delay * 1000);
+    this.sessionTimer.unref();
+  }
+
+  private _stopSessionTimer(): void {
+    if (this.sessionTimer) {
+      clearTimeout(this.sessionTimer);
+      this.sessionTimer = undefined;
+    }
+  }
+
+  /**
+   * Refresh the session with a re-INVITE carrying our current SDP
+   */
+  private async _refresh(): Promise<void> {
+    const request = this._createRequest('INVITE', {
+      supported: 'timer',
+      'session-expires': `${this.sessionInterval};refresher=uac`,
+      'min-se': String(this.context.minSessionExpires),
+    }, this.localSdp);
+
+    try {
+      const response = await this._request(request);
+      if (this.callState !== 'established') {
+        return;
+      }
+      if (response.status >= 200 && response.status < 300) {
+        this._sendAck(this.lastInvite!, response);
+        this._applySessionTimer(response, 'uac');
+        this.emit('refreshed');
+      } else if (response.status === 408 || response.status === 481) {
+        // The dialog is gone (RFC 4028 §10)
+        this._end('failed');
+        return;
+      }
+    } catch (err) {
+      await this._sendBye();
+      this._end('failed');
+      return;
+    }
+    this._startSessionTimer();
+  }
+
+  /**
+   * Create the transport from the negotiated media and report the call as up
+   */
+  private _establish(remote: T140SdpDescription): void {
+    if (remote.remotePort === 0) {
+      throw new Error('Remote party rejected the text stream');
+    }
+
+    const { transport, attachStream } = createT140RtpTransport(
+      remote.remoteAddress,
+      remote.remotePort,
+      negotiateT140RtpConfig(this.context.rtpConfig, remote.rtpConfig)
+    );
+    this.remoteDescription = remote;
+    this.rtpTransport = transport;
+    this.attach = attachStream;
+    this.callState = 'established';
+    this._startSessionTimer();
+    this.emit('established', transport);
+  }
+
+  private _end(reason: SipCallEndReason): void {
+    if (this.callState === 'terminated') {
+      return;
+    }
+    this.callState = 'terminated';
+    this._stopSessionTimer();
+    this.pendingInvite = undefined;
+
+    if (this.acceptCallbacks) {
+      this.acceptCallbacks.reject(new Error(`Call ended before it was established (${reason})`));
+      this.acceptCallbacks = undefined;
+    }
+    if (this.rtpTransport) {
+      this.rtpTransport.close();
+    }
+    this.emit('ended', reason);
+  }
+}
@@ -0,0 +1,284 @@
+import { SIP_VERSION } from '../utils/constants';
+
+/**
+ * Header values by lower-case full header name, in order of appearance
+ */
+export type SipHeaders = Record<string, string[]>;
+
+/**
+ * A SIP request (RFC 3261 §7.1)
+ */
+export interface SipRequest {
+  type: 'request';
+  method: string;
+  uri: string;
+  headers: SipHeaders;
+  body: string;
+}
+
+/**
+ * A SIP response (RFC 3261 §7.2)
+ */
+export interface SipResponse {
+  type: 'response';
+  status: number;
+  reason: string;
+  headers: SipHeaders;
+  body: string;
+}
+
+export type SipMessage = SipRequest | SipResponse;
+
+/**
+ * The parts of a SIP or SIPS URI
+ */
+export interface SipUri {
+  scheme: 'sip' | 'sips';
+  user?: string;
+  host: string;
+  port?: number;
+  params: Record<string, string>;
+}
+
+const HEADER_SEPARATOR = '\r\n\r\n';
+
+/**
+ * Compact header forms (RFC 3261 §7.3.3, RFC 4028 §4)
+ */
+const COMPACT_HEADERS: Record<string, string> = {
+  c: 'content-type',
+  e: 'content-encoding',
+  f: 'from',
+  i: 'call-id',
+  k: 'supported',
+  l: 'content-length',
+  m: 'contact',
+  s: 'subject',
+  t: 'to',
+  v: 'via',
+  x: 'session-expires',
+};
+
+/**
+ * Header names that do not follow plain capitalization
+ */
+const HEADER_NAMES: Record<string, string> = {
+  'call-id': 'Call-ID',
+  cseq: 'CSeq',
+  'min-se': 'Min-SE',
+  'www-authenticate': 'WWW-Authenticate',
+};
+
+/**
+ * Headers whose comma separated values are separate entries
+ */
+const LIST_HEADERS = ['via', 'route', 'record-route'];
+
+/**
+ * Split a header value on commas outside quotes and angle brackets
+ */
+function splitHeaderList(value: string): string[] {
+  const values: string[] = [];
+  let quoted = false;
+  let bracketed = false;
+  let start = 0;
+
+  for (let i = 0; i < value.length; i += 1) {
+    const char = value[i];
+    if (char === '"' && value[i - 1] !== '\\') {
+      quoted = !quoted;
+    } else if (!quoted && (char === '<' || char === '>')) {
+      bracketed = char === '<';
+    } else if (char === ',' && !quoted && !bracketed) {
+      values.push(value.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  values.push(value.slice(start).trim());
+  return values.filter((item) => item);
+}
+
+function headerName(name: string): string {
+  return HEADER_NAMES[name] ??
+    name.split('-').map((part) => part.charAt(0).toUpperCase() + part.slice(1)).join('-');
+}
+
+/**
+ * Parse one SIP message from a datagram or a framed stream segment
+ *
+ * Header names are normalized to their lower-case full form, so `i:` and
+ * `Call-ID:` both end up under `call-id`.
+ *
+ * @param data The message
+ * @returns The parsed request or response
+ * @throws Error if the start line or a header line is malformed
+ */
+export function parseSipMessage(data: Buffer | string): SipMessage {
+  const buffer = typeof data === 'string' ? Buffer.from(data) : data;
+  const headerEnd = buffer.indexOf(HEADER_SEPARATOR);
+  const head = buffer.slice(0, headerEnd === -1 ? buffer.length : headerEnd).toString('utf8');
+  const rest = headerEnd === -1
+    ? Buffer.alloc(0)
+    : buffer.slice(headerEnd + HEADER_SEPARATOR.length);
+
+  // Unfold continuation lines (RFC 3261 §7.3.1)
+  const [startLine, ...headerLines] = head.replace(/^(\r\n)+/, '')
+    .replace(/\r\n[ \t]+/g, ' ')
+    .split('\r\n');
+
+  const headers: SipHeaders = {};
+  for (const line of headerLines) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) {
+      throw new Error(`Malformed SIP header line: ${line}`);
+    }
+    const rawName = line.slice(0, colon).trim().toLowerCase();
+    const name = COMPACT_HEADERS[rawName] ?? rawName;
+    const value = line.slice(colon + 1).trim();
+    const values = LIST_HEADERS.includes(name) ? splitHeaderList(value) : [value];
+    headers[name] = (headers[name] ?? []).concat(values);
+  }
+
+  const contentLength = headers['content-length']
+    ? Number(headers['content-length'][0])
+    : undefined;
+  const body = rest.slice(0, contentLength ?? rest.length).toString('utf8');
+
+  const response = /^SIP\/2\.0\s+(\d{3})\s*(.*)$/.exec(startLine);
+  if (response) {
+    return { headers, body, type: 'response', status: Number(response[1]), reason: response[2] };
+  }
+
+  const request = /^([A-Za-z]+)\s+(\S+)\s+SIP\/2\.0$/.exec(startLine);
+  if (request) {
+    return { headers, body, type: 'request', method: request[1].toUpperCase(), uri: request[2] };
+  }
+
+  throw new Error(`Malformed SIP start line: ${startLine}`);
+}
+
+/**
+ * Serialize a SIP message, setting Content-Length from the body
+ *
+ * @param message The request or response
+ * @returns The message bytes
+ */
+export function serializeSipMessage(message: SipMessage): Buffer {
+  const startLine = message.type === 'request'
+    ? `${message.method} ${message.uri} ${SIP_VERSION}`
+    : `${SIP_VERSION} ${message.status} ${message.reason}`;
+
+  const lines = [startLine];
+  for (const name of Object.keys(message.headers)) {
+    if (name !== 'content-length') {
+      message.headers[name].forEach((value) => lines.push(`${headerName(name)}: ${value}`));
+    }
+  }
+  lines.push(`Content-Length: ${Buffer.byteLength(message.body)}`);
+
+  return Buffer.from(lines.join('\r\n') + HEADER_SEPARATOR + message.body);
+}
+
+/**
+ * Split a stream-oriented transport's bytes into SIP messages (RFC 3261 §18.3)
+ *
+ * @param buffer Bytes received so far
+ * @returns The complete messages and the bytes left over for the next read
+ * @throws Error if a complete message head lacks a valid Content-Length
+ */
+export function splitSipStream(buffer: Buffer): { messages: SipMessage[]; remainder: Buffer } {
+  const messages: SipMessage[] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    // Skip CRLF keep-alives between messages
+    if (buffer[offset] === 0x0d || buffer[offset] === 0x0a) {
+      offset += 1;
+      continue;
+    }
+
+    const headerEnd = buffer.indexOf(HEADER_SEPARATOR, offset);
+    if (headerEnd === -1) {
+      break;
+    }
+    const head = buffer.slice(offset, headerEnd).toString('utf8');
+    const lengthHeader = /^(?:content-length|l)[ \t]*:[ \t]*(\d+)/im.exec(head);
+    if (!lengthHeader) {
+      throw new Error('SIP message on a stream transport has no Content-Length');
+    }
+    const end = headerEnd + HEADER_SEPARATOR.length + Number(lengthHeader[1]);
+    if (end > buffer.length) {
+      break;
+    }
+    messages.push(parseSipMessage(buffer.slice(offset, end)));
+    offset = end;
+  }
+
+  return { messages, remainder: buffer.slice(offset) };
+}
+
+/**
+ * First value of a header
+ */
+export function getSipHeader(message: SipMessage, name: string): string | undefined {
+  return message.headers[name.toLowerCase()]?.[0];
+}
+
+/**
+ * Value of a `;name=value` parameter of a header value, outside its URI
+ *
+ * @returns The value, an empty string for a flag parameter such as `;rport`,
+ * or undefined if the parameter is absent
+ */
+export function getHeaderParameter(value: string, name: string): string | undefined {
+  const params = value.slice(value.lastIndexOf('>') + 1).split(';').slice(1);
+  for (const param of params) {
+    const [key, ...paramValue] = param.split('=');
+    if (key.trim().toLowerCase() === name.toLowerCase()) {
+      return paramValue.join('=').trim().replace(/^"(.*)"$/, '$1');
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The URI of a name-addr or addr-spec header value such as From, To or Contact
+ */
+export function getHeaderUri(value: string): string {
+  const bracketed = /<([^>]*)>/.exec(value);
+  return bracketed ? bracketed[1] : value.split(';')[0].trim();
+}
+
+/**
+ * Parse a SIP or SIPS URI
+ *
+ * @throws Error if the URI is not a SIP URI
+ */
+export function parseSipUri(uri: string): SipUri {
+  const match = /^(sips?):(?:([^@]+)@)?(\[[0-9a-fA-F:.]+\]|[^:;?]+)(?::(\d+))?([^?]*)/i.exec(uri);
+  if (!match) {
+    throw new Error(`Invalid SIP URI: ${uri}`);
+  }
+
+  const params: Record<string, string> = {};
+  match[5].split(';').slice(1).forEach((param) => {
+    const [key, value = ''] = param.split('=');
+    params[key.toLowerCase()] = value;
+  });
+
+  return {
+    params,
+    scheme: match[1].toLowerCase() as SipUri['scheme'],
+    user: match[2],
+    host: match[3].replace(/^\[(.*)\]$/, '$1'),
+    port: match[4] ? Number(match[4]) : undefined,
+  };
+}
+
+/**
+ * Parse a CSeq header value into its number and method
+ */
+export function parseCSeq(value: string): { seq: number; method: string } {
+  const [seq, method] = value.trim().split(/\s+/);
+  return { method: (method ?? '').toUpperCase(), seq: Number(seq) };
+}
@@ -0,0 +1,765 @@
+import * as crypto from 'crypto';
+import createDebug from 'debug';
+import * as dgram from 'dgram';
+import { EventEmitter } from 'events';
+import * as net from 'net';
+import * as os from 'os';
+import { SipCallOptions, SipUserAgentConfig } from '../interfaces';
+import {
+  DEFAULT_MIN_SE,
+  DEFAULT_RTP_PORT,
+  DEFAULT_SESSION_EXPIRES,
+  DEFAULT_SIP_PORT,
+  DEFAULT_SIP_USER_AGENT,
+  SIP_BRANCH_COOKIE,
+  SIP_MAX_FORWARDS,
+  SIP_RANDOM_BYTES,
+  SIP_TIMEOUT_MULTIPLIER,
+  SIP_TIMER_T1,
+  SIP_TIMER_T2,
+} from '../utils/constants';
+import { ErrorFactory } from '../utils/error-factory';
+import { SipAddress, SipCall, SipCallContext } from './sip-call';
+import {
+  getHeaderParameter,
+  getSipHeader,
+  parseCSeq,
+  parseSipMessage,
+  parseSipUri,
+  serializeSipMessage,
+  SipMessage,
+  SipRequest,
+  SipResponse,
+  splitSipStream,
+} from './sip-message';
+
+const debug = createDebug('t140llm:sip');
+
+const ALLOWED_METHODS = 'INVITE, ACK, BYE, CANCEL, OPTIONS, UPDATE';
+
+type Timer = ReturnType<typeof setTimeout>;
+
+/**
+ * Where a request came from; stream transports answer on the same socket
+ */
+interface SipSource extends SipAddress {
+  socket?: net.Socket;
+}
+
+interface ClientTransaction {
+  request: SipRequest;
+  destination: SipAddress;
+  resolve: (response: SipResponse) => void;
+  reject: (error: Error) => void;
+  onProvisional?: (response: SipResponse) => void;
+  completed: boolean;
+  retransmitTimer?: Timer;
+  timeoutTimer?: Timer;
+  ack?: Buffer; // Resent when the final response to an INVITE is retransmitted
+}
+
+interface ServerTransaction {
+  source: SipSource;
+  response?: Buffer; // Last response, resent when the request is retransmitted
+}
+
+interface PendingAck {
+  callId: string;
+  success: boolean;
+  retransmitTimer?: Timer;
+  timeoutTimer?: Timer;
+}
+
+type ResolvedSipConfig = Required<Omit<
+  SipUserAgentConfig,
+  'domain' | 'displayName' | 'password' | 'authUsername'
+>> & SipUserAgentConfig;
+
+function randomToken(): string {
+  return crypto.randomBytes(SIP_RANDOM_BYTES).toString('hex');
+}
+
+/**
+ * Host and port for Via and Contact, with IPv6 addresses in brackets
+ */
+function hostPort(host: string, port: number): string {
+  return `${host.includes(':') ? `[${host}]` : host}:${port}`;
+}
+
+/**
+ * The first non-internal IPv4 address of this host
+ */
+function defaultPublicAddress(): string {
+  const interfaces = os.networkInterfaces();
+  for (const name of Object.keys(interfaces)) {
+    const address = (interfaces[name] ?? []).find((info) => {
+      return info.family === 'IPv4' && !info.internal;
+    });
+    if (address) {
+      return address.address;
+    }
+  }
+  return '127.0.0.1';
+}
+
+/**
+ * Minimal SIP user agent (RFC 3261) for T.140 text calls
+ *
+ * Places and answers calls with an m=text SDP offer/answer (INVITE, 100,
+ * 180, 200, ACK, BYE and CANCEL) over UDP or TCP. Digest challenges (401
+ * and 407) are answered with the configured credentials, and RFC 4028
+ * session timers are negotiated and kept alive with re-INVITEs. Each
+ * established SipCall carries a T140RtpTransport for the negotiated media.
+ *
+ * UDP requests and INVITE responses are retransmitted from `timerT1` ms,
+ * and transactions give up after 64*T1. There is no DNS SRV lookup, and
+ * proxies must use loose routing.
+ *
+ * Events:
+ * - 'incomingCall': An INVITE arrived and is ringing (call: SipCall)
+ * - 'outgoingCall': call() sent an INVITE (call: SipCall)
+ * - 'error': Socket errors (NETWORK_ERROR) and malformed messages (INVALID_PACKET)
+ *
+ * Example usage:
+ * ```typescript
+ * const ua = await createSipUserAgent({
+ *   username: 'agent',
+ *   password: 'secret',
+ *   rtpConfig: { redEnabled: true },
+ * });
+ * const call = await ua.call('sip:relay@192.0.2.20');
+ * call.attachStream(llmStream);
+ * ```
+ */
+export class SipUserAgent extends EventEmitter {
+  private config: ResolvedSipConfig;
+  private udpSocket?: dgram.Socket;
+  private tcpServer?: net.Server;
+  private connections: Map<string, net.Socket> = new Map();
+  private clientTransactions: Map<string, ClientTransaction> = new Map();
+  private serverTransactions: Map<string, ServerTransaction> = new Map();
+  private pendingAcks: Map<string, PendingAck> = new Map();
+  private calls: Map<string, SipCall> = new Map();
+  private context?: SipCallContext;
+  private boundPort: number = 0;
+  private closing = false;
+
+  constructor(config: SipUserAgentConfig) {
+    super();
+
+    if (!config.username) {
+      throw new Error('SIP username is required');
+    }
+    const transport = config.transport ?? 'udp';
+    if (transport !== 'udp' && transport !== 'tcp') {
+      throw new Error(`Unsupported SIP transport: ${transport}`);
+    }
+
+    const localAddress = config.localAddress ?? '0.0.0.0';
+    this.config = {
+      ...config,
+      transport,
+      localAddress,
+      localPort: config.localPort ?? DEFAULT_SIP_PORT,
+      publicAddress: config.publicAddress ??
+        (localAddress === '0.0.0.0' ? defaultPublicAddress() : localAddress),
+      rtpPort: config.rtpPort ?? DEFAULT_RTP_PORT,
+      rtpConfig: config.rtpConfig ?? {},
+      sessionExpires: config.sessionExpires ?? DEFAULT_SESSION_EXPIRES,
+      minSessionExpires: config.minSessionExpires ?? DEFAULT_MIN_SE,
+      autoAnswer: config.autoAnswer ?? false,
+      userAgent: config.userAgent ?? DEFAULT_SIP_USER_AGENT,
+      timerT1: config.timerT1 ?? SIP_TIMER_T1,
+    };
+
+    if (this.config.sessionExpires && this.config.sessionExpires < this.config.minSessionExpires) {
+      throw new Error('sessionExpires must not be below minSessionExpires');
+    }
+  }
+
+  /**
+   * The bound signalling port, once started
+   */
+  get port(): number {
+    return this.boundPort;
+  }
+
+  /**
+   * Our SIP URI (address of record)
+   */
+  get uri(): string {
+    return `sip:${this.config.username}@${this.config.domain ?? this.config.publicAddress}`;
+  }
+
+  /**
+   * Bind the signalling socket and start accepting requests
+   */
+  async start(): Promise<void> {
+    if (this.context) {
+      return;
+    }
+    if (this.config.transport === 'udp') {
+      await this._startUdp();
+    } else {
+      await this._startTcp();
+    }
+    this.context = this._createContext();
+    debug(`SIP user agent listening on ${this.config.transport} port ${this.boundPort}`);
+  }
+
+  /**
+   * Call a SIP URI
+   *
+   * @param target The URI to call, e.g. `sip:relay@192.0.2.20:5060`
+   * @param options Extra INVITE headers and session interval
+   * @returns A promise that resolves with the established call
+   * @throws Error if the user agent is not started or the target is not a SIP URI
+   */
+  async call(target: string, options: SipCallOptions = {}): Promise<SipCall> {
+    const context = this._requireContext();
+    parseSipUri(target);
+
+    const call = new SipCall(context, target);
+    this._track(call);
+    this.emit('outgoingCall', call);
+    await call.invite(options);
+    return call;
+  }
+
+  /**
+   * Hang up all calls and close the signalling sockets
+   */
+  async close(): Promise<void> {
+    this.closing = true;
+    await Promise.all([...this.calls.values()].map((call) => call.hangup()));
+
+    this.clientTransactions.forEach((transaction) => {
+      this._clearTimers(transaction);
+      if (!transaction.completed) {
+        transaction.reject(new Error('SIP user agent closed'));
+      }
+    });
+    this.clientTransactions.clear();
+    this.pendingAcks.forEach((pending) => this._clearTimers(pending));
+    this.pendingAcks.clear();
+    this.serverTransactions.clear();
+
+    this.connections.forEach((socket) => socket.destroy());
+    this.connections.clear();
+    if (this.tcpServer) {
+      this.tcpServer.close();
+      this.tcpServer = undefined;
+    }
+    if (this.udpSocket) {
+      this.udpSocket.close();
+      this.udpSocket = undefined;
+    }
+    this.context = undefined;
+    this.closing = false;
+  }
+
+  private _startUdp(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const socket = dgram.createSocket('udp4');
+      socket.once('error', reject);
+      socket.on('message', (data: Buffer, rinfo: dgram.RemoteInfo) => {
+        this._receive(data, { host: rinfo.address, port: rinfo.port });
+      });
+      socket.bind(this.config.localPort, this.config.localAddress, () => {
+        socket.removeListener('error', reject);
+        socket.on('error', (err) => {
+          this.emit('error', ErrorFactory.NETWORK('SIP socket error', err));
+        });
+        this.udpSocket = socket;
+        this.boundPort = socket.address().port;
+        resolve();
+      });
+    });
+  }
+
+  private _startTcp(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const server = net.createServer((socket) => {
+        this._attachConnection(socket, `${socket.remoteAddress}:${socket.remotePort}`);
+      });
+      server.once('error', reject);
+      server.listen(this.config.localPort, this.config.localAddress, () => {
+        server.removeListener('error', reject);
+        server.on('error', (err) => {
+          this.emit('error', ErrorFactory.NETWORK('SIP server error', err));
+        });
+        this.tcpServer = server;
+        this.boundPort = (server.address() as net.AddressInfo).port;
+        resolve();
+      });
+    });
+  }
+
+  private _createContext(): SipCallContext {
+    const { username, displayName, password, publicAddress, transport } = this.config;
+    const transportParam = transport === 'tcp' ? ';transport=tcp' : '';
+
+    return {
+      localIdentity: `${displayName ? `"${displayName}" ` : ''}<${this.uri}>`,
+      contact: `<sip:${username}@${hostPort(publicAddress, this.boundPort)}${transportParam}>`,
+      credentials: password !== undefined
+        ? { password, username: this.config.authUsername ?? username }
+        : undefined,
+      rtpConfig: this.config.rtpConfig,
+      sdpOptions: { address: publicAddress, port: this.config.rtpPort },
+      sessionExpires: this.config.sessionExpires,
+      minSessionExpires: this.config.minSessionExpires,
+      allow: ALLOWED_METHODS,
+      sendRequest: (request, destination, onProvisional) => {
+        return this._sendRequest(request, destination, onProvisional);
+      },
+      sendAck: (ack, destination, invite) => this._sendAck(ack, destination, invite),
+      sendResponse: (request, status, reason, headers, body) => {
+        this._sendResponse(request, status, reason, headers, body);
+      },
+    };
+  }
+
+  private _requireContext(): SipCallContext {
+    if (!this.context) {
+      throw new Error('SIP user agent is not started');
+    }
+    return this.context;
+  }
+
+  private _track(call: SipCall): void {
+    this.calls.set(call.callId, call);
+    call.once('ended', () => this.calls.delete(call.callId));
+  }
+
+  private _via(): string {
+    const sentBy = hostPort(this.config.publicAddress, this.boundPort);
+    const branch = `${SIP_BRANCH_COOKIE}${randomToken()}`;
+    return `SIP/2.0/${this.config.transport.toUpperCase()} ${sentBy};branch=${branch};rport`;
+  }
+
+  /**
+   * Add Via, Max-Forwards and User-Agent to an outgoing request
+   */
+  private _prepareRequest(request: SipRequest): void {
+    request.headers = {
+      via: request.headers.via ?? [this._via()],
+      'max-forwards': [String(SIP_MAX_FORWARDS)],
+      ...request.headers,
+      'user-agent': [this.config.userAgent],
+    };
+  }
+
+  /**
+   * Send a request in a new client transaction (RFC 3261 §17.1)
+   */
+  private _sendRequest(
+    request: SipRequest,
+    destination: SipAddress,
+    onProvisional?: (response: SipResponse) => void
+  ): Promise<SipResponse> {
+    this._prepareRequest(request);
+    const branch = getHeaderParameter(request.headers.via[0], 'branch');
+    const key = `${branch}:${request.method}`;
+    const data = serializeSipMessage(request);
+    const timeout = SIP_TIMEOUT_MULTIPLIER * this.config.timerT1;
+
+    return new Promise<SipResponse>((resolve, reject) => {
+      const transaction: ClientTransaction = {
+        request,
+        destination,
+        resolve,
+        reject,
+        onProvisional,
+        completed: false,
+      };
+      this.clientTransactions.set(key, transaction);
+      this._send(data, destination);
+
+      if (this.config.transport === 'udp') {
+        // INVITEs back off without a cap (Timer A), other requests up to T2 (Timer E)
+        this._retransmit(transaction, () => this._send(data, destination),
+          this.config.timerT1, request.method !== 'INVITE');
+      }
+      transaction.timeoutTimer = setTimeout(() => {
+        this._clearTimers(transaction);
+        this.clientTransactions.delete(key);
+        reject(new Error(
+          `${request.method} to ${hostPort(destination.host, destination.port)} timed out`
+        ));
+      }, timeout);
+      transaction.timeoutTimer.unref();
+    });
+  }
+
+  /**
+   * Send the ACK for a 2xx, remembering it for retransmitted 2xx responses
+   */
+  private _sendAck(ack: SipRequest, destination: SipAddress, invite: SipRequest): void {
+    this._prepareRequest(ack);
+    const data = serializeSipMessage(ack);
+    this._send(data, destination);
+
+    const branch = getHeaderParameter(invite.headers.via?.[0] ?? '', 'branch');
+    const transaction = this.clientTransactions.get(`${branch}:INVITE`);
+    if (transaction) {
+      transaction.ack = data;
+    }
+  }
+
+  private _sendResponse(
+    request: SipRequest,
+    status: number,
+    reason: string,
+    headers: Record<string, string> = {},
+    body: string = ''
+  ): void {
+    const branch = getHeaderParameter(request.headers.via?.[0] ?? '', 'branch');
+    const key = `${branch}:${request.method}`;
+    const transaction = this.serverTransactions.get(key);
+    if (!transaction) {
+      return;
+    }
+
+    const response: SipResponse = {
+      status,
+      reason,
+      body,
+      type: 'response',
+      headers: {
+        via: [...request.headers.via],
+        from: [...(request.headers.from ?? [])],
+        to: [...(request.headers.to ?? [])],
+        'call-id': [...(request.headers['call-id'] ?? [])],
+        cseq: [...(request.headers.cseq ?? [])],
+      },
+    };
+    for (const name of Object.keys(headers)) {
+      response.headers[name.toLowerCase()] = [headers[name]];
+    }
+    const to = response.headers.to[0] ?? '';
+    if (status > 100 && getHeaderParameter(to, 'tag') === undefined) {
+      response.headers.to = [`${to};tag=${randomToken()}`];
+    }
+
+    const data = serializeSipMessage(response);
+    transaction.response = data;
+    this._send(data, transaction.source);
+
+    if (status >= 200) {
+      if (request.method === 'INVITE') {
+        this._awaitAck(request, status < 300, data, transaction.source);
+      }
+      setTimeout(() => {
+        this.serverTransactions.delete(key);
+      }, SIP_TIMEOUT_MULTIPLIER * this.config.timerT1).unref();
+    }
+  }
+
+  /**
+   * Retransmit a final response to an INVITE until the ACK arrives (Timer G)
+   */
+  private _awaitAck(request: SipRequest, success: boolean, data: Buffer, source: SipSource): void {
+    const callId = getSipHeader(request, 'call-id') ?? '';
+    const key = `${callId} ${parseCSeq(getSipHeader(request, 'cseq') ?? '').seq}`;
+    const pending: PendingAck = { callId, success };
+    this.pendingAcks.set(key, pending);
+
+    if (this.config.transport === 'udp') {
+      this._retransmit(pending, () => this._send(data, source), this.config.timerT1, true);
+    }
+    pending.timeoutTimer = setTimeout(() => {
+      this._clearTimers(pending);
+      this.pendingAcks.delete(key);
+      if (success) {
+        this.calls.get(callId)?.handleAckTimeout();
+      }
+    }, SIP_TIMEOUT_MULTIPLIER * this.config.timerT1);
+    pending.timeoutTimer.unref();
+  }
+
+  private _retransmit(
+    holder: { retransmitTimer?: Timer },
+    send: () => void,
+    interval: number,
+    capped: boolean
+  ): void {
+    holder.retransmitTimer = setTimeout(() => {
+      send();
+      const next = capped ? Math.min(interval * 2, SIP_TIMER_T2) : interval * 2;
+      this._retransmit(holder, send, next, capped);
+    }, interval);
+    holder.retransmitTimer.unref();
+  }
+
+  private _clearTimers(holder: { retransmitTimer?: Timer; timeoutTimer?: Timer }): void {
+    if (holder.retransmitTimer) {
+      clearTimeout(holder.retransmitTimer);
+      holder.retransmitTimer = undefined;
+    }
+    if (holder.timeoutTimer) {
+      clearTimeout(holder.timeoutTimer);
+      holder.timeoutTimer = undefined;
+    }
+  }
+
+  private _send(data: Buffer, destination: SipSource): void {
+    if (this.config.transport === 'udp') {
+      this.udpSocket?.send(data, destination.port, destination.host, (err) => {
+        if (err) {
+          this.emit('error', ErrorFactory.NETWORK('Failed to send SIP message', err));
+        }
+      });
+      return;
+    }
+
+    const socket = destination.socket && !destination.socket.destroyed
+      ? destination.socket
+      : this._connect(destination);
+    socket.write(data);
+  }
+
+  /**
+   * Reuse or open a TCP connection to a destination
+   */
+  private _connect(destination: SipAddress): net.Socket {
+    const key = `${destination.host}:${destination.port}`;
+    const existing = this.connections.get(key);
+    if (existing && !existing.destroyed) {
+      return existing;
+    }
+    const socket = net.connect(destination.port, destination.host);
+    this._attachConnection(socket, key);
+    return socket;
+  }
+
+  private _attachConnection(socket: net.Socket, key: string): void {
+    let buffered = Buffer.alloc(0);
+    this.connections.set(key, socket);
+    socket.setNoDelay(true);
+
+    socket.on('data', (data: Buffer) => {
+      buffered = Buffer.concat([buffered, data]);
+      try {
+        const { messages, remainder } = splitSipStream(buffered);
+        buffered = remainder;
+        const source = { socket, host: socket.remoteAddress ?? '', port: socket.remotePort ?? 0 };
+        messages.forEach((message) => this._dispatch(message, source));
+      } catch (err) {
+        this.emit('error', ErrorFactory.INVALID_PACKET('Malformed SIP message', err as Error));
+        socket.destroy();
+      }
+    });
+    socket.on('error', (err) => {
+      // Peers dropping connections while we shut down are expected
+      if (!this.closing) {
+        this.emit('error', ErrorFactory.NETWORK('SIP connection error', err));
+      }
+    });
+    socket.on('close', () => {
+      if (this.connections.get(key) === socket) {
+        this.connections.delete(key);
+      }
+    });
+  }
+
+  private _receive(data: Buffer, source: SipSource): void {
+    // CRLF keep-alives carry no message
+    if (!data.toString('utf8').trim()) {
+      return;
+    }
+
+    let message: SipMessage;
+    try {
+      message = parseSipMessage(data);
+    } catch (err) {
+      this.emit('error', ErrorFactory.INVALID_PACKET('Malformed SIP message', err as Error));
+      return;
+    }
+    this._dispatch(message, source);
+  }
+
+  private _dispatch(message: SipMessage, source: SipSource): void {
+    debug(message.type === 'request'
+      ? `received ${message.method} from ${hostPort(source.host, source.port)}`
+      : `received ${message.status} ${message.reason}`);
+
+    if (message.type === 'response') {
+      this._handleResponse(message);
+    } else {
+      this._handleRequest(message, source);
+    }
+  }
+
+  private _handleResponse(response: SipResponse): void {
+    const branch = getHeaderParameter(getSipHeader(response, 'via') ?? '', 'branch');
+    const { method } = parseCSeq(getSipHeader(response, 'cseq') ?? '');
+    const key = `${branch}:${method}`;
+    const transaction = this.clientTransactions.get(key);
+    if (!transaction) {
+      return;
+    }
+
+    if (transaction.completed) {
+      // A retransmitted final response: our ACK was lost
+      if (transaction.ack) {
+        this._send(transaction.ack, transaction.destination);
+      }
+      return;
+    }
+
+    if (response.status < 200) {
+      if (transaction.retransmitTimer) {
+        clearTimeout(transaction.retransmitTimer);
+        transaction.retransmitTimer = undefined;
+      }
+      if (method === 'INVITE') {
+        // Proceeding: wait for the final response as long as it takes
+        this._clearTimers(transaction);
+      }
+      transaction.onProvisional?.(response);
+      return;
+    }
+
+    this._clearTimers(transaction);
+    transaction.completed = true;
+    if (method === 'INVITE') {
+      if (response.status >= 300) {
+        transaction.ack = this._createNon2xxAck(transaction.request, response);
+        this._send(transaction.ack, transaction.destination);
+      }
+      // Keep the transaction to absorb retransmitted final responses
+      setTimeout(() => {
+        this.clientTransactions.delete(key);
+      }, SIP_TIMEOUT_MULTIPLIER * this.config.timerT1).unref();
+    } else {
+      this.clientTransactions.delete(key);
+    }
+    transaction.resolve(response);
+  }
+
+  /**
+   * ACK for a non-2xx final response, part of the INVITE transaction (RFC 3261 §17.1.1.3)
+   */
+  private _createNon2xxAck(invite: SipRequest, response: SipResponse): Buffer {
+    const ack: SipRequest = {
+      type: 'request',
+      method: 'ACK',
+      uri: invite.uri,
+      body: '',
+      headers: {
+        via: [invite.headers.via[0]],
+        'max-forwards': [String(SIP_MAX_FORWARDS)],
+        from: [...invite.headers.from],
+        to: [getSipHeader(response, 'to') ?? invite.headers.to[0]],
+        'call-id': [...invite.headers['call-id']],
+        cseq: [`${parseCSeq(invite.headers.cseq[0]).seq} ACK`],
+      },
+    };
+    if (invite.headers.route) {
+      ack.headers.route = [...invite.headers.route];
+    }
+    return serializeSipMessage(ack);
+  }
+
+  private _handleRequest(request: SipRequest, source: SipSource): void {
+    const branch = getHeaderParameter(getSipHeader(request, 'via') ?? '', 'branch');
+    const callId = getSipHeader(request, 'call-id');
+    if (!branch || !callId || !getSipHeader(request, 'cseq')) {
+      this.emit('error', ErrorFactory.INVALID_PACKET(
+        `SIP ${request.method} without Via branch, Call-ID or CSeq`
+      ));
+      return;
+    }
+
+    if (request.method === 'ACK') {
+      this._handleAck(request, callId);
+      return;
+    }
+
+    const key = `${branch}:${request.method}`;
+    const existing = this.serverTransactions.get(key);
+    if (existing) {
+      // A retransmitted request: repeat our last response
+      if (existing.response) {
+        this._send(existing.response, existing.source);
+      }
+      return;
+    }
+    this.serverTransactions.set(key, { source });
+
+    const call = this.calls.get(callId);
+    const toTag = getHeaderParameter(getSipHeader(request, 'to') ?? '', 'tag');
+
+    if (request.method === 'CANCEL') {
+      if (call && this.serverTransactions.has(`${branch}:INVITE`)) {
+        this._sendResponse(request, 200, 'OK');
+        call.handleCancel();
+      } else {
+        this._sendResponse(request, 481, 'Call/Transaction Does Not Exist');
+      }
+    } else if (toTag !== undefined) {
+      if (call) {
+        call.handleRequest(request);
+      } else {
+        this._sendResponse(request, 481, 'Call/Transaction Does Not Exist');
+      }
+    } else if (request.method === 'INVITE') {
+      this._handleInvite(request, callId);
+    } else if (request.method === 'OPTIONS') {
+      this._sendResponse(request, 200, 'OK', {
+        allow: ALLOWED_METHODS,
+        accept: 'application/sdp',
+      });
+    } else if (request.method === 'BYE' || request.method === 'UPDATE') {
+      this._sendResponse(request, 481, 'Call/Transaction Does Not Exist');
+    } else {
+      this._sendResponse(request, 405, 'Method Not Allowed', { allow: ALLOWED_METHODS });
+    }
+  }
+
+  private _handleInvite(request: SipRequest, callId: string): void {
+    this._sendResponse(request, 100, 'Trying');
+    if (this.calls.has(callId)) {
+      this._sendResponse(request, 482, 'Loop Detected');
+      return;
+    }
+
+    const call = new SipCall(this._requireContext(), request);
+    this._track(call);
+    if (!call.handleInvite(request)) {
+      return;
+    }
+
+    this.emit('incomingCall', call);
+    if (this.config.autoAnswer) {
+      // Failures end the call, which the 'ended' event reports
+      call.accept().catch(() => undefined);
+    }
+  }
+
+  private _handleAck(request: SipRequest, callId: string): void {
+    const key = `${callId} ${parseCSeq(getSipHeader(request, 'cseq') ?? '').seq}`;
+    const pending = this.pendingAcks.get(key);
+    if (!pending) {
+      return;
+    }
+    this._clearTimers(pending);
+    this.pendingAcks.delete(key);
+    if (pending.success) {
+      this.calls.get(callId)?.handleAck();
+    }
+  }
+}
+
+/**
+ * Create and start a SIP user agent
+ *
+ * @param config User, credentials, signalling transport and media settings
+ * @returns A promise that resolves with the started user agent
+ */
+export async function createSipUserAgent(config: SipUserAgentConfig): Promise<SipUserAgent> {
+  const userAgent = new SipUserAgent(config);
+  await userAgent.start();
+  return userAgent;
+}
@@ -1,48 +1,15 @@
-import createDebug from 'debug';
-import * as dgram from 'dgram';
 import { RtpConfig, TransportStream } from '../interfaces';
 import { processAIStreamToRtp } from '../processors/process-ai-stream-to-rtp';
 import { T140RtpTransport } from '../rtp/t140-rtp-transport';
+import { createUdpTransport } from '../transport/udp-transport';
 import { DEFAULT_RTP_PORT } from '../utils/constants';
 import { RtpConfigWithSteg } from './rtp-config-extensions';
 import { StegTransport } from './steg-transport';
 
-const debug = createDebug('t140llm:steg');
-/**
- * Creates a default UDP transport
- */
-function createDefaultTransport(
-  remoteAddress: string,
-  remotePort: number = DEFAULT_RTP_PORT
-): TransportStream {
-  const udpSocket = dgram.createSocket('udp4');
-
-  // Prevent unhandled 'error' event from crashing the process
-  udpSocket.on('error', (err) => {
-    debug('UDP transport socket error: %O', err);
-  });
-
-  return {
-    send(data: Buffer, callback?: (error?: Error) => void): void {
-      udpSocket.send(
-        data,
-        0,
-        data.length,
-        remotePort,
-        remoteAddress,
-        callback ? (err) => callback(err ?? undefined) : undefined
-      );
-    },
-    close(): void {
-      udpSocket.close();
-    },
-  };
-}
-
 /**
  * Create an RTP transport with optional steganography support
  *
- * @param remoteAddress The remote IP address to send packets to
+ * @param remoteAddress The remote IP address or hostname to send packets to
  * @param remotePort The remote port to send packets to (default: 5004)
  * @param config RTP configuration with optional steganography settings
  * @returns The configured RTP transport
@@ -54,7 +21,7 @@ export function createStegT140RtpTransport(
 ): T140RtpTransport {
   // Use the provided transport or create a default UDP transport
   let transport: TransportStream = config.customTransport ||
-    createDefaultTransport(remoteAddress, remotePort);
+    createUdpTransport(remoteAddress, remotePort);
 
   // If steganography is enabled, wrap the transport with StegTransport
   if (config.steganography?.enabled) {
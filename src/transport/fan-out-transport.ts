@@ -0,0 +1,263 @@
+import { EventEmitter } from 'events';
+import { RtpPacket, SrtpSession } from 'werift-rtp';
+import {
+  FanOutDestinationConfig,
+  SrtpProtectionProfile,
+  T140RtpError,
+  TransportStream,
+} from '../interfaces';
+import { isRtcpPacket } from '../rtp/rtcp';
+import {
+  DEFAULT_SRTP_MKI_LENGTH,
+  RTP_HEADER_SIZE,
+  RTP_OFFSET_SSRC,
+  RTP_VERSION,
+} from '../utils/constants';
+import { ErrorFactory } from '../utils/error-factory';
+import { addSrtpMki, encodeSrtpMki, generateSecureSSRC } from '../utils/security';
+import { createUdpTransport } from './udp-transport';
+
+/**
+ * One destination and the state of its copy of the stream
+ */
+interface Destination {
+  transport: TransportStream;
+  ssrc: number;
+  ssrcs: Map<number, number>; // Sender SSRC to this destination's SSRC
+  srtpSession?: SrtpSession;
+  srtpMki?: Buffer;
+  srtpProfile?: SrtpProtectionProfile;
+}
+
+/**
+ * A TransportStream that copies every RTP packet to several destinations
+ *
+ * Use it as the customTransport of one T140RtpTransport to deliver the same
+ * text to, say, the caller, a recorder and a supervisor console. Each
+ * destination gets its own SSRC (the sender's FEC and RTX SSRCs are mapped
+ * to further SSRCs of its own) and, with `srtpConfig`, its own SRTP key, so
+ * the sending T140RtpTransport itself should not use SRTP. RTCP from the
+ * sender describes its own SSRC and is not forwarded.
+ *
+ * A destination is either a UDP address (unicast or multicast, with TTL,
+ * interface and loopback options) or any TransportStream. Destinations can
+ * be added and removed while text is flowing. A destination that fails to
+ * send is reported and skipped; the callback of send() succeeds once any
+ * destination has sent the packet. Removing a destination, or closing the
+ * fan-out, closes the destination's transport.
+ *
+ * Events:
+ * - 'destinationAdded': A destination was added (id: string)
+ * - 'destinationRemoved': A destination was removed (id: string)
+ * - 'destinationError': Sending to one destination failed
+ *   ({ destinationId: string, error: T140RtpError })
+ *
+ * Example usage:
+ * ```typescript
+ * const fanOut = new FanOutTransport();
+ * fanOut.addDestination('caller', { address: '192.0.2.10', port: 5004 });
+ * fanOut.addDestination('supervisors', { address: '239.1.2.3', port: 6000, multicastTtl: 4 });
+ * const transport = new T140RtpTransport('0.0.0.0', 0, { customTransport: fanOut });
+ * transport.sendText('Hello, everyone');
+ * ```
+ */
+export class FanOutTransport extends EventEmitter implements TransportStream {
+  private destinations: Map<string, Destination> = new Map();
+  private closed: boolean = false;
+
+  /**
+   * Add a destination
+   *
+   * @param id Name of the destination, used to remove it and in events
+   * @param config Where to send and how to protect this destination's copy
+   * @throws T140RtpError (INVALID_CONFIG) if the fan-out is closed, the ID is
+   * taken or the destination is invalid
+   */
+  addDestination(id: string, config: FanOutDestinationConfig): void {
+    if (this.closed) {
+      throw ErrorFactory.INVALID_CONFIG('Fan-out transport is closed');
+    }
+    if (this.destinations.has(id)) {
+      throw ErrorFactory.INVALID_CONFIG(`Destination ${id} already exists`);
+    }
+    if (!config.transport === !config.address) {
+      throw ErrorFactory.INVALID_CONFIG(`Destination ${id} needs either an address or a transport`);
+    }
+    const ssrc = config.ssrc ?? generateSecureSSRC();
+    if (!Number.isInteger(ssrc) || ssrc < 0 || ssrc > 0xffffffff) {
+      throw ErrorFactory.INVALID_CONFIG(`Invalid SSRC for destination ${id}`);
+    }
+
+    const destination: Destination = { ssrc, transport: config.transport!, ssrcs: new Map() };
+    const srtpConfig = config.srtpConfig;
+    if (srtpConfig) {
+      try {
+        if (!srtpConfig.masterKey || !srtpConfig.masterSalt) {
+          throw new Error('SRTP configuration missing required master key or salt');
+        }
+        destination.srtpMki = srtpConfig.mki !== undefined
+          ? encodeSrtpMki(srtpConfig.mki, srtpConfig.mkiLength ?? DEFAULT_SRTP_MKI_LENGTH)
+          : undefined;
+        destination.srtpProfile = srtpConfig.profile ?? 1;
+        destination.srtpSession = new SrtpSession({
+          keys: {
+            localMasterKey: srtpConfig.masterKey,
+            localMasterSalt: srtpConfig.masterSalt,
+            remoteMasterKey: srtpConfig.masterKey,
+            remoteMasterSalt: srtpConfig.masterSalt,
+          },
+          profile: destination.srtpProfile,
+        });
+      } catch (err) {
+        throw ErrorFactory.INVALID_CONFIG(
+          `Invalid SRTP configuration for destination ${id}`,
+          err as Error
+        );
+      }
+    }
+
+    if (!config.transport) {
+      destination.transport = createUdpTransport(config.address!, config.port, config);
+    }
+
+    this.destinations.set(id, destination);
+    this.emit('destinationAdded', id);
+  }
+
+  /**
+   * Stop sending to a destination and close its transport
+   *
+   * @param id The destination
+   * @returns true if the destination existed
+   */
+  removeDestination(id: string): boolean {
+    const destination = this.destinations.get(id);
+    if (!destination) {
+      return false;
+    }
+    this.destinations.delete(id);
+    this._closeDestination(id, destination);
+    this.emit('destinationRemoved', id);
+    return true;
+  }
+
+  /**
+   * The current destinations
+   */
+  getDestinationIds(): string[] {
+    return Array.from(this.destinations.keys());
+  }
+
+  /**
+   * Send a copy of an RTP packet to every destination
+   *
+   * The callback gets no error once any destination has sent its copy, or
+   * an error if none could; RTCP and non-RTP data are dropped.
+   */
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    const destinations = Array.from(this.destinations.entries());
+    if (this.closed || destinations.length === 0 || !this._isRtpPacket(data)) {
+      callback?.();
+      return;
+    }
+
+    let pending = destinations.length;
+    let delivered = false;
+    const finish = (id: string, error?: T140RtpError) => {
+      pending -= 1;
+      if (error) {
+        this.emit('destinationError', { error, destinationId: id });
+      } else if (!delivered) {
+        delivered = true;
+        callback?.();
+      }
+      if (pending === 0 && !delivered) {
+        callback?.(new Error('Packet could not be sent to any destination'));
+      }
+    };
+
+    for (const [id, destination] of destinations) {
+      let packet: Buffer;
+      try {
+        packet = this._packetFor(destination, data);
+      } catch (err) {
+        finish(id, ErrorFactory.ENCRYPTION(
+          `Failed to encrypt packet for destination ${id} - packet not sent`,
+          err as Error
+        ));
+        continue;
+      }
+
+      // A failing destination must not hold up the others, so each reports once
+      let finished = false;
+      const done = (err?: Error) => {
+        if (!finished) {
+          finished = true;
+          finish(id, err && ErrorFactory.NETWORK(`Failed to send to destination ${id}`, err));
+        }
+      };
+      try {
+        destination.transport.send(packet, done);
+      } catch (err) {
+        done(err as Error);
+      }
+    }
+  }
+
+  /**
+   * Close every destination's transport
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    for (const [id, destination] of this.destinations) {
+      this._closeDestination(id, destination);
+    }
+    this.destinations.clear();
+  }
+
+  private _isRtpPacket(data: Buffer): boolean {
+    return data.length >= RTP_HEADER_SIZE && data[0] >> 6 === RTP_VERSION && !isRtcpPacket(data);
+  }
+
+  /**
+   * Rewrite the SSRC of a copy for a destination and protect it with its SRTP key
+   */
+  private _packetFor(destination: Destination, data: Buffer): Buffer {
+    const sourceSsrc = data.readUInt32BE(RTP_OFFSET_SSRC);
+    let ssrc = destination.ssrcs.get(sourceSsrc);
+    if (ssrc === undefined) {
+      // The first stream seen is the media stream; FEC and RTX get SSRCs of their own
+      const used = new Set(destination.ssrcs.values());
+      ssrc = used.size === 0 ? destination.ssrc : generateSecureSSRC();
+      while (used.has(ssrc)) {
+        ssrc = generateSecureSSRC();
+      }
+      destination.ssrcs.set(sourceSsrc, ssrc);
+    }
+
+    const packet = Buffer.from(data);
+    packet.writeUInt32BE(ssrc, RTP_OFFSET_SSRC);
+    if (!destination.srtpSession) {
+      return packet;
+    }
+    const rtp = RtpPacket.deSerialize(packet);
+    const encrypted = destination.srtpSession.encrypt(rtp.payload, rtp.header);
+    return destination.srtpMki
+      ? addSrtpMki(encrypted, destination.srtpMki, destination.srtpProfile)
+      : encrypted;
+  }
+
+  private _closeDestination(id: string, destination: Destination): void {
+    try {
+      destination.transport.close?.();
+    } catch (err) {
+      this.emit('destinationError', {
+        destinationId: id,
+        error: ErrorFactory.RESOURCE(`Error closing destination ${id}`, err as Error),
+      });
+    }
+  }
+}
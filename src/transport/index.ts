@@ -1 +1,8 @@
+export * from './fan-out-transport';
+export * from './rfc4571';
+export * from './seqpacket-transport';
+export * from './tcp-transport';
+export * from './udp-transport';
+export * from './websocket-client';
+export * from './websocket-protocol';
 export * from './websocket-server';
@@ -0,0 +1,75 @@
+import { EventEmitter } from 'events';
+import { RFC4571_LENGTH_SIZE, RFC4571_MAX_PACKET_SIZE } from '../utils/constants';
+
+/**
+ * Frame one RTP or RTCP packet for a byte stream (RFC 4571 §2)
+ *
+ * @param packet The packet
+ * @returns The packet behind its 16-bit big-endian length
+ * @throws Error if the packet is empty or longer than 65535 bytes
+ */
+export function frameRfc4571Packet(packet: Buffer): Buffer {
+  if (packet.length === 0 || packet.length > RFC4571_MAX_PACKET_SIZE) {
+    throw new Error(`Cannot frame a ${packet.length} byte packet for RFC 4571`);
+  }
+  const length = Buffer.alloc(RFC4571_LENGTH_SIZE);
+  length.writeUInt16BE(packet.length, 0);
+  return Buffer.concat([length, packet]);
+}
+
+/**
+ * Splits an RFC 4571 byte stream back into packets
+ *
+ * Feed it the chunks read from a TCP or TLS socket; each complete packet is
+ * emitted as 'data', so the deframer can be the inboundTransport of a
+ * T140RtpReceiver. A packet split across chunks is held until the rest
+ * arrives. Empty frames carry no packet and are skipped.
+ *
+ * Events:
+ * - 'data': One complete packet (data: Buffer)
+ *
+ * Example usage:
+ * ```typescript
+ * const deframer = new Rfc4571Deframer();
+ * socket.on('data', (chunk) => deframer.push(chunk));
+ * const receiver = new T140RtpReceiver({ inboundTransport: deframer });
+ * ```
+ */
+export class Rfc4571Deframer extends EventEmitter {
+  private buffered: Buffer = Buffer.alloc(0);
+
+  /**
+   * Number of bytes held back waiting for the rest of a packet
+   */
+  get pending(): number {
+    return this.buffered.length;
+  }
+
+  /**
+   * Add bytes read from the stream, emitting every packet they complete
+   */
+  push(chunk: Buffer): void {
+    this.buffered = this.buffered.length ? Buffer.concat([this.buffered, chunk]) : chunk;
+
+    let offset = 0;
+    while (this.buffered.length - offset >= RFC4571_LENGTH_SIZE) {
+      const length = this.buffered.readUInt16BE(offset);
+      const end = offset + RFC4571_LENGTH_SIZE + length;
+      if (end > this.buffered.length) {
+        break;
+      }
+      if (length > 0) {
+        this.emit('data', this.buffered.slice(offset + RFC4571_LENGTH_SIZE, end));
+      }
+      offset = end;
+    }
+    this.buffered = this.buffered.slice(offset);
+  }
+
+  /**
+   * Drop a partly received packet, e.g. when the connection is replaced
+   */
+  reset(): void {
+    this.buffered = Buffer.alloc(0);
+  }
+}
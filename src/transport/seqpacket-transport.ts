@@ -0,0 +1,404 @@
+import createDebug from 'debug';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as net from 'net';
+import { SeqpacketServer, SeqpacketSocket } from 'node-unix-socket';
+import { SeqpacketTransportOptions, TransportStream, UnixSocketFraming } from '../interfaces';
+import { DEFAULT_SEQPACKET_SEND_QUEUE_SIZE, SEQPACKET_SOCKET_PATH } from '../utils/constants';
+import { ErrorFactory } from '../utils/error-factory';
+import { frameRfc4571Packet, Rfc4571Deframer } from './rfc4571';
+
+const debug = createDebug('t140llm:seqpacket');
+
+interface QueuedPacket {
+  packet: Buffer;
+  callback?: (error?: Error) => void;
+}
+
+/**
+ * A connected Unix socket of either framing
+ */
+interface UnixConnection {
+  write(packet: Buffer, callback: (error?: Error) => void): void;
+  close(): void;
+}
+
+/**
+ * Wrap a connected SEQPACKET socket; every message is one packet
+ */
+function seqpacketConnection(
+  socket: SeqpacketSocket,
+  onPacket: (packet: Buffer) => void
+): UnixConnection {
+  socket.on('data', onPacket);
+  return {
+    write: (packet, callback) => socket.write(packet, 0, packet.length, () => callback()),
+    close: () => socket.destroy(),
+  };
+}
+
+/**
+ * Wrap a connected stream socket; packets travel behind a 16-bit length
+ */
+function streamConnection(
+  socket: net.Socket,
+  onPacket: (packet: Buffer) => void
+): UnixConnection {
+  const deframer = new Rfc4571Deframer();
+  deframer.on('data', onPacket);
+  socket.on('data', (chunk: Buffer) => deframer.push(chunk));
+  return {
+    write: (packet, callback) => {
+      socket.write(frameRfc4571Packet(packet), (err) => callback(err ?? undefined));
+    },
+    close: () => socket.end(),
+  };
+}
+
+/**
+ * Remove a socket file left behind by an earlier listener
+ */
+function removeSocketFile(socketPath: string): void {
+  try {
+    if (fs.statSync(socketPath).isSocket()) {
+      fs.unlinkSync(socketPath);
+    }
+  } catch (err) {
+    // Nothing to remove
+  }
+}
+
+/**
+ * Sends RTP packets over a Unix domain socket without merging them
+ *
+ * A plain net connection to a SEQPACKET path is a byte stream, so packets
+ * written back to back can arrive as one read. This transport connects with
+ * a real SOCK_SEQPACKET socket, where every packet is one message. Where
+ * SEQPACKET is not available (e.g. macOS), `framing: 'length-prefixed'`
+ * connects a stream socket and puts each packet behind its 16-bit length
+ * (RFC 4571 framing); the SeqpacketListener or an Rfc4571Deframer splits
+ * them again.
+ *
+ * Packets sent before the connection is up are queued. Packets the peer
+ * writes back are emitted as 'data', so the transport can also be the
+ * inboundTransport of a T140RtpReceiver.
+ *
+ * Events:
+ * - 'connect': The socket is connected
+ * - 'data': One inbound packet (data: Buffer)
+ * - 'error': Connection or socket errors (T140RtpError with NETWORK_ERROR)
+ * - 'close': The socket was closed by close() or by the peer
+ *
+ * Example usage:
+ * ```typescript
+ * const socket = new SeqpacketTransport('/tmp/seqpacket_socket');
+ * const transport = new T140RtpTransport('127.0.0.1', 5004, { customTransport: socket });
+ * transport.sendText('Hello, local reader');
+ * ```
+ */
+export class SeqpacketTransport extends EventEmitter implements TransportStream {
+  private socketPath: string;
+  private framing: UnixSocketFraming;
+  private maxQueueSize: number;
+  private connection?: UnixConnection;
+  private queue: QueuedPacket[] = [];
+  private closed: boolean = false;
+
+  /**
+   * @param socketPath Path of the listening socket (default: /tmp/seqpacket_socket)
+   * @param options Framing and queue settings
+   */
+  constructor(
+    socketPath: string = SEQPACKET_SOCKET_PATH,
+    options: SeqpacketTransportOptions = {}
+  ) {
+    super();
+    this.socketPath = socketPath;
+    this.framing = options.framing ?? 'seqpacket';
+    this.maxQueueSize = options.maxQueueSize ?? DEFAULT_SEQPACKET_SEND_QUEUE_SIZE;
+    this._connect();
+  }
+
+  /**
+   * Whether the socket is connected
+   */
+  get isConnected(): boolean {
+    return Boolean(this.connection) && !this.closed;
+  }
+
+  /**
+   * Send one packet as one message (or one length-prefixed frame)
+   *
+   * Before the socket connects the packet is queued; the callback gets an
+   * error if the packet is empty or too long to frame, is dropped from a
+   * full queue, or the transport is closed.
+   */
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    // A zero-length SEQPACKET message reads as end of file on the other side
+    if (data.length === 0) {
+      callback?.(new Error('Cannot send an empty packet'));
+      return;
+    }
+
+    if (this.closed) {
+      callback?.(new Error('Unix socket transport is closed'));
+    } else if (this.connection) {
+      this._write(this.connection, data, callback);
+    } else {
+      this.queue.push({ callback, packet: data });
+      if (this.queue.length > this.maxQueueSize) {
+        this.queue.shift()!.callback?.(new Error('Unix socket send queue full, packet dropped'));
+      }
+    }
+  }
+
+  /**
+   * Close the socket, failing any packets still queued
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this._handleClose();
+    this.connection?.close();
+    this.connection = undefined;
+  }
+
+  private _connect(): void {
+    debug('Connecting to %s (%s)', this.socketPath, this.framing);
+    const onPacket = (packet: Buffer) => this.emit('data', packet);
+
+    if (this.framing === 'length-prefixed') {
+      const socket = net.createConnection(this.socketPath);
+      socket.once('connect', () => this._attach(streamConnection(socket, onPacket)));
+      socket.on('error', (err) => this._handleError(err));
+      socket.on('close', () => this._handleClose());
+      return;
+    }
+
+    const socket = new SeqpacketSocket();
+    socket.on('error', (err: Error) => this._handleError(err));
+    socket.on('end', () => socket.destroy());
+    try {
+      // Throws right away, after closing the socket, when nothing is listening on the path
+      socket.connect(this.socketPath, () => this._attach(seqpacketConnection(socket, onPacket)));
+    } catch (err) {
+      setImmediate(() => {
+        this._handleError(err as Error);
+        this._handleClose();
+      });
+      return;
+    }
+    socket.on('close', () => this._handleClose());
+  }
+
+  /**
+   * Use a connected socket and flush the queue through it
+   */
+  private _attach(connection: UnixConnection): void {
+    if (this.closed) {
+      connection.close();
+      return;
+    }
+    this.connection = connection;
+    this.emit('connect');
+    for (const { packet, callback } of this.queue.splice(0)) {
+      this._write(connection, packet, callback);
+    }
+  }
+
+  private _write(
+    connection: UnixConnection,
+    packet: Buffer,
+    callback?: (error?: Error) => void
+  ): void {
+    try {
+      connection.write(packet, (err) => callback?.(err));
+    } catch (err) {
+      callback?.(err as Error);
+    }
+  }
+
+  private _handleError(err: Error): void {
+    if (!this.closed) {
+      this.emit('error', ErrorFactory.NETWORK(`Unix socket error on ${this.socketPath}`, err));
+    }
+  }
+
+  private _handleClose(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    for (const { callback } of this.queue.splice(0)) {
+      callback?.(new Error('Unix socket transport is closed'));
+    }
+    setImmediate(() => this.emit('close'));
+  }
+}
+
+/**
+ * Accepts Unix socket connections and reads RTP packets back out of them
+ *
+ * The receiving end of a SeqpacketTransport, with the same framing: each
+ * SEQPACKET message, or each length-prefixed frame on a stream socket, is
+ * emitted as one 'data' event, whichever connection it came in on. The
+ * listener can therefore be the inboundTransport of a T140RtpReceiver.
+ *
+ * A socket file left at the path by a listener that has gone away is
+ * replaced, and the file is removed again on close(). If a listener still
+ * accepts connections there, 'error' is emitted and its file is left alone.
+ *
+ * Events:
+ * - 'listening': The socket is accepting connections
+ * - 'connection': A sender connected
+ * - 'data': One packet (data: Buffer)
+ * - 'error': Listening socket errors, including a path another listener is
+ *   using (T140RtpError with NETWORK_ERROR)
+ * - 'close': close() has finished
+ *
+ * Example usage:
+ * ```typescript
+ * const listener = new SeqpacketListener('/tmp/seqpacket_socket');
+ * const receiver = new T140RtpReceiver({ inboundTransport: listener });
+ * receiver.on('data', (text) => process.stdout.write(text));
+ * ```
+ */
+export class SeqpacketListener extends EventEmitter {
+  private socketPath: string;
+  private server?: SeqpacketServer | net.Server;
+  private connections: Set<UnixConnection> = new Set();
+  private closed: boolean = false;
+
+  /**
+   * @param socketPath Path to listen on (default: /tmp/seqpacket_socket)
+   * @param options Framing of the connections to accept
+   */
+  constructor(
+    socketPath: string = SEQPACKET_SOCKET_PATH,
+    options: Pick<SeqpacketTransportOptions, 'framing'> = {}
+  ) {
+    super();
+    this.socketPath = socketPath;
+    this._takeOverPath(() => {
+      if (options.framing === 'length-prefixed') {
+        this._listenForStreams();
+      } else {
+        this._listenForSeqpackets();
+      }
+    });
+  }
+
+  /**
+   * Number of connected senders
+   */
+  get connectionCount(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * Stop listening, drop every connection and remove the socket file
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    for (const connection of this.connections) {
+      connection.close();
+    }
+    this.connections.clear();
+
+    const server = this.server;
+    this.server = undefined;
+    if (server instanceof net.Server) {
+      server.close(() => this.emit('close'));
+    } else {
+      if (server) {
+        // Only a file this listener bound is removed
+        server.close();
+        removeSocketFile(this.socketPath);
+      }
+      setImmediate(() => this.emit('close'));
+    }
+  }
+
+  /**
+   * Connect to the path first: only a socket nobody accepts on is stale
+   * and may be removed before listening
+   */
+  private _takeOverPath(listen: () => void): void {
+    const inUse = () => this._handleError(new Error('Socket is in use by another listener'));
+    const probe = net.connect(this.socketPath);
+    probe.on('connect', () => {
+      probe.destroy();
+      if (!this.closed) {
+        inUse();
+      }
+    });
+    probe.on('error', (err: NodeJS.ErrnoException) => {
+      if (this.closed) {
+        return;
+      }
+      if (err.code === 'ECONNREFUSED') {
+        debug('Replacing stale socket file %s', this.socketPath);
+        removeSocketFile(this.socketPath);
+        listen();
+      } else if (err.code === 'ENOENT') {
+        listen();
+      } else if (err.code === 'EPROTOTYPE') {
+        // A SEQPACKET listener refuses stream connections this way
+        inUse();
+      } else {
+        this._handleError(err);
+      }
+    });
+  }
+
+  private _listenForSeqpackets(): void {
+    const server = new SeqpacketServer();
+    server.on('error', (err: Error) => this._handleError(err));
+    server.on('connection', (socket: SeqpacketSocket) => {
+      const connection = seqpacketConnection(socket, (packet) => this.emit('data', packet));
+      socket.on('error', (err: Error) => debug('Connection error: %O', err));
+      socket.on('end', () => socket.destroy());
+      socket.on('close', () => this.connections.delete(connection));
+      this._accept(connection);
+    });
+    try {
+      server.listen(this.socketPath);
+      this.server = server;
+      setImmediate(() => this.emit('listening'));
+    } catch (err) {
+      setImmediate(() => this._handleError(err as Error));
+    }
+  }
+
+  private _listenForStreams(): void {
+    const server = net.createServer((socket) => {
+      const connection = streamConnection(socket, (packet) => this.emit('data', packet));
+      socket.on('error', (err) => debug('Connection error: %O', err));
+      socket.on('close', () => this.connections.delete(connection));
+      this._accept(connection);
+    });
+    this.server = server;
+    server.on('error', (err) => this._handleError(err));
+    server.listen(this.socketPath, () => this.emit('listening'));
+  }
+
+  private _accept(connection: UnixConnection): void {
+    if (this.closed) {
+      connection.close();
+      return;
+    }
+    debug('Accepted connection on %s', this.socketPath);
+    this.connections.add(connection);
+    this.emit('connection');
+  }
+
+  private _handleError(err: Error): void {
+    if (!this.closed) {
+      this.emit('error', ErrorFactory.NETWORK(`Cannot listen on ${this.socketPath}`, err));
+    }
+  }
+}
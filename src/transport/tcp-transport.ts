@@ -0,0 +1,286 @@
+import createDebug from 'debug';
+import { EventEmitter } from 'events';
+import * as net from 'net';
+import * as tls from 'tls';
+import { TcpTransportConfig, TransportStream } from '../interfaces';
+import {
+  DEFAULT_RECEIVER_ADDRESS,
+  DEFAULT_TCP_MAX_RECONNECT_DELAY,
+  DEFAULT_TCP_RECONNECT_DELAY,
+  DEFAULT_TCP_SEND_QUEUE_SIZE,
+} from '../utils/constants';
+import { ErrorFactory } from '../utils/error-factory';
+import { frameRfc4571Packet, Rfc4571Deframer } from './rfc4571';
+
+const debug = createDebug('t140llm:tcp');
+
+interface QueuedPacket {
+  frame: Buffer;
+  callback?: (error?: Error) => void;
+}
+
+/**
+ * RTP over TCP or TLS with RFC 4571 framing, for networks that block UDP
+ *
+ * Implements TransportStream, so it can be the customTransport of a
+ * T140RtpTransport, and emits each inbound packet as 'data', so it can be
+ * the inboundTransport of a T140RtpReceiver too. RTCP on the same
+ * connection comes back through the same 'data' events.
+ *
+ * With `setup: 'active'` it connects to host:port and, when the connection
+ * drops, reconnects with exponential backoff. With `setup: 'passive'` it
+ * listens on port and uses the latest connection it accepted (RFC 4145).
+ * Packets sent while there is no connection are queued and flushed once
+ * one is up.
+ *
+ * Events:
+ * - 'listening': The passive side is accepting connections
+ * - 'connect': A connection is up
+ * - 'disconnect': The connection dropped
+ * - 'reconnecting': A reconnect is scheduled (attempt: number, delay: number)
+ * - 'data': One inbound packet (data: Buffer)
+ * - 'error': Socket errors (T140RtpError with NETWORK_ERROR)
+ * - 'close': close() has finished
+ *
+ * Example usage:
+ * ```typescript
+ * const tcp = new TcpTransport({ host: '192.0.2.10', port: 5004, setup: 'active' });
+ * const transport = new T140RtpTransport('192.0.2.10', 5004, { customTransport: tcp });
+ * transport.sendText('Hello over TCP');
+ * ```
+ */
+export class TcpTransport extends EventEmitter implements TransportStream {
+  private config: Required<Omit<TcpTransportConfig, 'tls'>> & Pick<TcpTransportConfig, 'tls'>;
+  private socket?: net.Socket;
+  private server?: net.Server;
+  private deframer: Rfc4571Deframer = new Rfc4571Deframer();
+  private queue: QueuedPacket[] = [];
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private reconnectAttempts: number = 0;
+  private connected: boolean = false;
+  private closed: boolean = false;
+
+  /**
+   * @param config Role, address, TLS and reconnect settings
+   * @throws Error if the port is out of range or a passive TLS side has no certificate
+   */
+  constructor(config: TcpTransportConfig) {
+    super();
+
+    if (!Number.isInteger(config.port) || config.port < 0 || config.port > 65535) {
+      throw new Error('Port number must be between 0 and 65535');
+    }
+    const setup = config.setup ?? 'active';
+    if (setup === 'passive' && config.tls && !(config.tls.cert && config.tls.key)) {
+      throw new Error('A passive TLS transport needs a certificate and key');
+    }
+
+    this.config = {
+      setup,
+      port: config.port,
+      host: config.host ?? (setup === 'active' ? '127.0.0.1' : DEFAULT_RECEIVER_ADDRESS),
+      tls: config.tls,
+      reconnect: config.reconnect ?? true,
+      reconnectDelay: config.reconnectDelay ?? DEFAULT_TCP_RECONNECT_DELAY,
+      maxReconnectDelay: config.maxReconnectDelay ?? DEFAULT_TCP_MAX_RECONNECT_DELAY,
+      maxQueueSize: config.maxQueueSize ?? DEFAULT_TCP_SEND_QUEUE_SIZE,
+    };
+    this.deframer.on('data', (packet: Buffer) => this.emit('data', packet));
+
+    if (setup === 'active') {
+      this._connect();
+    } else {
+      this._listen();
+    }
+  }
+
+  /**
+   * Whether a connection is currently up
+   */
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * The local address the passive side listens on, if it is listening
+   */
+  address(): net.AddressInfo | undefined {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address : undefined;
+  }
+
+  /**
+   * Send one packet with its RFC 4571 length prefix
+   *
+   * Without a connection the packet is queued; the callback runs once it is
+   * written, or with an error if it cannot be framed or is dropped from a
+   * full queue.
+   */
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    let frame: Buffer;
+    try {
+      frame = frameRfc4571Packet(data);
+    } catch (err) {
+      callback?.(err as Error);
+      return;
+    }
+
+    if (this.closed) {
+      callback?.(new Error('TCP transport is closed'));
+    } else if (this.connected && this.socket) {
+      this.socket.write(frame, (err) => callback?.(err ?? undefined));
+    } else {
+      this.queue.push({ frame, callback });
+      if (this.queue.length > this.config.maxQueueSize) {
+        this.queue.shift()!.callback?.(new Error('TCP send queue full, packet dropped'));
+      }
+    }
+  }
+
+  /**
+   * Close the connection and listening socket and stop reconnecting
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    for (const { callback } of this.queue.splice(0)) {
+      callback?.(new Error('TCP transport is closed'));
+    }
+
+    this.socket?.end();
+    this.socket = undefined;
+    this.connected = false;
+    if (this.server) {
+      this.server.close(() => this.emit('close'));
+      this.server = undefined;
+    } else {
+      setImmediate(() => this.emit('close'));
+    }
+  }
+
+  /**
+   * Open the outbound connection
+   */
+  private _connect(): void {
+    const { host, port } = this.config;
+    const tlsOptions = this.config.tls;
+    debug('Connecting to %s:%d%s', host, port, tlsOptions ? ' with TLS' : '');
+
+    const socket = tlsOptions
+      ? tls.connect({
+        host,
+        port,
+        ca: tlsOptions.ca,
+        cert: tlsOptions.cert,
+        key: tlsOptions.key,
+        rejectUnauthorized: tlsOptions.rejectUnauthorized !== false,
+        servername: net.isIP(host) ? undefined : host,
+      })
+      : net.connect({ host, port });
+    const readyEvent = tlsOptions ? 'secureConnect' : 'connect';
+    socket.once(readyEvent, () => {
+      this.reconnectAttempts = 0;
+      this._attach(socket);
+    });
+    socket.on('error', (err) => this._handleSocketError(err));
+    socket.on('close', () => this._handleClose(socket));
+  }
+
+  /**
+   * Listen for the peer's connection
+   */
+  private _listen(): void {
+    const tlsOptions = this.config.tls;
+    const onConnection = (socket: net.Socket) => {
+      debug('Accepted connection from %s:%d', socket.remoteAddress, socket.remotePort);
+      socket.on('error', (err) => this._handleSocketError(err));
+      socket.on('close', () => this._handleClose(socket));
+      if (this.closed) {
+        socket.destroy();
+        return;
+      }
+      // The newest connection replaces an older one (RFC 4145 a=connection:new)
+      this.socket?.destroy();
+      this._attach(socket);
+    };
+
+    this.server = tlsOptions
+      ? tls.createServer({
+        ca: tlsOptions.ca,
+        cert: tlsOptions.cert,
+        key: tlsOptions.key,
+        requestCert: Boolean(tlsOptions.ca),
+        rejectUnauthorized: Boolean(tlsOptions.ca) && tlsOptions.rejectUnauthorized !== false,
+      }, onConnection)
+      : net.createServer(onConnection);
+    this.server.on('error', (err) => {
+      this.emit('error', ErrorFactory.NETWORK('TCP listening socket error', err));
+    });
+    this.server.listen(this.config.port, this.config.host, () => this.emit('listening'));
+  }
+
+  /**
+   * Make a connected socket the current one and flush the queue through it
+   */
+  private _attach(socket: net.Socket): void {
+    socket.setNoDelay(true);
+    this.socket = socket;
+    this.connected = true;
+    this.deframer.reset();
+    socket.on('data', (chunk: Buffer) => {
+      if (socket === this.socket) {
+        this.deframer.push(chunk);
+      }
+    });
+    this.emit('connect');
+
+    for (const { frame, callback } of this.queue.splice(0)) {
+      socket.write(frame, (err) => callback?.(err ?? undefined));
+    }
+  }
+
+  private _handleSocketError(err: Error): void {
+    if (!this.closed) {
+      this.emit('error', ErrorFactory.NETWORK('TCP socket error', err));
+    }
+  }
+
+  /**
+   * Forget a closed socket and, when active, schedule a reconnect
+   */
+  private _handleClose(socket: net.Socket): void {
+    if (socket !== this.socket && this.socket) {
+      // A replaced connection, or a failed attempt while another is up
+      return;
+    }
+    const wasConnected = this.connected;
+    this.socket = undefined;
+    this.connected = false;
+    if (this.closed) {
+      return;
+    }
+    if (wasConnected) {
+      debug('Connection closed');
+      this.emit('disconnect');
+    }
+
+    if (this.config.setup === 'active' && this.config.reconnect) {
+      const delay = Math.min(
+        this.config.reconnectDelay * 2 ** this.reconnectAttempts,
+        this.config.maxReconnectDelay
+      );
+      this.reconnectAttempts += 1;
+      this.emit('reconnecting', this.reconnectAttempts, delay);
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = undefined;
+        this._connect();
+      }, delay);
+    }
+  }
+}
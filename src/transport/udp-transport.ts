@@ -0,0 +1,130 @@
+import createDebug from 'debug';
+import * as dgram from 'dgram';
+import { TransportStream, UdpTransportOptions } from '../interfaces';
+import {
+  getAddressFamily,
+  isMulticastAddress,
+  isValidHostname,
+  normalizeAddress,
+  openUdpSocket,
+  udpSocketType,
+} from '../utils/address';
+import { DEFAULT_MULTICAST_TTL, DEFAULT_RTP_PORT } from '../utils/constants';
+import { ErrorFactory } from '../utils/error-factory';
+
+const debug = createDebug('t140llm:udp');
+
+/**
+ * Apply the multicast options to a bound socket
+ */
+function applyMulticastOptions(socket: dgram.Socket, options: UdpTransportOptions): void {
+  try {
+    socket.setMulticastTTL(options.multicastTtl ?? DEFAULT_MULTICAST_TTL);
+    if (options.multicastInterface) {
+      socket.setMulticastInterface(options.multicastInterface);
+    }
+    if (options.multicastLoopback !== undefined) {
+      socket.setMulticastLoopback(options.multicastLoopback);
+    }
+  } catch (err) {
+    debug('Cannot apply multicast options: %O', err);
+  }
+}
+
+/**
+ * Create a TransportStream that sends each packet as a UDP datagram
+ *
+ * IP literals get a udp4 or udp6 socket right away; hostnames are resolved
+ * first (IPv6 and IPv4 alternately, per RFC 8305) and packets sent meanwhile
+ * go out once a socket is open. For a multicast address the TTL, interface
+ * and loopback options are applied to the socket.
+ *
+ * Socket errors are logged rather than emitted; failed sends are reported
+ * through the send callback.
+ *
+ * @param remoteAddress The IP address or hostname to send to
+ * @param remotePort The port to send to (default: 5004)
+ * @param options Multicast options
+ * @returns The transport
+ * @throws T140RtpError (INVALID_CONFIG) if the address, port or TTL is invalid
+ */
+export function createUdpTransport(
+  remoteAddress: string,
+  remotePort: number = DEFAULT_RTP_PORT,
+  options: UdpTransportOptions = {}
+): TransportStream {
+  const family = getAddressFamily(remoteAddress);
+  if (!family && !isValidHostname(remoteAddress)) {
+    throw ErrorFactory.INVALID_CONFIG(`Invalid remote address format: ${remoteAddress}`);
+  }
+  if (!Number.isInteger(remotePort) || remotePort < 0 || remotePort > 65535) {
+    throw ErrorFactory.INVALID_CONFIG('Port number must be between 0 and 65535');
+  }
+  const ttl = options.multicastTtl;
+  if (ttl !== undefined && (!Number.isInteger(ttl) || ttl < 0 || ttl > 255)) {
+    throw ErrorFactory.INVALID_CONFIG('Multicast TTL must be between 0 and 255');
+  }
+
+  let targetAddress = normalizeAddress(remoteAddress);
+  let udpSocket: dgram.Socket | undefined;
+  let closed = false;
+  const attachSocket = (socket: dgram.Socket) => {
+    udpSocket = socket;
+    // Prevent unhandled 'error' event from crashing the process
+    socket.on('error', (err) => {
+      debug('UDP transport socket error: %O', err);
+    });
+  };
+
+  let socketReady: Promise<void> | undefined;
+  if (family) {
+    const socket = dgram.createSocket(udpSocketType(family));
+    attachSocket(socket);
+    if (isMulticastAddress(targetAddress)) {
+      // Multicast options need a bound socket; sends queue until it is
+      socket.bind(() => applyMulticastOptions(socket, options));
+    }
+  } else {
+    socketReady = openUdpSocket(remoteAddress, remotePort).then(({ socket, address }) => {
+      if (closed) {
+        socket.close();
+        return;
+      }
+      targetAddress = address;
+      attachSocket(socket);
+      if (isMulticastAddress(address)) {
+        applyMulticastOptions(socket, options);
+      }
+    }, (err) => {
+      debug('Cannot send to %s: %O', remoteAddress, err);
+    }).finally(() => {
+      socketReady = undefined;
+    });
+  }
+
+  const transport: TransportStream = {
+    send(data: Buffer, callback?: (error?: Error) => void): void {
+      if (socketReady) {
+        socketReady.then(() => transport.send(data, callback));
+      } else if (udpSocket && !closed) {
+        udpSocket.send(
+          data,
+          0,
+          data.length,
+          remotePort,
+          targetAddress,
+          callback ? (err) => callback(err ?? undefined) : undefined
+        );
+      } else {
+        callback?.(new Error(`Cannot send to remote address ${remoteAddress}`));
+      }
+    },
+    close(): void {
+      if (!closed) {
+        closed = true;
+        udpSocket?.close();
+      }
+    },
+  };
+  return transport;
+}
@@ -0,0 +1,121 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { IncomingMessage } from 'http';
+import { URL, URLSearchParams } from 'url';
+import { WebSocketAuthOptions, WebSocketClaims } from '../interfaces';
+import {
+  DEFAULT_WS_SIGNED_URL_TTL,
+  WS_EXPIRES_PARAM,
+  WS_SIGNATURE_PARAM,
+} from '../utils/constants';
+
+/**
+ * HMAC-SHA256 over the path and every query parameter but the signature
+ */
+function urlSignature(url: URL, secret: string | Buffer): Buffer {
+  const params = new URLSearchParams(url.searchParams);
+  params.delete(WS_SIGNATURE_PARAM);
+  return createHmac('sha256', secret).update(`${url.pathname}?${params.toString()}`).digest();
+}
+
+/**
+ * Compare two strings without leaking where they differ
+ */
+function tokensEqual(a: string, b: string): boolean {
+  const digestA = createHash('sha256').update(a).digest();
+  const digestB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * Sign a WebSocket URL for a server with `auth.hmacSecret`
+ *
+ * Adds an expiry and an HMAC-SHA256 of the path and query parameters, so
+ * the parameters (e.g. a user ID) can be trusted as the client's claims.
+ * Useful for browsers, which cannot set an Authorization header.
+ *
+ * @param url The URL the client will connect to
+ * @param secret The server's HMAC key
+ * @param ttlSeconds How long the URL stays valid (default: 300)
+ * @returns The URL with `expires` and `signature` query parameters
+ */
+export function signWebSocketUrl(
+  url: string,
+  secret: string | Buffer,
+  ttlSeconds: number = DEFAULT_WS_SIGNED_URL_TTL
+): string {
+  const signed = new URL(url);
+  signed.searchParams.delete(WS_SIGNATURE_PARAM);
+  signed.searchParams.set(WS_EXPIRES_PARAM, String(Math.floor(Date.now() / 1000) + ttlSeconds));
+  signed.searchParams.set(WS_SIGNATURE_PARAM, urlSignature(signed, secret).toString('hex'));
+  return signed.toString();
+}
+
+/**
+ * Check a URL signed with signWebSocketUrl()
+ *
+ * @param url The URL the client connected to
+ * @param secret The server's HMAC key
+ * @returns The signed query parameters, or undefined if the signature is
+ * missing, wrong or expired
+ */
+export function verifySignedWebSocketUrl(
+  url: URL,
+  secret: string | Buffer
+): WebSocketClaims | undefined {
+  const signature = url.searchParams.get(WS_SIGNATURE_PARAM);
+  const expires = Number(url.searchParams.get(WS_EXPIRES_PARAM));
+  if (!signature || !Number.isInteger(expires) || expires * 1000 < Date.now()) {
+    return undefined;
+  }
+  const expected = urlSignature(url, secret);
+  const actual = Buffer.from(signature, 'hex');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return undefined;
+  }
+
+  const claims: WebSocketClaims = {};
+  url.searchParams.forEach((value, name) => {
+    if (name !== WS_SIGNATURE_PARAM) {
+      claims[name] = value;
+    }
+  });
+  return claims;
+}
+
+/**
+ * Whether the options ask for a bearer token or signed URL
+ */
+export function requiresWebSocketCredentials(auth: WebSocketAuthOptions = {}): boolean {
+  return Boolean(auth.bearerTokens || auth.verifyBearerToken || auth.hmacSecret);
+}
+
+/**
+ * Check the bearer token or signed URL of a WebSocket upgrade request
+ *
+ * A bearer token in the Authorization header is tried first, against
+ * `bearerTokens` and then `verifyBearerToken`; without a valid one, the
+ * URL signature is checked against `hmacSecret`.
+ *
+ * @param request The HTTP upgrade request
+ * @param url The URL the client connected to
+ * @param auth The server's authentication options
+ * @returns The client's claims, or undefined if it has no valid credentials
+ */
+export async function authenticateWebSocketRequest(
+  request: IncomingMessage,
+  url: URL,
+  auth: WebSocketAuthOptions
+): Promise<WebSocketClaims | undefined> {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(request.headers.authorization ?? '');
+  if (match) {
+    const token = match[1];
+    if (auth.bearerTokens?.some((accepted) => tokensEqual(accepted, token))) {
+      return {};
+    }
+    const claims = await auth.verifyBearerToken?.(token);
+    if (claims) {
+      return claims;
+    }
+  }
+  return auth.hmacSecret ? verifySignedWebSocketUrl(url, auth.hmacSecret) : undefined;
+}
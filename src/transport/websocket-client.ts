@@ -0,0 +1,358 @@
+import createDebug from 'debug';
+import { EventEmitter } from 'events';
+import * as net from 'net';
+import WebSocket from 'ws';
+import {
+  T140WebSocketFrame,
+  T140WebSocketFrameBody,
+  WebSocketOptions,
+  WebSocketReconnectOptions,
+} from '../interfaces';
+import {
+  DEFAULT_WS_MAX_RECONNECT_DELAY,
+  DEFAULT_WS_RECONNECT_DELAY,
+  DEFAULT_WS_RECONNECT_JITTER,
+  DEFAULT_WS_REPLAY_BUFFER_SIZE,
+  T140_WS_SUBPROTOCOL,
+  WS_CLOSE_POLICY_VIOLATION,
+} from '../utils/constants';
+import { ErrorFactory } from '../utils/error-factory';
+import { parseT140Frame, T140FrameWriter, textToFrameBodies } from './websocket-protocol';
+
+const debug = createDebug('t140llm:websocket');
+
+/**
+ * Where a T140WebSocketClient is in its connection's life
+ */
+export type T140WebSocketClientState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * A frame sent but not yet acknowledged by the server
+ */
+interface ReplayFrame {
+  seq: number;
+  data: string;
+}
+
+/**
+ * The sending side of a T.140 WebSocket connection
+ *
+ * Holds what is sent until the connection opens, then sends it as raw
+ * text or, with `subprotocol`, as t140.v1 frames. ws fails the handshake
+ * if the server does not accept an offered subprotocol, so only offer it
+ * to servers that speak t140.v1, such as createWebSocketServer.
+ *
+ * With `reconnect`, a dropped connection (or one that fails to open) is
+ * reopened with exponential backoff and jitter. Raw text sent while it is
+ * down is held until it is back. With t140.v1, frames the server has not
+ * acknowledged are kept in a bounded replay buffer; after a reconnect the
+ * client sends a 'resume' frame with the server's session token and
+ * replays them under their original sequence numbers, so the server skips
+ * what it already has and the far end gets each character once. Frames
+ * pushed out of a full buffer are lost, which the server sees as a gap.
+ * Closes with code 1000 or 1008 (e.g. a session the server no longer
+ * has) are not retried.
+ *
+ * Events:
+ * - 'state': The state changed (state: T140WebSocketClientState, previous: same)
+ * - 'open': A connection is up
+ * - 'reconnecting': A reconnect is scheduled (attempt: number, delay: number)
+ * - 'error': Reconnecting gave up (T140RtpError with NETWORK_ERROR)
+ * - 'close': The client is closed for good
+ *
+ * Example usage:
+ * ```typescript
+ * const client = new T140WebSocketClient('wss://rtt.example.com', {
+ *   reconnect: true,
+ *   subprotocol: true,
+ * });
+ * client.on('state', (state) => console.log(`WebSocket ${state}`));
+ * client.send({ type: 'start' });
+ * client.send({ type: 'text', text: 'Hello' });
+ * ```
+ */
+export class T140WebSocketClient extends EventEmitter {
+  private ws: WebSocket;
+  private url?: string;
+  private protocols: string[];
+  private clientOptions: WebSocket.ClientOptions;
+  private reconnect: Required<WebSocketReconnectOptions> | null;
+  private writer: T140FrameWriter = new T140FrameWriter();
+  // Bodies waiting for the first connection, or for any one without replay
+  private pending: T140WebSocketFrameBody[] = [];
+  private replay: ReplayFrame[] = [];
+  private resumeToken?: string;
+  private framed: boolean = false;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private reconnectAttempts: number = 0;
+  private closing: boolean = false;
+  private currentState: T140WebSocketClientState = 'connecting';
+
+  /**
+   * @param target The URL to connect to, or an existing connection, which
+   * cannot be reconnected
+   * @param options TLS, subprotocol and reconnect settings
+   */
+  constructor(target: string | WebSocket, options: WebSocketOptions = {}) {
+    super();
+
+    const reconnect = options.reconnect === true ? {} : options.reconnect;
+    this.reconnect = reconnect && typeof target === 'string'
+      ? {
+        delay: reconnect.delay ?? DEFAULT_WS_RECONNECT_DELAY,
+        maxDelay: reconnect.maxDelay ?? DEFAULT_WS_MAX_RECONNECT_DELAY,
+        jitter: reconnect.jitter ?? DEFAULT_WS_RECONNECT_JITTER,
+        maxAttempts: reconnect.maxAttempts ?? Infinity,
+        replayBufferSize: reconnect.replayBufferSize ?? DEFAULT_WS_REPLAY_BUFFER_SIZE,
+      }
+      : null;
+    this.protocols = options.subprotocol ? [T140_WS_SUBPROTOCOL] : [];
+    this.clientOptions = options.tlsOptions && typeof target === 'string'
+      && target.startsWith('wss://')
+      ? {
+        rejectUnauthorized: options.tlsOptions.rejectUnauthorized !== false,
+        ca: options.tlsOptions.ca,
+        cert: options.tlsOptions.cert,
+        key: options.tlsOptions.key,
+      }
+      : {};
+
+    if (typeof target === 'string') {
+      this.url = target;
+      this.ws = this._connect();
+    } else {
+      this.ws = target;
+      this._watch(target);
+      if (target.readyState === WebSocket.OPEN) {
+        this.framed = target.protocol === T140_WS_SUBPROTOCOL;
+        this.currentState = 'open';
+      }
+    }
+  }
+
+  /**
+   * The current connection, which a reconnect replaces
+   */
+  get socket(): WebSocket {
+    return this.ws;
+  }
+
+  get state(): T140WebSocketClientState {
+    return this.currentState;
+  }
+
+  /**
+   * Whether the server accepted the t140.v1 subprotocol
+   */
+  get usesSubprotocol(): boolean {
+    return this.framed;
+  }
+
+  /**
+   * Send one frame body, or hold it until there is a connection
+   *
+   * Text is split into text and erase frames. Without the subprotocol only
+   * text and metadata are sent. Keepalives are only sent on an open
+   * connection.
+   */
+  send(body: T140WebSocketFrameBody): void {
+    if (this.currentState === 'closed') {
+      return;
+    }
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this._sendNow(body);
+    } else if (body.type !== 'keepalive') {
+      if (this.framed && this.reconnect) {
+        this._frame(body);
+      } else {
+        this.pending.push(body);
+      }
+    }
+  }
+
+  /**
+   * Close once everything sent so far has been delivered
+   *
+   * With `reconnect`, that includes waiting for the server to acknowledge
+   * every frame, reconnecting if need be.
+   */
+  close(): void {
+    this.closing = true;
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this._closeIfDelivered();
+    } else if (this.reconnectTimer && this.pending.length === 0 && this.replay.length === 0) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+      this._setState('closed');
+      this.emit('close');
+    }
+  }
+
+  /**
+   * Open a new connection to the URL
+   */
+  private _connect(): WebSocket {
+    const ws = new WebSocket(this.url!, this.protocols, this.clientOptions);
+    this._watch(ws);
+    if (this.reconnect) {
+      // A failed attempt also closes, and is retried from there
+      ws.on('error', (err) => debug('WebSocket error: %s', err.message));
+    }
+    return ws;
+  }
+
+  private _watch(ws: WebSocket): void {
+    ws.on('open', () => this._handleOpen(ws));
+    ws.on('message', (data: WebSocket.Data) => this._handleMessage(data));
+    ws.on('close', (code: number, reason: Buffer | string) => {
+      this._handleClose(ws, code, String(reason));
+    });
+  }
+
+  private _handleOpen(ws: WebSocket): void {
+    // ws keeps its TCP socket private; Nagle would hold back single keystrokes
+    const sock = (ws as unknown as { _socket?: net.Socket })._socket;
+    if (sock && typeof sock.setNoDelay === 'function') {
+      sock.setNoDelay(true);
+    }
+    const resuming = this.framed;
+    this.framed = ws.protocol === T140_WS_SUBPROTOCOL;
+    this.reconnectAttempts = 0;
+
+    if (resuming && this.framed) {
+      if (this.resumeToken) {
+        const seq = this.writer.nextSequence;
+        ws.send(JSON.stringify({ seq, token: this.resumeToken, type: 'resume' }));
+        debug('Resuming session, replaying %d frames', this.replay.length);
+      }
+      for (const frame of this.replay) {
+        ws.send(frame.data);
+      }
+    }
+    for (const body of this.pending.splice(0)) {
+      this._sendNow(body);
+    }
+    this._setState('open');
+    this.emit('open');
+
+    if (this.closing) {
+      this._closeIfDelivered();
+    }
+  }
+
+  /**
+   * Read the server's session token and acknowledgements
+   */
+  private _handleMessage(data: WebSocket.Data): void {
+    if (!this.framed) {
+      return;
+    }
+    let frame: T140WebSocketFrame;
+    try {
+      frame = parseT140Frame(data.toString());
+    } catch (err) {
+      debug('Ignoring invalid frame from the server: %s', (err as Error).message);
+      return;
+    }
+
+    if (frame.type === 'session') {
+      this.resumeToken = frame.token;
+    } else if (frame.type === 'ack') {
+      const { ack } = frame;
+      const index = this.replay.findIndex((entry) => entry.seq === ack);
+      if (index >= 0) {
+        this.replay.splice(0, index + 1);
+      }
+      if (this.closing) {
+        this._closeIfDelivered();
+      }
+    } else if (frame.type === 'error') {
+      debug('Server reported an error: %s', frame.message);
+    }
+  }
+
+  /**
+   * Close for good, or schedule a reconnect
+   */
+  private _handleClose(ws: WebSocket, code: number, reason: string): void {
+    if (ws !== this.ws || this.currentState === 'closed') {
+      return;
+    }
+    const delivered = this.pending.length === 0 && this.replay.length === 0;
+    const retry = this.reconnect
+      && !(this.closing && delivered)
+      && code !== 1000
+      && code !== WS_CLOSE_POLICY_VIOLATION;
+    if (!retry || this.reconnectAttempts >= this.reconnect!.maxAttempts) {
+      if (retry || (this.reconnect && !this.closing && code === WS_CLOSE_POLICY_VIOLATION)) {
+        this.emit('error', ErrorFactory.NETWORK(
+          `WebSocket closed with code ${code}${reason ? ` (${reason})` : ''}; not reconnecting`
+        ));
+      }
+      this._setState('closed');
+      this.emit('close');
+      return;
+    }
+
+    const { delay, maxDelay, jitter } = this.reconnect!;
+    const backoff = Math.min(delay * 2 ** this.reconnectAttempts, maxDelay);
+    const wait = Math.round(backoff * (1 - jitter * Math.random()));
+    this.reconnectAttempts += 1;
+    debug('WebSocket closed with code %d, reconnecting in %d ms', code, wait);
+    this._setState('reconnecting');
+    this.emit('reconnecting', this.reconnectAttempts, wait);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.ws = this._connect();
+    }, wait);
+  }
+
+  private _sendNow(body: T140WebSocketFrameBody): void {
+    if (!this.framed) {
+      if (body.type === 'text') {
+        this.ws.send(body.text);
+      } else if (body.type === 'metadata') {
+        this.ws.send(JSON.stringify({ type: 'metadata', content: body.metadata }));
+      }
+      return;
+    }
+    for (const data of this._frame(body)) {
+      this.ws.send(data);
+    }
+  }
+
+  /**
+   * Number and encode a body, keeping the frames for replay when reconnecting
+   */
+  private _frame(body: T140WebSocketFrameBody): string[] {
+    const bodies = body.type === 'text' ? textToFrameBodies(body.text) : [body];
+    return bodies.map((frameBody) => {
+      const seq = this.writer.nextSequence;
+      const data = this.writer.encode(frameBody);
+      if (this.reconnect) {
+        this.replay.push({ data, seq });
+        if (this.replay.length > this.reconnect.replayBufferSize) {
+          debug('Replay buffer full, dropped frame %d', this.replay.shift()!.seq);
+        }
+      }
+      return data;
+    });
+  }
+
+  /**
+   * Close the connection once the server has every frame, as far as we know
+   */
+  private _closeIfDelivered(): void {
+    if (!this.resumeToken || this.replay.length === 0) {
+      this.ws.close();
+    }
+  }
+
+  private _setState(state: T140WebSocketClientState): void {
+    const previous = this.currentState;
+    if (state !== previous) {
+      this.currentState = state;
+      this.emit('state', state, previous);
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { EventEmitter } from 'events';
+import { T140WebSocketFrame, T140WebSocketFrameBody } from '../interfaces';
+import { BACKSPACE, WS_MAX_FRAME_SEQUENCE } from '../utils/constants';
+import { ErrorFactory } from '../utils/error-factory';
+
+const FRAME_TYPES = new Set([
+  'start', 'text', 'erase', 'metadata', 'end', 'error', 'keepalive', 'session', 'ack', 'resume',
+]);
+
+/**
+ * Whether frame `seq` comes before `expected`, allowing for wraparound
+ */
+export function isEarlierFrameSequence(seq: number, expected: number): boolean {
+  const distance = (expected - seq) >>> 0;
+  return distance !== 0 && distance <= WS_MAX_FRAME_SEQUENCE / 2;
+}
+
+/**
+ * Whether a value is a non-null object, whose fields can be looked at
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Whether a value is a whole number from min to max
+ */
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Check the fields a frame of its type must have
+ */
+function hasValidFields(frame: Record<string, unknown>): boolean {
+  switch (frame.type) {
+    case 'text':
+      return typeof frame.text === 'string';
+    case 'erase':
+      return isIntegerInRange(frame.count, 1, Number.MAX_SAFE_INTEGER);
+    case 'metadata':
+      return isRecord(frame.metadata) && typeof frame.metadata.type === 'string';
+    case 'error':
+      return typeof frame.message === 'string';
+    case 'session':
+    case 'resume':
+      return typeof frame.token === 'string' && frame.token.length > 0;
+    case 'ack':
+      return isIntegerInRange(frame.ack, 0, WS_MAX_FRAME_SEQUENCE);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Parse one message of the t140.v1 WebSocket subprotocol
+ *
+ * @param data The message as received
+ * @returns The frame
+ * @throws T140RtpError (INVALID_PACKET) if the message is not a valid frame
+ */
+export function parseT140Frame(data: string | Buffer): T140WebSocketFrame {
+  let frame: unknown;
+  try {
+    frame = JSON.parse(data.toString());
+  } catch (err) {
+    throw ErrorFactory.INVALID_PACKET('WebSocket frame is not JSON', err as Error);
+  }
+  if (!isRecord(frame) || typeof frame.type !== 'string' || !FRAME_TYPES.has(frame.type)) {
+    throw ErrorFactory.INVALID_PACKET('WebSocket frame has no known type');
+  }
+  if (!isIntegerInRange(frame.seq, 0, WS_MAX_FRAME_SEQUENCE)) {
+    throw ErrorFactory.INVALID_PACKET('WebSocket frame has an invalid sequence number');
+  }
+  if (!hasValidFields(frame)) {
+    throw ErrorFactory.INVALID_PACKET(`Invalid ${frame.type} frame`);
+  }
+  return frame as T140WebSocketFrame;
+}
+
+/**
+ * Split T.140 text into text and erase frames, one per run of backspaces
+ *
+ * @param text Text that may contain T.140 backspace characters
+ * @returns The frame bodies, in order
+ */
+export function textToFrameBodies(text: string): T140WebSocketFrameBody[] {
+  const bodies: T140WebSocketFrameBody[] = [];
+  for (const run of text.match(new RegExp(`${BACKSPACE}+|[^${BACKSPACE}]+`, 'g')) ?? []) {
+    bodies.push(run[0] === BACKSPACE
+      ? { type: 'erase', count: run.length }
+      : { type: 'text', text: run });
+  }
+  return bodies;
+}
+
+/**
+ * Numbers and encodes the frames one side of a connection sends
+ */
+export class T140FrameWriter {
+  private sequenceNumber: number = 0;
+
+  /**
+   * The sequence number the next frame will get
+   */
+  get nextSequence(): number {
+    return this.sequenceNumber;
+  }
+
+  /**
+   * Encode a frame with the next sequence number
+   *
+   * @param body The frame's type and content
+   * @returns The JSON message to send
+   */
+  encode(body: T140WebSocketFrameBody): string {
+    const frame: T140WebSocketFrame = { ...body, seq: this.sequenceNumber };
+    this.sequenceNumber = this.sequenceNumber === WS_MAX_FRAME_SEQUENCE
+      ? 0
+      : this.sequenceNumber + 1;
+    return JSON.stringify(frame);
+  }
+}
+
+/**
+ * Parses the frames one side of a connection receives and detects gaps
+ *
+ * A frame numbered before the one expected, such as one replayed after a
+ * reconnect, is reported as a duplicate instead of being read again.
+ *
+ * Events:
+ * - 'frame': A valid frame (frame: T140WebSocketFrame)
+ * - 'gap': Frames are missing (expected: number, received: number)
+ * - 'duplicate': A frame that was already read (frame: T140WebSocketFrame)
+ * - 'error': A message that is not a valid frame (T140RtpError with INVALID_PACKET)
+ *
+ * Example usage:
+ * ```typescript
+ * const reader = new T140FrameReader();
+ * reader.on('frame', (frame) => frame.type === 'text' && display(frame.text));
+ * reader.on('gap', (expected, received) => console.warn(`Lost ${received - expected} frames`));
+ * ws.on('message', (data) => reader.push(data));
+ * ```
+ */
+export class T140FrameReader extends EventEmitter {
+  private expectedSequence?: number;
+
+  /**
+   * Read one WebSocket message
+   */
+  push(data: string | Buffer): void {
+    let frame: T140WebSocketFrame;
+    try {
+      frame = parseT140Frame(data);
+    } catch (err) {
+      this.emit('error', err);
+      return;
+    }
+    if (this.expectedSequence !== undefined && frame.seq !== this.expectedSequence) {
+      if (isEarlierFrameSequence(frame.seq, this.expectedSequence)) {
+        this.emit('duplicate', frame);
+        return;
+      }
+      this.emit('gap', this.expectedSequence, frame.seq);
+    }
+    this.expectedSequence = frame.seq === WS_MAX_FRAME_SEQUENCE ? 0 : frame.seq + 1;
+    this.emit('frame', frame);
+  }
+}
@@ -1,35 +1,559 @@
+import { randomBytes } from 'crypto';
 import createDebug from 'debug';
+import { EventEmitter } from 'events';
 import * as fs from 'fs';
+import { IncomingMessage } from 'http';
 import * as https from 'https';
-import * as net from 'net';
+import { TLSSocket } from 'tls';
+import { URL } from 'url';
 import WebSocket from 'ws';
-import { createRtpPacket } from '../rtp/create-rtp-packet';
 import {
-  DEFAULT_TIMESTAMP_INCREMENT,
-  RTP_MAX_SEQUENCE_NUMBER,
+  RtpConfig,
+  T140RtpError,
+  T140WebSocketFrame,
+  UnixSocketFraming,
+  WebSocketAuthOptions,
+  WebSocketBackend,
+  WebSocketBackendFactory,
+  WebSocketClaims,
+  WebSocketConnectionContext,
+} from '../interfaces';
+import { attachStreamToRtpTransport } from '../processors/process-ai-stream-to-rtp';
+import { T140RtpTransport } from '../rtp/t140-rtp-transport';
+import {
+  BACKSPACE,
+  DEFAULT_RTP_PORT,
+  DEFAULT_WS_REPLAY_BUFFER_SIZE,
+  DEFAULT_WS_RESUME_TIMEOUT,
   SEQPACKET_SOCKET_PATH,
+  T140_WS_SUBPROTOCOL,
+  WS_CLOSE_POLICY_VIOLATION,
+  WS_RESUME_TOKEN_BYTES,
   WS_SERVER_PORT,
 } from '../utils/constants';
+import { ErrorFactory } from '../utils/error-factory';
+import { SeqpacketTransport } from './seqpacket-transport';
+import { authenticateWebSocketRequest, requiresWebSocketCredentials } from './websocket-auth';
+import {
+  isEarlierFrameSequence,
+  parseT140Frame,
+  T140FrameReader,
+  T140FrameWriter,
+} from './websocket-protocol';
 
 const debug = createDebug('t140llm:websocket');
 /**
  * Interface for WebSocket server configuration options
  */
 export interface WebSocketServerOptions {
-  port?: number;
+  port?: number; // Port to listen on, 0 for an ephemeral port (default: 8765)
   tls?: {
     cert: string;   // Path to certificate file
     key: string;    // Path to private key file
     ca?: string;    // Optional path to CA certificate
+    requestClientCert?: boolean; // Require a client certificate signed by ca (mutual TLS)
+    allowedClientNames?: string[]; // Accept only client certificates with these subject CNs
   };
+  auth?: WebSocketAuthOptions; // Bearer tokens, signed URLs and a verifyClient hook
+  allowedOrigins?: string[]; // Origins browsers may connect from (default: any)
+  maxConnectionsPerIp?: number; // Concurrent connections per client IP (default: unlimited)
+  maxMessagesPerSecond?: number; // Messages per second per client IP (default: unlimited)
+  resumeTimeout?: number; // ms a dropped t140.v1 session can be resumed in (default: 30000)
+  backend?: WebSocketBackendFactory; // Chooses each connection's backend (default: socketPath)
+  rtpConfig?: RtpConfig; // RTP settings for every connection, under the backend's own rtpConfig
+  socketPath?: string; // Unix socket the RTP packets are sent to (default: /tmp/seqpacket_socket)
+  socketFraming?: UnixSocketFraming; // SEQPACKET messages or length-prefixed (default: seqpacket)
+}
+
+/**
+ * The result of checking a client that asks to connect
+ */
+type Admission = { claims: WebSocketClaims } | { status: number; reason: string };
+
+/**
+ * Per-IP connection counts and message rates
+ */
+class ClientLimits {
+  private connections: Map<string, number> = new Map();
+  private messageWindows: Map<string, { start: number; count: number }> = new Map();
+  private maxConnections: number;
+  private maxMessagesPerSecond: number;
+
+  constructor(maxConnections: number = Infinity, maxMessagesPerSecond: number = Infinity) {
+    this.maxConnections = maxConnections;
+    this.maxMessagesPerSecond = maxMessagesPerSecond;
+  }
+
+  canConnect(address: string): boolean {
+    return (this.connections.get(address) ?? 0) < this.maxConnections;
+  }
+
+  addConnection(address: string): void {
+    this.connections.set(address, (this.connections.get(address) ?? 0) + 1);
+  }
+
+  removeConnection(address: string): void {
+    const count = (this.connections.get(address) ?? 1) - 1;
+    if (count > 0) {
+      this.connections.set(address, count);
+    } else {
+      this.connections.delete(address);
+      this.messageWindows.delete(address);
+    }
+  }
+
+  /**
+   * Count a message, shared by all of an address's connections
+   *
+   * @returns false once the address has sent too many this second
+   */
+  allowMessage(address: string, now: number = Date.now()): boolean {
+    let window = this.messageWindows.get(address);
+    if (!window || now - window.start >= 1000) {
+      window = { start: now, count: 0 };
+      this.messageWindows.set(address, window);
+    }
+    window.count += 1;
+    return window.count <= this.maxMessagesPerSecond;
+  }
+}
+
+/**
+ * The client's IP address, with IPv4-mapped IPv6 addresses as plain IPv4
+ */
+function clientAddress(request: IncomingMessage): string {
+  return (request.socket.remoteAddress ?? '').replace(/^::ffff:(?=\d+\.)/, '');
+}
+
+/**
+ * Check a client's origin, certificate and credentials
+ */
+async function admitClient(
+  request: IncomingMessage,
+  url: URL,
+  options: WebSocketServerOptions
+): Promise<Admission> {
+  const origin = request.headers.origin;
+  if (origin && options.allowedOrigins && !options.allowedOrigins.includes(origin)) {
+    return { status: 403, reason: `Origin ${origin} is not allowed` };
+  }
+
+  let claims: WebSocketClaims = {};
+  if (options.tls?.requestClientCert) {
+    const socket = request.socket as TLSSocket;
+    if (!socket.authorized) {
+      return { status: 401, reason: `Client certificate rejected: ${socket.authorizationError}` };
+    }
+    const certificate = socket.getPeerCertificate();
+    const name = certificate.subject?.CN;
+    const allowedNames = options.tls.allowedClientNames;
+    if (allowedNames && !allowedNames.includes(name)) {
+      return { status: 403, reason: `Client certificate ${name} is not allowed` };
+    }
+    claims.clientCertificate = { subject: name, fingerprint256: certificate.fingerprint256 };
+  }
+
+  const auth = options.auth ?? {};
+  if (requiresWebSocketCredentials(auth)) {
+    const credentials = await authenticateWebSocketRequest(request, url, auth);
+    if (!credentials) {
+      return { status: 401, reason: 'Missing or invalid credentials' };
+    }
+    claims = { ...claims, ...credentials };
+  }
+
+  if (auth.verifyClient) {
+    const verdict = await auth.verifyClient({
+      claims,
+      origin,
+      request,
+      url,
+      address: clientAddress(request),
+    });
+    if (!verdict) {
+      return { status: 403, reason: 'Rejected by verifyClient' };
+    }
+    if (typeof verdict === 'object') {
+      claims = { ...claims, ...verdict };
+    }
+  }
+  return { claims };
+}
+
+/**
+ * Open the T140RtpTransport that sends one connection's text to its backend
+ *
+ * @param backend The backend chosen for the connection
+ * @param defaultRtpConfig RTP settings the backend's own rtpConfig overrides
+ * @param onSocketError Called when the socket or transport underneath fails
+ * @returns The transport and the RTP settings it was opened with
+ * @throws T140RtpError (INVALID_CONFIG) unless the backend names exactly one destination
+ */
+function openBackend(
+  backend: WebSocketBackend,
+  defaultRtpConfig: RtpConfig,
+  onSocketError: (err: unknown) => void
+): { transport: T140RtpTransport; rtpConfig: RtpConfig } {
+  const destinations = [backend.transport, backend.remoteAddress, backend.socketPath];
+  if (destinations.filter((destination) => destination !== undefined).length !== 1) {
+    throw ErrorFactory.INVALID_CONFIG(
+      'A WebSocket backend needs exactly one of transport, remoteAddress or socketPath'
+    );
+  }
+
+  const customTransport = backend.socketPath !== undefined
+    ? new SeqpacketTransport(backend.socketPath, { framing: backend.socketFraming })
+    : backend.transport;
+  if (customTransport instanceof EventEmitter) {
+    customTransport.on('error', onSocketError);
+  }
+
+  const rtpConfig: RtpConfig = { ...defaultRtpConfig, ...backend.rtpConfig };
+  const transport = new T140RtpTransport(
+    backend.remoteAddress ?? '127.0.0.1',
+    backend.remotePort ?? DEFAULT_RTP_PORT,
+    { ...rtpConfig, customTransport }
+  );
+  if (backend.srtpConfig) {
+    transport.setupSrtp(backend.srtpConfig);
+  }
+  return { transport, rtpConfig };
+}
+
+/**
+ * What one client sends, bridged to its backend
+ *
+ * A t140.v1 session can outlive its connection: the client gets a resume
+ * token and acknowledgements, and has `resumeTimeout` ms after a drop to
+ * reconnect and resume it. The backend's transport, with its SSRC and
+ * sequence numbers, carries on, and replayed frames are read only once.
+ */
+class WebSocketSession {
+  public readonly token: string = randomBytes(WS_RESUME_TOKEN_BYTES).toString('hex');
+  private ws?: WebSocket;
+  // The client's messages, as a stream of text for the backend's transport
+  private text: EventEmitter = new EventEmitter();
+  // What arrives before the backend is open waits here, in order
+  private pending: ((rtpConfig: RtpConfig) => void)[] = [];
+  private bridgedConfig?: RtpConfig;
+  private ended: boolean = false;
+  private reader: T140FrameReader = new T140FrameReader();
+  private writer: T140FrameWriter = new T140FrameWriter();
+  private lastSequence?: number;
+  private ackScheduled: boolean = false;
+  private resumeTimer?: ReturnType<typeof setTimeout>;
+  // Frames numbered before this replay what the client sent before it resumed
+  private replayEnd?: number;
+  private replayAllowance: number = 0;
+
+  /**
+   * @param context The connection that started the session
+   * @param subprotocol Whether the client speaks t140.v1
+   * @param resumeTimeout ms to wait for a dropped client to resume
+   * @param onEnd Called once the session has ended
+   */
+  constructor(
+    public readonly context: WebSocketConnectionContext,
+    private subprotocol: boolean,
+    private resumeTimeout: number,
+    private onEnd: () => void
+  ) {
+    this.reader.on('frame', (frame: T140WebSocketFrame) => {
+      this.lastSequence = frame.seq;
+      this._scheduleAck();
+      this._handleFrame(frame);
+    });
+    this.reader.on('duplicate', () => this._scheduleAck());
+    this.reader.on('gap', (expected: number, received: number) => {
+      debug('Connection %d lost frames %d to %d', context.connectionId, expected, received - 1);
+    });
+    this.reader.on('error', (err: T140RtpError) => {
+      debug('Invalid frame on connection %d: %s', context.connectionId, err.message);
+      this.sendError(err.message);
+    });
+  }
+
+  /**
+   * Make a connection the session's current one, replacing any other
+   *
+   * @param ws The connection
+   * @param replayEnd When resuming, the seq of the first frame after the replay
+   */
+  attach(ws: WebSocket, replayEnd?: number): void {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = undefined;
+    }
+    this.replayEnd = replayEnd;
+    this.replayAllowance = DEFAULT_WS_REPLAY_BUFFER_SIZE;
+    this.ws?.terminate();
+    this.ws = ws;
+    if (this.subprotocol) {
+      ws.send(this.writer.encode({ token: this.token, type: 'session' }));
+      if (this.lastSequence !== undefined) {
+        ws.send(this.writer.encode({ ack: this.lastSequence, type: 'ack' }));
+      }
+    }
+  }
+
+  /**
+   * Let go of a closed connection, ending the session unless it can be resumed
+   */
+  detach(ws: WebSocket): void {
+    if (ws !== this.ws) {
+      return;
+    }
+    this.ws = undefined;
+    if (this.ended || !this.subprotocol || this.resumeTimeout <= 0) {
+      this.end();
+      return;
+    }
+    debug(
+      'Connection %d dropped, holding its session for %d ms',
+      this.context.connectionId, this.resumeTimeout
+    );
+    this.resumeTimer = setTimeout(() => {
+      this.resumeTimer = undefined;
+      debug('Session of connection %d was not resumed', this.context.connectionId);
+      this.end();
+    }, this.resumeTimeout);
+  }
+
+  /**
+   * Whether a message replays a frame sent before the client resumed
+   *
+   * Replayed frames do not count against the message rate, up to one
+   * default replay buffer's worth per resume; the first frame after the
+   * replay ends it.
+   */
+  isReplay(message: string): boolean {
+    if (this.replayEnd === undefined) {
+      return false;
+    }
+    let seq: number;
+    try {
+      seq = parseT140Frame(message).seq;
+    } catch (err) {
+      return false;
+    }
+    if (!isEarlierFrameSequence(seq, this.replayEnd) || this.replayAllowance <= 0) {
+      this.replayEnd = undefined;
+      return false;
+    }
+    this.replayAllowance -= 1;
+    return true;
+  }
+
+  /**
+   * Read one message from the client
+   */
+  receive(message: string): void {
+    if (this.subprotocol) {
+      this.reader.push(message);
+    } else if (!this.ended) {
+      this._deliver(() => this.text.emit('data', message));
+    }
+  }
+
+  /**
+   * Open the backend and send what the client has sent so far
+   */
+  bridge(backend: WebSocketBackend, defaultRtpConfig: RtpConfig): void {
+    if (this.ended) {
+      backend.transport?.close?.();
+      return;
+    }
+    const { transport, rtpConfig } = openBackend(backend, defaultRtpConfig, (err) => {
+      debug('Backend socket error on connection %d: %O', this.context.connectionId, err);
+      this.fail('Backend socket error');
+    });
+    transport.on('error', (err) => {
+      debug('Backend error on connection %d: %O', this.context.connectionId, err);
+    });
+
+    attachStreamToRtpTransport(transport, this.text, rtpConfig);
+    this.bridgedConfig = rtpConfig;
+    for (const action of this.pending.splice(0)) {
+      action(rtpConfig);
+    }
+  }
+
+  /**
+   * Tell the client about an error, if it speaks t140.v1
+   */
+  sendError(message: string): void {
+    if (this.subprotocol && this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(this.writer.encode({ message, type: 'error' }));
+    }
+  }
+
+  /**
+   * End the session and close its connection with code 1011
+   */
+  fail(reason: string): void {
+    this.sendError(reason);
+    const ws = this.ws;
+    this.end();
+    ws?.close(1011, reason);
+  }
+
+  /**
+   * End the text stream, which closes the backend, and forget the session
+   */
+  end(): void {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = undefined;
+    }
+    if (!this.ended) {
+      this.ended = true;
+      this.text.emit('end');
+      this.onEnd();
+    }
+  }
+
+  private _handleFrame(frame: T140WebSocketFrame): void {
+    if (this.ended) {
+      return;
+    }
+    switch (frame.type) {
+      case 'text':
+        this._deliver(() => this.text.emit('data', frame.text));
+        break;
+      case 'erase':
+        this._deliver(() => this.text.emit('data', BACKSPACE.repeat(frame.count)));
+        break;
+      case 'metadata':
+        this._deliver((rtpConfig) => rtpConfig.metadataCallback?.(frame.metadata));
+        break;
+      case 'error':
+        debug('Connection %d reported an error: %s', this.context.connectionId, frame.message);
+        this._deliver(() => this.end());
+        break;
+      case 'end':
+        this._deliver(() => this.end());
+        break;
+    }
+  }
+
+  private _deliver(action: (rtpConfig: RtpConfig) => void): void {
+    if (this.bridgedConfig) {
+      action(this.bridgedConfig);
+    } else {
+      this.pending.push(action);
+    }
+  }
+
+  /**
+   * Acknowledge the latest frame, once per turn of the event loop
+   */
+  private _scheduleAck(): void {
+    if (this.ackScheduled) {
+      return;
+    }
+    this.ackScheduled = true;
+    setImmediate(() => {
+      this.ackScheduled = false;
+      if (this.lastSequence !== undefined && this.ws?.readyState === WebSocket.OPEN) {
+        this.ws.send(this.writer.encode({ ack: this.lastSequence, type: 'ack' }));
+      }
+    });
+  }
+}
+
+/**
+ * The token and seq of a 'resume' frame, if the message is one
+ */
+function resumeRequest(message: string): { token: string; seq: number } | undefined {
+  try {
+    const frame = parseT140Frame(message);
+    return frame.type === 'resume' ? { seq: frame.seq, token: frame.token } : undefined;
+  } catch (err) {
+    return undefined;
+  }
 }
 
 /**
  * Create and initialize a WebSocket server with optional TLS support
+ *
+ * Every connection is bridged to a backend of its own: the text messages a
+ * client sends are rate limited and sent as T.140 by a T140RtpTransport
+ * that lives as long as the connection, so its SSRC and sequence numbers
+ * stay stable. By default that backend is the Unix socket at `socketPath`;
+ * `backend` can instead choose, per connection, UDP RTP, SRTP, a Unix
+ * socket or any TransportStream, e.g. from the URL the client connected to.
+ * Text sent before an asynchronous backend is ready is held until it is.
+ * If no backend can be opened, the connection is closed with code 1011.
+ *
+ * Clients are checked before the WebSocket handshake completes: their
+ * Origin against `allowedOrigins`, their TLS client certificate when
+ * `tls.requestClientCert` is set, their bearer token or signed URL when
+ * `auth` asks for one, `auth.verifyClient`, and `maxConnectionsPerIp`.
+ * Rejected clients get an HTTP error (401, 403 or 429) and are logged to
+ * the t140llm:websocket debug namespace. A client IP that sends more than
+ * `maxMessagesPerSecond` messages has the offending connection closed with
+ * code 1008. What authentication established is passed to `backend` as
+ * `claims`.
+ *
+ * Clients that offer the t140.v1 subprotocol in Sec-WebSocket-Protocol
+ * send typed frames (see attachStreamToWebSocket): text and erase frames
+ * become T.140 text and backspaces, metadata frames go to the
+ * metadataCallback of the connection's RtpConfig, and an end or error frame
+ * ends the stream. Sequence gaps are logged, and invalid frames answered
+ * with an error frame. Other clients send raw text messages.
+ *
+ * A t140.v1 client is sent a session token and acknowledgements of its
+ * frames. If its connection drops, the session and its backend wait up to
+ * `resumeTimeout` ms for a new connection whose first frame resumes it;
+ * frames replayed after that are read only once (see T140WebSocketClient).
+ *
+ * Example usage:
+ * ```typescript
+ * createWebSocketServer({
+ *   rtpConfig: { redEnabled: true, charRateLimit: 60 },
+ *   backend: ({ url }) => url.pathname === '/recorder'
+ *     ? { remoteAddress: '192.0.2.20', remotePort: 5004 }
+ *     : { socketPath: '/tmp/seqpacket_socket' },
+ * });
+ * ```
  */
 export function createWebSocketServer(options: WebSocketServerOptions = {}): WebSocket.Server {
-  const port = options.port || WS_SERVER_PORT;
+  const port = options.port ?? WS_SERVER_PORT;
   let server: WebSocket.Server;
+  const scheme = options.tls ? 'wss' : 'ws';
+  const limits = new ClientLimits(options.maxConnectionsPerIp, options.maxMessagesPerSecond);
+  const claimsByRequest: WeakMap<IncomingMessage, WebSocketClaims> = new WeakMap();
+  const requestUrl = (request: IncomingMessage) => {
+    return new URL(request.url ?? '/', `${scheme}://${request.headers.host ?? 'localhost'}`);
+  };
+
+  // Clients that offer the T.140 subprotocol get typed frames; others send raw text
+  const handleProtocols = (protocols: Set<string>) => {
+    return protocols.has(T140_WS_SUBPROTOCOL) ? T140_WS_SUBPROTOCOL : false;
+  };
+
+  const verifyClient: WebSocket.VerifyClientCallbackAsync = ({ req }, callback) => {
+    const address = clientAddress(req);
+    const reject = (status: number, reason: string) => {
+      debug('Rejected connection from %s: %s', address, reason);
+      callback(false, status, reason);
+    };
+    admitClient(req, requestUrl(req), options).then((admission) => {
+      if ('status' in admission) {
+        reject(admission.status, admission.reason);
+      } else if (!limits.canConnect(address)) {
+        reject(429, `More than ${options.maxConnectionsPerIp} connections`);
+      } else {
+        claimsByRequest.set(req, admission.claims);
+        limits.addConnection(address);
+        req.socket.once('close', () => limits.removeConnection(address));
+        callback(true);
+      }
+    }, (err) => {
+      debug('Client verification failed for %s: %O', address, err);
+      reject(500, 'Client verification failed');
+    });
+  };
 
   // If TLS options are provided, create a secure server
   if (options.tls) {
@@ -55,11 +579,22 @@ export function createWebSocketServer(options: WebSocketServerOptions = {}): Web
       httpsOptions.ca = ca;
     }
 
+    if (options.tls.requestClientCert) {
+      if (!httpsOptions.ca) {
+        throw new Error('Client certificates cannot be verified without a CA certificate.');
+      }
+      // Unauthorized clients are turned away, and logged, by verifyClient
+      httpsOptions.requestCert = true;
+      httpsOptions.rejectUnauthorized = false;
+    }
+
     // Create HTTPS server
     const httpsServer = https.createServer(httpsOptions);
 
     // Create secure WebSocket server using the HTTPS server
-    server = new WebSocket.Server({ server: httpsServer });
+    server = new WebSocket.Server({ handleProtocols, verifyClient, server: httpsServer });
+    // ws leaves a server it was given open, so close it along with the WebSocket server
+    server.on('close', () => httpsServer.close());
 
     // Start HTTPS server
     httpsServer.listen(port, () => {
@@ -67,57 +602,94 @@ export function createWebSocketServer(options: WebSocketServerOptions = {}): Web
     });
   } else {
     // Create standard non-secure WebSocket server
-    server = new WebSocket.Server({ port });
+    server = new WebSocket.Server({ handleProtocols, port, verifyClient });
     debug(`WebSocket server is running on ws://localhost:${port}`);
   }
 
+  const chooseBackend: WebSocketBackendFactory = options.backend ?? (() => ({
+    socketPath: options.socketPath ?? SEQPACKET_SOCKET_PATH,
+    socketFraming: options.socketFraming,
+  }));
+  const resumeTimeout = options.resumeTimeout ?? DEFAULT_WS_RESUME_TIMEOUT;
+  const sessions: Map<string, WebSocketSession> = new Map();
+  let connectionCount = 0;
+
+  const startSession = (ws: WebSocket, context: WebSocketConnectionContext) => {
+    const session: WebSocketSession = new WebSocketSession(
+      context,
+      ws.protocol === T140_WS_SUBPROTOCOL,
+      resumeTimeout,
+      () => sessions.delete(session.token)
+    );
+    sessions.set(session.token, session);
+    session.attach(ws);
+
+    Promise.resolve()
+      .then(() => chooseBackend(context))
+      .then((backend) => session.bridge(backend, options.rtpConfig ?? {}))
+      .catch((err) => {
+        debug('No backend for connection %d: %O', context.connectionId, err);
+        session.fail('Backend unavailable');
+      });
+    return session;
+  };
+
   server.on('connection', (ws, req) => {
     if (req.socket) {
       req.socket.setNoDelay(true);
     }
 
-    const seqpacketSocket = net.createConnection(SEQPACKET_SOCKET_PATH);
+    connectionCount += 1;
+    const context: WebSocketConnectionContext = {
+      connectionId: connectionCount,
+      address: clientAddress(req),
+      claims: claimsByRequest.get(req) ?? {},
+      request: req,
+      url: requestUrl(req),
+    };
 
-    let sequenceNumber = 0;
-    let timestamp = 0;
-    let socketReady = false;
-    const pendingMessages: Buffer[] = [];
+    // A t140.v1 client's first frame says whether it resumes a session
+    let session = ws.protocol === T140_WS_SUBPROTOCOL ? undefined : startSession(ws, context);
 
-    seqpacketSocket.on('connect', () => {
-      socketReady = true;
-      // Flush any messages queued before connection was established
-      for (const msg of pendingMessages) {
-        seqpacketSocket.write(msg);
+    ws.on('message', (message: WebSocket.Data) => {
+      const data = message.toString();
+      if (!session?.isReplay(data) && !limits.allowMessage(context.address)) {
+        debug(
+          'Closing connection %d from %s: more than %d messages per second',
+          context.connectionId, context.address, options.maxMessagesPerSecond
+        );
+        ws.close(WS_CLOSE_POLICY_VIOLATION, 'Message rate exceeded');
+        return;
       }
-      pendingMessages.length = 0;
-    });
-
-    seqpacketSocket.on('error', (err) => {
-      debug('SEQPACKET socket error: %O', err);
-      ws.close(1011, 'Backend socket error');
-    });
-
-    ws.on('message', (message: string) => {
-      // Create RTP packet with T.140 payload
-      const rtpPacket = createRtpPacket(sequenceNumber, timestamp, message);
-
-      if (socketReady) {
-        // Send RTP packet through Unix SEQPACKET socket
-        seqpacketSocket.write(rtpPacket);
-      } else {
-        // Queue until socket is connected
-        pendingMessages.push(rtpPacket);
+      if (!session) {
+        const resume = resumeRequest(data);
+        if (resume) {
+          session = sessions.get(resume.token);
+          if (!session) {
+            debug('Connection %d asked for an unknown session', context.connectionId);
+            ws.close(WS_CLOSE_POLICY_VIOLATION, 'Unknown session');
+            return;
+          }
+          debug(
+            'Connection %d resumes the session of connection %d',
+            context.connectionId, session.context.connectionId
+          );
+          session.attach(ws, resume.seq);
+          return;
+        }
+        session = startSession(ws, context);
       }
-
-      // Update sequence number and timestamp
-      sequenceNumber = (sequenceNumber + 1) % RTP_MAX_SEQUENCE_NUMBER;
-      // Wrap at 32-bit boundary per RTP spec
-      timestamp = (timestamp + DEFAULT_TIMESTAMP_INCREMENT) >>> 0;
+      session.receive(data);
     });
 
-    ws.on('close', () => {
-      seqpacketSocket.end();
-    });
+    ws.on('close', () => session?.detach(ws));
+  });
+
+  // Sessions waiting to be resumed end with the server
+  server.on('close', () => {
+    for (const session of Array.from(sessions.values())) {
+      session.end();
+    }
   });
 
   return server;
@@ -0,0 +1,185 @@
+import * as dgram from 'dgram';
+import { promises as dns } from 'dns';
+import * as net from 'net';
+import { IpFamily, ResolvedAddress } from '../interfaces';
+import {
+  HAPPY_EYEBALLS_PREFERRED_FAMILY,
+  MAX_HOSTNAME_LABEL_LENGTH,
+  MAX_HOSTNAME_LENGTH,
+} from './constants';
+
+const HOSTNAME_LABEL = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/i;
+
+/**
+ * Strip the brackets from an IPv6 literal such as `[::1]`
+ */
+export function normalizeAddress(address: string): string {
+  return /^\[.*\]$/.test(address) ? address.slice(1, -1) : address;
+}
+
+/**
+ * Get the IP version of an address literal
+ *
+ * @param address An IPv4 or IPv6 address, optionally in brackets
+ * @returns 4 or 6, or undefined if the address is not an IP literal
+ */
+export function getAddressFamily(address: string): IpFamily | undefined {
+  const family = net.isIP(normalizeAddress(address));
+  return family === 0 ? undefined : family as IpFamily;
+}
+
+/**
+ * Whether an IP literal is a multicast address (224.0.0.0/4 or ff00::/8)
+ */
+export function isMulticastAddress(address: string): boolean {
+  const ip = normalizeAddress(address);
+  const family = getAddressFamily(ip);
+  if (family === 4) {
+    const firstOctet = Number(ip.split('.')[0]);
+    return firstOctet >= 224 && firstOctet <= 239;
+  }
+  return family === 6 && /^ff/i.test(ip);
+}
+
+/**
+ * Whether a string is a valid DNS hostname (RFC 1123 §2.1)
+ */
+export function isValidHostname(hostname: string): boolean {
+  const name = hostname.endsWith('.') ? hostname.slice(0, -1) : hostname;
+  return name.length > 0 &&
+    name.length <= MAX_HOSTNAME_LENGTH &&
+    !/^[\d.]+$/.test(name) &&
+    name.split('.').every((label) => {
+      return label.length <= MAX_HOSTNAME_LABEL_LENGTH && HOSTNAME_LABEL.test(label);
+    });
+}
+
+/**
+ * The dgram socket type for an IP version
+ */
+export function udpSocketType(family: IpFamily): dgram.SocketType {
+  return family === 6 ? 'udp6' : 'udp4';
+}
+
+/**
+ * Order addresses for connection attempts (RFC 8305 §4): alternate between
+ * the families, starting with the preferred one, keeping the resolver's
+ * order within each family
+ *
+ * @param addresses The resolved addresses
+ * @param preferredFamily The family to try first (default: 6)
+ */
+export function sortAddressesForHappyEyeballs(
+  addresses: ResolvedAddress[],
+  preferredFamily: IpFamily = HAPPY_EYEBALLS_PREFERRED_FAMILY
+): ResolvedAddress[] {
+  const preferred = addresses.filter((candidate) => candidate.family === preferredFamily);
+  const other = addresses.filter((candidate) => candidate.family !== preferredFamily);
+  const sorted: ResolvedAddress[] = [];
+  for (let i = 0; i < Math.max(preferred.length, other.length); i += 1) {
+    if (i < preferred.length) sorted.push(preferred[i]);
+    if (i < other.length) sorted.push(other[i]);
+  }
+  return sorted;
+}
+
+/**
+ * Resolve a remote address to the IP addresses to try, in happy eyeballs order
+ *
+ * IP literals are returned as they are, without a DNS lookup.
+ *
+ * @param host An IP literal or hostname
+ * @param family Only return addresses of this family
+ * @returns At least one address
+ * @throws Error if the address is malformed, does not resolve, or the
+ * literal is of the other family
+ */
+export async function resolveRemoteAddresses(
+  host: string,
+  family?: IpFamily
+): Promise<ResolvedAddress[]> {
+  const literalFamily = getAddressFamily(host);
+  if (literalFamily) {
+    if (family && literalFamily !== family) {
+      throw new Error(`${host} is not an IPv${family} address`);
+    }
+    return [{ family: literalFamily, address: normalizeAddress(host) }];
+  }
+  if (!isValidHostname(host)) {
+    throw new Error(`Invalid remote address format: ${host}`);
+  }
+
+  const results = await dns.lookup(host, { all: true, family: family ?? 0, verbatim: true });
+  const addresses = results
+    .filter((result) => result.family === 4 || result.family === 6)
+    .map((result) => ({ address: result.address, family: result.family as IpFamily }));
+  if (addresses.length === 0) {
+    throw new Error(`${host} has no ${family ? `IPv${family} ` : ''}addresses`);
+  }
+  return sortAddressesForHappyEyeballs(addresses);
+}
+
+/**
+ * Try a UDP socket of the address's family against it; creation, binding
+ * and routing failures show up as errors from bind() or connect()
+ */
+function probeUdpAddress(
+  candidate: ResolvedAddress,
+  port: number,
+  localBinding?: dgram.BindOptions
+): Promise<dgram.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = dgram.createSocket(udpSocketType(candidate.family));
+    const onError = (err: Error) => {
+      socket.close();
+      reject(err);
+    };
+    const connect = () => {
+      socket.connect(port, candidate.address, () => {
+        socket.removeListener('error', onError);
+        // Stay unconnected so callers can keep passing the address to send()
+        socket.disconnect();
+        resolve(socket);
+      });
+    };
+    socket.once('error', onError);
+    if (localBinding) {
+      socket.bind(localBinding, connect);
+    } else {
+      connect();
+    }
+  });
+}
+
+/**
+ * Resolve a remote address and open a UDP socket that can reach it
+ *
+ * Addresses are tried one after the other in happy eyeballs order (RFC
+ * 8305), so a host with an unreachable IPv6 address falls back to IPv4. The
+ * socket is left unconnected; send to the returned address.
+ *
+ * @param host An IP literal or hostname
+ * @param port The remote port
+ * @param family Only use addresses of this family
+ * @param localBinding Local address and port to bind the socket to
+ * @returns The socket and the address it reaches
+ * @throws Error if the host does not resolve or no address can be reached
+ */
+export async function openUdpSocket(
+  host: string,
+  port: number,
+  family?: IpFamily,
+  localBinding?: dgram.BindOptions
+): Promise<ResolvedAddress & { socket: dgram.Socket }> {
+  const candidates = await resolveRemoteAddresses(host, family);
+  let lastError: Error | undefined;
+  for (const candidate of candidates) {
+    try {
+      const socket = await probeUdpAddress(candidate, port, localBinding);
+      return { ...candidate, socket };
+    } catch (err) {
+      lastError = err as Error;
+    }
+  }
+  throw lastError!;
+}
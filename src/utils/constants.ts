@@ -1,8 +1,26 @@
 // WebSocket server address and port
 export const WS_SERVER_PORT = 8765;
 
+// WebSocket server authentication and limits
+export const WS_SIGNATURE_PARAM = 'signature';   // Query parameter holding the HMAC-SHA256
+export const WS_EXPIRES_PARAM = 'expires';       // Query parameter holding the expiry time (s)
+export const DEFAULT_WS_SIGNED_URL_TTL = 300;    // Seconds a signed URL stays valid
+export const WS_CLOSE_POLICY_VIOLATION = 1008;   // Close code when a client exceeds its limits
+
+// T.140 WebSocket subprotocol, negotiated with Sec-WebSocket-Protocol
+export const T140_WS_SUBPROTOCOL = 't140.v1';    // Typed JSON frames with sequence numbers
+export const DEFAULT_WS_KEEPALIVE_INTERVAL = 15000; // ms of silence before a keepalive frame
+export const WS_MAX_FRAME_SEQUENCE = 0xffffffff; // Frame sequence numbers wrap after this
+export const DEFAULT_WS_RECONNECT_DELAY = 500;   // ms before the first reconnect attempt
+export const DEFAULT_WS_MAX_RECONNECT_DELAY = 30000; // ms cap on the reconnect backoff
+export const DEFAULT_WS_RECONNECT_JITTER = 0.5;  // Fraction of each delay taken off at random
+export const DEFAULT_WS_REPLAY_BUFFER_SIZE = 1024; // Unacknowledged frames kept for replay
+export const DEFAULT_WS_RESUME_TIMEOUT = 30000;  // ms the server keeps a dropped session
+export const WS_RESUME_TOKEN_BYTES = 16;         // Random bytes in a session's resume token
+
 // Unix SEQPACKET socket path
 export const SEQPACKET_SOCKET_PATH = '/tmp/seqpacket_socket';
+export const DEFAULT_SEQPACKET_SEND_QUEUE_SIZE = 256; // Packets held until the socket connects
 
 // RTP/SRTP defaults
 export const RTP_HEADER_SIZE = 12;
@@ -23,6 +41,7 @@ export const DEFAULT_TIMESTAMP_INCREMENT = 160; // 20ms at 8kHz sample rate
 export const DEFAULT_CHAR_RATE_LIMIT = 30; // characters per second
 export const SEND_INTERVAL_MS = 100; // milliseconds
 export const IDLE_THRESHOLD_MS = 300; // RFC 4103 §5.1 idle detection for M-bit signaling
+export const DEFAULT_TURN_IDLE_TIMEOUT = 2000; // ms without remote typing that ends an agent turn
 
 // Forward Error Correction (FEC) defaults
 export const DEFAULT_FEC_GROUP_SIZE = 3; // packets per FEC packet
@@ -30,11 +49,27 @@ export const FEC_HEADER_EXTENSION_SIZE = 12; // bytes - RFC 5109 FEC header size
 
 // Redundancy (RED) encoding defaults
 export const DEFAULT_REDUNDANCY_LEVEL = 2; // number of redundant blocks
-export const RED_MAX_BLOCK_LENGTH = 255; // 8-bit max
+export const RED_MAX_BLOCK_LENGTH = 1023; // 10-bit max per RFC 2198
+export const RED_MAX_TIMESTAMP_OFFSET = 16383; // 14-bit max per RFC 2198
+export const RED_BLOCK_LENGTH_BITS = 10; // Block length occupies the low 10 bits
 export const RED_HEADER_SIZE_PER_BLOCK = 4; // bytes
 export const RED_PRIMARY_HEADER_SIZE = 1; // byte
 export const RED_F_BIT_FLAG = 128; // 0x80 - indicates more blocks follow
 
+// Adaptive redundancy and rate control defaults
+export const DEFAULT_MIN_REDUNDANCY_LEVEL = 1;   // RED generations kept on a clean path
+export const DEFAULT_MAX_REDUNDANCY_LEVEL = 5;   // RED generations allowed on a lossy path
+export const DEFAULT_HIGH_LOSS_THRESHOLD = 0.03; // Loss fraction that raises protection
+export const DEFAULT_LOW_LOSS_THRESHOLD = 0.005; // Loss fraction that counts as clean
+export const DEFAULT_FEC_LOSS_THRESHOLD = 0.1;   // Loss fraction that switches FEC on
+export const DEFAULT_CONGESTION_LOSS_THRESHOLD = 0.2; // Loss fraction treated as congestion
+export const DEFAULT_CONGESTION_RTT = 1000;      // Round-trip time in ms treated as congestion
+export const DEFAULT_MIN_CHAR_RATE_LIMIT = 10;   // cps floor when backing off
+export const DEFAULT_RATE_DECREASE_FACTOR = 0.75; // cps multiplier per congested report
+export const DEFAULT_RATE_INCREASE_STEP = 2;     // cps added per uncongested report
+export const DEFAULT_FEEDBACK_SMOOTHING = 0.5;   // Weight of the newest report in the loss average
+export const DEFAULT_STABLE_REPORTS = 3;         // Clean reports before lowering protection
+
 // Rate limiting constants
 export const TOKEN_REFILL_RATE_DIVISOR = 1000; // divisor for ms to seconds conversion
 export const MIN_TOKEN_BUCKET_VALUE = 1;
@@ -48,6 +83,15 @@ export const MAX_METADATA_PAYLOAD_SIZE = 1200; // Safe for UDP without fragmenta
 export const MULTIPLEX_STREAM_DELIMITER = '\x1E'; // ASCII Record Separator - avoids colon ambiguity
 // T.140 constants
 export const BACKSPACE = '\u0008'; // ASCII backspace character (BS)
+export const MISSING_TEXT_MARKER = '\uFFFD'; // Replacement character marking lost text (RFC 4103)
+export const LINE_SEPARATOR = '\u2028'; // T.140 new line (LS)
+export const BYTE_ORDER_MARK = '\uFEFF'; // Zero width no-break space, sent as a keepalive
+export const BELL = '\u0007'; // Alert (BEL)
+export const ESCAPE = '\u001B'; // Starts ESC and CSI control sequences
+export const CONTROL_SEQUENCE_INTRODUCER = '\u009B'; // C1 form of ESC [
+export const START_OF_STRING = '\u0098'; // SOS, opens a control string
+export const STRING_TERMINATOR = '\u009C'; // ST, closes a control string
+export const GRAPHEME_ERASE_LOOKBEHIND = 128; // Code units segmented to find the last grapheme
 
 // Bit shift multipliers for RTP header encoding
 export const BIT_SHIFT_64 = 64;   // Version field (bits 0-1)
@@ -63,6 +107,82 @@ export const RTP_OFFSET_TIMESTAMP = 4;    // Bytes 4-7: Timestamp
 export const RTP_OFFSET_SSRC = 8;         // Bytes 8-11: SSRC
 export const RTP_OFFSET_CSRC = 12;        // Bytes 12+: CSRC list (variable)
 
+// RTP header bit masks for parsing inbound packets per RFC 3550
+export const RTP_VERSION_SHIFT = 6;              // Version lives in the top two bits of byte 0
+export const RTP_PADDING_MASK = 0x20;            // P bit
+export const RTP_EXTENSION_MASK = 0x10;          // X bit
+export const RTP_CSRC_COUNT_MASK = 0x0F;         // CC field
+export const RTP_MARKER_MASK = 0x80;             // M bit
+export const RTP_PAYLOAD_TYPE_MASK = 0x7F;       // PT field
+export const RTP_EXTENSION_HEADER_SIZE = 4;      // Profile (2 bytes) + length in words (2 bytes)
+export const RTP_EXTENSION_WORD_SIZE = 4;        // Extension length is counted in 32-bit words
+export const RTP_SEQUENCE_HALF_RANGE = 32768;    // Half of the 16-bit space for wraparound compares
+
+// RTCP per RFC 3550 and RFC 5761
+export const RTCP_PT_SR = 200;                   // Sender report
+export const RTCP_PT_RR = 201;                   // Receiver report
+export const RTCP_PT_SDES = 202;                 // Source description
+export const RTCP_PT_BYE = 203;                  // Goodbye
+export const RTCP_PT_RTPFB = 205;                // Transport layer feedback (RFC 4585)
+export const RTCP_FMT_GENERIC_NACK = 1;          // Generic NACK feedback message type
+export const RTCP_NACK_BITMASK_SIZE = 16;        // Following packets covered by one BLP
+export const RTCP_HEADER_SIZE = 4;               // V, P, count, PT and length in words
+export const RTCP_SENDER_INFO_SIZE = 20;         // NTP timestamp, RTP timestamp, counts
+export const RTCP_REPORT_BLOCK_SIZE = 24;        // One reception report block
+export const RTCP_MAX_COUNT = 31;                // 5-bit report/source count
+export const RTCP_SDES_CNAME = 1;                // SDES item type of the canonical name
+export const RTCP_MUX_MIN_PT = 192;              // Byte 1 values 192-223 mark RTCP (RFC 5761 §4)
+export const RTCP_MUX_MAX_PT = 223;
+export const DEFAULT_RTCP_INTERVAL = 5000;       // ms between reports (RFC 3550 §6.2 minimum)
+export const NTP_EPOCH_OFFSET = 2208988800;      // Seconds from 1900-01-01 to 1970-01-01
+export const NTP_FRACTION_SCALE = 4294967296;    // 2^32 units per NTP second
+export const RTCP_DELAY_UNITS_PER_SECOND = 65536; // LSR/DLSR are in units of 1/65536 s
+export const CNAME_RANDOM_BYTES = 12;            // 96 random bits per RFC 7022
+
+// SDP per RFC 4566 and RFC 4103
+export const T140_CLOCK_RATE = 1000;             // RTP clock rate of t140, red and rtx text
+export const SDP_LINE_ENDING = '\r\n';
+export const DEFAULT_SDP_PROTOCOL = 'RTP/AVP';
+
+// SIP per RFC 3261, with digest auth (RFC 2617) and session timers (RFC 4028)
+export const DEFAULT_SIP_PORT = 5060;
+export const SIP_VERSION = 'SIP/2.0';
+export const SIP_BRANCH_COOKIE = 'z9hG4bK';       // Prefix of RFC 3261 branch parameters
+export const SIP_MAX_FORWARDS = 70;
+export const SIP_TIMER_T1 = 500;                 // ms, round-trip estimate for retransmissions
+export const SIP_TIMER_T2 = 4000;                // ms, cap on the retransmission interval
+export const SIP_TIMEOUT_MULTIPLIER = 64;        // Transactions give up after 64*T1
+export const SIP_RANDOM_BYTES = 8;               // Random bytes in tags, branches and cnonces
+export const DEFAULT_SESSION_EXPIRES = 1800;     // s, Session-Expires we ask for
+export const DEFAULT_MIN_SE = 90;                // s, smallest session interval allowed
+export const SESSION_EXPIRY_MARGIN = 32;         // s, RFC 4028 §10 BYE margin before expiry
+export const DEFAULT_SIP_USER_AGENT = 't140llm';
+
+// RTP over TCP per RFC 4571, with connection setup per RFC 4145
+export const RFC4571_LENGTH_SIZE = 2;            // Length prefix in front of every packet
+export const RFC4571_MAX_PACKET_SIZE = 65535;    // Largest packet a 16-bit length can frame
+export const DEFAULT_TCP_RECONNECT_DELAY = 500;  // ms before the first reconnect attempt
+export const DEFAULT_TCP_MAX_RECONNECT_DELAY = 30000; // ms cap on the reconnect backoff
+export const DEFAULT_TCP_SEND_QUEUE_SIZE = 256;  // Packets held while disconnected
+
+// Dual-stack addressing per RFC 8305 and hostnames per RFC 1123
+export const HAPPY_EYEBALLS_PREFERRED_FAMILY = 6; // Family tried first when a host has both
+export const MAX_HOSTNAME_LENGTH = 253;          // Characters in a hostname
+export const MAX_HOSTNAME_LABEL_LENGTH = 63;     // Characters between dots
+export const DEFAULT_MULTICAST_TTL = 1;          // Multicast stays on the local network
+
+// Retransmission (RTX) per RFC 4588
+export const DEFAULT_RTX_HISTORY_SIZE = 256;     // Sent packets kept for retransmission
+export const RTX_OSN_SIZE = 2;                   // Original sequence number before the payload
+export const MAX_NACK_SEQUENCE_NUMBERS = 64;     // Missing packets requested per gap
+
+// Receiver defaults
+export const DEFAULT_RECEIVER_ADDRESS = '0.0.0.0';
+export const DEFAULT_REORDER_WINDOW = 16;        // Packets held while waiting for a missing one
+export const DEFAULT_JITTER_BUFFER_DELAY = 1000; // ms to wait for a missing packet
+export const JITTER_BUFFER_LOSS_HISTORY = 64;    // Lost sequence numbers kept to spot late packets
+export const RECEIVER_TEXT_QUEUE_SIZE = 1024;    // Text chunks held for an async iterator
+
 // FEC Header Extension offsets per RFC 5109
 export const FEC_EXT_OFFSET_FLAGS = 0;           // Byte 0: E, L, P, X, CC, M bits
 export const FEC_EXT_OFFSET_MEDIA_PT = 1;        // Byte 1: Original media payload type
@@ -70,16 +190,46 @@ export const FEC_EXT_OFFSET_SN_BASE = 2;         // Bytes 2-3: Sequence number b
 export const FEC_EXT_OFFSET_TIMESTAMP = 4;       // Bytes 4-7: Timestamp recovery
 export const FEC_EXT_OFFSET_LENGTH = 8;          // Bytes 8-9: Length recovery
 export const FEC_EXT_OFFSET_MASK = 10;           // Bytes 10-11: Protection mask
+export const FEC_FLAGS_RECOVERY_MASK = 0x3F;     // P, X and CC bits recovered through byte 0
+export const DEFAULT_FEC_WINDOW_SIZE = 64;       // Media packets kept for FEC recovery
+export const MAX_PENDING_FEC_PACKETS = 16;       // FEC packets held while >1 packet is missing
 
 // RED header block offsets per RFC 2198
 export const RED_OFFSET_BLOCK_HEADER = 0;        // Block header: F bit + payload type
-export const RED_OFFSET_TIMESTAMP_OFFSET = 1;    // Timestamp offset (2 bytes)
-export const RED_OFFSET_BLOCK_LENGTH = 3;        // Block length (1 byte)
+export const RED_OFFSET_TIMESTAMP_OFFSET = 1;    // Timestamp offset (14 bits) + length high bits
+export const RED_OFFSET_BLOCK_LENGTH = 3;        // Block length low 8 bits
 export const RED_BLOCK_HEADER_SIZE = 4;          // Total: 4 bytes per redundant block
+export const RED_SEQUENCE_HISTORY = 64;          // Recent sequence numbers kept for gap filling
 
 // SRTP key derivation sizes per RFC 3711
 export const SRTP_MASTER_KEY_SIZE = 16;          // 128 bits
 export const SRTP_MASTER_SALT_SIZE = 14;         // 112 bits
+export const SRTP_AEAD_MASTER_SALT_SIZE = 12;    // 96 bits for AEAD_AES_*_GCM (RFC 7714)
+export const SRTP_AES256_MASTER_KEY_SIZE = 32;   // 256 bits for AEAD_AES_256_GCM
+export const DEFAULT_SRTP_MKI_LENGTH = 4;        // MKI field length in bytes when an MKI is set
+export const SRTP_MAX_MKI_LENGTH = 128;          // Largest MKI field length in bytes
+export const DEFAULT_SRTP_REKEY_GRACE_PERIOD = 5000; // ms a replaced key still decrypts
+
+// DTLS-SRTP per RFC 5764
+export const DEFAULT_DTLS_HANDSHAKE_TIMEOUT = 10000; // ms before a handshake is abandoned
+export const DTLS_FIRST_BYTE_MIN = 20;           // DTLS records start with 20-63 (RFC 7983)
+export const DTLS_FIRST_BYTE_MAX = 63;
+
+// SDES key exchange per RFC 4568
+export const DEFAULT_SDES_TAG = 1;               // Tag of the first crypto attribute
+
+// SRTP receive side per RFC 3711 and RFC 7714
+export const SRTP_REPLAY_WINDOW_SIZE = 64;       // Indexes tracked per SSRC (RFC 3711 §3.3.2)
+export const SRTP_HMAC_SHA1_80_TAG_SIZE = 10;    // Auth tag of AES128_CM_HMAC_SHA1_80
+export const SRTP_AEAD_TAG_SIZE = 16;            // Auth tag of AEAD_AES_128_GCM
+export const SRTP_AEAD_IV_SIZE = 12;             // GCM IV built from SSRC, ROC and SEQ
+
+// SRTCP per RFC 3711 §3.4 and RFC 7714 §9
+export const SRTCP_HEADER_SIZE = 8;              // RTCP header and sender SSRC, never encrypted
+export const SRTCP_OFFSET_SSRC = 4;              // Sender SSRC of the first RTCP packet
+export const SRTCP_INDEX_SIZE = 4;               // E flag and 31-bit SRTCP index
+export const SRTCP_E_FLAG = 0x80;                // Set in the first index byte when encrypted
+export const SRTCP_INDEX_MASK = 0x7fffffff;      // SRTCP index without the E flag
 export const PBKDF2_TOTAL_DERIVED_SIZE = 30;     // Key + Salt = 30 bytes
 export const PBKDF2_ITERATIONS = 600000; // OWASP 2023 min for PBKDF2-HMAC-SHA256
 
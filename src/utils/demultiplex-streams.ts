@@ -1,10 +1,17 @@
 import { EventEmitter } from 'events';
 import { LLMMetadata } from '../interfaces';
+import { parseRtpPacket } from '../rtp/parse-rtp-packet';
+import { RedDepacketizer } from '../rtp/red-depacketizer';
 import {
+  DEFAULT_RED_PAYLOAD_TYPE,
   MULTIPLEX_STREAM_DELIMITER,
   RTP_CSRC_ENTRY_SIZE,
   RTP_HEADER_SIZE,
   RTP_OFFSET_CSRC,
+  RTP_OFFSET_PAYLOAD_TYPE,
+  RTP_OFFSET_SEQUENCE,
+  RTP_OFFSET_SSRC,
+  RTP_PAYLOAD_TYPE_MASK,
 } from './constants';
 
 /**
@@ -29,6 +36,13 @@ export interface DemultiplexedStream extends EventEmitter {
   on(event: 'error', listener: (error: Error) => void): this;
 }
 
+/**
+ * Options for T140StreamDemultiplexer
+ */
+export interface T140StreamDemultiplexerOptions {
+  redPayloadType?: number; // Payload type of RFC 2198 RED packets
+}
+
 /**
  * Class representing a demultiplexed stream extracted from multiplexed data
  */
@@ -65,79 +79,120 @@ export class DemultiplexedStreamImpl extends EventEmitter implements Demultiplex
  */
 export class T140StreamDemultiplexer extends EventEmitter {
   private streams: Map<string, DemultiplexedStreamImpl> = new Map();
+  private redPayloadType: number;
+  private redDepacketizers: Map<number, RedDepacketizer> = new Map();
 
-  constructor() {
+  constructor(options: T140StreamDemultiplexerOptions = {}) {
     super();
+    this.redPayloadType = options.redPayloadType ?? DEFAULT_RED_PAYLOAD_TYPE;
   }
 
   /**
    * Process RTP packet data and extract stream information
    *
+   * RED packets (RFC 2198) are split into their blocks first; redundant
+   * generations are only used to fill sequence gaps. With CSRC
+   * identification they are not used at all: a lost packet may have belonged
+   * to another stream, and its CSRC was lost with it.
+   *
    * @param data Buffer containing RTP packet data
    * @param useCSRC Whether to use CSRC fields for stream identification
    */
   processPacket(data: Buffer, useCSRC: boolean = false): void {
     try {
-      let streamId: string | undefined;
-      if (useCSRC) {
-        // Read the first byte of the RTP header
-        const firstByte = data[0];
-        // Extract CSRC count (CC field, bottom 4 bits per RFC 3550)
-        const csrcCount = firstByte & 0x0F;
-        if (csrcCount > 0) {
-          // Read the first CSRC as stream identifier
-          // CSRC identifiers start at byte 12 in the RTP header per RFC 3550
-          const csrcId = data.readUInt32BE(RTP_OFFSET_CSRC);
-          streamId = `csrc:${csrcId}`;
-          const headerSize = RTP_HEADER_SIZE + (csrcCount * RTP_CSRC_ENTRY_SIZE);
-          const payload = data.slice(headerSize);
-          const textContent = payload.toString('utf-8');
-          this._processText(streamId, textContent);
-          return;
-        }
-        // No CSRC, can't identify stream
-        this.emit('error', new Error('No CSRC identifiers found in packet'));
-        return;
-      }
-      // Using prefix-based identification
       // Calculate dynamic RTP header size per RFC 3550
       const firstByte = data[0];
+      // Extract CSRC count (CC field, bottom 4 bits per RFC 3550)
       const csrcCount = firstByte & 0x0F;
       const headerSize = RTP_HEADER_SIZE + (csrcCount * RTP_CSRC_ENTRY_SIZE);
-      const payloadWithPrefix = data.slice(headerSize);
-      const payloadStr = payloadWithPrefix.toString('utf-8');
-      if (payloadStr.startsWith('MD:')) {
-        // This is a metadata packet
-        const metadataContent = payloadStr.substring(3);
-        try {
-          // Attempt to parse as JSON
-          const metadata = JSON.parse(metadataContent);
-          if (metadata.streamId) {
-            this._processMetadata(metadata.streamId, metadata);
-          } else {
-            this.emit('error', new Error('Metadata packet missing streamId'));
+      // CSRC identifiers start at byte 12 in the RTP header per RFC 3550
+      const csrcId = csrcCount > 0 ? data.readUInt32BE(RTP_OFFSET_CSRC) : undefined;
+
+      const depacketizer = this._getRedDepacketizer(data.readUInt32BE(RTP_OFFSET_SSRC));
+      const payloadType = data.readUInt8(RTP_OFFSET_PAYLOAD_TYPE) & RTP_PAYLOAD_TYPE_MASK;
+      if (payloadType === this.redPayloadType) {
+        const packet = parseRtpPacket(data);
+        for (const media of depacketizer.depacketize(packet)) {
+          if (!(useCSRC && media.recovered)) {
+            this._processPayload(media.payload, csrcId, useCSRC);
           }
-        } catch (err) {
-          this.emit('error', new Error(`Failed to parse metadata: ${err}`));
         }
-
         return;
       }
-      // Check for stream identifier prefix
-      const delimiterIndex = payloadStr.indexOf(MULTIPLEX_STREAM_DELIMITER);
-      if (delimiterIndex > 0) {
-        streamId = payloadStr.substring(0, delimiterIndex);
-        const textContent = payloadStr.substring(delimiterIndex + 1);
-        this._processText(streamId, textContent);
-      } else {
-        // No identifier found, treat as default stream
-        streamId = 'default';
-        this._processText(streamId, payloadStr);
-      }
+
+      depacketizer.markReceived(data.readUInt16BE(RTP_OFFSET_SEQUENCE));
+      this._processPayload(data.slice(headerSize), csrcId, useCSRC);
     } catch (err) {
       this.emit('error', new Error(`Error processing packet: ${err}`));
     }
   }
+
+  /**
+   * Route one T.140 payload to its stream
+   */
+  private _processPayload(
+    payload: Buffer,
+    csrcId: number | undefined,
+    useCSRC: boolean
+  ): void {
+    let streamId: string | undefined;
+    if (useCSRC) {
+      if (csrcId !== undefined) {
+        // Use the first CSRC as stream identifier
+        streamId = `csrc:${csrcId}`;
+        this._processText(streamId, payload.toString('utf-8'));
+        return;
+      }
+      // No CSRC, can't identify stream
+      this.emit('error', new Error('No CSRC identifiers found in packet'));
+      return;
+    }
+    // Using prefix-based identification
+    const payloadStr = payload.toString('utf-8');
+    if (payloadStr.startsWith('MD:')) {
+      // This is a metadata packet
+      const metadataContent = payloadStr.substring(3);
+      try {
+        // Attempt to parse as JSON
+        const metadata = JSON.parse(metadataContent);
+        if (metadata.streamId) {
+          this._processMetadata(metadata.streamId, metadata);
+        } else {
+          this.emit('error', new Error('Metadata packet missing streamId'));
+        }
+      } catch (err) {
+        this.emit('error', new Error(`Failed to parse metadata: ${err}`));
+      }
+
+      return;
+    }
+    // Check for stream identifier prefix
+    const delimiterIndex = payloadStr.indexOf(MULTIPLEX_STREAM_DELIMITER);
+    if (delimiterIndex > 0) {
+      streamId = payloadStr.substring(0, delimiterIndex);
+      const textContent = payloadStr.substring(delimiterIndex + 1);
+      this._processText(streamId, textContent);
+    } else {
+      // No identifier found, treat as default stream
+      streamId = 'default';
+      this._processText(streamId, payloadStr);
+    }
+  }
+
+  /**
+   * Get the RED depacketizer for an SSRC, creating it if it doesn't exist
+   */
+  private _getRedDepacketizer(ssrc: number): RedDepacketizer {
+    let depacketizer = this.redDepacketizers.get(ssrc);
+
+    if (!depacketizer) {
+      depacketizer = new RedDepacketizer(this.redPayloadType);
+      this.redDepacketizers.set(ssrc, depacketizer);
+    }
+
+    return depacketizer;
+  }
+
   /**
    * Get a stream by ID, creating it if it doesn't exist
    */
@@ -70,4 +70,26 @@ export class ErrorFactory {
       type: T140RtpErrorType.RESOURCE_ERROR,
     };
   }
+
+  /**
+   * Create an invalid packet error
+   */
+  static INVALID_PACKET(message: string, cause?: Error): T140RtpError {
+    return {
+      cause,
+      message,
+      type: T140RtpErrorType.INVALID_PACKET,
+    };
+  }
+
+  /**
+   * Create an agent reply error
+   */
+  static AGENT(message: string, cause?: Error): T140RtpError {
+    return {
+      cause,
+      message,
+      type: T140RtpErrorType.AGENT_ERROR,
+    };
+  }
 }
@@ -4,3 +4,8 @@ export * from './security';
 export * from './constants';
 export * from './demultiplex-streams';
 export * from './stream-processor';
+export * from './sequence-number';
+export * from './t140-presentation';
+export * from './sdp';
+export * from './sdes';
+export * from './address';
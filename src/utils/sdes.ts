@@ -0,0 +1,184 @@
+import {
+  SdesCryptoAttribute,
+  SdesCryptoOptions,
+  SrtpConfig,
+  SrtpProtectionProfile,
+} from '../interfaces';
+import {
+  DEFAULT_SDES_TAG,
+  DEFAULT_SRTP_MKI_LENGTH,
+  SRTP_AEAD_MASTER_SALT_SIZE,
+  SRTP_MASTER_KEY_SIZE,
+  SRTP_MASTER_SALT_SIZE,
+} from './constants';
+import { encodeSrtpMki } from './security';
+
+interface SdesSuite {
+  name: string;
+  profile: SrtpProtectionProfile;
+  keySize: number;
+  saltSize: number;
+}
+
+/**
+ * SDES crypto suites by protection profile (RFC 4568 §6.2, RFC 7714 §12),
+ * limited to the profiles SRTP sessions here can use
+ */
+const SDES_SUITES: SdesSuite[] = [
+  {
+    name: 'AES_CM_128_HMAC_SHA1_80',
+    profile: 0x0001,
+    keySize: SRTP_MASTER_KEY_SIZE,
+    saltSize: SRTP_MASTER_SALT_SIZE,
+  },
+  {
+    name: 'AEAD_AES_128_GCM',
+    profile: 0x0007,
+    keySize: SRTP_MASTER_KEY_SIZE,
+    saltSize: SRTP_AEAD_MASTER_SALT_SIZE,
+  },
+];
+
+const ATTRIBUTE_PREFIX = /^(?:a=)?crypto:/i;
+
+/**
+ * Format a key lifetime, using the 2^n form for powers of two
+ */
+function formatLifetime(lifetime: number): string {
+  const exponent = Math.log2(lifetime);
+  return Number.isInteger(exponent) ? `2^${exponent}` : String(lifetime);
+}
+
+function parseLifetime(value: string): number {
+  const power = /^2\^(\d+)$/.exec(value);
+  const lifetime = power ? 2 ** Number(power[1]) : Number(value);
+  if (!/^(?:2\^)?\d+$/.test(value) || !Number.isSafeInteger(lifetime) || lifetime <= 0) {
+    throw new Error(`Invalid SDES key lifetime: ${value}`);
+  }
+  return lifetime;
+}
+
+/**
+ * Build an SDES crypto attribute (RFC 4568) for an SRTP configuration
+ *
+ * The attribute is returned without the leading `a=`, so it can be passed
+ * in SdpOptions.attributes. Its inline key is the base64 encoded master
+ * key followed by the master salt.
+ *
+ * @param srtpConfig The SRTP configuration to describe
+ * @param options Tag, key lifetime and MKI; the lifetime and MKI default to
+ * the configuration's `keyLifetime`, `mki` and `mkiLength`
+ * @returns The attribute, e.g. `crypto:1 AES_CM_128_HMAC_SHA1_80 inline:...`
+ * @throws Error if the profile has no SDES suite or the key or salt has the wrong size
+ */
+export function createSdesCryptoAttribute(
+  srtpConfig: SrtpConfig,
+  options: SdesCryptoOptions = {}
+): string {
+  const profile = srtpConfig.profile ?? 0x0001;
+  const suite = SDES_SUITES.find((candidate) => candidate.profile === profile);
+  if (!suite) {
+    throw new Error(`SRTP profile ${profile} has no SDES crypto suite`);
+  }
+  if (srtpConfig.masterKey.length !== suite.keySize ||
+    srtpConfig.masterSalt.length !== suite.saltSize) {
+    throw new Error(
+      `${suite.name} needs a ${suite.keySize} byte master key and ${suite.saltSize} byte salt`
+    );
+  }
+
+  const tag = options.tag ?? DEFAULT_SDES_TAG;
+  if (!Number.isInteger(tag) || tag < 0 || tag > 999999999) {
+    throw new Error(`Invalid SDES tag: ${tag}`);
+  }
+
+  const keyParams = [
+    `inline:${Buffer.concat([srtpConfig.masterKey, srtpConfig.masterSalt]).toString('base64')}`,
+  ];
+  const lifetime = options.lifetime ?? srtpConfig.keyLifetime;
+  if (lifetime !== undefined) {
+    if (!Number.isSafeInteger(lifetime) || lifetime <= 0) {
+      throw new Error(`Invalid SDES key lifetime: ${lifetime}`);
+    }
+    keyParams.push(formatLifetime(lifetime));
+  }
+  const mki = options.mki ?? srtpConfig.mki;
+  if (mki !== undefined) {
+    const mkiLength = options.mkiLength ?? srtpConfig.mkiLength ?? DEFAULT_SRTP_MKI_LENGTH;
+    encodeSrtpMki(mki, mkiLength);
+    keyParams.push(`${mki}:${mkiLength}`);
+  }
+
+  return `crypto:${tag} ${suite.name} ${keyParams.join('|')}`;
+}
+
+/**
+ * Parse an SDES crypto attribute (RFC 4568) into an SRTP configuration
+ *
+ * Accepts the attribute with or without the leading `a=`, as found in
+ * T140SdpDescription.attributes. Only the first key parameter is used
+ * when several are listed. Suites this library cannot use, such as
+ * AES_CM_128_HMAC_SHA1_32, are rejected, so an offer's other crypto
+ * attributes can be tried instead.
+ *
+ * @param attribute The crypto attribute
+ * @returns The tag, suite, SRTP configuration (with the lifetime and MKI
+ * as `keyLifetime`, `mki` and `mkiLength`) and session parameters
+ * @throws Error if the attribute is malformed, the suite is unsupported, or the
+ * inline key has the wrong size for the suite
+ */
+export function parseSdesCryptoAttribute(attribute: string): SdesCryptoAttribute {
+  const [tagValue, suiteName, keyParamList, ...sessionParams] = attribute.trim()
+    .replace(ATTRIBUTE_PREFIX, '')
+    .split(/\s+/);
+  if (!ATTRIBUTE_PREFIX.test(attribute.trim()) || !/^\d{1,9}$/.test(tagValue) || !keyParamList) {
+    throw new Error(`Malformed SDES crypto attribute: ${attribute}`);
+  }
+
+  const suite = SDES_SUITES.find((candidate) => candidate.name === suiteName.toUpperCase());
+  if (!suite) {
+    throw new Error(`Unsupported SDES crypto suite: ${suiteName}`);
+  }
+
+  const [keyInfo, ...keyExtras] = keyParamList.split(';')[0].split('|');
+  const inline = /^inline:([A-Za-z0-9+/]+={0,2})$/.exec(keyInfo);
+  if (!inline) {
+    throw new Error(`SDES key parameter must be inline: ${keyInfo}`);
+  }
+  const keyAndSalt = Buffer.from(inline[1], 'base64');
+  if (keyAndSalt.length !== suite.keySize + suite.saltSize) {
+    throw new Error(
+      `${suite.name} needs ${suite.keySize + suite.saltSize} bytes of key and salt, ` +
+      `got ${keyAndSalt.length}`
+    );
+  }
+
+  const result: SdesCryptoAttribute = {
+    sessionParams,
+    tag: Number(tagValue),
+    suite: suite.name,
+    srtpConfig: {
+      masterKey: keyAndSalt.slice(0, suite.keySize),
+      masterSalt: keyAndSalt.slice(suite.keySize),
+      profile: suite.profile,
+    },
+  };
+
+  for (const extra of keyExtras) {
+    const mki = /^(\d+):(\d+)$/.exec(extra);
+    if (mki) {
+      encodeSrtpMki(Number(mki[1]), Number(mki[2]));
+      result.mki = Number(mki[1]);
+      result.mkiLength = Number(mki[2]);
+      result.srtpConfig.mki = result.mki;
+      result.srtpConfig.mkiLength = result.mkiLength;
+    } else if (result.lifetime === undefined && result.mki === undefined) {
+      result.lifetime = parseLifetime(extra);
+      result.srtpConfig.keyLifetime = result.lifetime;
+    } else {
+      throw new Error(`Malformed SDES key parameter: ${keyParamList}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,323 @@
+import {
+  RtpConfig,
+  SdpDirection,
+  SdpOptions,
+  T140SdpDescription,
+} from '../interfaces';
+import {
+  DEFAULT_FEC_PAYLOAD_TYPE,
+  DEFAULT_REDUNDANCY_LEVEL,
+  DEFAULT_RED_PAYLOAD_TYPE,
+  DEFAULT_SDP_PROTOCOL,
+  DEFAULT_T140_PAYLOAD_TYPE,
+  SDP_LINE_ENDING,
+  T140_CLOCK_RATE,
+} from './constants';
+
+const DIRECTIONS: SdpDirection[] = ['sendrecv', 'sendonly', 'recvonly', 'inactive'];
+
+/**
+ * The direction an answerer uses for an offered direction
+ */
+const ANSWER_DIRECTIONS: Record<SdpDirection, SdpDirection> = {
+  sendrecv: 'sendrecv',
+  sendonly: 'recvonly',
+  recvonly: 'sendonly',
+  inactive: 'inactive',
+};
+
+/**
+ * The c= line for an address, IPv6 if it contains a colon
+ */
+function connectionLine(address: string): string {
+  return `c=IN ${address.includes(':') ? 'IP6' : 'IP4'} ${address}`;
+}
+
+/**
+ * Build the m=text section of an SDP description (RFC 4103 §6)
+ *
+ * RED is listed first when enabled, so it is preferred over plain t140:
+ * ```
+ * m=text 5004 RTP/AVP 98 96
+ * c=IN IP4 192.0.2.1
+ * a=rtpmap:98 red/1000
+ * a=fmtp:98 96/96/96
+ * a=rtpmap:96 t140/1000
+ * a=fmtp:96 cps=30
+ * a=sendrecv
+ * ```
+ * FEC (ulpfec), RTX and rtcp-mux are described too when the configuration
+ * enables them.
+ *
+ * @param rtpConfig The configuration the local transport is created with
+ * @param options Address, port and other SDP details
+ * @returns The media section, each line ending in CRLF
+ */
+export function createT140MediaSection(rtpConfig: RtpConfig, options: SdpOptions): string {
+  const payloadType = rtpConfig.payloadType ?? DEFAULT_T140_PAYLOAD_TYPE;
+  const formats: number[] = [];
+  const attributes: string[] = [];
+
+  if (rtpConfig.redEnabled) {
+    // Primary plus one entry per redundant generation
+    const redPayloadType = rtpConfig.redPayloadType ?? DEFAULT_RED_PAYLOAD_TYPE;
+    const generations = (rtpConfig.redundancyLevel ?? DEFAULT_REDUNDANCY_LEVEL) + 1;
+    const redFormats = Array.from({ length: generations }, () => payloadType).join('/');
+    formats.push(redPayloadType);
+    attributes.push(
+      `rtpmap:${redPayloadType} red/${T140_CLOCK_RATE}`,
+      `fmtp:${redPayloadType} ${redFormats}`
+    );
+  }
+
+  formats.push(payloadType);
+  attributes.push(`rtpmap:${payloadType} t140/${T140_CLOCK_RATE}`);
+  const cps = options.cps ?? rtpConfig.charRateLimit;
+  if (cps) {
+    attributes.push(`fmtp:${payloadType} cps=${cps}`);
+  }
+
+  if (rtpConfig.fecEnabled) {
+    const fecPayloadType = rtpConfig.fecPayloadType ?? DEFAULT_FEC_PAYLOAD_TYPE;
+    formats.push(fecPayloadType);
+    attributes.push(`rtpmap:${fecPayloadType} ulpfec/${T140_CLOCK_RATE}`);
+  }
+
+  if (rtpConfig.rtxPayloadType !== undefined) {
+    formats.push(rtpConfig.rtxPayloadType);
+    attributes.push(
+      `rtpmap:${rtpConfig.rtxPayloadType} rtx/${T140_CLOCK_RATE}`,
+      `fmtp:${rtpConfig.rtxPayloadType} apt=${payloadType}`
+    );
+  }
+
+  if (rtpConfig.rtcpMux) {
+    attributes.push('rtcp-mux');
+  }
+  attributes.push(options.direction ?? 'sendrecv', ...(options.attributes ?? []));
+
+  const lines = [
+    `m=text ${options.port} ${options.protocol ?? DEFAULT_SDP_PROTOCOL} ${formats.join(' ')}`,
+    connectionLine(options.address),
+    ...attributes.map((attribute) => `a=${attribute}`),
+  ];
+  return lines.map((line) => line + SDP_LINE_ENDING).join('');
+}
+
+/**
+ * Build a complete SDP description with a single m=text section
+ *
+ * @param rtpConfig The configuration the local transport is created with
+ * @param options Address, port and other SDP details
+ * @returns The SDP, each line ending in CRLF
+ */
+export function createT140Sdp(rtpConfig: RtpConfig, options: SdpOptions): string {
+  const sessionId = options.sessionId ?? String(Date.now());
+  const addressType = options.address.includes(':') ? 'IP6' : 'IP4';
+  const sessionLines = [
+    'v=0',
+    `o=- ${sessionId} ${options.sessionVersion ?? 1} IN ${addressType} ${options.address}`,
+    `s=${options.sessionName ?? '-'}`,
+    't=0 0',
+  ];
+  return sessionLines.map((line) => line + SDP_LINE_ENDING).join('') +
+    createT140MediaSection(rtpConfig, options);
+}
+
+/**
+ * Parse the first m=text section of a remote SDP offer or answer
+ *
+ * The returned rtpConfig carries the payload types the remote party uses
+ * (t140, and red, ulpfec and rtx if listed), the RED redundancy depth, its
+ * cps limit as charRateLimit and its rtcp-mux / a=rtcp settings, ready to
+ * be merged into the configuration of a T140RtpTransport. The remote
+ * address comes from the text section's own c= line, or else the
+ * session-level one before the first m= line.
+ *
+ * @param sdp The SDP text
+ * @returns The negotiated media description
+ * @throws Error if there is no m=text section, no connection address or no t140 format
+ */
+export function parseT140Sdp(sdp: string): T140SdpDescription {
+  const lines = sdp.split(/\r?\n/).map((line) => line.trim()).filter((line) => line);
+
+  let sessionAddress: string | undefined;
+  let mediaLine: string | undefined;
+  let mediaAddress: string | undefined;
+  // Whether the lines so far are session-level, before the first m= line
+  let sessionLevel = true;
+  const attributes: string[] = [];
+
+  for (const line of lines) {
+    if (line.startsWith('m=')) {
+      if (mediaLine) {
+        // Only the first text section is used
+        break;
+      }
+      sessionLevel = false;
+      if (line.startsWith('m=text ')) {
+        mediaLine = line;
+      }
+      continue;
+    }
+
+    if (line.startsWith('c=')) {
+      // The c= line of another media section says nothing about text
+      const address = line.split(/\s+/)[2]?.split('/')[0];
+      if (mediaLine) {
+        mediaAddress = address;
+      } else if (sessionLevel) {
+        sessionAddress = address;
+      }
+    } else if (line.startsWith('a=') && mediaLine) {
+      attributes.push(line.slice(2));
+    }
+  }
+
+  if (!mediaLine) {
+    throw new Error('No m=text section in SDP');
+  }
+  const [, port, protocol, ...formatList] = mediaLine.split(/\s+/);
+  const remoteAddress = mediaAddress ?? sessionAddress;
+  if (!remoteAddress) {
+    throw new Error('No connection address for the m=text section');
+  }
+
+  const formats = formatList.map(Number);
+  const encodings = new Map<number, string>();
+  const formatParameters = new Map<number, string>();
+  let rtcpPort: number | undefined;
+  let rtcpMux = false;
+  let direction: SdpDirection = 'sendrecv';
+
+  for (const attribute of attributes) {
+    const rtpmap = /^rtpmap:(\d+)\s+([^/\s]+)/.exec(attribute);
+    const fmtp = /^fmtp:(\d+)\s+(.*)$/.exec(attribute);
+    const rtcp = /^rtcp:(\d+)/.exec(attribute);
+    if (rtpmap) {
+      encodings.set(Number(rtpmap[1]), rtpmap[2].toLowerCase());
+    } else if (fmtp) {
+      formatParameters.set(Number(fmtp[1]), fmtp[2].trim());
+    } else if (rtcp) {
+      rtcpPort = Number(rtcp[1]);
+    } else if (attribute === 'rtcp-mux') {
+      rtcpMux = true;
+    } else if ((DIRECTIONS as string[]).includes(attribute)) {
+      direction = attribute as SdpDirection;
+    }
+  }
+
+  const formatsWith = (encoding: string) => formats.filter((pt) => encodings.get(pt) === encoding);
+  const payloadType = formatsWith('t140')[0];
+  if (payloadType === undefined) {
+    throw new Error('No t140 format in the m=text section');
+  }
+
+  const rtpConfig: RtpConfig = { payloadType, redEnabled: false };
+
+  const redPayloadType = formatsWith('red')[0];
+  if (redPayloadType !== undefined) {
+    // "96/96/96" is the primary plus two redundant generations
+    const generations = formatParameters.get(redPayloadType)?.split('/').length;
+    rtpConfig.redEnabled = true;
+    rtpConfig.redPayloadType = redPayloadType;
+    rtpConfig.redundancyLevel = generations ? generations - 1 : DEFAULT_REDUNDANCY_LEVEL;
+  }
+
+  const t140Parameters = formatParameters.get(payloadType) ?? '';
+  const cps = /(?:^|;)\s*cps=(\d+)/.exec(t140Parameters);
+  if (cps) {
+    rtpConfig.charRateLimit = Number(cps[1]);
+  }
+
+  const fecPayloadType = formatsWith('ulpfec')[0];
+  if (fecPayloadType !== undefined) {
+    rtpConfig.fecEnabled = true;
+    rtpConfig.fecPayloadType = fecPayloadType;
+  }
+
+  const rtxPayloadType = formatsWith('rtx').find((pt) => {
+    return new RegExp(`(?:^|;)\\s*apt=${payloadType}(?:;|$)`).test(formatParameters.get(pt) ?? '');
+  });
+  if (rtxPayloadType !== undefined) {
+    rtpConfig.rtxPayloadType = rtxPayloadType;
+  }
+
+  if (rtcpMux) {
+    rtpConfig.rtcpMux = true;
+  } else if (rtcpPort !== undefined) {
+    rtpConfig.rtcpPort = rtcpPort;
+  }
+
+  return {
+    remoteAddress,
+    protocol,
+    direction,
+    rtpConfig,
+    attributes,
+    remotePort: Number(port.split('/')[0]),
+  };
+}
+
+/**
+ * Combine the local configuration with a remote party's description
+ *
+ * The result sends with the remote party's payload type numbers. RED (at
+ * the smaller redundancy depth), FEC, RTX and rtcp-mux stay enabled only if
+ * both sides enable them, and the character rate is capped at the remote
+ * party's cps. Other local settings, such as ssrc, are kept.
+ *
+ * @param local The local configuration
+ * @param remote The rtpConfig of a parsed remote description
+ * @returns The configuration for sending to the remote party
+ */
+export function negotiateT140RtpConfig(local: RtpConfig, remote: RtpConfig): RtpConfig {
+  const rateLimits = [local.charRateLimit, remote.charRateLimit]
+    .filter((limit): limit is number => Boolean(limit));
+
+  return {
+    ...local,
+    payloadType: remote.payloadType,
+    charRateLimit: rateLimits.length ? Math.min(...rateLimits) : undefined,
+    redEnabled: Boolean(local.redEnabled && remote.redEnabled),
+    redPayloadType: remote.redPayloadType ?? local.redPayloadType,
+    redundancyLevel: Math.min(
+      local.redundancyLevel ?? DEFAULT_REDUNDANCY_LEVEL,
+      remote.redundancyLevel ?? DEFAULT_REDUNDANCY_LEVEL
+    ),
+    fecEnabled: Boolean(local.fecEnabled && remote.fecEnabled),
+    fecPayloadType: remote.fecPayloadType ?? local.fecPayloadType,
+    rtxPayloadType: local.rtxPayloadType !== undefined ? remote.rtxPayloadType : undefined,
+    rtcpMux: Boolean(local.rtcpMux && remote.rtcpMux),
+    rtcpPort: remote.rtcpPort,
+  };
+}
+
+/**
+ * Build an SDP answer to a remote offer
+ *
+ * The answer uses the offer's payload type numbers and only accepts what
+ * both sides support (see negotiateT140RtpConfig). It advertises the local
+ * cps limit.
+ *
+ * @param offer The remote SDP offer
+ * @param rtpConfig The local configuration
+ * @param options Local address, port and other SDP details
+ * @returns The SDP answer
+ */
+export function createT140SdpAnswer(
+  offer: string,
+  rtpConfig: RtpConfig,
+  options: SdpOptions
+): string {
+  const description = parseT140Sdp(offer);
+  const answerConfig = {
+    ...negotiateT140RtpConfig(rtpConfig, description.rtpConfig),
+    charRateLimit: rtpConfig.charRateLimit,
+  };
+
+  return createT140Sdp(answerConfig, {
+    ...options,
+    direction: options.direction ?? ANSWER_DIRECTIONS[description.direction],
+  });
+}
@@ -1,8 +1,16 @@
 import * as crypto from 'crypto';
+import { SrtpProtectionProfile } from '../interfaces';
 import {
+  CNAME_RANDOM_BYTES,
+  DEFAULT_SRTP_MKI_LENGTH,
   PBKDF2_ITERATIONS,
   PBKDF2_TOTAL_DERIVED_SIZE,
+  SRTP_AEAD_MASTER_SALT_SIZE,
+  SRTP_AES256_MASTER_KEY_SIZE,
+  SRTP_HMAC_SHA1_80_TAG_SIZE,
   SRTP_MASTER_KEY_SIZE,
+  SRTP_MASTER_SALT_SIZE,
+  SRTP_MAX_MKI_LENGTH,
 } from './constants';
 
 // Size of SSRC in bytes (32-bit = 4 bytes)
@@ -20,6 +28,16 @@ export function generateSecureSSRC(): number {
   return randomBytes.readUInt32BE(SSRC_BUFFER_OFFSET);
 }
 
+/**
+ * Generate a random RTCP canonical name (CNAME) per RFC 7022
+ *
+ * The CNAME identifies this endpoint in SDES packets without revealing
+ * a user or host name.
+ */
+export function generateCname(): string {
+  return crypto.randomBytes(CNAME_RANDOM_BYTES).toString('base64');
+}
+
 // Size of random salt for PBKDF2 in bytes (minimum 16 bytes recommended)
 const PBKDF2_SALT_SIZE = 32;
 
@@ -68,3 +86,62 @@ export function createSrtpKeysFromPassphrase(
 
   return { masterKey, masterSalt, salt };
 }
+
+/**
+ * Generate a random SRTP master key and salt sized for a protection profile
+ *
+ * @param profile The protection profile (default: 1, AES128_CM_HMAC_SHA1_80)
+ */
+export function generateSrtpMasterKeys(
+  profile: SrtpProtectionProfile = 0x0001
+): { masterKey: Buffer; masterSalt: Buffer } {
+  const aead = profile === 0x0007 || profile === 0x0008;
+  const keySize = profile === 0x0008 ? SRTP_AES256_MASTER_KEY_SIZE : SRTP_MASTER_KEY_SIZE;
+  const saltSize = aead ? SRTP_AEAD_MASTER_SALT_SIZE : SRTP_MASTER_SALT_SIZE;
+  return { masterKey: crypto.randomBytes(keySize), masterSalt: crypto.randomBytes(saltSize) };
+}
+
+// Bytes of an MKI value that fit in a safe integer
+const MKI_VALUE_MAX_BYTES = 6;
+
+/**
+ * Encode a master key identifier as the MKI field of SRTP packets (RFC 3711 §3.1)
+ *
+ * @param mki The MKI value
+ * @param mkiLength Field length in bytes (default: 4)
+ * @returns The big-endian MKI field
+ * @throws Error if the length is out of range or the value does not fit
+ */
+export function encodeSrtpMki(mki: number, mkiLength: number = DEFAULT_SRTP_MKI_LENGTH): Buffer {
+  if (!Number.isInteger(mkiLength) || mkiLength < 1 || mkiLength > SRTP_MAX_MKI_LENGTH) {
+    throw new Error(`MKI length must be 1-${SRTP_MAX_MKI_LENGTH} bytes, got ${mkiLength}`);
+  }
+  const valueBytes = Math.min(mkiLength, MKI_VALUE_MAX_BYTES);
+  if (!Number.isInteger(mki) || mki < 0 || mki >= 2 ** (8 * valueBytes)) {
+    throw new Error(`MKI ${mki} does not fit in ${mkiLength} bytes`);
+  }
+
+  const field = Buffer.alloc(mkiLength);
+  field.writeUIntBE(mki, mkiLength - valueBytes, valueBytes);
+  return field;
+}
+
+/**
+ * Add the MKI field to a protected SRTP or SRTCP packet: in front of the
+ * authentication tag for AES-CM (RFC 3711 §3.1), last for AEAD (RFC 7714)
+ *
+ * @param packet The packet as protected without an MKI
+ * @param mki The encoded MKI field
+ * @param profile The protection profile the packet was protected with
+ */
+export function addSrtpMki(
+  packet: Buffer,
+  mki: Buffer,
+  profile: SrtpProtectionProfile = 0x0001
+): Buffer {
+  if (profile === 0x0007 || profile === 0x0008) {
+    return Buffer.concat([packet, mki]);
+  }
+  const tagStart = packet.length - SRTP_HMAC_SHA1_80_TAG_SIZE;
+  return Buffer.concat([packet.slice(0, tagStart), mki, packet.slice(tagStart)]);
+}
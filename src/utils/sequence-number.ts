@@ -0,0 +1,30 @@
+import { RTP_MAX_SEQUENCE_NUMBER, RTP_SEQUENCE_HALF_RANGE } from './constants';
+
+/**
+ * Signed distance from one 16-bit RTP sequence number to another,
+ * accounting for wraparound (RFC 3550 §A.1)
+ *
+ * @param from The reference sequence number
+ * @param to The sequence number to compare against the reference
+ * @returns A value in [-32768, 32767]; positive when `to` is newer than `from`
+ * @example
+ * sequenceNumberDistance(65535, 1) // 2
+ * sequenceNumberDistance(1, 65535) // -2
+ */
+export function sequenceNumberDistance(from: number, to: number): number {
+  const diff = (to - from + RTP_MAX_SEQUENCE_NUMBER) % RTP_MAX_SEQUENCE_NUMBER;
+  return diff >= RTP_SEQUENCE_HALF_RANGE ? diff - RTP_MAX_SEQUENCE_NUMBER : diff;
+}
+
+/**
+ * Advance a 16-bit RTP sequence number, wrapping at 65536
+ *
+ * @param sequenceNumber The current sequence number
+ * @param step How far to advance (may be negative)
+ * @returns The wrapped sequence number
+ */
+export function addToSequenceNumber(sequenceNumber: number, step: number = 1): number {
+  return (
+    ((sequenceNumber + step) % RTP_MAX_SEQUENCE_NUMBER) + RTP_MAX_SEQUENCE_NUMBER
+  ) % RTP_MAX_SEQUENCE_NUMBER;
+}
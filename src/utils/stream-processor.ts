@@ -78,18 +78,25 @@ function isAsyncIterable(
  * @param stream The stream to process
  * @param options Resolved processing options
  * @param callbacks Transport-specific callbacks
+ * @returns A function that detaches the processor from the stream; no further
+ * callbacks are made after it is called
  */
 export function attachStreamProcessor(
   stream: TextDataStream,
   options: ResolvedStreamOptions,
   callbacks: StreamProcessorCallbacks
-): void {
+): () => void {
   let textBuffer = '';
+  let detached = false;
   if (isAsyncIterable(stream)) {
     // Async iterable path (modern LLM SDK streams)
     (async () => {
       try {
         for await (const chunk of stream) {
+          if (detached) {
+            // Leaving the loop calls return() on the iterator, ending the source
+            return;
+          }
           const { text, metadata } = extractTextFromChunk(chunk, options.handleMetadata);
 
           if (options.handleMetadata && metadata) {
@@ -124,12 +131,14 @@ export function attachStreamProcessor(
             callbacks.sendText(textToSend);
           }
         }
+        if (detached) return;
         if (textBuffer) {
           callbacks.sendText(textBuffer);
         }
         callbacks.onStreamEnd?.();
         callbacks.close();
       } catch (err) {
+        if (detached) return;
         // Equivalent to 'error' event
         const error = err instanceof Error
           ? err : new Error(String(err));
@@ -137,17 +146,20 @@ export function attachStreamProcessor(
         callbacks.close();
       }
     })().catch((err) => {
+      if (detached) return;
       // Defensive catch for unhandled promise rejections
       const error = err instanceof Error
         ? err : new Error(String(err));
       options.onError?.(error);
       callbacks.close();
     });
-    return;
+    return () => {
+      detached = true;
+    };
   }
 
   // EventEmitter path (existing behavior — unchanged)
-  stream.on('data', (chunk: unknown) => {
+  const onData = (chunk: unknown) => {
     const { text, metadata } = extractTextFromChunk(chunk, options.handleMetadata);
 
     if (options.handleMetadata && metadata) {
@@ -182,16 +194,27 @@ export function attachStreamProcessor(
     } else {
       callbacks.sendText(textToSend);
     }
-  });
-  stream.on('end', () => {
+  };
+  const onEnd = () => {
     if (textBuffer) {
       callbacks.sendText(textBuffer);
     }
     callbacks.onStreamEnd?.();
     callbacks.close();
-  });
-  stream.on('error', (err: Error) => {
+  };
+  const onError = (err: Error) => {
+    // Stays attached after detaching so late stream errors are not unhandled
+    if (detached) return;
     options.onError?.(err);
     callbacks.close();
-  });
+  };
+  stream.on('data', onData);
+  stream.on('end', onEnd);
+  stream.on('error', onError);
+
+  return () => {
+    detached = true;
+    stream.removeListener('data', onData);
+    stream.removeListener('end', onEnd);
+  };
 }
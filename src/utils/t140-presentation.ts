@@ -0,0 +1,213 @@
+import { EventEmitter } from 'events';
+import { toGraphemes } from './backspace-processing';
+import {
+  BACKSPACE,
+  BELL,
+  BYTE_ORDER_MARK,
+  CONTROL_SEQUENCE_INTRODUCER,
+  ESCAPE,
+  GRAPHEME_ERASE_LOOKBEHIND,
+  LINE_SEPARATOR,
+  START_OF_STRING,
+  STRING_TERMINATOR,
+} from './constants';
+
+/**
+ * A single edit that turns the previous text into the current text
+ *
+ * Offsets and counts are in UTF-16 code units, like String.prototype.slice.
+ */
+export interface T140PresentationDiff {
+  offset: number; // Where the edit starts
+  deleteCount: number; // Code units removed from the previous text at offset
+  insert: string; // Text inserted at offset
+}
+
+/**
+ * Where the control code parser is between writes
+ */
+type ParserState = 'text' | 'escape' | 'csi' | 'string';
+
+/**
+ * Receive-side presentation model for T.140 text (ITU-T T.140, RFC 4103)
+ *
+ * Consumes text as it arrives — e.g. from T140RtpReceiver's 'data' event —
+ * and keeps the text as it should be displayed:
+ * - BS erases the last grapheme cluster, also when it arrived in an earlier
+ *   packet, and erases a line break when the current line is empty
+ * - U+2028 LINE SEPARATOR, CR LF, and lone CR or LF all become '\n'; a CR LF
+ *   pair split across two writes still counts as one line break
+ * - U+FEFF (BOM), sent as a keepalive, is dropped
+ * - ESC and CSI sequences (e.g. graphic rendition), SOS...ST strings and other
+ *   C0/C1 control codes are removed from the text
+ *
+ * Events:
+ * - 'change': Emitted after each write that changes the text
+ *   (text: string, diff: T140PresentationDiff)
+ * - 'bell': Emitted when BEL is received
+ *
+ * Example usage:
+ * ```typescript
+ * const presentation = new T140Presentation();
+ * receiver.on('data', (text) => presentation.write(text));
+ * presentation.on('change', (text, diff) => render(text));
+ * ```
+ */
+export class T140Presentation extends EventEmitter {
+  private current: string = '';
+  private state: ParserState = 'text';
+  private afterCarriageReturn: boolean = false;
+
+  /**
+   * The text as it should currently be displayed
+   */
+  get text(): string {
+    return this.current;
+  }
+
+  /**
+   * The displayed text split into lines
+   */
+  get lines(): string[] {
+    return this.current.split('\n');
+  }
+
+  /**
+   * Apply incoming T.140 text to the display state
+   *
+   * @param text Text as received, possibly containing control codes
+   */
+  write(text: string): void {
+    const previous = this.current;
+    let lowestLength = previous.length;
+
+    for (const char of text) {
+      this._consume(char);
+      lowestLength = Math.min(lowestLength, this.current.length);
+    }
+
+    if (this.current === previous) {
+      return;
+    }
+
+    this.emit('change', this.current, {
+      offset: lowestLength,
+      deleteCount: previous.length - lowestLength,
+      insert: this.current.slice(lowestLength),
+    });
+  }
+
+  /**
+   * Clear the display and any partially received control sequence
+   */
+  clear(): void {
+    const previous = this.current;
+    this.current = '';
+    this.state = 'text';
+    this.afterCarriageReturn = false;
+
+    if (previous !== '') {
+      this.emit('change', '', { offset: 0, deleteCount: previous.length, insert: '' });
+    }
+  }
+
+  /**
+   * Feed one code point through the control code parser
+   */
+  private _consume(char: string): void {
+    if (this.state === 'escape') {
+      // ESC [ starts a CSI sequence; any other ESC sequence is one character long
+      this.state = char === '[' ? 'csi' : 'text';
+      return;
+    }
+
+    if (this.state === 'csi') {
+      // Parameter and intermediate bytes continue the sequence; a final byte ends it
+      const code = char.charCodeAt(0);
+      if (code >= 0x40 && code <= 0x7e) {
+        this.state = 'text';
+      }
+      return;
+    }
+
+    if (this.state === 'string') {
+      if (char === STRING_TERMINATOR) {
+        this.state = 'text';
+      }
+      return;
+    }
+
+    const afterCarriageReturn = this.afterCarriageReturn;
+    this.afterCarriageReturn = false;
+
+    switch (char) {
+      case BACKSPACE:
+        this._erase();
+        return;
+      case '\r':
+        this.current += '\n';
+        this.afterCarriageReturn = true;
+        return;
+      case '\n':
+        if (!afterCarriageReturn) {
+          this.current += '\n';
+        }
+        return;
+      case LINE_SEPARATOR:
+        this.current += '\n';
+        return;
+      case BYTE_ORDER_MARK:
+        // Keepalive; keep waiting for the LF of a CR LF pair
+        this.afterCarriageReturn = afterCarriageReturn;
+        return;
+      case BELL:
+        this.emit('bell');
+        return;
+      case ESCAPE:
+        this.state = 'escape';
+        return;
+      case CONTROL_SEQUENCE_INTRODUCER:
+        this.state = 'csi';
+        return;
+      case START_OF_STRING:
+        this.state = 'string';
+        return;
+    }
+
+    if (this._isControl(char)) {
+      return;
+    }
+
+    this.current += char;
+  }
+
+  /**
+   * Remove the last grapheme cluster, or the last line break on an empty line
+   */
+  private _erase(): void {
+    if (this.current === '') {
+      return;
+    }
+
+    if (this.current.endsWith('\n')) {
+      this.current = this.current.slice(0, -1);
+      return;
+    }
+
+    // Only the end of the current line can hold the last grapheme
+    const lineStart = this.current.lastIndexOf('\n') + 1;
+    const tailStart = Math.max(lineStart, this.current.length - GRAPHEME_ERASE_LOOKBEHIND);
+    const graphemes = toGraphemes(this.current.slice(tailStart));
+    const last = graphemes[graphemes.length - 1];
+    this.current = this.current.slice(0, this.current.length - last.length);
+  }
+
+  /**
+   * C0 and C1 control codes (other than those handled above) and DEL
+   * have no presentation of their own; TAB is kept
+   */
+  private _isControl(char: string): boolean {
+    const code = char.charCodeAt(0);
+    return (code < 0x20 && char !== '\t') || (code >= 0x7f && code <= 0x9f);
+  }
+}
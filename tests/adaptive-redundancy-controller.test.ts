@@ -0,0 +1,192 @@
+import { AdaptiveDecision } from '../src/interfaces';
+import { AdaptiveRedundancyController } from '../src/rtp/adaptive-redundancy-controller';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { T140RtpTransport } from '../src/rtp/t140-rtp-transport';
+
+/**
+ * Custom transport that captures sent packets
+ */
+class CaptureTransport {
+  public sentPackets: Buffer[] = [];
+
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    this.sentPackets.push(data);
+    if (callback) callback();
+  }
+}
+
+describe('T140RtpTransport adaptive settings', () => {
+  let customTransport: CaptureTransport;
+  let transport: T140RtpTransport;
+
+  beforeEach(() => {
+    customTransport = new CaptureTransport();
+    transport = new T140RtpTransport('127.0.0.1', 5004, {
+      customTransport,
+      redEnabled: true,
+      redundancyLevel: 3,
+      fecGroupSize: 3,
+    });
+  });
+
+  test('lowers the number of RED generations from the next packet', () => {
+    ['a', 'b', 'c', 'd'].forEach(text => transport.sendText(text));
+    transport.setRedundancyLevel(1);
+    transport.sendText('e');
+
+    const last = customTransport.sentPackets[customTransport.sentPackets.length - 1];
+    // One redundant block header, the primary header, then 'd' and 'e'
+    expect(parseRtpPacket(last).payload.length).toBe(4 + 1 + 2);
+    expect(transport.getConfig().redundancyLevel).toBe(1);
+  });
+
+  test('sends an FEC packet for a partial group when FEC is switched off', () => {
+    transport.setFecEnabled(true);
+    transport.sendText('a');
+    transport.sendText('b');
+    transport.setFecEnabled(false);
+
+    const payloadTypes = customTransport.sentPackets.map(p => parseRtpPacket(p).payloadType);
+    expect(payloadTypes.filter(pt => pt === 97)).toHaveLength(1);
+    expect(transport.getConfig().fecEnabled).toBe(false);
+  });
+
+  test('validates new settings', () => {
+    expect(() => transport.setRedundancyLevel(0)).toThrow('positive integer');
+    expect(() => transport.setCharRateLimit(0)).toThrow('must be positive');
+    expect(transport.getCharRateLimit()).toBeUndefined();
+    transport.setCharRateLimit(12);
+    expect(transport.getCharRateLimit()).toBe(12);
+  });
+});
+
+describe('AdaptiveRedundancyController', () => {
+  let transport: T140RtpTransport;
+  let controller: AdaptiveRedundancyController;
+  let decisions: AdaptiveDecision[];
+
+  function create(config = {}, rtpConfig = {}): void {
+    transport = new T140RtpTransport('127.0.0.1', 5004, {
+      customTransport: new CaptureTransport(),
+      redEnabled: true,
+      redundancyLevel: 2,
+      charRateLimit: 30,
+      ...rtpConfig,
+    });
+    controller = new AdaptiveRedundancyController(transport, { smoothing: 1, ...config });
+    decisions = [];
+    controller.on('decision', decision => decisions.push(decision));
+  }
+
+  test('raises redundancy on a lossy path, then switches FEC on', () => {
+    create({ maxRedundancyLevel: 3 });
+
+    controller.update({ fractionLost: 0.15 });
+    controller.update({ fractionLost: 0.15 });
+
+    expect(decisions.map(d => [d.setting, d.value])).toEqual([
+      ['redundancyLevel', 3],
+      ['fecEnabled', true],
+    ]);
+    expect(decisions[0].reason).toBe('loss 15.0% at or above 3.0%');
+    expect(transport.getConfig().redundancyLevel).toBe(3);
+    expect(transport.getConfig().fecEnabled).toBe(true);
+  });
+
+  test('leaves FEC alone when not allowed', () => {
+    create({ allowFec: false }, { redEnabled: false });
+
+    controller.update({ fractionLost: 0.15 });
+
+    expect(decisions).toEqual([]);
+    expect(transport.getConfig().fecEnabled).toBe(false);
+  });
+
+  test('lowers protection after enough clean reports', () => {
+    create({ stableReports: 2 }, { fecEnabled: true, redundancyLevel: 3 });
+
+    controller.update({ fractionLost: 0 });
+    expect(decisions).toEqual([]);
+    controller.update({ fractionLost: 0 });
+    controller.update({ fractionLost: 0 });
+    controller.update({ fractionLost: 0 });
+
+    expect(decisions.map(d => [d.setting, d.previous, d.value])).toEqual([
+      ['fecEnabled', true, false],
+      ['redundancyLevel', 3, 2],
+    ]);
+  });
+
+  test('moderate loss holds protection and resets the clean count', () => {
+    create({ stableReports: 2 });
+
+    controller.update({ fractionLost: 0 });
+    controller.update({ fractionLost: 0.01 });
+    controller.update({ fractionLost: 0 });
+
+    expect(decisions).toEqual([]);
+  });
+
+  test('cuts the cps cap under congestion and restores it gradually', () => {
+    create({ rateIncreaseStep: 10 });
+
+    controller.update({ fractionLost: 0, roundTripTime: 1500 });
+    expect(decisions).toHaveLength(1);
+    expect(decisions[0]).toMatchObject({
+      setting: 'charRateLimit',
+      previous: 30,
+      value: 22,
+      reason: 'congestion: round-trip time 1500 ms',
+      roundTripTime: 1500,
+    });
+    expect(transport.getCharRateLimit()).toBe(22);
+
+    controller.update({ fractionLost: 0, roundTripTime: 100 });
+    expect(transport.getCharRateLimit()).toBe(30);
+  });
+
+  test('never cuts the rate below the minimum', () => {
+    create({ minCharRateLimit: 20, maxRedundancyLevel: 2, allowFec: false });
+
+    controller.update({ fractionLost: 0.5 });
+    controller.update({ fractionLost: 0.5 });
+
+    expect(transport.getCharRateLimit()).toBe(20);
+    expect(decisions.map(d => d.value)).toEqual([22, 20]);
+  });
+
+  test('smooths loss across reports', () => {
+    create({ smoothing: 0.5 });
+
+    controller.update({ fractionLost: 0 });
+    controller.update({ fractionLost: 0.04 });
+
+    expect(controller.fractionLost).toBeCloseTo(0.02);
+    expect(decisions.filter(d => d.setting === 'redundancyLevel')).toEqual([]);
+  });
+
+  test('follows RTCP receiver reports until stopped', () => {
+    create();
+    const report = {
+      ssrc: 1,
+      reporterSsrc: 2,
+      fractionLost: 0.05,
+      packetsLost: 1,
+      highestSequenceNumber: 10,
+      jitter: 0,
+      lastSenderReport: 0,
+      delaySinceLastSenderReport: 0,
+    };
+
+    transport.emit('receiverReport', report);
+    controller.stop();
+    transport.emit('receiverReport', report);
+
+    expect(decisions.map(d => d.setting)).toEqual(['redundancyLevel']);
+  });
+
+  test('rejects inconsistent configuration', () => {
+    expect(() => create({ minRedundancyLevel: 3, maxRedundancyLevel: 2 })).toThrow();
+    expect(() => create({ smoothing: 0 })).toThrow();
+  });
+});
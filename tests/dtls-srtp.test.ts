@@ -0,0 +1,204 @@
+import * as dgram from 'dgram';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { DtlsCertificate, T140RtpErrorType, TransportStream } from '../src/interfaces';
+import { createDtlsCertificate, getDtlsFingerprint, isDtlsPacket } from '../src/rtp/dtls-srtp';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { SrtpDecryptor } from '../src/rtp/srtp-decryptor';
+import { T140RtpReceiver } from '../src/rtp/t140-rtp-receiver';
+import { T140RtpTransport } from '../src/rtp/t140-rtp-transport';
+
+/**
+ * One end of an in-memory datagram link; what one end sends the other emits as 'data'
+ */
+class LinkedTransport extends EventEmitter implements TransportStream {
+  public peer?: LinkedTransport;
+  public sentPackets: Buffer[] = [];
+
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    this.sentPackets.push(Buffer.from(data));
+    const copy = Buffer.from(data);
+    setImmediate(() => this.peer!.emit('data', copy));
+    if (callback) callback();
+  }
+}
+
+function createLink(): [LinkedTransport, LinkedTransport] {
+  const a = new LinkedTransport();
+  const b = new LinkedTransport();
+  a.peer = b;
+  b.peer = a;
+  return [a, b];
+}
+
+/**
+ * A UDP port that was free a moment ago
+ */
+async function freeUdpPort(): Promise<number> {
+  const socket = dgram.createSocket('udp4');
+  await new Promise<void>(resolve => socket.bind(0, '127.0.0.1', resolve));
+  const { port } = socket.address() as AddressInfo;
+  await new Promise<void>(resolve => socket.close(resolve));
+  return port;
+}
+
+describe('DTLS-SRTP', () => {
+  let clientCertificate: DtlsCertificate;
+  let serverCertificate: DtlsCertificate;
+
+  beforeAll(async () => {
+    clientCertificate = await createDtlsCertificate();
+    serverCertificate = await createDtlsCertificate();
+  });
+
+  test('creates certificates with SDP fingerprints and recognizes DTLS records', () => {
+    expect(clientCertificate.fingerprint).toMatch(/^sha-256 ([0-9A-F]{2}:){31}[0-9A-F]{2}$/);
+    expect(getDtlsFingerprint(clientCertificate.certPem)).toBe(clientCertificate.fingerprint);
+    expect(clientCertificate.fingerprint).not.toBe(serverCertificate.fingerprint);
+    expect(isDtlsPacket(Buffer.from([22, 254, 253]))).toBe(true);
+    expect(isDtlsPacket(Buffer.from([0x80, 96]))).toBe(false);
+  });
+
+  test('negotiates matching keys between two local transports', async () => {
+    const [clientLink, serverLink] = createLink();
+    const client = new T140RtpTransport('127.0.0.1', 5004, { customTransport: clientLink });
+    const server = new T140RtpTransport('127.0.0.1', 5004, {
+      customTransport: serverLink,
+      dtlsSrtp: {
+        role: 'server',
+        certificate: serverCertificate,
+        remoteFingerprint: clientCertificate.fingerprint,
+      },
+    });
+    const serverConnected = new Promise<any>(resolve => server.once('dtlsConnected', resolve));
+
+    const clientKeys = await client.startDtlsSrtp({
+      role: 'client',
+      certificate: clientCertificate,
+      remoteFingerprint: serverCertificate.fingerprint,
+    });
+    const serverKeys = await serverConnected;
+
+    expect(clientKeys.local.masterKey).toEqual(serverKeys.remote.masterKey);
+    expect(clientKeys.local.masterSalt).toEqual(serverKeys.remote.masterSalt);
+    expect(clientKeys.remote.masterKey).toEqual(serverKeys.local.masterKey);
+    expect(clientKeys.local.masterKey).not.toEqual(clientKeys.remote.masterKey);
+
+    client.sendText('hello');
+    const packet = clientLink.sentPackets[clientLink.sentPackets.length - 1];
+    expect(packet.includes(Buffer.from('hello'))).toBe(false);
+    const decrypted = new SrtpDecryptor(serverKeys.remote).decrypt(packet)!;
+    expect(parseRtpPacket(decrypted).payload.toString()).toBe('hello');
+
+    client.close();
+    server.close();
+  });
+
+  test('holds text until the handshake completes', async () => {
+    const [clientLink, serverLink] = createLink();
+    const server = new T140RtpTransport('127.0.0.1', 5004, {
+      customTransport: serverLink,
+      dtlsSrtp: {
+        role: 'server',
+        certificate: serverCertificate,
+        remoteFingerprint: clientCertificate.fingerprint,
+      },
+    });
+    const serverKeys = new Promise<any>(resolve => server.once('dtlsConnected', resolve));
+    const client = new T140RtpTransport('127.0.0.1', 5004, {
+      customTransport: clientLink,
+      dtlsSrtp: {
+        role: 'client',
+        certificate: clientCertificate,
+        remoteFingerprint: serverCertificate.fingerprint,
+      },
+    });
+
+    client.sendText('early');
+    expect(clientLink.sentPackets.every(isDtlsPacket)).toBe(true);
+
+    const keys = await serverKeys;
+    await new Promise(resolve => client.once('dtlsConnected', resolve));
+    const media = clientLink.sentPackets.filter(packet => !isDtlsPacket(packet));
+    expect(media).toHaveLength(1);
+    const decrypted = new SrtpDecryptor(keys.remote).decrypt(media[0])!;
+    expect(parseRtpPacket(decrypted).payload.toString()).toBe('early');
+
+    client.close();
+    server.close();
+  });
+
+  test('holds text sent while the remote hostname is resolved', async () => {
+    const clientPort = await freeUdpPort();
+    const server = new T140RtpTransport('127.0.0.1', clientPort, {
+      localAddress: '127.0.0.1',
+      localPort: 0,
+      dtlsSrtp: {
+        role: 'server',
+        certificate: serverCertificate,
+        remoteFingerprint: clientCertificate.fingerprint,
+      },
+    });
+    const { port: serverPort } = await new Promise<AddressInfo>(
+      resolve => server.once('listening', resolve)
+    );
+    const serverKeys = new Promise<any>(resolve => server.once('dtlsConnected', resolve));
+    const client = new T140RtpTransport('localhost', serverPort, {
+      localAddress: '127.0.0.1',
+      localPort: clientPort,
+    });
+    const dtlsConfig = {
+      role: 'client' as const,
+      certificate: clientCertificate,
+      remoteFingerprint: serverCertificate.fingerprint,
+    };
+
+    const negotiation = client.startDtlsSrtp(dtlsConfig);
+    client.sendText('early');
+    await expect(client.startDtlsSrtp(dtlsConfig)).rejects.toMatchObject({
+      type: T140RtpErrorType.ENCRYPTION_ERROR,
+      message: 'SRTP keys are already set up or being negotiated',
+    });
+
+    const keys = await serverKeys;
+    const receiver = new T140RtpReceiver({ inboundTransport: server, srtpConfig: keys.remote });
+    const text = new Promise(resolve => receiver.once('data', resolve));
+    await negotiation;
+    expect(await text).toBe('early');
+
+    receiver.close();
+    client.close();
+  });
+
+  test('rejects a peer whose certificate does not match the SDP fingerprint', async () => {
+    const [clientLink, serverLink] = createLink();
+    const client = new T140RtpTransport('127.0.0.1', 5004, { customTransport: clientLink });
+    const server = new T140RtpTransport('127.0.0.1', 5004, {
+      customTransport: serverLink,
+      dtlsSrtp: {
+        role: 'server',
+        certificate: serverCertificate,
+        remoteFingerprint: clientCertificate.fingerprint,
+      },
+    });
+    const errors: any[] = [];
+    server.on('error', err => errors.push(err));
+
+    await expect(client.startDtlsSrtp({
+      role: 'client',
+      certificate: clientCertificate,
+      remoteFingerprint: clientCertificate.fingerprint,
+    })).rejects.toMatchObject({
+      type: T140RtpErrorType.ENCRYPTION_ERROR,
+      message: 'DTLS-SRTP handshake failed',
+    });
+
+    client.sendText('secret');
+    expect(clientLink.sentPackets.some(packet => packet.includes(Buffer.from('secret'))))
+      .toBe(false);
+
+    client.close();
+    server.close();
+    expect(errors).toHaveLength(0);
+  });
+});
@@ -0,0 +1,152 @@
+import * as dgram from 'dgram';
+import { promises as dns } from 'dns';
+import { AddressInfo } from 'net';
+import { T140RtpErrorType } from '../src/interfaces';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { T140RtpTransport } from '../src/rtp/t140-rtp-transport';
+import { createStegT140RtpTransport } from '../src/steganography/transport-factory';
+import {
+  getAddressFamily,
+  isValidHostname,
+  openUdpSocket,
+  sortAddressesForHappyEyeballs,
+} from '../src/utils/address';
+
+async function bindServer(type: dgram.SocketType, address: string): Promise<dgram.Socket> {
+  const server = dgram.createSocket(type);
+  await new Promise<void>(resolve => server.bind(0, address, resolve));
+  return server;
+}
+
+function nextMessage(server: dgram.Socket): Promise<Buffer> {
+  return new Promise(resolve => server.once('message', resolve));
+}
+
+describe('address helpers', () => {
+  test('detects the family of IP literals', () => {
+    expect(getAddressFamily('192.0.2.1')).toBe(4);
+    expect(getAddressFamily('2001:db8::1')).toBe(6);
+    expect(getAddressFamily('[::1]')).toBe(6);
+    expect(getAddressFamily('example.com')).toBeUndefined();
+    expect(getAddressFamily('300.1.1.1')).toBeUndefined();
+  });
+
+  test('validates hostnames', () => {
+    expect(isValidHostname('localhost')).toBe(true);
+    expect(isValidHostname('media-1.example.com.')).toBe(true);
+    expect(isValidHostname('300.1.1.1')).toBe(false);
+    expect(isValidHostname('-bad.example.com')).toBe(false);
+    expect(isValidHostname('a..b')).toBe(false);
+    expect(isValidHostname('::zz')).toBe(false);
+  });
+
+  test('alternates families with IPv6 first', () => {
+    const sorted = sortAddressesForHappyEyeballs([
+      { address: '192.0.2.1', family: 4 },
+      { address: '192.0.2.2', family: 4 },
+      { address: '2001:db8::1', family: 6 },
+    ]);
+    expect(sorted.map(entry => entry.address)).toEqual(['2001:db8::1', '192.0.2.1', '192.0.2.2']);
+  });
+
+  test('falls back to IPv4 when the IPv6 address cannot be reached', async () => {
+    const lookup = jest.spyOn(dns, 'lookup').mockResolvedValue([
+      { address: '2001:db8::1', family: 6 },
+      { address: '127.0.0.1', family: 4 },
+    ] as any);
+    const connect = dgram.Socket.prototype.connect;
+    const connectSpy = jest.spyOn(dgram.Socket.prototype, 'connect')
+      .mockImplementation(function (this: dgram.Socket, port: number, address?: any, cb?: any) {
+        if (String(address).includes(':')) {
+          process.nextTick(() => this.emit('error', new Error('ENETUNREACH')));
+          return;
+        }
+        return connect.call(this, port, address, cb);
+      });
+
+    try {
+      const { socket, address, family } = await openUdpSocket('media.example.com', 5004);
+      expect(address).toBe('127.0.0.1');
+      expect(family).toBe(4);
+      socket.close();
+    } finally {
+      lookup.mockRestore();
+      connectSpy.mockRestore();
+    }
+  });
+});
+
+describe('T140RtpTransport addressing', () => {
+  test('sends to an IPv6 literal over udp6', async () => {
+    const server = await bindServer('udp6', '::1');
+    const port = (server.address() as AddressInfo).port;
+    const transport = new T140RtpTransport('[::1]', port);
+
+    const message = nextMessage(server);
+    transport.sendText('v6');
+    expect(parseRtpPacket(await message).payload.toString()).toBe('v6');
+
+    transport.close();
+    server.close();
+  });
+
+  test('resolves a hostname before sending', async () => {
+    const server = await bindServer('udp4', '127.0.0.1');
+    const port = (server.address() as AddressInfo).port;
+    const transport = new T140RtpTransport('localhost', port, { addressFamily: 4 });
+
+    // Sent while the hostname is still being resolved
+    const message = nextMessage(server);
+    transport.sendText('resolved');
+    expect(parseRtpPacket(await message).payload.toString()).toBe('resolved');
+
+    transport.close();
+    server.close();
+  });
+
+  test('rejects malformed addresses with INVALID_CONFIG', () => {
+    for (const address of ['300.1.1.1', 'bad host', '::zz']) {
+      expect(() => new T140RtpTransport(address, 5004)).toThrow(
+        expect.objectContaining({ type: T140RtpErrorType.INVALID_CONFIG })
+      );
+    }
+    expect(() => new T140RtpTransport('::1', 5004, { addressFamily: 4 })).toThrow('IPv4');
+    expect(() => new T140RtpTransport('127.0.0.1', 70000)).toThrow(
+      expect.objectContaining({ type: T140RtpErrorType.INVALID_CONFIG })
+    );
+  });
+
+  test('reports a hostname that does not resolve as INVALID_CONFIG', async () => {
+    const lookup = jest.spyOn(dns, 'lookup').mockRejectedValue(new Error('ENOTFOUND'));
+    try {
+      const transport = new T140RtpTransport('missing.example.com', 5004);
+      const error = await new Promise<any>(resolve => transport.once('error', resolve));
+      expect(error.type).toBe(T140RtpErrorType.INVALID_CONFIG);
+      expect(error.message).toContain('missing.example.com');
+      transport.close();
+    } finally {
+      lookup.mockRestore();
+    }
+  });
+});
+
+describe('steganography default transport addressing', () => {
+  test('sends to an IPv6 literal', async () => {
+    const server = await bindServer('udp6', '::1');
+    const port = (server.address() as AddressInfo).port;
+    const transport = createStegT140RtpTransport('::1', port);
+
+    const message = nextMessage(server);
+    transport.sendText('steg v6');
+    expect(parseRtpPacket(await message).payload.toString()).toBe('steg v6');
+
+    transport.close();
+    server.close();
+  });
+
+  test('rejects malformed addresses with INVALID_CONFIG', () => {
+    expect(() => createStegT140RtpTransport('999.1.1.1', 5004)).toThrow(
+      expect.objectContaining({ type: T140RtpErrorType.INVALID_CONFIG })
+    );
+  });
+});
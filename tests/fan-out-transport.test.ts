@@ -0,0 +1,186 @@
+import * as dgram from 'dgram';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { T140RtpErrorType, TransportStream } from '../src/interfaces';
+import { createRtcpReceiverReport } from '../src/rtp/rtcp';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { SrtpDecryptor } from '../src/rtp/srtp-decryptor';
+import { T140RtpTransport } from '../src/rtp/t140-rtp-transport';
+import { FanOutTransport } from '../src/transport/fan-out-transport';
+import { generateSrtpMasterKeys } from '../src/utils/security';
+
+/**
+ * A destination that records what it is given
+ */
+class RecordingTransport extends EventEmitter implements TransportStream {
+  public sentPackets: Buffer[] = [];
+  public closed = false;
+
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    this.sentPackets.push(data);
+    callback?.();
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+async function bindPeer(): Promise<dgram.Socket> {
+  const peer = dgram.createSocket('udp4');
+  await new Promise<void>(resolve => peer.bind(0, '127.0.0.1', resolve));
+  return peer;
+}
+
+function nextMessage(socket: dgram.Socket): Promise<Buffer> {
+  return new Promise(resolve => socket.once('message', resolve));
+}
+
+function rtpPacket(): Buffer {
+  const packet = Buffer.alloc(16);
+  packet[0] = 0x80;
+  packet[1] = 98;
+  packet.writeUInt32BE(42, 8);
+  return packet;
+}
+
+describe('FanOutTransport', () => {
+  let fanOut: FanOutTransport;
+  let sender: T140RtpTransport;
+
+  beforeEach(() => {
+    fanOut = new FanOutTransport();
+    sender = new T140RtpTransport('127.0.0.1', 5004, { customTransport: fanOut });
+  });
+
+  afterEach(() => {
+    sender.close();
+  });
+
+  test('copies each packet to UDP destinations with their own SSRCs', async () => {
+    const caller = await bindPeer();
+    const recorder = await bindPeer();
+    fanOut.addDestination('caller', {
+      address: '127.0.0.1',
+      port: (caller.address() as AddressInfo).port,
+      ssrc: 1111,
+    });
+    fanOut.addDestination('recorder', {
+      address: '127.0.0.1',
+      port: (recorder.address() as AddressInfo).port,
+      ssrc: 2222,
+    });
+    expect(fanOut.getDestinationIds()).toEqual(['caller', 'recorder']);
+
+    const messages = Promise.all([nextMessage(caller), nextMessage(recorder)]);
+    sender.sendText('to everyone');
+    const [toCaller, toRecorder] = (await messages).map(parseRtpPacket);
+
+    expect(toCaller.payload.toString()).toBe('to everyone');
+    expect(toRecorder.payload.toString()).toBe('to everyone');
+    expect(toCaller.ssrc).toBe(1111);
+    expect(toRecorder.ssrc).toBe(2222);
+    caller.close();
+    recorder.close();
+  });
+
+  test('protects each copy with the destination\'s SRTP key', () => {
+    const plain = new RecordingTransport();
+    const secure = new RecordingTransport();
+    const keys = generateSrtpMasterKeys();
+    fanOut.addDestination('plain', { transport: plain });
+    fanOut.addDestination('secure', { transport: secure, srtpConfig: keys });
+
+    sender.sendText('secret');
+
+    expect(parseRtpPacket(plain.sentPackets[0]).payload.toString()).toBe('secret');
+    expect(secure.sentPackets[0].includes(Buffer.from('secret'))).toBe(false);
+    const decrypted = new SrtpDecryptor(keys).decrypt(secure.sentPackets[0])!;
+    expect(parseRtpPacket(decrypted).payload.toString()).toBe('secret');
+  });
+
+  test('keeps sending to the other destinations when one fails', () => {
+    const healthy = new RecordingTransport();
+    const failing: TransportStream = {
+      send(): void {
+        throw new Error('link down');
+      },
+    };
+    const errors: any[] = [];
+    fanOut.on('destinationError', event => errors.push(event));
+    fanOut.addDestination('failing', { transport: failing });
+    fanOut.addDestination('healthy', { transport: healthy });
+
+    const callback = jest.fn();
+    fanOut.send(rtpPacket(), callback);
+
+    expect(healthy.sentPackets).toHaveLength(1);
+    expect(callback).toHaveBeenCalledWith();
+    expect(errors).toHaveLength(1);
+    expect(errors[0].destinationId).toBe('failing');
+    expect(errors[0].error.type).toBe(T140RtpErrorType.NETWORK_ERROR);
+  });
+
+  test('reports an error when no destination could send', () => {
+    fanOut.on('destinationError', () => undefined);
+    fanOut.addDestination('failing', {
+      transport: { send: (_data, callback) => callback?.(new Error('unreachable')) },
+    });
+
+    const callback = jest.fn();
+    fanOut.send(rtpPacket(), callback);
+    expect(callback).toHaveBeenCalledWith(expect.any(Error));
+  });
+
+  test('adds and removes destinations mid-session', () => {
+    const first = new RecordingTransport();
+    const second = new RecordingTransport();
+    fanOut.addDestination('first', { transport: first });
+    sender.sendText('a');
+    fanOut.addDestination('second', { transport: second });
+    sender.sendText('b');
+    expect(fanOut.removeDestination('first')).toBe(true);
+    sender.sendText('c');
+
+    const texts = (transport: RecordingTransport) => {
+      return transport.sentPackets.map(packet => parseRtpPacket(packet).payload.toString());
+    };
+    expect(texts(first)).toEqual(['a', 'b']);
+    expect(texts(second)).toEqual(['b', 'c']);
+    expect(first.closed).toBe(true);
+    expect(fanOut.removeDestination('first')).toBe(false);
+  });
+
+  test('does not forward RTCP', () => {
+    const destination = new RecordingTransport();
+    fanOut.addDestination('only', { transport: destination });
+    fanOut.send(createRtcpReceiverReport(1234));
+    expect(destination.sentPackets).toHaveLength(0);
+  });
+
+  test('applies multicast options to multicast destinations', async () => {
+    const setTtl = jest.spyOn(dgram.Socket.prototype, 'setMulticastTTL');
+    try {
+      fanOut.addDestination('console', { address: '239.255.0.1', port: 6000, multicastTtl: 4 });
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(setTtl).toHaveBeenCalledWith(4);
+    } finally {
+      setTtl.mockRestore();
+    }
+  });
+
+  test('throws INVALID_CONFIG for invalid destinations', () => {
+    const transport = new RecordingTransport();
+    const invalidConfig = { type: T140RtpErrorType.INVALID_CONFIG };
+
+    expect(() => fanOut.addDestination('none', {})).toThrow(expect.objectContaining(invalidConfig));
+    expect(() => fanOut.addDestination('both', { transport, address: '127.0.0.1' }))
+      .toThrow(expect.objectContaining(invalidConfig));
+    expect(() => fanOut.addDestination('ttl', { address: '239.255.0.1', multicastTtl: 300 }))
+      .toThrow(expect.objectContaining(invalidConfig));
+    fanOut.addDestination('dup', { transport });
+    expect(() => fanOut.addDestination('dup', { transport }))
+      .toThrow(expect.objectContaining(invalidConfig));
+    expect(fanOut.getDestinationIds()).toEqual(['dup']);
+  });
+});
@@ -0,0 +1,206 @@
+import { EventEmitter } from 'events';
+import { T140RtpErrorType, TransportStream } from '../src/interfaces';
+import { FecDecoder, parseFecPacket } from '../src/rtp/fec-decoder';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { T140RtpReceiver } from '../src/rtp/t140-rtp-receiver';
+import { T140RtpTransport } from '../src/rtp/t140-rtp-transport';
+
+/**
+ * Custom transport that records every packet sent
+ */
+class CaptureTransport implements TransportStream {
+  public sentPackets: Buffer[] = [];
+
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    this.sentPackets.push(Buffer.from(data));
+    if (callback) callback();
+  }
+}
+
+/**
+ * Send each text through an FEC-enabled transport and return the packets,
+ * split into media and FEC packets
+ */
+function sendFec(
+  texts: string[],
+  config: any = {},
+  sendOptions: any = {}
+): { media: Buffer[]; fec: Buffer[] } {
+  const capture = new CaptureTransport();
+  const transport = new T140RtpTransport('127.0.0.1', 5004, {
+    customTransport: capture,
+    fecEnabled: true,
+    fecGroupSize: 3,
+    ssrc: 1234,
+    fecSsrc: 5678,
+    ...config,
+  });
+  for (const text of texts) {
+    transport.sendText(text, sendOptions);
+  }
+  transport.close();
+
+  const packets = capture.sentPackets;
+  return {
+    media: packets.filter((p) => parseRtpPacket(p).payloadType !== 97),
+    fec: packets.filter((p) => parseRtpPacket(p).payloadType === 97),
+  };
+}
+
+describe('FEC encoding', () => {
+  test('sends FEC packets on their own SSRC and sequence space', () => {
+    const { media, fec } = sendFec(['a', 'b', 'c', 'd', 'e', 'f']);
+    const parsed = fec.map(parseRtpPacket);
+
+    expect(media).toHaveLength(6);
+    expect(parsed.map((p) => p.ssrc)).toEqual([5678, 5678]);
+    expect(parsed.map((p) => p.sequenceNumber)).toEqual([0, 1]);
+  });
+
+  test('describes the protected packets through SN base and mask', () => {
+    const { fec } = sendFec(['a', 'b', 'c', 'd', 'e']);
+    const parsed = fec.map(parseFecPacket);
+
+    expect(parsed[0].protectedSequenceNumbers).toEqual([0, 1, 2]);
+    expect(parsed[1].protectedSequenceNumbers).toEqual([3, 4]);
+    expect(parsed[0].payloadTypeRecovery).toBe(96);
+  });
+
+  test('rejects truncated FEC packets', () => {
+    const { fec } = sendFec(['a', 'b', 'c']);
+
+    expect(() => parseFecPacket(fec[0].slice(0, 16))).toThrow('truncated');
+  });
+});
+
+describe('FecDecoder', () => {
+  test('rebuilds a single lost packet byte for byte', () => {
+    const { media, fec } = sendFec(['Hello', ', ', 'world!'], {}, { markerBit: true });
+    const decoder = new FecDecoder();
+    const recovered = jest.fn();
+    decoder.on('recovered', recovered);
+
+    decoder.addMediaPacket(media[0]);
+    decoder.addMediaPacket(media[2]);
+    decoder.addFecPacket(fec[0]);
+
+    expect(recovered).toHaveBeenCalledTimes(1);
+    expect(recovered.mock.calls[0][0]).toEqual(media[1]);
+    expect(recovered.mock.calls[0][1]).toBe(1);
+    expect(recovered.mock.calls[0][2]).toBe(1);
+    expect(decoder.recovered).toBe(1);
+  });
+
+  test('restores the CSRC list and stream prefix', () => {
+    const { media, fec } = sendFec(['one', 'two', 'three'], {}, {
+      multiplexEnabled: true,
+      streamIdentifier: 'llm',
+      csrcList: [42],
+    });
+    const decoder = new FecDecoder();
+    const recovered = jest.fn();
+    decoder.on('recovered', recovered);
+
+    decoder.addFecPacket(fec[0]);
+    decoder.addMediaPacket(media[1]);
+    decoder.addMediaPacket(media[2]);
+
+    const packet = parseRtpPacket(recovered.mock.calls[0][0]);
+    expect(packet.csrcList).toEqual([42]);
+    expect(packet.payload.toString()).toBe('llm\x1Eone');
+  });
+
+  test('holds the FEC packet while more than one packet is missing', () => {
+    const { media, fec } = sendFec(['a', 'b', 'c']);
+    const decoder = new FecDecoder();
+    const recovered = jest.fn();
+    decoder.on('recovered', recovered);
+
+    decoder.addMediaPacket(media[0]);
+    decoder.addFecPacket(fec[0]);
+    expect(recovered).not.toHaveBeenCalled();
+
+    decoder.addMediaPacket(media[2]);
+    expect(recovered).toHaveBeenCalledTimes(1);
+    expect(recovered.mock.calls[0][0]).toEqual(media[1]);
+  });
+
+  test('does nothing when every protected packet arrived', () => {
+    const { media, fec } = sendFec(['a', 'b', 'c']);
+    const decoder = new FecDecoder();
+    const recovered = jest.fn();
+    decoder.on('recovered', recovered);
+
+    media.forEach((p) => decoder.addMediaPacket(p));
+    decoder.addFecPacket(fec[0]);
+
+    expect(recovered).not.toHaveBeenCalled();
+  });
+});
+
+describe('FEC on the receive side', () => {
+  test('T140RtpReceiver recovers a lost packet from FEC', () => {
+    const inbound = new EventEmitter();
+    const receiver = new T140RtpReceiver({ inboundTransport: inbound });
+    const received: string[] = [];
+    const recovered = jest.fn();
+    const errors = jest.fn();
+    receiver.on('data', (text: string) => received.push(text));
+    receiver.on('recovered', recovered);
+    receiver.on('error', errors);
+
+    const { media, fec } = sendFec(['Hel', 'lo ', 'wor', 'ld']);
+    inbound.emit('data', media[0]);
+    inbound.emit('data', media[2]);
+    inbound.emit('data', fec[0]);
+    inbound.emit('data', media[3]);
+
+    expect(received.join('')).toBe('Hello world');
+    expect(recovered).toHaveBeenCalledTimes(1);
+    expect(recovered.mock.calls[0][0].sequenceNumber).toBe(1);
+    expect(recovered.mock.calls[0][1]).toBe('fec');
+    expect(errors).not.toHaveBeenCalled();
+
+    receiver.close();
+  });
+
+  test('T140RtpReceiver recovers RED packets protected by FEC', () => {
+    const inbound = new EventEmitter();
+    const receiver = new T140RtpReceiver({ inboundTransport: inbound });
+    const received: string[] = [];
+    receiver.on('data', (text: string) => received.push(text));
+
+    const { media, fec } = sendFec(['a', 'b', 'c'], { redEnabled: true, redundancyLevel: 1 });
+    inbound.emit('data', media[0]);
+    inbound.emit('data', fec[0]);
+    inbound.emit('data', media[1]);
+
+    expect(received).toEqual(['a', 'b', 'c']);
+
+    receiver.close();
+  });
+
+  test('T140RtpReceiver only takes FEC packets from the FEC SSRC', () => {
+    const inbound = new EventEmitter();
+    const receiver = new T140RtpReceiver({ inboundTransport: inbound, fecSsrc: 9999 });
+    const recovered = jest.fn();
+    const errors: any[] = [];
+    receiver.on('recovered', recovered);
+    receiver.on('error', err => errors.push(err));
+
+    const { media, fec } = sendFec(['Hel', 'lo ', 'wor']);
+    inbound.emit('data', fec[0]);
+    inbound.emit('data', media[0]);
+    inbound.emit('data', media[2]);
+    inbound.emit('data', fec[0]);
+
+    expect(recovered).not.toHaveBeenCalled();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({
+      type: T140RtpErrorType.INVALID_PACKET,
+      message: 'Unexpected FEC SSRC 5678, expected 9999',
+    });
+
+    receiver.close();
+  });
+});
@@ -0,0 +1,132 @@
+import { EventEmitter } from 'events';
+import { createRtpPacket } from '../src/rtp/create-rtp-packet';
+import { JitterBuffer } from '../src/rtp/jitter-buffer';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { T140RtpReceiver } from '../src/rtp/t140-rtp-receiver';
+
+function packet(seq: number, text: string) {
+  return parseRtpPacket(createRtpPacket(seq, seq * 160, text, { ssrc: 1 }));
+}
+
+describe('JitterBuffer', () => {
+  let buffer: JitterBuffer;
+  let delivered: string[];
+  let losses: [number, number][];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    buffer = new JitterBuffer({ maxDelay: 500, maxPackets: 8 });
+    delivered = [];
+    losses = [];
+    buffer.on('packet', (p) => delivered.push(p.payload.toString()));
+    buffer.on('loss', (seq: number, count: number) => losses.push([seq, count]));
+  });
+
+  afterEach(() => {
+    buffer.reset();
+    jest.useRealTimers();
+  });
+
+  test('holds packets until the gap is filled', () => {
+    buffer.push(packet(1, 'a'));
+    buffer.push(packet(3, 'c'));
+    jest.advanceTimersByTime(400);
+    expect(delivered).toEqual(['a']);
+
+    buffer.push(packet(2, 'b'));
+    expect(delivered).toEqual(['a', 'b', 'c']);
+    expect(losses).toEqual([]);
+  });
+
+  test('gives up on a gap after the maximum delay', () => {
+    buffer.push(packet(1, 'a'));
+    buffer.push(packet(4, 'd'));
+    jest.advanceTimersByTime(499);
+    expect(delivered).toEqual(['a']);
+
+    jest.advanceTimersByTime(1);
+    expect(delivered).toEqual(['a', 'd']);
+    expect(losses).toEqual([[2, 2]]);
+    expect(buffer.getStats()).toMatchObject({ lost: 2, delivered: 2, buffered: 0 });
+  });
+
+  test('measures the wait from the arrival of the packet after the gap', () => {
+    buffer.push(packet(1, 'a'));
+    buffer.push(packet(3, 'c'));
+    jest.advanceTimersByTime(300);
+    buffer.push(packet(5, 'e'));
+
+    jest.advanceTimersByTime(200);
+    expect(delivered).toEqual(['a', 'c']);
+
+    jest.advanceTimersByTime(300);
+    expect(delivered).toEqual(['a', 'c', 'e']);
+    expect(losses).toEqual([[2, 1], [4, 1]]);
+  });
+
+  test('counts late and duplicate packets', () => {
+    buffer.push(packet(1, 'a'));
+    buffer.push(packet(3, 'c'));
+    buffer.push(packet(3, 'c'));
+    jest.advanceTimersByTime(500);
+    buffer.push(packet(2, 'b'));
+    buffer.push(packet(1, 'a'));
+
+    expect(delivered).toEqual(['a', 'c']);
+    expect(buffer.getStats()).toEqual({
+      received: 5,
+      delivered: 2,
+      late: 1,
+      duplicate: 2,
+      lost: 1,
+      buffered: 0,
+    });
+  });
+
+  test('flush releases everything that is buffered', () => {
+    buffer.push(packet(65535, 'x'));
+    buffer.push(packet(1, 'z'));
+    buffer.flush();
+
+    expect(delivered).toEqual(['x', 'z']);
+    expect(losses).toEqual([[0, 1]]);
+  });
+});
+
+describe('Loss markers in T140RtpReceiver', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  test('inserts U+FFFD where text could not be recovered', () => {
+    const inbound = new EventEmitter();
+    const receiver = new T140RtpReceiver({ inboundTransport: inbound, jitterBufferDelay: 200 });
+    const received: string[] = [];
+    const loss = jest.fn();
+    receiver.on('data', (text: string) => received.push(text));
+    receiver.on('loss', loss);
+
+    inbound.emit('data', createRtpPacket(1, 160, 'Hel', { ssrc: 1 }));
+    inbound.emit('data', createRtpPacket(3, 480, 'rld', { ssrc: 1 }));
+    jest.advanceTimersByTime(200);
+
+    expect(received.join('')).toBe('Hel\uFFFDrld');
+    expect(loss).toHaveBeenCalledWith(2, 1);
+
+    receiver.close();
+  });
+
+  test('can leave the marker out', () => {
+    const inbound = new EventEmitter();
+    const receiver = new T140RtpReceiver({ inboundTransport: inbound, lossMarker: false });
+    const received: string[] = [];
+    receiver.on('data', (text: string) => received.push(text));
+
+    inbound.emit('data', createRtpPacket(1, 160, 'a', { ssrc: 1 }));
+    inbound.emit('data', createRtpPacket(3, 480, 'c', { ssrc: 1 }));
+    jest.advanceTimersByTime(1000);
+
+    expect(received).toEqual(['a', 'c']);
+
+    receiver.close();
+  });
+});
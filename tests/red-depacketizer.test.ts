@@ -0,0 +1,173 @@
+import { EventEmitter } from 'events';
+import { TransportStream } from '../src/interfaces';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { parseRedPayload, RedDepacketizer } from '../src/rtp/red-depacketizer';
+import { T140RtpReceiver } from '../src/rtp/t140-rtp-receiver';
+import { T140RtpTransport } from '../src/rtp/t140-rtp-transport';
+import { T140StreamDemultiplexer } from '../src/utils/demultiplex-streams';
+
+/**
+ * Custom transport that records every packet sent
+ */
+class CaptureTransport implements TransportStream {
+  public sentPackets: Buffer[] = [];
+
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    this.sentPackets.push(Buffer.from(data));
+    if (callback) callback();
+  }
+}
+
+/**
+ * Send each text through a RED-enabled transport and return the packets
+ */
+function sendRed(texts: string[], sendOptions: any = {}): Buffer[] {
+  const capture = new CaptureTransport();
+  const transport = new T140RtpTransport('127.0.0.1', 5004, {
+    customTransport: capture,
+    redEnabled: true,
+    redundancyLevel: 2,
+    ssrc: 1234,
+  });
+  for (const text of texts) {
+    transport.sendText(text, sendOptions);
+  }
+  return capture.sentPackets;
+}
+
+describe('RED encoding', () => {
+  test('produces RFC 2198 block headers, oldest generation first', () => {
+    const packets = sendRed(['a', 'bb', 'ccc']);
+    const red = parseRtpPacket(packets[2]);
+
+    expect(red.payloadType).toBe(98);
+    expect(red.sequenceNumber).toBe(2);
+
+    const blocks = parseRedPayload(red.payload);
+    expect(blocks.map((b) => b.payload.toString())).toEqual(['a', 'bb', 'ccc']);
+    expect(blocks.map((b) => b.timestampOffset)).toEqual([320, 160, 0]);
+    expect(blocks.every((b) => b.payloadType === 96)).toBe(true);
+  });
+
+  test('keeps the CSRC list and stream prefix on RED packets', () => {
+    const packets = sendRed(['one', 'two'], {
+      multiplexEnabled: true,
+      streamIdentifier: 'llm',
+      csrcList: [42],
+    });
+    const red = parseRtpPacket(packets[1]);
+    const blocks = parseRedPayload(red.payload);
+
+    expect(red.csrcList).toEqual([42]);
+    expect(blocks.map((b) => b.payload.toString())).toEqual(['llm\x1Eone', 'llm\x1Etwo']);
+  });
+
+  test('rejects truncated RED payloads', () => {
+    expect(() => parseRedPayload(Buffer.from([0xe0, 0x00]))).toThrow('truncated');
+    expect(() => parseRedPayload(Buffer.from([0xe0, 0x00, 0x04, 0x05, 0x60]))).toThrow(
+      'exceeds payload size'
+    );
+  });
+});
+
+describe('RedDepacketizer', () => {
+  test('passes the primary through when nothing is missing', () => {
+    const depacketizer = new RedDepacketizer();
+    const packets = sendRed(['a', 'b', 'c']).map(parseRtpPacket);
+
+    const out = packets.map((p) => depacketizer.depacketize(p));
+
+    expect(out.map((o) => o.map((p) => p.payload.toString()))).toEqual([['a'], ['b'], ['c']]);
+    expect(depacketizer.recovered).toBe(0);
+  });
+
+  test('fills a gap from redundant generations', () => {
+    const depacketizer = new RedDepacketizer();
+    const packets = sendRed(['a', 'b', 'c', 'd']).map(parseRtpPacket);
+
+    depacketizer.depacketize(packets[0]);
+    // packets 1 and 2 are lost
+    const out = depacketizer.depacketize(packets[3]);
+
+    expect(out.map((p) => [p.sequenceNumber, p.payload.toString(), p.recovered])).toEqual([
+      [1, 'b', true],
+      [2, 'c', true],
+      [3, 'd', false],
+    ]);
+    expect(out[0].timestamp).toBe(160);
+    expect(depacketizer.recovered).toBe(2);
+  });
+
+  test('drops a late primary that was already recovered', () => {
+    const depacketizer = new RedDepacketizer();
+    const packets = sendRed(['a', 'b', 'c']).map(parseRtpPacket);
+
+    depacketizer.depacketize(packets[0]);
+    depacketizer.depacketize(packets[2]);
+
+    expect(depacketizer.depacketize(packets[1])).toEqual([]);
+  });
+});
+
+describe('RED on the receive side', () => {
+  test('T140RtpReceiver recovers lost packets from redundancy', () => {
+    const inbound = new EventEmitter();
+    const receiver = new T140RtpReceiver({ inboundTransport: inbound });
+    const received: string[] = [];
+    const recovered = jest.fn();
+    receiver.on('data', (text: string) => received.push(text));
+    receiver.on('recovered', recovered);
+
+    const packets = sendRed(['Hel', 'lo ', 'wor', 'ld']);
+    inbound.emit('data', packets[0]);
+    inbound.emit('data', packets[3]);
+
+    expect(received.join('')).toBe('Hello world');
+    expect(recovered).toHaveBeenCalledTimes(2);
+    expect(recovered.mock.calls[0][1]).toBe('red');
+
+    receiver.close();
+  });
+
+  test('T140StreamDemultiplexer decodes RED payloads instead of passing them as text', () => {
+    const demultiplexer = new T140StreamDemultiplexer();
+    const dataSpy = jest.fn();
+    demultiplexer.on('data', dataSpy);
+
+    const packets = sendRed(['one ', 'two ', 'three'], {
+      multiplexEnabled: true,
+      streamIdentifier: 'stream1',
+    });
+    demultiplexer.processPacket(packets[0]);
+    demultiplexer.processPacket(packets[2]);
+
+    expect(dataSpy.mock.calls.map((c) => c[0])).toEqual([
+      { streamId: 'stream1', text: 'one ' },
+      { streamId: 'stream1', text: 'two ' },
+      { streamId: 'stream1', text: 'three' },
+    ]);
+  });
+
+  test('T140StreamDemultiplexer does not credit lost text to the wrong CSRC stream', () => {
+    const demultiplexer = new T140StreamDemultiplexer();
+    const dataSpy = jest.fn();
+    demultiplexer.on('data', dataSpy);
+
+    const capture = new CaptureTransport();
+    const transport = new T140RtpTransport('127.0.0.1', 5004, {
+      customTransport: capture,
+      redEnabled: true,
+      redundancyLevel: 2,
+    });
+    transport.sendText('one', { csrcList: [1] });
+    transport.sendText('two', { csrcList: [2] });
+    transport.sendText('three', { csrcList: [1] });
+    demultiplexer.processPacket(capture.sentPackets[0], true);
+    demultiplexer.processPacket(capture.sentPackets[2], true);
+
+    expect(dataSpy.mock.calls.map((c) => c[0])).toEqual([
+      { streamId: 'csrc:1', text: 'one' },
+      { streamId: 'csrc:1', text: 'three' },
+    ]);
+  });
+});
@@ -0,0 +1,273 @@
+import * as dgram from 'dgram';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { T140RtpErrorType } from '../src/interfaces';
+import { createRtpPacket } from '../src/rtp/create-rtp-packet';
+import {
+  calculateRoundTripTime,
+  createRtcpBye,
+  createRtcpReceiverReport,
+  createRtcpSdes,
+  createRtcpSenderReport,
+  isRtcpPacket,
+  ntpMiddle32,
+  parseRtcpPackets,
+  RtcpReportBlock,
+  toNtpTimestamp,
+} from '../src/rtp/rtcp';
+import { T140RtpReceiver } from '../src/rtp/t140-rtp-receiver';
+import { T140RtpTransport } from '../src/rtp/t140-rtp-transport';
+
+const SSRC = 0x11223344;
+
+const block: RtcpReportBlock = {
+  ssrc: 0xaabbccdd,
+  fractionLost: 0.25,
+  packetsLost: -3,
+  highestSequenceNumber: 0x00010005,
+  jitter: 12,
+  lastSenderReport: 0x12345678,
+  delaySinceLastSenderReport: 65536,
+};
+
+/**
+ * Custom transport that captures packets and can play back inbound ones
+ */
+class DuplexTransport extends EventEmitter {
+  public sentPackets: Buffer[] = [];
+  public closed = false;
+
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    this.sentPackets.push(data);
+    if (callback) callback();
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  rtcp(): Buffer[] {
+    return this.sentPackets.filter(isRtcpPacket);
+  }
+}
+
+describe('RTCP packets', () => {
+  test('round-trips a sender report with report blocks', () => {
+    const senderInfo = {
+      ntpTimestamp: { seconds: 3900000000, fraction: 0x80000000 },
+      rtpTimestamp: 16000,
+      packetCount: 10,
+      octetCount: 42,
+    };
+    const packets = parseRtcpPackets(createRtcpSenderReport(SSRC, senderInfo, [block]));
+
+    expect(packets).toEqual([{
+      senderInfo,
+      type: 'sr',
+      ssrc: SSRC,
+      reportBlocks: [block],
+    }]);
+  });
+
+  test('round-trips a compound RR, SDES and BYE', () => {
+    const compound = Buffer.concat([
+      createRtcpReceiverReport(SSRC),
+      createRtcpSdes(SSRC, 'agent@example.com'),
+      createRtcpBye([SSRC], 'session ended'),
+    ]);
+
+    expect(compound.length % 4).toBe(0);
+    expect(parseRtcpPackets(compound)).toEqual([
+      { type: 'rr', ssrc: SSRC, reportBlocks: [] },
+      { type: 'sdes', chunks: [{ ssrc: SSRC, items: [{ type: 1, value: 'agent@example.com' }] }] },
+      { type: 'bye', ssrcs: [SSRC], reason: 'session ended' },
+    ]);
+  });
+
+  test('keeps unknown packet types undecoded', () => {
+    const app = Buffer.from([0x81, 204, 0x00, 0x01, 1, 2, 3, 4]);
+
+    expect(parseRtcpPackets(app)).toEqual([
+      { type: 'other', packetType: 204, count: 1, payload: Buffer.from([1, 2, 3, 4]) },
+    ]);
+  });
+
+  test('rejects truncated packets', () => {
+    const sr = createRtcpSenderReport(SSRC, {
+      ntpTimestamp: toNtpTimestamp(0),
+      rtpTimestamp: 0,
+      packetCount: 0,
+      octetCount: 0,
+    }, [block]);
+
+    expect(() => parseRtcpPackets(sr.slice(0, sr.length - 4))).toThrow('truncated');
+  });
+
+  test('tells RTCP apart from RTP on a multiplexed port', () => {
+    expect(isRtcpPacket(createRtcpReceiverReport(SSRC))).toBe(true);
+    expect(isRtcpPacket(createRtpPacket(1, 160, 'a', { markerBit: true }))).toBe(false);
+  });
+
+  test('computes round-trip time from LSR and DLSR', () => {
+    const sentAt = 1700000000000;
+    const lastSenderReport = ntpMiddle32(toNtpTimestamp(sentAt));
+    const rtt = calculateRoundTripTime(
+      { ...block, lastSenderReport, delaySinceLastSenderReport: 65536 / 2 },
+      sentAt + 600
+    );
+
+    expect(rtt).toBeCloseTo(100, 0);
+    expect(calculateRoundTripTime({ ...block, lastSenderReport: 0 }, sentAt)).toBeUndefined();
+  });
+});
+
+describe('T140RtpTransport RTCP', () => {
+  let transport: T140RtpTransport;
+  let customTransport: DuplexTransport;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    customTransport = new DuplexTransport();
+    transport = new T140RtpTransport('127.0.0.1', 5004, {
+      customTransport,
+      ssrc: SSRC,
+      rtcpEnabled: true,
+      rtcpInterval: 1000,
+      cname: 'agent',
+    });
+  });
+
+  afterEach(() => {
+    transport.close();
+    jest.useRealTimers();
+  });
+
+  test('sends nothing when RTCP is not enabled', () => {
+    const plain = new DuplexTransport();
+    const quiet = new T140RtpTransport('127.0.0.1', 5004, { customTransport: plain });
+    quiet.sendText('hi');
+    jest.advanceTimersByTime(10000);
+    quiet.close();
+
+    expect(plain.rtcp()).toHaveLength(0);
+  });
+
+  test('sends RR with SDES CNAME before any text is sent', () => {
+    jest.advanceTimersByTime(1500);
+
+    const packets = parseRtcpPackets(customTransport.rtcp()[0]);
+    expect(packets[0]).toEqual({ type: 'rr', ssrc: SSRC, reportBlocks: [] });
+    expect(packets[1]).toEqual({
+      type: 'sdes',
+      chunks: [{ ssrc: SSRC, items: [{ type: 1, value: 'agent' }] }],
+    });
+  });
+
+  test('sends SR with packet and octet counts', () => {
+    transport.sendText('Hello');
+    transport.sendText('!');
+    jest.advanceTimersByTime(1500);
+
+    const [sr] = parseRtcpPackets(customTransport.rtcp()[0]);
+    expect(sr.type).toBe('sr');
+    if (sr.type === 'sr') {
+      expect(sr.ssrc).toBe(SSRC);
+      expect(sr.senderInfo.packetCount).toBe(2);
+      expect(sr.senderInfo.octetCount).toBe(6);
+      expect(sr.senderInfo.rtpTimestamp).toBe(160);
+    }
+  });
+
+  test('sends BYE on close', () => {
+    transport.close();
+
+    const packets = parseRtcpPackets(customTransport.rtcp()[0]);
+    expect(packets.map(p => p.type)).toEqual(['rr', 'sdes', 'bye']);
+    expect(packets[2]).toEqual({ type: 'bye', ssrcs: [SSRC] });
+    expect(customTransport.closed).toBe(true);
+  });
+
+  test('emits inbound reports about its own stream', () => {
+    const rtcp = jest.fn();
+    const reports: any[] = [];
+    const byes: any[] = [];
+    transport.on('rtcp', rtcp);
+    transport.on('receiverReport', report => reports.push(report));
+    transport.on('bye', (ssrcs, reason) => byes.push([ssrcs, reason]));
+
+    customTransport.emit('data', Buffer.concat([
+      createRtcpReceiverReport(0x55667788, [
+        { ...block, ssrc: SSRC },
+        { ...block, ssrc: 0x01020304 },
+      ]),
+      createRtcpBye([0x55667788], 'bye'),
+    ]));
+
+    expect(rtcp).toHaveBeenCalledTimes(1);
+    expect(reports).toHaveLength(1);
+    expect(reports[0].reporterSsrc).toBe(0x55667788);
+    expect(reports[0].fractionLost).toBe(0.25);
+    expect(reports[0].roundTripTime).toEqual(expect.any(Number));
+    expect(byes).toEqual([[[0x55667788], 'bye']]);
+  });
+
+  test('emits INVALID_PACKET for malformed RTCP', () => {
+    const errors: any[] = [];
+    transport.on('error', err => errors.push(err));
+
+    customTransport.emit('data', Buffer.from([0x80, 201, 0x00, 0x05, 0, 0, 0, 1]));
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].type).toBe(T140RtpErrorType.INVALID_PACKET);
+  });
+});
+
+describe('RTCP over UDP', () => {
+  test('sends reports to the RTCP port and BYE on close', async () => {
+    const rtcpServer = dgram.createSocket('udp4');
+    await new Promise<void>(resolve => rtcpServer.bind(0, '127.0.0.1', resolve));
+    const received: Buffer[] = [];
+    const gotBye = new Promise<void>((resolve) => {
+      rtcpServer.on('message', (msg: Buffer) => {
+        received.push(msg);
+        if (parseRtcpPackets(msg).some(p => p.type === 'bye')) resolve();
+      });
+    });
+
+    const transport = new T140RtpTransport('127.0.0.1', 9, {
+      rtcpEnabled: true,
+      rtcpPort: (rtcpServer.address() as AddressInfo).port,
+      rtcpInterval: 20,
+    });
+    transport.sendText('a');
+    await new Promise(resolve => setTimeout(resolve, 60));
+    transport.close();
+    await gotBye;
+    rtcpServer.close();
+
+    const types = received.map(msg => parseRtcpPackets(msg)[0].type);
+    expect(types[0]).toBe('sr');
+    expect(types.length).toBeGreaterThanOrEqual(2);
+  });
+});
+
+describe('T140RtpReceiver RTCP', () => {
+  test('emits multiplexed RTCP instead of treating it as RTP', () => {
+    const inbound = new EventEmitter();
+    const receiver = new T140RtpReceiver({ inboundTransport: inbound as any });
+    const rtcp = jest.fn();
+    const errors = jest.fn();
+    const data = jest.fn();
+    receiver.on('rtcp', rtcp);
+    receiver.on('error', errors);
+    receiver.on('data', data);
+
+    inbound.emit('data', createRtcpReceiverReport(SSRC));
+    inbound.emit('data', createRtpPacket(1, 160, 'x', { ssrc: SSRC }));
+    receiver.close();
+
+    expect(rtcp).toHaveBeenCalledWith([{ type: 'rr', ssrc: SSRC, reportBlocks: [] }]);
+    expect(errors).not.toHaveBeenCalled();
+    expect(data).toHaveBeenCalledWith('x', expect.anything());
+  });
+});
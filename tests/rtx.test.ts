@@ -0,0 +1,248 @@
+import * as dgram from 'dgram';
+import { EventEmitter } from 'events';
+import { createRtpPacket } from '../src/rtp/create-rtp-packet';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { createRtcpNack, parseRtcpPackets } from '../src/rtp/rtcp';
+import { T140RtpReceiver } from '../src/rtp/t140-rtp-receiver';
+import { T140RtpTransport } from '../src/rtp/t140-rtp-transport';
+
+const SSRC = 0x11223344;
+const RTX_PT = 99;
+
+/**
+ * Custom transport that captures sent packets
+ */
+class CaptureTransport {
+  public sentPackets: Buffer[] = [];
+
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    this.sentPackets.push(data);
+    if (callback) callback();
+  }
+}
+
+/**
+ * Inbound packet source for the receiver
+ */
+class TestInbound extends EventEmitter {
+  push(packet: Buffer): void {
+    this.emit('data', packet);
+  }
+}
+
+function rtxPacket(rtxSeq: number, originalSeq: number, text: string): Buffer {
+  const osn = Buffer.alloc(2);
+  osn.writeUInt16BE(originalSeq, 0);
+  const packet = createRtpPacket(rtxSeq, originalSeq * 160, '', {
+    payloadType: RTX_PT,
+    ssrc: 0x99999999,
+  });
+  return Buffer.concat([packet, osn, Buffer.from(text)]);
+}
+
+describe('generic NACK packets', () => {
+  test('packs sequence numbers into PID/BLP pairs and back', () => {
+    const nack = createRtcpNack(1, SSRC, [10, 11, 26, 27, 100]);
+
+    // Header and two SSRCs, then three FCI entries
+    expect(nack.length).toBe(12 + 3 * 4);
+    expect(parseRtcpPackets(nack)).toEqual([{
+      type: 'nack',
+      senderSsrc: 1,
+      mediaSsrc: SSRC,
+      sequenceNumbers: [10, 11, 26, 27, 100],
+    }]);
+  });
+
+  test('handles sequence number wraparound', () => {
+    const [nack] = parseRtcpPackets(createRtcpNack(1, SSRC, [65535, 0, 1]));
+
+    expect(nack).toMatchObject({ sequenceNumbers: [65535, 0, 1] });
+  });
+});
+
+describe('T140RtpTransport retransmission', () => {
+  let customTransport: CaptureTransport;
+  let transport: T140RtpTransport;
+
+  function create(config = {}): void {
+    customTransport = new CaptureTransport();
+    transport = new T140RtpTransport('127.0.0.1', 5004, {
+      customTransport,
+      ssrc: SSRC,
+      rtxPayloadType: RTX_PT,
+      rtxSsrc: 0x55555555,
+      ...config,
+    });
+  }
+
+  test('resends NACKed packets in RTX format', () => {
+    create();
+    const nacks: number[][] = [];
+    transport.on('nack', seqs => nacks.push(seqs));
+    ['a', 'b', 'c'].forEach(text => transport.sendText(text));
+
+    transport.handleRtcpPacket(createRtcpNack(1, SSRC, [1]));
+
+    expect(nacks).toEqual([[1]]);
+    const rtx = parseRtpPacket(customTransport.sentPackets[3]);
+    expect(rtx.payloadType).toBe(RTX_PT);
+    expect(rtx.ssrc).toBe(0x55555555);
+    expect(rtx.sequenceNumber).toBe(0);
+    expect(rtx.timestamp).toBe(160);
+    expect(rtx.payload.readUInt16BE(0)).toBe(1);
+    expect(rtx.payload.slice(2).toString()).toBe('b');
+  });
+
+  test('ignores NACKs about other streams and packets no longer kept', () => {
+    create({ rtxHistorySize: 2 });
+    ['a', 'b', 'c'].forEach(text => transport.sendText(text));
+
+    transport.handleRtcpPacket(createRtcpNack(1, 0x01020304, [1]));
+    expect(transport.retransmit([0, 5])).toBe(0);
+    expect(transport.retransmit([1, 2])).toBe(2);
+    expect(customTransport.sentPackets).toHaveLength(5);
+  });
+
+  test('resends the plain T.140 packet when RED is enabled', () => {
+    create({ redEnabled: true, redundancyLevel: 2 });
+    ['a', 'b', 'c'].forEach(text => transport.sendText(text));
+
+    transport.retransmit([2]);
+
+    const rtx = parseRtpPacket(customTransport.sentPackets[3]);
+    expect(rtx.payload.slice(2).toString()).toBe('c');
+  });
+
+  test('does nothing without an RTX payload type', () => {
+    create({ rtxPayloadType: undefined });
+    transport.sendText('a');
+
+    expect(transport.retransmit([0])).toBe(0);
+  });
+});
+
+describe('T140RtpReceiver retransmission', () => {
+  let inbound: TestInbound;
+  let feedback: CaptureTransport;
+  let receiver: T140RtpReceiver;
+
+  beforeEach(() => {
+    inbound = new TestInbound();
+    feedback = new CaptureTransport();
+    receiver = new T140RtpReceiver({
+      inboundTransport: inbound,
+      rtxPayloadType: RTX_PT,
+      nackEnabled: true,
+      feedbackTransport: feedback,
+      localSsrc: 7,
+    });
+  });
+
+  afterEach(() => {
+    receiver.close();
+  });
+
+  test('sends a NACK for a gap and re-inserts the RTX packet', () => {
+    const text: string[] = [];
+    const recovered = jest.fn();
+    receiver.on('data', t => text.push(t));
+    receiver.on('recovered', recovered);
+
+    inbound.push(createRtpPacket(1, 160, 'a', { ssrc: SSRC }));
+    inbound.push(createRtpPacket(4, 640, 'd', { ssrc: SSRC }));
+
+    expect(feedback.sentPackets).toHaveLength(1);
+    expect(parseRtcpPackets(feedback.sentPackets[0])).toEqual([{
+      type: 'nack',
+      senderSsrc: 7,
+      mediaSsrc: SSRC,
+      sequenceNumbers: [2, 3],
+    }]);
+
+    inbound.push(rtxPacket(0, 2, 'b'));
+    inbound.push(rtxPacket(1, 3, 'c'));
+
+    expect(text).toEqual(['a', 'b', 'c', 'd']);
+    expect(recovered).toHaveBeenCalledTimes(2);
+    expect(recovered.mock.calls[0][0].sequenceNumber).toBe(2);
+    expect(recovered.mock.calls[0][1]).toBe('rtx');
+  });
+
+  test('does not NACK reordered packets', () => {
+    inbound.push(createRtpPacket(1, 160, 'a', { ssrc: SSRC }));
+    inbound.push(createRtpPacket(2, 320, 'b', { ssrc: SSRC }));
+    inbound.push(createRtpPacket(4, 640, 'd', { ssrc: SSRC }));
+    inbound.push(createRtpPacket(3, 480, 'c', { ssrc: SSRC }));
+    inbound.push(createRtpPacket(5, 800, 'e', { ssrc: SSRC }));
+
+    expect(feedback.sentPackets).toHaveLength(1);
+  });
+
+  test('recovers lost text end to end', () => {
+    const sender = new T140RtpTransport('127.0.0.1', 5004, {
+      ssrc: SSRC,
+      rtxPayloadType: RTX_PT,
+      customTransport: {
+        send: (data: Buffer, callback?: (error?: Error) => void) => {
+          // Drop the first transmission of the second packet
+          if (!(data.readUInt16BE(2) === 1 && (data[1] & 0x7f) !== RTX_PT)) {
+            inbound.push(data);
+          }
+          if (callback) callback();
+        },
+      },
+    });
+    const loopback = new T140RtpReceiver({
+      inboundTransport: inbound,
+      rtxPayloadType: RTX_PT,
+      nackEnabled: true,
+      feedbackTransport: {
+        send: (data: Buffer) => sender.handleRtcpPacket(data),
+      },
+    });
+    const text: string[] = [];
+    loopback.on('data', t => text.push(t));
+
+    ['H', 'e', 'y'].forEach(t => sender.sendText(t));
+    loopback.close();
+
+    expect(text).toEqual(['H', 'e', 'y']);
+  });
+});
+
+describe('T140RtpReceiver NACK address', () => {
+  test('sends NACKs to the stream source, not to a spoofed packet', async () => {
+    const receiver = new T140RtpReceiver({
+      localAddress: '127.0.0.1',
+      localPort: 0,
+      ssrc: SSRC,
+      nackEnabled: true,
+    });
+    await new Promise(resolve => receiver.once('listening', resolve));
+    const port = receiver.address()!.port;
+    const sockets = [dgram.createSocket('udp4'), dgram.createSocket('udp4')];
+    await Promise.all(sockets.map(socket => new Promise<void>(resolve => {
+      socket.bind(0, '127.0.0.1', resolve);
+    })));
+    const [peer, stranger] = sockets;
+    const strangerMessages = jest.fn();
+    stranger.on('message', strangerMessages);
+    receiver.on('error', () => undefined);
+    const send = (socket: dgram.Socket, packet: Buffer) => new Promise<void>((resolve) => {
+      socket.send(packet, port, '127.0.0.1', () => resolve());
+    });
+    const first = new Promise(resolve => receiver.once('packet', resolve));
+    await send(peer, createRtpPacket(1, 160, 'a', { ssrc: SSRC }));
+    await first;
+    await send(stranger, createRtpPacket(2, 320, 'x', { ssrc: 0x99999999 }));
+    const nack = new Promise<Buffer>(resolve => peer.once('message', resolve));
+    await send(peer, createRtpPacket(4, 640, 'd', { ssrc: SSRC }));
+
+    expect(parseRtcpPackets(await nack)).toMatchObject([{ type: 'nack', sequenceNumbers: [2, 3] }]);
+    expect(strangerMessages).not.toHaveBeenCalled();
+
+    receiver.close();
+    sockets.forEach(socket => socket.close());
+  });
+});
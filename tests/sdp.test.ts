@@ -0,0 +1,207 @@
+import { createSdesCryptoAttribute, parseSdesCryptoAttribute } from '../src/utils/sdes';
+import { createT140Sdp, createT140SdpAnswer, parseT140Sdp } from '../src/utils/sdp';
+
+const offer = [
+  'v=0',
+  'o=- 1 1 IN IP4 198.51.100.7',
+  's=-',
+  'c=IN IP4 198.51.100.7',
+  't=0 0',
+  'm=audio 49170 RTP/AVP 0',
+  'a=rtpmap:0 PCMU/8000',
+  'm=text 11000 RTP/AVP 100 98 101',
+  'a=rtpmap:98 T140/1000',
+  'a=fmtp:98 cps=20',
+  'a=rtpmap:100 red/1000',
+  'a=fmtp:100 98/98/98/98',
+  'a=rtpmap:101 ulpfec/1000',
+  'a=rtcp:11003',
+  'a=sendonly',
+  '',
+].join('\r\n');
+
+describe('SDP', () => {
+  test('builds an m=text section matching the RTP configuration', () => {
+    const sdp = createT140Sdp(
+      { payloadType: 96, redEnabled: true, redPayloadType: 98, redundancyLevel: 2, charRateLimit: 30 },
+      { address: '192.0.2.1', port: 5004, sessionId: '42' }
+    );
+
+    expect(sdp).toBe([
+      'v=0',
+      'o=- 42 1 IN IP4 192.0.2.1',
+      's=-',
+      't=0 0',
+      'm=text 5004 RTP/AVP 98 96',
+      'c=IN IP4 192.0.2.1',
+      'a=rtpmap:98 red/1000',
+      'a=fmtp:98 96/96/96',
+      'a=rtpmap:96 t140/1000',
+      'a=fmtp:96 cps=30',
+      'a=sendrecv',
+      '',
+    ].join('\r\n'));
+  });
+
+  test('describes FEC, RTX and rtcp-mux and uses IP6 for IPv6 addresses', () => {
+    const sdp = createT140Sdp(
+      { fecEnabled: true, fecPayloadType: 97, rtxPayloadType: 99, rtcpMux: true },
+      { address: '2001:db8::1', port: 5004, protocol: 'RTP/SAVP', attributes: ['foo:bar'] }
+    );
+
+    expect(sdp).toContain('IN IP6 2001:db8::1\r\n');
+    expect(sdp).toContain('m=text 5004 RTP/SAVP 96 97 99\r\n');
+    expect(sdp).toContain('a=rtpmap:97 ulpfec/1000\r\n');
+    expect(sdp).toContain('a=fmtp:99 apt=96\r\n');
+    expect(sdp).toContain('a=rtcp-mux\r\na=sendrecv\r\na=foo:bar\r\n');
+  });
+
+  test('parses a remote offer into an RTP configuration', () => {
+    const description = parseT140Sdp(offer);
+
+    expect(description).toMatchObject({
+      remoteAddress: '198.51.100.7',
+      remotePort: 11000,
+      protocol: 'RTP/AVP',
+      direction: 'sendonly',
+    });
+    expect(description.rtpConfig).toEqual({
+      payloadType: 98,
+      redEnabled: true,
+      redPayloadType: 100,
+      redundancyLevel: 3,
+      charRateLimit: 20,
+      fecEnabled: true,
+      fecPayloadType: 101,
+      rtcpPort: 11003,
+    });
+  });
+
+  test('round-trips its own description', () => {
+    const rtpConfig = {
+      payloadType: 96,
+      redEnabled: true,
+      redPayloadType: 98,
+      redundancyLevel: 1,
+      charRateLimit: 15,
+      rtxPayloadType: 99,
+      rtcpMux: true,
+    };
+    const description = parseT140Sdp(createT140Sdp(rtpConfig, { address: '::1', port: 6000 }));
+
+    expect(description.remoteAddress).toBe('::1');
+    expect(description.remotePort).toBe(6000);
+    expect(description.rtpConfig).toEqual(rtpConfig);
+  });
+
+  test('answers with the offered payload types and common features', () => {
+    const answer = parseT140Sdp(createT140SdpAnswer(offer, {
+      redEnabled: true,
+      redPayloadType: 120,
+      redundancyLevel: 2,
+      charRateLimit: 30,
+    }, { address: '192.0.2.1', port: 5004 }));
+
+    expect(answer.direction).toBe('recvonly');
+    expect(answer.rtpConfig).toEqual({
+      payloadType: 98,
+      redEnabled: true,
+      redPayloadType: 100,
+      redundancyLevel: 2,
+      charRateLimit: 30,
+    });
+  });
+
+  test('ignores the connection address of other media sections', () => {
+    const audioFirst = [
+      'v=0',
+      'c=IN IP4 192.0.2.1',
+      'm=audio 4000 RTP/AVP 0',
+      'c=IN IP4 203.0.113.9',
+      'm=text 5000 RTP/AVP 96',
+      'a=rtpmap:96 t140/1000',
+    ].join('\r\n');
+    expect(parseT140Sdp(audioFirst).remoteAddress).toBe('192.0.2.1');
+
+    const withoutSessionAddress = audioFirst.replace('c=IN IP4 192.0.2.1\r\n', '');
+    expect(() => parseT140Sdp(withoutSessionAddress)).toThrow('connection address');
+  });
+
+  test('rejects SDP without a usable text section', () => {
+    expect(() => parseT140Sdp('v=0\r\nm=audio 4000 RTP/AVP 0\r\n')).toThrow('No m=text');
+    expect(() => parseT140Sdp('v=0\r\nm=text 4000 RTP/AVP 96\r\n')).toThrow('connection address');
+    expect(() => parseT140Sdp('c=IN IP4 192.0.2.1\r\nm=text 4000 RTP/AVP 96\r\n'))
+      .toThrow('No t140 format');
+  });
+});
+
+describe('SDES', () => {
+  const masterKey = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+  const masterSalt = Buffer.from('101112131415161718191a1b1c1d', 'hex');
+
+  test('parses the RFC 4568 example attribute', () => {
+    const crypto = parseSdesCryptoAttribute(
+      'a=crypto:1 AES_CM_128_HMAC_SHA1_80 ' +
+      'inline:PS1uQCVeeCFCanVmcjkpPywjNWhcYD0mXXtxaVBR|2^20|1:4 UNENCRYPTED_SRTCP'
+    );
+
+    expect(crypto).toMatchObject({
+      tag: 1,
+      suite: 'AES_CM_128_HMAC_SHA1_80',
+      lifetime: 2 ** 20,
+      mki: 1,
+      mkiLength: 4,
+      sessionParams: ['UNENCRYPTED_SRTCP'],
+    });
+    expect(crypto.srtpConfig.profile).toBe(1);
+    expect(crypto.srtpConfig.masterKey).toHaveLength(16);
+    expect(crypto.srtpConfig.masterSalt).toHaveLength(14);
+  });
+
+  test('round-trips an SRTP configuration through the attribute', () => {
+    const attribute = createSdesCryptoAttribute(
+      { masterKey, masterSalt },
+      { tag: 2, lifetime: 2 ** 31, mki: 7, mkiLength: 1 }
+    );
+
+    expect(attribute).toBe(
+      'crypto:2 AES_CM_128_HMAC_SHA1_80 inline:AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwd|2^31|7:1'
+    );
+    expect(parseSdesCryptoAttribute(attribute)).toEqual({
+      tag: 2,
+      suite: 'AES_CM_128_HMAC_SHA1_80',
+      srtpConfig: { masterKey, masterSalt, profile: 1, keyLifetime: 2 ** 31, mki: 7, mkiLength: 1 },
+      lifetime: 2 ** 31,
+      mki: 7,
+      mkiLength: 1,
+      sessionParams: [],
+    });
+
+    const gcm = createSdesCryptoAttribute({
+      masterKey,
+      masterSalt: masterSalt.slice(0, 12),
+      profile: 0x0007,
+    });
+    expect(gcm).toMatch(/^crypto:1 AEAD_AES_128_GCM inline:[^|]+$/);
+    expect(parseSdesCryptoAttribute(gcm).srtpConfig.masterSalt).toEqual(masterSalt.slice(0, 12));
+  });
+
+  test('rejects unsupported suites, bad key sizes and oversized MKIs', () => {
+    expect(() => parseSdesCryptoAttribute('crypto:1 F8_128_HMAC_SHA1_80 inline:AAAA'))
+      .toThrow('Unsupported SDES crypto suite');
+    expect(() => parseSdesCryptoAttribute('crypto:1 AES_CM_128_HMAC_SHA1_80 inline:AAAA'))
+      .toThrow('needs 30 bytes');
+    const key = Buffer.alloc(46).toString('base64');
+    expect(() => parseSdesCryptoAttribute(`crypto:1 AES_CM_128_HMAC_SHA1_32 inline:${key}`))
+      .toThrow('Unsupported SDES crypto suite');
+    expect(() => parseSdesCryptoAttribute(`crypto:1 AEAD_AES_256_GCM inline:${key}`))
+      .toThrow('Unsupported SDES crypto suite');
+    expect(() => parseSdesCryptoAttribute('rtpmap:96 t140/1000')).toThrow('Malformed');
+    expect(() => createSdesCryptoAttribute({ masterKey, masterSalt, profile: 0x0005 }))
+      .toThrow('has no SDES crypto suite');
+    expect(() => createSdesCryptoAttribute({ masterKey, masterSalt, profile: 0x0002 }))
+      .toThrow('has no SDES crypto suite');
+    expect(() => createSdesCryptoAttribute({ masterKey, masterSalt }, { mki: 256, mkiLength: 1 }))
+      .toThrow('does not fit');
+  });
+});
@@ -0,0 +1,165 @@
+import { EventEmitter } from 'events';
+import * as os from 'os';
+import { SeqpacketServer } from 'node-unix-socket';
+import * as path from 'path';
+import { T140RtpErrorType, UnixSocketFraming } from '../src/interfaces';
+import { createDirectSocketTransport } from '../src/processors/process-ai-stream-to-direct-socket';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { T140RtpReceiver } from '../src/rtp/t140-rtp-receiver';
+import { SeqpacketListener, SeqpacketTransport } from '../src/transport/seqpacket-transport';
+
+const socketPath = path.join(os.tmpdir(), `t140llm-test-${process.pid}.sock`);
+
+function listening(listener: SeqpacketListener): Promise<void> {
+  return new Promise(resolve => listener.once('listening', () => resolve()));
+}
+
+function collect(listener: SeqpacketListener, count: number): Promise<Buffer[]> {
+  return new Promise((resolve) => {
+    const packets: Buffer[] = [];
+    listener.on('data', (packet: Buffer) => {
+      packets.push(packet);
+      if (packets.length === count) {
+        resolve(packets);
+      }
+    });
+  });
+}
+
+function closed(emitter: SeqpacketListener | SeqpacketTransport): Promise<void> {
+  return new Promise((resolve) => {
+    emitter.once('close', () => resolve());
+    emitter.close();
+  });
+}
+
+function rtpPacket(): Buffer {
+  const packet = Buffer.alloc(12);
+  packet[0] = 0x80;
+  packet.writeUInt16BE(9, 2);
+  return packet;
+}
+
+describe.each<UnixSocketFraming>(['seqpacket', 'length-prefixed'])('%s framing', (framing) => {
+  let listener: SeqpacketListener;
+
+  beforeEach(async () => {
+    listener = new SeqpacketListener(socketPath, { framing });
+    await listening(listener);
+  });
+
+  afterEach(async () => {
+    await closed(listener);
+  });
+
+  test('keeps packets written back to back apart', async () => {
+    const client = new SeqpacketTransport(socketPath, { framing });
+    const received = collect(listener, 3);
+    // Sent before the socket connects, so these are queued first
+    client.send(Buffer.from('one'));
+    client.send(Buffer.from('two'));
+    client.send(Buffer.alloc(1500, 7));
+
+    const packets = await received;
+    expect(packets.map(packet => packet.length)).toEqual([3, 3, 1500]);
+    expect(packets[1].toString()).toBe('two');
+    expect(client.isConnected).toBe(true);
+    expect(listener.connectionCount).toBe(1);
+    await closed(client);
+  });
+
+  test('delivers direct socket mode text to a receiver', async () => {
+    const receiver = new T140RtpReceiver({ inboundTransport: listener });
+    const texts: string[] = [];
+    const done = new Promise<void>((resolve) => {
+      receiver.on('data', (text: string) => {
+        texts.push(text);
+        if (texts.length === 2) {
+          resolve();
+        }
+      });
+    });
+
+    const { transport, attachStream } = createDirectSocketTransport(socketPath, {
+      socketFraming: framing,
+    });
+    const stream = new EventEmitter();
+    attachStream(stream as any);
+    stream.emit('data', 'Hello, ');
+    stream.emit('data', 'world');
+    await done;
+
+    expect(texts.join('')).toBe('Hello, world');
+    expect(transport).toBeInstanceOf(SeqpacketTransport);
+    await closed(transport as SeqpacketTransport);
+  });
+});
+
+describe('SeqpacketListener', () => {
+  test('replaces a socket file nobody listens on', async () => {
+    const stale = new SeqpacketServer();
+    stale.listen(socketPath);
+    stale.close();
+
+    const listener = new SeqpacketListener(socketPath);
+    await listening(listener);
+    const client = new SeqpacketTransport(socketPath);
+    const received = collect(listener, 1);
+    client.send(rtpPacket());
+    expect(await received).toHaveLength(1);
+
+    await closed(client);
+    await closed(listener);
+  });
+
+  test.each<UnixSocketFraming>(['seqpacket', 'length-prefixed'])(
+    'leaves a %s listener that is still there alone',
+    async (framing) => {
+      const listener = new SeqpacketListener(socketPath, { framing });
+      await listening(listener);
+
+      const second = new SeqpacketListener(socketPath, { framing });
+      const error: any = await new Promise(resolve => second.once('error', resolve));
+      expect(error.type).toBe(T140RtpErrorType.NETWORK_ERROR);
+      expect(error.cause.message).toBe('Socket is in use by another listener');
+      await closed(second);
+
+      const client = new SeqpacketTransport(socketPath, { framing });
+      const received = collect(listener, 1);
+      client.send(rtpPacket());
+      expect(await received).toHaveLength(1);
+
+      await closed(client);
+      await closed(listener);
+    }
+  );
+});
+
+describe('SeqpacketTransport', () => {
+  test('reports a missing listener and fails later sends', async () => {
+    const client = new SeqpacketTransport(path.join(os.tmpdir(), 'no-such-t140llm.sock'));
+    const error: any = await new Promise(resolve => client.once('error', resolve));
+    expect(error.type).toBe(T140RtpErrorType.NETWORK_ERROR);
+
+    await new Promise(resolve => client.once('close', resolve));
+    const callback = jest.fn();
+    client.send(Buffer.from('late'), callback);
+    expect(callback).toHaveBeenCalledWith(expect.any(Error));
+  });
+
+  test('refuses empty packets, which would read as end of file', async () => {
+    const listener = new SeqpacketListener(socketPath);
+    await listening(listener);
+    const client = new SeqpacketTransport(socketPath);
+    const received = collect(listener, 1);
+
+    const callback = jest.fn();
+    client.send(Buffer.alloc(0), callback);
+    client.send(rtpPacket());
+    expect(callback).toHaveBeenCalledWith(expect.any(Error));
+    expect(parseRtpPacket((await received)[0]).sequenceNumber).toBe(9);
+
+    await closed(client);
+    await closed(listener);
+  });
+});
@@ -0,0 +1,348 @@
+import * as crypto from 'crypto';
+import * as dgram from 'dgram';
+import { AddressInfo } from 'net';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { createT140Sdp } from '../src/utils/sdp';
+import { createDigestAuthorization, parseDigestChallenge } from '../src/sip/digest-auth';
+import { SipCall } from '../src/sip/sip-call';
+import {
+  getHeaderParameter,
+  getSipHeader,
+  parseSipMessage,
+  serializeSipMessage,
+  SipRequest,
+  SipResponse,
+  splitSipStream,
+} from '../src/sip/sip-message';
+import { SipUserAgent } from '../src/sip/sip-user-agent';
+
+/**
+ * Custom transport that captures sent packets
+ */
+class CaptureTransport {
+  public sentPackets: Buffer[] = [];
+
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    this.sentPackets.push(data);
+    if (callback) callback();
+  }
+}
+
+/**
+ * In-process SIP peer that records requests and answers them by hand
+ */
+class SipStandIn {
+  public requests: SipRequest[] = [];
+  private socket = dgram.createSocket('udp4');
+  private waiters: Array<{ method: string; resolve: (request: SipRequest) => void }> = [];
+  private responseWaiters: Array<(response: SipResponse) => void> = [];
+  private peer?: { address: string; port: number };
+
+  async start(): Promise<number> {
+    this.socket.on('message', (data: Buffer, rinfo: dgram.RemoteInfo) => {
+      this.peer = rinfo;
+      const message = parseSipMessage(data);
+      if (message.type === 'response') {
+        this.responseWaiters.splice(0).forEach(resolve => resolve(message));
+        return;
+      }
+      this.requests.push(message);
+      const index = this.waiters.findIndex(waiter => waiter.method === message.method);
+      if (index !== -1) {
+        this.waiters.splice(index, 1)[0].resolve(message);
+      }
+    });
+    await new Promise<void>(resolve => this.socket.bind(0, '127.0.0.1', resolve));
+    return (this.socket.address() as AddressInfo).port;
+  }
+
+  next(method: string): Promise<SipRequest> {
+    return new Promise(resolve => this.waiters.push({ method, resolve }));
+  }
+
+  nextResponse(): Promise<SipResponse> {
+    return new Promise(resolve => this.responseWaiters.push(resolve));
+  }
+
+  respond(
+    request: SipRequest,
+    status: number,
+    reason: string,
+    headers: Record<string, string> = {},
+    body = ''
+  ): void {
+    const to = getSipHeader(request, 'to')!;
+    const response: SipResponse = {
+      status,
+      reason,
+      body,
+      type: 'response',
+      headers: {
+        via: request.headers.via,
+        from: request.headers.from,
+        to: [getHeaderParameter(to, 'tag') ? to : `${to};tag=standin`],
+        'call-id': request.headers['call-id'],
+        cseq: request.headers.cseq,
+        contact: [`<sip:relay@127.0.0.1:${(this.socket.address() as AddressInfo).port}>`],
+      },
+    };
+    Object.keys(headers).forEach((name) => { response.headers[name] = [headers[name]]; });
+    this.sendRaw(serializeSipMessage(response));
+  }
+
+  send(request: SipRequest, port: number): void {
+    this.peer = { port, address: '127.0.0.1' };
+    this.sendRaw(serializeSipMessage(request));
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+
+  private sendRaw(data: Buffer): void {
+    this.socket.send(data, this.peer!.port, this.peer!.address);
+  }
+}
+
+const answerSdp = createT140Sdp(
+  { payloadType: 100, redEnabled: true, redPayloadType: 101, redundancyLevel: 2 },
+  { address: '127.0.0.1', port: 7000 }
+);
+
+describe('SIP messages', () => {
+  test('parses compact and folded headers and splits Via lists', () => {
+    const message = parseSipMessage([
+      'INVITE sip:bob@example.com SIP/2.0',
+      'v: SIP/2.0/UDP a.example.com;branch=z9hG4bK1, SIP/2.0/UDP b.example.com;branch=z9hG4bK2',
+      'i: abc@host',
+      'Subject: hello',
+      '  world',
+      'l: 4',
+      '',
+      'body',
+    ].join('\r\n'));
+
+    expect(message.type).toBe('request');
+    expect(message.headers.via).toHaveLength(2);
+    expect(getSipHeader(message, 'Call-ID')).toBe('abc@host');
+    expect(getSipHeader(message, 'subject')).toBe('hello world');
+    expect(message.body).toBe('body');
+    expect(serializeSipMessage(message).toString()).toContain('Call-ID: abc@host\r\n');
+  });
+
+  test('frames messages on a stream transport', () => {
+    const response = serializeSipMessage({
+      type: 'response',
+      status: 200,
+      reason: 'OK',
+      headers: { cseq: ['1 INVITE'] },
+      body: 'v=0\r\n',
+    });
+    const stream = Buffer.concat([Buffer.from('\r\n\r\n'), response, response.slice(0, 10)]);
+
+    const { messages, remainder } = splitSipStream(stream);
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ status: 200, body: 'v=0\r\n' });
+    expect(remainder.length).toBe(10);
+  });
+
+  test('answers digest challenges as in RFC 2617', () => {
+    const challenge = parseDigestChallenge(
+      'Digest realm="testrealm@host.com", qop="auth,auth-int", ' +
+      'nonce="dcd98b7102dd2f0e8b11d0f600bfb0c093", opaque="5ccc069c403ebaf9f0171e9517f40e41"'
+    );
+    const authorization = createDigestAuthorization(
+      challenge,
+      { username: 'Mufasa', password: 'Circle Of Life' },
+      'GET',
+      '/dir/index.html',
+      1,
+      '0a4f113b'
+    );
+
+    expect(authorization).toContain('response="6629fae49393a05397450978507c4ef1"');
+    expect(authorization).toContain('qop=auth, nc=00000001, cnonce="0a4f113b"');
+    expect(() => parseDigestChallenge('Basic realm="x"')).toThrow('Unsupported');
+  });
+});
+
+describe('SipUserAgent', () => {
+  const agents: SipUserAgent[] = [];
+
+  async function createAgent(config = {}): Promise<SipUserAgent> {
+    const agent = new SipUserAgent({
+      username: 'agent',
+      localAddress: '127.0.0.1',
+      localPort: 0,
+      timerT1: 20,
+      ...config,
+    });
+    await agent.start();
+    agents.push(agent);
+    return agent;
+  }
+
+  afterEach(async () => {
+    await Promise.all(agents.splice(0).map(agent => agent.close()));
+  });
+
+  test.each(['udp', 'tcp'] as const)('places and answers a text call over %s', async (transport) => {
+    const capture = new CaptureTransport();
+    const caller = await createAgent({
+      transport,
+      rtpConfig: { customTransport: capture, redEnabled: true, redundancyLevel: 3 },
+    });
+    const callee = await createAgent({
+      transport,
+      username: 'relay',
+      rtpPort: 6000,
+      rtpConfig: { redEnabled: true, redundancyLevel: 1, charRateLimit: 20 },
+    });
+    const progress: number[] = [];
+    const ended: string[] = [];
+    callee.on('incomingCall', (call: SipCall) => {
+      call.on('ended', reason => ended.push(reason));
+      call.accept();
+    });
+    caller.on('outgoingCall', (call: SipCall) => {
+      call.on('progress', status => progress.push(status));
+    });
+
+    const call = await caller.call(`sip:relay@127.0.0.1:${callee.port}`);
+
+    expect(call.state).toBe('established');
+    expect(progress).toEqual([100, 180]);
+    expect(call.remote).toMatchObject({ remoteAddress: '127.0.0.1', remotePort: 6000 });
+    expect(call.transport!.getConfig()).toMatchObject({
+      redEnabled: true,
+      redundancyLevel: 1,
+      charRateLimit: 20,
+    });
+    call.transport!.sendText('h');
+    call.transport!.sendText('i');
+    expect(parseRtpPacket(capture.sentPackets[0]).payloadType).toBe(96);
+    expect(parseRtpPacket(capture.sentPackets[1]).payloadType).toBe(98);
+
+    await call.hangup();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(call.state).toBe('terminated');
+    expect(ended).toEqual(['remote']);
+  });
+
+  test('answers digest challenges, acknowledges responses and refreshes the session', async () => {
+    const standIn = new SipStandIn();
+    const port = await standIn.start();
+    const agent = await createAgent({
+      password: 'secret',
+      sessionExpires: 2,
+      minSessionExpires: 1,
+    });
+    const callPromise = agent.call(`sip:relay@127.0.0.1:${port}`);
+
+    const first = await standIn.next('INVITE');
+    expect(getSipHeader(first, 'session-expires')).toBe('2');
+    standIn.respond(first, 401, 'Unauthorized', {
+      'www-authenticate': 'Digest realm="relay", nonce="abc", qop="auth"',
+    });
+    const nackAck = await standIn.next('ACK');
+    expect(nackAck.headers.via).toEqual([first.headers.via[0]]);
+
+    const second = await standIn.next('INVITE');
+    const authorization = getSipHeader(second, 'authorization')!;
+    const cnonce = /cnonce="([^"]+)"/.exec(authorization)![1];
+    const md5 = (value: string) => crypto.createHash('md5').update(value).digest('hex');
+    const expected = md5(`${md5('agent:relay:secret')}:abc:00000001:${cnonce}:auth:` +
+      md5(`INVITE:sip:relay@127.0.0.1:${port}`));
+    expect(authorization).toContain(`response="${expected}"`);
+    expect(getSipHeader(second, 'cseq')).toBe('2 INVITE');
+
+    standIn.respond(second, 180, 'Ringing');
+    standIn.respond(second, 200, 'OK', {
+      'content-type': 'application/sdp',
+      'session-expires': '2;refresher=uac',
+    }, answerSdp);
+    const ack = await standIn.next('ACK');
+    expect(getSipHeader(ack, 'cseq')).toBe('2 ACK');
+
+    const call = await callPromise;
+    expect(call.remote!.rtpConfig.payloadType).toBe(100);
+
+    // The refresher re-INVITEs halfway through the interval
+    const refreshed = new Promise(resolve => call.once('refreshed', resolve));
+    const refresh = await standIn.next('INVITE');
+    expect(getSipHeader(refresh, 'session-expires')).toBe('2;refresher=uac');
+    standIn.respond(refresh, 200, 'OK', { 'session-expires': '2;refresher=uac' }, answerSdp);
+    await refreshed;
+
+    const bye = standIn.next('BYE');
+    const hangup = call.hangup();
+    standIn.respond(await bye, 200, 'OK');
+    await hangup;
+    standIn.close();
+  });
+
+  test('retransmits over UDP and retries with a larger session interval on 422', async () => {
+    const standIn = new SipStandIn();
+    const port = await standIn.start();
+    const agent = await createAgent({ sessionExpires: 90 });
+    const callPromise = agent.call(`sip:relay@127.0.0.1:${port}`);
+
+    // Ignore the first transmission and answer the retransmission
+    const first = await standIn.next('INVITE');
+    const retransmitted = await standIn.next('INVITE');
+    expect(retransmitted.headers.via).toEqual(first.headers.via);
+    standIn.respond(retransmitted, 422, 'Session Interval Too Small', { 'min-se': '120' });
+
+    const retry = await standIn.next('INVITE');
+    expect(getSipHeader(retry, 'session-expires')).toBe('120');
+    standIn.respond(retry, 486, 'Busy Here');
+
+    await expect(callPromise).rejects.toThrow('486 Busy Here');
+    standIn.close();
+  });
+
+  test('rings, then handles CANCEL of an incoming call', async () => {
+    const standIn = new SipStandIn();
+    await standIn.start();
+    const agent = await createAgent();
+    const incoming = new Promise<SipCall>(resolve => agent.on('incomingCall', resolve));
+    const invite: SipRequest = {
+      type: 'request',
+      method: 'INVITE',
+      uri: `sip:agent@127.0.0.1:${agent.port}`,
+      body: answerSdp,
+      headers: {
+        via: ['SIP/2.0/UDP 127.0.0.1;branch=z9hG4bKcancelme'],
+        from: ['<sip:caller@127.0.0.1>;tag=caller'],
+        to: [`<sip:agent@127.0.0.1:${agent.port}>`],
+        'call-id': ['cancel-test'],
+        cseq: ['1 INVITE'],
+        contact: ['<sip:caller@127.0.0.1>'],
+      },
+    };
+
+    standIn.send(invite, agent.port);
+    const trying = await standIn.nextResponse();
+    const ringing = await standIn.nextResponse();
+    const call = await incoming;
+    expect([trying.status, ringing.status]).toEqual([100, 180]);
+    expect(call.state).toBe('ringing');
+    const ended = new Promise(resolve => call.once('ended', resolve));
+
+    const responses = [standIn.nextResponse()];
+    standIn.send({
+      ...invite,
+      method: 'CANCEL',
+      body: '',
+      headers: { ...invite.headers, cseq: ['1 CANCEL'] },
+    }, agent.port);
+    const cancelOk = await responses[0];
+    const terminated = await standIn.nextResponse();
+
+    expect(getSipHeader(cancelOk, 'cseq')).toBe('1 CANCEL');
+    expect(terminated.status).toBe(487);
+    expect(await ended).toBe('cancelled');
+    standIn.close();
+  });
+});
@@ -0,0 +1,426 @@
+import { EventEmitter } from 'events';
+import { T140RtpErrorType, TransportStream } from '../src/interfaces';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { createRtcpBye, createRtcpReceiverReport, isRtcpPacket, parseRtcpPackets } from '../src/rtp/rtcp';
+import { SrtcpEncryptor } from '../src/rtp/srtcp-encryptor';
+import { SrtpDecryptor } from '../src/rtp/srtp-decryptor';
+import { T140RtpReceiver } from '../src/rtp/t140-rtp-receiver';
+import { T140RtpTransport } from '../src/rtp/t140-rtp-transport';
+import { createSrtpKeysFromPassphrase } from '../src/utils/security';
+
+/**
+ * Custom transport that records every packet sent
+ */
+class CaptureTransport implements TransportStream {
+  public sentPackets: Buffer[] = [];
+
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    this.sentPackets.push(Buffer.from(data));
+    if (callback) callback();
+  }
+}
+
+const { masterKey, masterSalt } = createSrtpKeysFromPassphrase('srtp-receive-test');
+
+/**
+ * Send each text through an SRTP transport and return the encrypted packets
+ */
+function sendSrtp(texts: string[], config: any = {}, srtpConfig: any = {}): Buffer[] {
+  const capture = new CaptureTransport();
+  const transport = new T140RtpTransport('127.0.0.1', 5006, {
+    customTransport: capture,
+    ssrc: 4321,
+    ...config,
+  });
+  transport.setupSrtp({ masterKey, masterSalt, ...srtpConfig });
+  for (const text of texts) {
+    transport.sendText(text);
+  }
+  transport.close();
+  return capture.sentPackets;
+}
+
+describe('SrtpDecryptor', () => {
+  test('decrypts AES128_CM_HMAC_SHA1_80 packets', () => {
+    const decryptor = new SrtpDecryptor({ masterKey, masterSalt });
+    const packets = sendSrtp(['secret']);
+
+    expect(packets[0].includes(Buffer.from('secret'))).toBe(false);
+    const packet = parseRtpPacket(decryptor.decrypt(packets[0])!);
+    expect(packet.payload.toString()).toBe('secret');
+    expect(packet.ssrc).toBe(4321);
+  });
+
+  test('decrypts AEAD_AES_128_GCM packets', () => {
+    const gcmSalt = masterSalt.slice(0, 12);
+    const decryptor = new SrtpDecryptor({ masterKey, masterSalt: gcmSalt, profile: 7 });
+    const packets = sendSrtp(['gcm text'], {}, { masterSalt: gcmSalt, profile: 7 });
+
+    expect(parseRtpPacket(decryptor.decrypt(packets[0])!).payload.toString()).toBe('gcm text');
+
+    packets[0][packets[0].length - 1] ^= 1;
+    expect(() => new SrtpDecryptor({
+      masterKey,
+      masterSalt: gcmSalt,
+      profile: 7,
+    }).decrypt(packets[0])).toThrow('authentication failed');
+  });
+
+  test('rejects tampered packets and wrong keys', () => {
+    const packets = sendSrtp(['one', 'two']);
+    const tampered = Buffer.from(packets[0]);
+    tampered[12] ^= 0xff;
+
+    expect(() => new SrtpDecryptor({ masterKey, masterSalt }).decrypt(tampered)).toThrow(
+      'authentication tag mismatch'
+    );
+
+    const other = { masterKey: Buffer.alloc(16, 1), masterSalt: Buffer.alloc(14, 2) };
+    expect(() => new SrtpDecryptor(other).decrypt(packets[1])).toThrow(
+      'authentication tag mismatch'
+    );
+  });
+
+  test('drops replays, including packets older than the replay window', () => {
+    const decryptor = new SrtpDecryptor({ masterKey, masterSalt });
+    const texts = Array.from({ length: 70 }, (_, i) => `${i}`);
+    const packets = sendSrtp(texts);
+
+    expect(decryptor.decrypt(packets[0])).toBeDefined();
+    expect(decryptor.decrypt(packets[0])).toBeUndefined();
+    for (const packet of packets.slice(1)) {
+      decryptor.decrypt(packet);
+    }
+    // Index 1 was never replayed but has slid out of the 64-packet window
+    expect(decryptor.decrypt(packets[1])).toBeUndefined();
+    expect(decryptor.replayed).toBe(2);
+  });
+
+  test('follows the rollover counter across a sequence number wrap', () => {
+    const decryptor = new SrtpDecryptor({ masterKey, masterSalt });
+    const packets = sendSrtp(['a', 'b', 'c', 'd'], { initialSequenceNumber: 65534 });
+
+    const texts = packets.map((p) => parseRtpPacket(decryptor.decrypt(p)!).payload.toString());
+    expect(texts).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  test('rejects configurations it cannot decrypt', () => {
+    expect(() => new SrtpDecryptor({ masterKey } as any)).toThrow('master key or salt');
+    expect(() => new SrtpDecryptor({ masterKey, masterSalt, profile: 2 })).toThrow(
+      'Unsupported SRTP profile'
+    );
+  });
+});
+
+describe('SRTP on the receive side', () => {
+  let inbound: EventEmitter;
+  let receiver: T140RtpReceiver;
+  let received: string[];
+  let errors: any[];
+
+  beforeEach(() => {
+    inbound = new EventEmitter();
+    receiver = new T140RtpReceiver({
+      inboundTransport: inbound,
+      srtpConfig: { masterKey, masterSalt },
+    });
+    received = [];
+    errors = [];
+    receiver.on('data', (text: string) => received.push(text));
+    receiver.on('error', (err) => errors.push(err));
+  });
+
+  afterEach(() => {
+    receiver.close();
+  });
+
+  test('T140RtpReceiver decrypts SRTP from T140RtpTransport', () => {
+    sendSrtp(['Hello', ' SRTP']).forEach((p) => inbound.emit('data', p));
+
+    expect(received).toEqual(['Hello', ' SRTP']);
+    expect(errors).toHaveLength(0);
+  });
+
+  test('T140RtpReceiver reports failed authentication as ENCRYPTION_ERROR', () => {
+    const packets = sendSrtp(['ok', 'forged']);
+    packets[1][packets[1].length - 1] ^= 1;
+    packets.forEach((p) => inbound.emit('data', p));
+    inbound.emit('data', packets[0]);
+
+    expect(received).toEqual(['ok']);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].type).toBe(T140RtpErrorType.ENCRYPTION_ERROR);
+  });
+
+  test('T140RtpReceiver recovers from FEC packets sent over SRTP', () => {
+    const packets = sendSrtp(['a', 'b', 'c'], { fecEnabled: true, fecGroupSize: 3 });
+    // Lose the second media packet; the FEC packet comes last
+    [packets[0], packets[2], packets[3]].forEach((p) => inbound.emit('data', p));
+
+    expect(received).toEqual(['a', 'b', 'c']);
+    expect(errors).toHaveLength(0);
+  });
+
+  test('setupSrtp reports unusable configuration as INVALID_CONFIG', () => {
+    receiver.setupSrtp({ masterKey, masterSalt, profile: 5 });
+
+    expect(errors[0].type).toBe(T140RtpErrorType.INVALID_CONFIG);
+  });
+});
+
+describe('SRTP rekeying', () => {
+  test('tags packets with the MKI and picks the key by it', () => {
+    const packets = sendSrtp(['tagged'], {}, { mki: 7, mkiLength: 2 });
+    const plain = sendSrtp(['tagged']);
+
+    expect(packets[0].length).toBe(plain[0].length + 2);
+    expect(packets[0].readUInt16BE(packets[0].length - 12)).toBe(7);
+    const decryptor = new SrtpDecryptor({ masterKey, masterSalt, mki: 7, mkiLength: 2 });
+    expect(parseRtpPacket(decryptor.decrypt(packets[0])!).payload.toString()).toBe('tagged');
+    expect(() => new SrtpDecryptor({ masterKey, masterSalt, mki: 8, mkiLength: 2 })
+      .decrypt(packets[0])).toThrow('unknown MKI');
+
+    const gcmSalt = masterSalt.slice(0, 12);
+    const gcm = sendSrtp(['aead'], {}, { masterSalt: gcmSalt, profile: 7, mki: 3, mkiLength: 1 });
+    expect(gcm[0][gcm[0].length - 1]).toBe(3);
+    const gcmDecryptor = new SrtpDecryptor({
+      masterKey,
+      masterSalt: gcmSalt,
+      profile: 7,
+      mki: 3,
+      mkiLength: 1,
+    });
+    expect(parseRtpPacket(gcmDecryptor.decrypt(gcm[0])!).payload.toString()).toBe('aead');
+  });
+
+  test('keeps the rollover counter and accepts late packets under the old key', () => {
+    const capture = new CaptureTransport();
+    const transport = new T140RtpTransport('127.0.0.1', 5006, {
+      customTransport: capture,
+      initialSequenceNumber: 65534,
+    });
+    transport.setupSrtp({ masterKey, masterSalt, mki: 1 });
+    const rekeyed = jest.fn();
+    transport.on('srtpRekey', rekeyed);
+    transport.sendText('a');
+    transport.sendText('b');
+    const newConfig = transport.rekeySrtp()!;
+    transport.sendText('c');
+    transport.sendText('d');
+    transport.close();
+
+    expect(rekeyed).toHaveBeenCalledWith(newConfig);
+    expect(newConfig.mki).toBe(2);
+    expect(newConfig.masterKey).not.toEqual(masterKey);
+
+    const decryptor = new SrtpDecryptor({ masterKey, masterSalt, mki: 1 });
+    const [a, b, c, d] = capture.sentPackets;
+    const text = (packet: Buffer) => parseRtpPacket(decryptor.decrypt(packet)!).payload.toString();
+    expect(text(a)).toBe('a');
+    decryptor.rekey(newConfig);
+    // c has sequence number 0, so it only decrypts with rollover counter 1
+    expect(text(c)).toBe('c');
+    expect(text(b)).toBe('b');
+    expect(text(d)).toBe('d');
+  });
+
+  test('drops the old key once the grace period is over', () => {
+    const packets = sendSrtp(['old']);
+    const decryptor = new SrtpDecryptor({ masterKey, masterSalt });
+    decryptor.rekey({ masterKey: Buffer.alloc(16, 1), masterSalt: Buffer.alloc(14, 2) }, 0);
+
+    expect(() => decryptor.decrypt(packets[0])).toThrow('authentication tag mismatch');
+  });
+
+  test('rekeys after keyLifetime packets and the receiver follows', () => {
+    const inbound = new EventEmitter();
+    const receiver = new T140RtpReceiver({
+      inboundTransport: inbound,
+      srtpConfig: { masterKey, masterSalt, mki: 1, mkiLength: 1 },
+    });
+    const received: string[] = [];
+    receiver.on('data', (text: string) => received.push(text));
+
+    const capture = new CaptureTransport();
+    const transport = new T140RtpTransport('127.0.0.1', 5006, { customTransport: capture });
+    transport.on('srtpRekey', (config) => receiver.rekeySrtp(config));
+    transport.setupSrtp({ masterKey, masterSalt, mki: 1, mkiLength: 1, keyLifetime: 2 });
+    ['1', '2', '3', '4', '5'].forEach((text) => transport.sendText(text));
+    transport.close();
+
+    const mkis = capture.sentPackets.map((packet) => packet[packet.length - 11]);
+    expect(mkis).toEqual([1, 1, 2, 2, 3]);
+    capture.sentPackets.forEach((packet) => inbound.emit('data', packet));
+    expect(received.join('')).toBe('12345');
+    receiver.close();
+  });
+
+  test('rekeySrtp without SRTP reports INVALID_CONFIG', () => {
+    const transport = new T140RtpTransport('127.0.0.1', 5006, {
+      customTransport: new CaptureTransport(),
+    });
+    const errors: any[] = [];
+    transport.on('error', (err) => errors.push(err));
+
+    expect(transport.rekeySrtp()).toBeUndefined();
+    expect(errors[0].type).toBe(T140RtpErrorType.INVALID_CONFIG);
+    transport.close();
+  });
+});
+
+describe('SRTCP', () => {
+  const report = Buffer.concat([createRtcpReceiverReport(1234), createRtcpBye([1234])]);
+
+  test('round-trips RTCP and rejects tampering and replays', () => {
+    const gcmSalt = masterSalt.slice(0, 12);
+    const configs = [
+      { masterKey, masterSalt },
+      { masterKey, masterSalt, mki: 5, mkiLength: 2 },
+      { masterKey, masterSalt: gcmSalt, profile: 7 as const },
+      { masterKey, masterSalt: gcmSalt, profile: 7 as const, mki: 5, mkiLength: 2 },
+    ];
+
+    for (const config of configs) {
+      const encryptor = new SrtcpEncryptor(config);
+      const decryptor = new SrtpDecryptor(config);
+      const first = encryptor.encrypt(report);
+      const second = encryptor.encrypt(report);
+
+      expect(first.slice(8).includes(report.slice(8, 16))).toBe(false);
+      expect(isRtcpPacket(first)).toBe(true);
+      expect(decryptor.decryptRtcp(first)).toEqual(report);
+      expect(decryptor.decryptRtcp(first)).toBeUndefined();
+
+      const tampered = Buffer.from(second);
+      tampered[10] ^= 1;
+      expect(() => decryptor.decryptRtcp(tampered)).toThrow('authentication');
+      expect(decryptor.decryptRtcp(second)).toEqual(report);
+    }
+  });
+
+  test('keeps the SRTCP index and accepts the old key after a rekey', () => {
+    const encryptor = new SrtcpEncryptor({ masterKey, masterSalt });
+    const decryptor = new SrtpDecryptor({ masterKey, masterSalt });
+    const oldKeyPacket = encryptor.encrypt(report);
+    const next = { masterKey: Buffer.alloc(16, 1), masterSalt: Buffer.alloc(14, 2) };
+    encryptor.rekey(next);
+    decryptor.rekey(next);
+    const newKeyPacket = encryptor.encrypt(report);
+
+    expect(newKeyPacket.readUInt32BE(newKeyPacket.length - 14) & 0x7fffffff).toBe(2);
+    expect(decryptor.decryptRtcp(newKeyPacket)).toEqual(report);
+    expect(decryptor.decryptRtcp(oldKeyPacket)).toEqual(report);
+  });
+
+  test('T140RtpTransport sends reports and BYE only as SRTCP', () => {
+    const capture = new CaptureTransport();
+    const transport = new T140RtpTransport('127.0.0.1', 5006, {
+      customTransport: capture,
+      ssrc: 4321,
+      rtcpEnabled: true,
+    });
+    transport.setupSrtp({ masterKey, masterSalt, isSRTCP: true });
+    transport.sendText('hi');
+    transport.close();
+
+    const rtcp = capture.sentPackets.filter(isRtcpPacket);
+    expect(rtcp).toHaveLength(1);
+    const decryptor = new SrtpDecryptor({ masterKey, masterSalt });
+    const packets = parseRtcpPackets(decryptor.decryptRtcp(rtcp[0])!);
+    expect(packets.map((packet) => packet.type)).toEqual(['sr', 'sdes', 'bye']);
+  });
+
+  test('T140RtpTransport sends no RTCP under SRTP without isSRTCP', () => {
+    const capture = new CaptureTransport();
+    const transport = new T140RtpTransport('127.0.0.1', 5006, {
+      customTransport: capture,
+      rtcpEnabled: true,
+    });
+    const errors: any[] = [];
+    transport.on('error', (err) => errors.push(err));
+    transport.setupSrtp({ masterKey, masterSalt });
+    transport.sendText('hi');
+    transport.close();
+
+    expect(capture.sentPackets.some(isRtcpPacket)).toBe(false);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].type).toBe(T140RtpErrorType.INVALID_CONFIG);
+  });
+
+  test('NACKs travel as SRTCP and trigger retransmission', () => {
+    const srtpConfig = { masterKey, masterSalt, isSRTCP: true };
+    const inbound = new EventEmitter();
+    const sender = new T140RtpTransport('127.0.0.1', 5006, {
+      ssrc: 4321,
+      rtxPayloadType: 99,
+      customTransport: {
+        send: (data: Buffer, callback?: (error?: Error) => void) => {
+          // Drop the first transmission of the second packet
+          if (!(data.readUInt16BE(2) === 1 && (data[1] & 0x7f) !== 99)) {
+            inbound.emit('data', data);
+          }
+          if (callback) callback();
+        },
+      },
+    });
+    sender.setupSrtp(srtpConfig);
+    const feedback: Buffer[] = [];
+    const receiver = new T140RtpReceiver({
+      srtpConfig,
+      inboundTransport: inbound,
+      rtxPayloadType: 99,
+      nackEnabled: true,
+      feedbackTransport: {
+        send: (data: Buffer) => {
+          feedback.push(data);
+          sender.handleRtcpPacket(data);
+        },
+      },
+    });
+    const text: string[] = [];
+    receiver.on('data', (t: string) => text.push(t));
+    const nacks = jest.fn();
+    sender.on('nack', nacks);
+
+    ['S', 'R', 'T'].forEach((t) => sender.sendText(t));
+    receiver.close();
+    sender.close();
+
+    expect(() => parseRtcpPackets(feedback[0])).toThrow();
+    expect(nacks).toHaveBeenCalledWith([1]);
+    expect(text).toEqual(['S', 'R', 'T']);
+  });
+
+  test('T140RtpTransport takes inbound SRTCP under the peer\'s own key', () => {
+    const transport = new T140RtpTransport('127.0.0.1', 5006, {
+      customTransport: new CaptureTransport(),
+    });
+    const remote = { masterKey: Buffer.alloc(16, 3), masterSalt: Buffer.alloc(14, 4) };
+    const peer = new SrtcpEncryptor(remote);
+    const byes = jest.fn();
+    const errors: any[] = [];
+    transport.on('bye', byes);
+    transport.on('error', (err) => errors.push(err));
+    transport.setupSrtp({ masterKey, masterSalt, isSRTCP: true }, remote);
+
+    transport.handleRtcpPacket(new SrtcpEncryptor({ masterKey, masterSalt }).encrypt(report));
+    expect(errors.map((err) => err.type)).toEqual([T140RtpErrorType.ENCRYPTION_ERROR]);
+    transport.handleRtcpPacket(peer.encrypt(report));
+    expect(byes).toHaveBeenCalledTimes(1);
+
+    // Our own rekey leaves the peer's key alone
+    transport.rekeySrtp();
+    transport.handleRtcpPacket(peer.encrypt(report));
+    expect(byes).toHaveBeenCalledTimes(2);
+
+    const nextRemote = { masterKey: Buffer.alloc(16, 5), masterSalt: Buffer.alloc(14, 6) };
+    const inFlight = peer.encrypt(report);
+    transport.rekeySrtp(undefined, nextRemote);
+    peer.rekey(nextRemote);
+    transport.handleRtcpPacket(peer.encrypt(report));
+    transport.handleRtcpPacket(inFlight);
+    expect(byes).toHaveBeenCalledTimes(4);
+    expect(errors).toHaveLength(1);
+    transport.close();
+  });
+});
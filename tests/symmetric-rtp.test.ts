@@ -0,0 +1,208 @@
+import * as dgram from 'dgram';
+import { AddressInfo } from 'net';
+import { RtpPacket, SrtpSession } from 'werift-rtp';
+import { T140RtpErrorType } from '../src/interfaces';
+import { createRtpPacket } from '../src/rtp/create-rtp-packet';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { createRtcpBye, RtcpPacket } from '../src/rtp/rtcp';
+import { T140RtpReceiver } from '../src/rtp/t140-rtp-receiver';
+import { T140RtpTransport } from '../src/rtp/t140-rtp-transport';
+import { createSrtpKeysFromPassphrase } from '../src/utils/security';
+
+async function bindPeer(): Promise<dgram.Socket> {
+  const peer = dgram.createSocket('udp4');
+  await new Promise<void>(resolve => peer.bind(0, '127.0.0.1', resolve));
+  return peer;
+}
+
+function portOf(socket: dgram.Socket): number {
+  return (socket.address() as AddressInfo).port;
+}
+
+function nextMessage(socket: dgram.Socket): Promise<[Buffer, dgram.RemoteInfo]> {
+  return new Promise(resolve => socket.once('message', (msg, rinfo) => resolve([msg, rinfo])));
+}
+
+function listening(transport: T140RtpTransport): Promise<AddressInfo> {
+  return new Promise(resolve => transport.once('listening', resolve));
+}
+
+describe('Symmetric RTP', () => {
+  let peer: dgram.Socket;
+  let transport: T140RtpTransport | undefined;
+
+  beforeEach(async () => {
+    peer = await bindPeer();
+  });
+
+  afterEach(() => {
+    transport?.close();
+    transport = undefined;
+    peer.close();
+  });
+
+  test('sends from the bound port and passes inbound RTP to a receiver', async () => {
+    transport = new T140RtpTransport('127.0.0.1', portOf(peer), {
+      localAddress: '127.0.0.1',
+      localPort: 0,
+    });
+    const local = await listening(transport);
+    expect(transport.getLocalAddress()).toEqual(local);
+
+    const message = nextMessage(peer);
+    transport.sendText('out');
+    const [packet, rinfo] = await message;
+    expect(parseRtpPacket(packet).payload.toString()).toBe('out');
+    expect(rinfo.port).toBe(local.port);
+
+    const receiver = new T140RtpReceiver({ inboundTransport: transport });
+    const text = new Promise(resolve => receiver.once('data', resolve));
+    peer.send(createRtpPacket(1, 0, 'back', { ssrc: 42 }), local.port, '127.0.0.1');
+    expect(await text).toBe('back');
+    receiver.close();
+    transport = undefined;
+  });
+
+  test('ignores packets from other sources unless latching', async () => {
+    transport = new T140RtpTransport('127.0.0.1', portOf(peer), { localPort: 0 });
+    const local = await listening(transport);
+    const stranger = await bindPeer();
+    const packets: Buffer[] = [];
+    transport.on('data', (data: Buffer) => packets.push(data));
+
+    stranger.send(createRtpPacket(1, 0, 'spoof'), local.port, '127.0.0.1');
+    peer.send(createRtpPacket(2, 0, 'real'), local.port, '127.0.0.1');
+    await new Promise(resolve => transport!.once('data', resolve));
+
+    expect(packets.map(data => parseRtpPacket(data).payload.toString())).toEqual(['real']);
+    stranger.close();
+  });
+
+  test('ignores RTCP from other sources', async () => {
+    transport = new T140RtpTransport('127.0.0.1', portOf(peer), {
+      localPort: 0,
+      rtcpEnabled: true,
+      rtcpMux: true,
+    });
+    const local = await listening(transport);
+    const stranger = await bindPeer();
+    const byes: number[][] = [];
+    transport.on('rtcp', (packets: RtcpPacket[]) => {
+      for (const packet of packets) {
+        if (packet.type === 'bye') byes.push(packet.ssrcs);
+      }
+    });
+
+    stranger.send(createRtcpBye([7]), local.port, '127.0.0.1');
+    peer.send(createRtcpBye([42]), local.port, '127.0.0.1');
+    await new Promise(resolve => transport!.once('rtcp', resolve));
+
+    expect(byes).toEqual([[42]]);
+    stranger.close();
+  });
+
+  test('takes RTCP on its own port only from the remote RTCP port', async () => {
+    const rtcpPeer = await bindPeer();
+    transport = new T140RtpTransport('127.0.0.1', portOf(peer), {
+      localPort: 0,
+      rtcpEnabled: true,
+      rtcpPort: portOf(rtcpPeer),
+      rtcpInterval: 20,
+    });
+    await listening(transport);
+    // Reports arrive from our RTCP socket, which is where the peer answers
+    const [, rtcpSource] = await nextMessage(rtcpPeer);
+    const byes: number[][] = [];
+    transport.on('rtcp', (packets: RtcpPacket[]) => {
+      for (const packet of packets) {
+        if (packet.type === 'bye') byes.push(packet.ssrcs);
+      }
+    });
+
+    peer.send(createRtcpBye([7]), rtcpSource.port, '127.0.0.1');
+    rtcpPeer.send(createRtcpBye([42]), rtcpSource.port, '127.0.0.1');
+    await new Promise(resolve => transport!.once('rtcp', resolve));
+
+    expect(byes).toEqual([[42]]);
+    rtcpPeer.close();
+  });
+
+  test('latches onto the source of the first inbound packet', async () => {
+    // The advertised remote address is unreachable behind NAT
+    transport = new T140RtpTransport('127.0.0.1', 9, {
+      localPort: 0,
+      latchRemoteAddress: true,
+    });
+    const local = await listening(transport);
+
+    const latched = new Promise<[string, number]>((resolve) => {
+      transport!.once('latched', (address: string, port: number) => resolve([address, port]));
+    });
+    peer.send(createRtpPacket(1, 0, 'hello'), local.port, '127.0.0.1');
+    expect(await latched).toEqual(['127.0.0.1', portOf(peer)]);
+
+    const message = nextMessage(peer);
+    transport.sendText('latched');
+    expect(parseRtpPacket((await message)[0]).payload.toString()).toBe('latched');
+  });
+
+  test('latches only onto RTP with the expected SSRC and payload type', async () => {
+    transport = new T140RtpTransport('127.0.0.1', 9, {
+      localPort: 0,
+      latchRemoteAddress: true,
+      remoteSsrc: 42,
+    });
+    const local = await listening(transport);
+    const latched: number[] = [];
+    transport.on('latched', (_address: string, port: number) => latched.push(port));
+    const stranger = await bindPeer();
+
+    stranger.send(Buffer.from('not rtp'), local.port, '127.0.0.1');
+    const wrongType = createRtpPacket(1, 0, 'pt', { ssrc: 42, payloadType: 99 });
+    stranger.send(wrongType, local.port, '127.0.0.1');
+    stranger.send(createRtpPacket(2, 0, 'ssrc', { ssrc: 7 }), local.port, '127.0.0.1');
+    const message = nextMessage(peer);
+    peer.send(createRtpPacket(3, 0, 'hello', { ssrc: 42 }), local.port, '127.0.0.1');
+    await new Promise(resolve => transport!.once('latched', resolve));
+    transport.sendText('latched');
+    await message;
+
+    expect(latched).toEqual([portOf(peer)]);
+    stranger.close();
+  });
+
+  test('latches only onto SRTP that authenticates once SRTP is on', async () => {
+    const keys = createSrtpKeysFromPassphrase('latching');
+    transport = new T140RtpTransport('127.0.0.1', 9, { localPort: 0, latchRemoteAddress: true });
+    transport.setupSrtp(keys);
+    const local = await listening(transport);
+    const latched: number[] = [];
+    transport.on('latched', (_address: string, port: number) => latched.push(port));
+    const stranger = await bindPeer();
+    const session = new SrtpSession({
+      keys: {
+        localMasterKey: keys.masterKey,
+        localMasterSalt: keys.masterSalt,
+        remoteMasterKey: keys.masterKey,
+        remoteMasterSalt: keys.masterSalt,
+      },
+      profile: 1,
+    });
+    const rtp = RtpPacket.deSerialize(createRtpPacket(1, 0, 'hello', { ssrc: 42 }));
+
+    stranger.send(createRtpPacket(1, 0, 'plain', { ssrc: 42 }), local.port, '127.0.0.1');
+    peer.send(session.encrypt(rtp.payload, rtp.header), local.port, '127.0.0.1');
+    await new Promise(resolve => transport!.once('latched', resolve));
+
+    expect(latched).toEqual([portOf(peer)]);
+    stranger.close();
+  });
+
+  test('rejects invalid local options with INVALID_CONFIG', () => {
+    const invalid = expect.objectContaining({ type: T140RtpErrorType.INVALID_CONFIG });
+    expect(() => new T140RtpTransport('127.0.0.1', 5004, { localPort: 70000 })).toThrow(invalid);
+    expect(() => new T140RtpTransport('127.0.0.1', 5004, { localAddress: 'host' })).toThrow(invalid);
+    expect(() => new T140RtpTransport('127.0.0.1', 5004, { remoteSsrc: -1 })).toThrow(invalid);
+    expect(() => new T140RtpTransport('127.0.0.1', 5004, { localAddress: '::1' })).toThrow(invalid);
+  });
+});
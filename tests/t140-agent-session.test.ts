@@ -0,0 +1,256 @@
+import { EventEmitter } from 'events';
+import { T140RtpErrorType, TransportStream } from '../src/interfaces';
+import {
+  createT140AgentSession,
+  T140AgentSession,
+} from '../src/processors/t140-agent-session';
+import { createRtpPacket } from '../src/rtp/create-rtp-packet';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+
+/**
+ * Inbound packet source standing in for the remote party
+ */
+class TestInbound extends EventEmitter {
+  private seq = 1;
+
+  type(text: string): void {
+    this.emit('data', createRtpPacket(this.seq, this.seq * 160, text, { ssrc: 0x11223344 }));
+    this.seq += 1;
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
+
+/**
+ * Outbound transport capturing the agent's text
+ */
+class CaptureTransport implements TransportStream {
+  public packets: Buffer[] = [];
+
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    this.packets.push(data);
+    if (callback) callback();
+  }
+
+  get text(): string {
+    return this.packets.map(p => parseRtpPacket(p).payload.toString('utf-8')).join('');
+  }
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * A reply stream that emits its chunks once and ends
+ */
+function replyStream(chunks: string[]): EventEmitter {
+  const stream = new EventEmitter();
+  setTimeout(() => {
+    chunks.forEach(chunk => stream.emit('data', chunk));
+    stream.emit('end');
+  }, 5);
+  return stream;
+}
+
+describe('T140AgentSession', () => {
+  let inbound: TestInbound;
+  let outbound: CaptureTransport;
+  let session: T140AgentSession | undefined;
+
+  function create(overrides: any = {}): T140AgentSession {
+    session = createT140AgentSession({
+      remoteAddress: '127.0.0.1',
+      rtpConfig: { customTransport: outbound, charRateLimit: 1000 },
+      receiverConfig: { inboundTransport: inbound, jitterBufferDelay: 10 },
+      reply: () => replyStream(['ok']),
+      turnIdleTimeout: 0,
+      ...overrides,
+    });
+    return session;
+  }
+
+  beforeEach(() => {
+    inbound = new TestInbound();
+    outbound = new CaptureTransport();
+    session = undefined;
+  });
+
+  afterEach(() => {
+    session?.close();
+  });
+
+  test('requires a reply function', () => {
+    expect(() => createT140AgentSession({ remoteAddress: '127.0.0.1' } as any)).toThrow(
+      'An agent session requires a reply function'
+    );
+  });
+
+  test('replies to a turn ended by a line break', async () => {
+    const reply = jest.fn(() => replyStream(['Hi ', 'there']));
+    const agent = create({ reply });
+    const turns: string[] = [];
+    const ended = jest.fn();
+    agent.on('turn', text => turns.push(text));
+    agent.on('replyEnd', ended);
+
+    inbound.type('Hello');
+    inbound.type(' agent\u2028next');
+    await wait(300);
+
+    expect(turns).toEqual(['Hello agent']);
+    expect(reply).toHaveBeenCalledTimes(1);
+    expect(reply.mock.calls[0][0]).toBe('Hello agent');
+    expect((reply.mock.calls[0] as any[])[1].turn).toBe(1);
+    expect(ended).toHaveBeenCalledWith(1);
+    expect(outbound.text).toBe('Hi there\u2028');
+    expect(agent.currentTurnText).toBe('next');
+  });
+
+  test('applies backspaces before handing the turn over', async () => {
+    const agent = create();
+    const turns: string[] = [];
+    agent.on('turn', text => turns.push(text));
+
+    inbound.type('Helx');
+    inbound.type('\u0008lo\n');
+    await wait(50);
+
+    expect(turns).toEqual(['Hello']);
+  });
+
+  test('ends a turn after the idle timeout', async () => {
+    const agent = create({ turnIdleTimeout: 50 });
+    const turns: string[] = [];
+    agent.on('turn', text => turns.push(text));
+
+    inbound.type('are you there');
+    await wait(20);
+    expect(turns).toEqual([]);
+
+    await wait(100);
+    expect(turns).toEqual(['are you there']);
+  });
+
+  test('ends a turn when isEndOfTurn returns true', async () => {
+    const agent = create({ isEndOfTurn: (text: string) => text.endsWith('?') });
+    const turns: string[] = [];
+    agent.on('turn', text => turns.push(text));
+
+    inbound.type('what time is it');
+    inbound.type('?');
+    await wait(50);
+
+    expect(turns).toEqual(['what time is it?']);
+  });
+
+  test('cancels the reply and aborts its signal on barge-in', async () => {
+    let signal: any;
+    const aborted = jest.fn();
+    const stream = new EventEmitter();
+    const agent = create({
+      reply: (_text: string, context: any) => {
+        signal = context.signal;
+        signal.addEventListener('abort', aborted);
+        stream.emit('data', 'Let me think');
+        return stream;
+      },
+    });
+    const cancelled = jest.fn();
+    agent.on('replyCancelled', cancelled);
+
+    inbound.type('question\n');
+    await wait(20);
+    expect(agent.replying).toBe(true);
+
+    inbound.type('w');
+    await wait(20);
+
+    expect(cancelled).toHaveBeenCalledWith(1, 'barge-in');
+    expect(signal.aborted).toBe(true);
+    expect(aborted).toHaveBeenCalledTimes(1);
+    expect(agent.replying).toBe(false);
+    expect(stream.listenerCount('data')).toBe(0);
+  });
+
+  test('ends a reply stream that arrives after the reply was cancelled', async () => {
+    let resolveReply: (stream: EventEmitter) => void = () => undefined;
+    const agent = create({
+      reply: () => new Promise<EventEmitter>((resolve) => { resolveReply = resolve; }),
+    });
+    const cancelled = jest.fn();
+    agent.on('replyCancelled', cancelled);
+
+    inbound.type('question\n');
+    await wait(20);
+    inbound.type('w');
+    await wait(20);
+    expect(cancelled).toHaveBeenCalledWith(1, 'barge-in');
+
+    const late = Object.assign(new EventEmitter(), { destroy: jest.fn() });
+    resolveReply(late);
+    await wait(20);
+
+    expect(late.destroy).toHaveBeenCalledTimes(1);
+    expect(late.listenerCount('data')).toBe(0);
+  });
+
+  test('returns a late async iterable reply so its source is closed', async () => {
+    const iteratorReturn = jest.fn(() => Promise.resolve({ done: true, value: undefined }));
+    let resolveReply: (stream: AsyncIterable<string>) => void = () => undefined;
+    create({
+      reply: () => new Promise<AsyncIterable<string>>((resolve) => { resolveReply = resolve; }),
+    });
+
+    inbound.type('question\n');
+    await wait(20);
+    inbound.type('w');
+    await wait(20);
+
+    resolveReply({
+      [Symbol.asyncIterator]: () => ({
+        next: () => Promise.resolve({ done: false, value: 'never read' }),
+        return: iteratorReturn,
+      }),
+    });
+    await wait(20);
+
+    expect(iteratorReturn).toHaveBeenCalledTimes(1);
+  });
+
+  test('queues turns while replying when barge-in is disabled', async () => {
+    const replies: string[] = [];
+    const agent = create({
+      bargeIn: false,
+      reply: (text: string) => {
+        replies.push(text);
+        return replyStream(['ok']);
+      },
+    });
+
+    inbound.type('one\n');
+    inbound.type('two\n');
+    await wait(400);
+
+    expect(replies).toEqual(['one', 'two']);
+    expect(outbound.text).toBe('ok\u2028ok\u2028');
+  });
+
+  test('emits AGENT_ERROR when the reply function fails', async () => {
+    const agent = create({
+      reply: () => Promise.reject(new Error('model unavailable')),
+    });
+    const errors: any[] = [];
+    agent.on('error', err => errors.push(err));
+
+    inbound.type('hello\n');
+    await wait(20);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].type).toBe(T140RtpErrorType.AGENT_ERROR);
+    expect(errors[0].cause.message).toBe('model unavailable');
+    expect(agent.replying).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { T140Presentation } from '../src/utils/t140-presentation';
+
+describe('T140Presentation', () => {
+  let presentation: T140Presentation;
+  let changes: [string, any][];
+
+  beforeEach(() => {
+    presentation = new T140Presentation();
+    changes = [];
+    presentation.on('change', (text: string, diff: any) => changes.push([text, diff]));
+  });
+
+  test('appends text and reports each write as a diff', () => {
+    presentation.write('Hello');
+    presentation.write(' world');
+
+    expect(presentation.text).toBe('Hello world');
+    expect(changes).toEqual([
+      ['Hello', { offset: 0, deleteCount: 0, insert: 'Hello' }],
+      ['Hello world', { offset: 5, deleteCount: 0, insert: ' world' }],
+    ]);
+  });
+
+  test('applies backspaces across packet boundaries', () => {
+    presentation.write('Helo');
+    presentation.write('\bl');
+    presentation.write('o\b\b\b\b');
+
+    expect(presentation.text).toBe('H');
+    expect(changes[1][1]).toEqual({ offset: 3, deleteCount: 1, insert: 'l' });
+    expect(changes[2][1]).toEqual({ offset: 1, deleteCount: 3, insert: '' });
+  });
+
+  test('erases whole grapheme clusters', () => {
+    presentation.write('hi \u{1F468}\u200D\u{1F469}\u200D\u{1F467}');
+    presentation.write('\b');
+    expect(presentation.text).toBe('hi ');
+
+    // The combining accent arrives in a later packet than its base letter
+    presentation.write('cafe');
+    presentation.write('\u0301');
+    presentation.write('\b');
+    expect(presentation.text).toBe('hi caf');
+  });
+
+  test('normalizes line separators and CR LF, even when split', () => {
+    presentation.write('one\u2028two\r\nthree\r');
+    presentation.write('\nfour\rfive\nsix');
+
+    expect(presentation.lines).toEqual(['one', 'two', 'three', 'four', 'five', 'six']);
+  });
+
+  test('backspace on an empty line removes the line break', () => {
+    presentation.write('line\u2028');
+    presentation.write('\b!');
+
+    expect(presentation.text).toBe('line!');
+  });
+
+  test('drops BOM keepalives without emitting a change', () => {
+    presentation.write('a');
+    presentation.write('\uFEFF');
+    presentation.write('b\uFEFFc');
+
+    expect(presentation.text).toBe('abc');
+    expect(changes).toHaveLength(2);
+  });
+
+  test('strips control sequences, including ones split across writes', () => {
+    const bell = jest.fn();
+    presentation.on('bell', bell);
+
+    presentation.write('red: \u001b[3');
+    presentation.write('1mtext\u001b[0m\u0007');
+    presentation.write('\u0098hidden\u009c!\u0000');
+
+    expect(presentation.text).toBe('red: text!');
+    expect(bell).toHaveBeenCalledTimes(1);
+  });
+
+  test('keeps the missing-text marker', () => {
+    presentation.write('Hel\uFFFDrld');
+
+    expect(presentation.text).toBe('Hel\uFFFDrld');
+  });
+
+  test('clear empties the display', () => {
+    presentation.write('abc');
+    presentation.clear();
+
+    expect(presentation.text).toBe('');
+    expect(changes[1]).toEqual(['', { offset: 0, deleteCount: 3, insert: '' }]);
+  });
+});
@@ -0,0 +1,222 @@
+import { EventEmitter } from 'events';
+import { T140RtpErrorType } from '../src/interfaces';
+import { createRtpPacket } from '../src/rtp/create-rtp-packet';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { T140RtpReceiver } from '../src/rtp/t140-rtp-receiver';
+import { T140RtpTransport } from '../src/rtp/t140-rtp-transport';
+
+/**
+ * Inbound packet source for testing
+ */
+class TestInbound extends EventEmitter {
+  public closed = false;
+
+  push(packet: Buffer): void {
+    this.emit('data', packet);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+const SSRC = 0x11223344;
+
+function packet(seq: number, text: string, options: any = {}): Buffer {
+  return createRtpPacket(seq, seq * 160, text, { ssrc: SSRC, ...options });
+}
+
+describe('parseRtpPacket', () => {
+  test('parses a basic packet created by createRtpPacket', () => {
+    const parsed = parseRtpPacket(packet(7, 'hi', { markerBit: true }));
+
+    expect(parsed.version).toBe(2);
+    expect(parsed.marker).toBe(true);
+    expect(parsed.payloadType).toBe(96);
+    expect(parsed.sequenceNumber).toBe(7);
+    expect(parsed.timestamp).toBe(7 * 160);
+    expect(parsed.ssrc).toBe(SSRC);
+    expect(parsed.csrcList).toEqual([]);
+    expect(parsed.payload.toString('utf-8')).toBe('hi');
+  });
+
+  test('parses CSRC list, header extension and padding', () => {
+    const header = Buffer.alloc(12);
+    header.writeUInt8(0x80 | 0x20 | 0x10 | 2, 0); // V=2, P, X, CC=2
+    header.writeUInt8(96, 1);
+    header.writeUInt16BE(1, 2);
+    header.writeUInt32BE(160, 4);
+    header.writeUInt32BE(SSRC, 8);
+    const csrcs = Buffer.alloc(8);
+    csrcs.writeUInt32BE(1, 0);
+    csrcs.writeUInt32BE(2, 4);
+    const extension = Buffer.from([0xbe, 0xde, 0x00, 0x01, 1, 2, 3, 4]);
+    const payload = Buffer.from('abc');
+    const padding = Buffer.from([0, 0, 3]);
+
+    const parsed = parseRtpPacket(Buffer.concat([header, csrcs, extension, payload, padding]));
+
+    expect(parsed.csrcList).toEqual([1, 2]);
+    expect(parsed.headerExtension?.profile).toBe(0xbede);
+    expect(parsed.headerExtension?.data).toEqual(Buffer.from([1, 2, 3, 4]));
+    expect(parsed.headerSize).toBe(28);
+    expect(parsed.payload.toString('utf-8')).toBe('abc');
+  });
+
+  test('rejects truncated and non-v2 packets', () => {
+    expect(() => parseRtpPacket(Buffer.alloc(4))).toThrow('too short');
+
+    const v1 = packet(1, 'x');
+    v1[0] = 0x40;
+    expect(() => parseRtpPacket(v1)).toThrow('Unsupported RTP version 1');
+
+    const badCsrc = packet(1, '');
+    badCsrc[0] = 0x80 | 3;
+    expect(() => parseRtpPacket(badCsrc)).toThrow('CSRC');
+  });
+});
+
+describe('T140RtpReceiver', () => {
+  let inbound: TestInbound;
+  let receiver: T140RtpReceiver;
+  let received: string[];
+  let errors: any[];
+
+  beforeEach(() => {
+    inbound = new TestInbound();
+    receiver = new T140RtpReceiver({ inboundTransport: inbound });
+    received = [];
+    errors = [];
+    receiver.on('data', (text: string) => received.push(text));
+    receiver.on('error', (err) => errors.push(err));
+  });
+
+  afterEach(() => {
+    receiver.close();
+  });
+
+  test('emits decoded text for in-order packets', () => {
+    inbound.push(packet(1, 'Hello'));
+    inbound.push(packet(2, ', '));
+    inbound.push(packet(3, 'world'));
+
+    expect(received).toEqual(['Hello', ', ', 'world']);
+    expect(errors).toHaveLength(0);
+  });
+
+  test('reorders out-of-order packets and drops duplicates', () => {
+    inbound.push(packet(10, 'a'));
+    inbound.push(packet(12, 'c'));
+    inbound.push(packet(11, 'b'));
+    inbound.push(packet(11, 'b'));
+    inbound.push(packet(13, 'd'));
+
+    expect(received).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  test('handles sequence number wraparound', () => {
+    inbound.push(packet(65534, 'x'));
+    inbound.push(packet(0, 'z'));
+    inbound.push(packet(65535, 'y'));
+
+    expect(received).toEqual(['x', 'y', 'z']);
+  });
+
+  test('gives up on a missing packet once the reorder window is full', () => {
+    receiver.close();
+    inbound = new TestInbound();
+    receiver = new T140RtpReceiver({ inboundTransport: inbound, reorderWindow: 2 });
+    received = [];
+    receiver.on('data', (text: string) => received.push(text));
+
+    inbound.push(packet(1, 'a'));
+    inbound.push(packet(3, 'c'));
+    inbound.push(packet(4, 'd'));
+    expect(received).toEqual(['a']);
+
+    inbound.push(packet(5, 'e'));
+    expect(received).toEqual(['a', '\uFFFD', 'c', 'd', 'e']);
+    expect(receiver.getStats().lost).toBe(1);
+  });
+
+  test('rejects unexpected payload types and SSRCs', () => {
+    inbound.push(packet(1, 'ok'));
+    inbound.push(packet(2, 'bad pt', { payloadType: 100 }));
+    inbound.push(packet(3, 'bad ssrc', { ssrc: 999 }));
+
+    expect(received).toEqual(['ok']);
+    expect(errors.map((e) => e.type)).toEqual([
+      T140RtpErrorType.INVALID_PACKET,
+      T140RtpErrorType.INVALID_PACKET,
+    ]);
+  });
+
+  test('reports malformed packets as INVALID_PACKET errors', () => {
+    inbound.push(Buffer.from([0x80, 0x60]));
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].type).toBe(T140RtpErrorType.INVALID_PACKET);
+    expect(errors[0].cause).toBeInstanceOf(Error);
+  });
+
+  test('is async iterable and ends on close', async () => {
+    const iterated: string[] = [];
+    const done = (async () => {
+      for await (const text of receiver) {
+        iterated.push(text);
+      }
+    })();
+
+    inbound.push(packet(1, 'one'));
+    inbound.push(packet(2, 'two'));
+    await new Promise((resolve) => setImmediate(resolve));
+    receiver.close();
+    await done;
+
+    expect(iterated).toEqual(['one', 'two']);
+    expect(inbound.closed).toBe(true);
+  });
+
+  test('holds text that arrives before iteration starts', async () => {
+    inbound.push(packet(1, 'early'));
+    inbound.push(packet(2, ' bird'));
+    receiver.close();
+
+    const iterated: string[] = [];
+    for await (const text of receiver) {
+      iterated.push(text);
+    }
+
+    expect(iterated).toEqual(['early', ' bird']);
+  });
+
+  test('keeps only the most recent unread text', async () => {
+    for (let seq = 1; seq <= 1030; seq += 1) {
+      inbound.push(packet(seq, String(seq)));
+    }
+    receiver.close();
+
+    const iterated: string[] = [];
+    for await (const text of receiver) {
+      iterated.push(text);
+    }
+
+    expect(iterated).toHaveLength(1024);
+    expect(iterated[0]).toBe('7');
+  });
+
+  test('receives packets from T140RtpTransport over UDP', async () => {
+    const udpReceiver = new T140RtpReceiver({ localAddress: '127.0.0.1', localPort: 0 });
+    await new Promise((resolve) => udpReceiver.once('listening', resolve));
+    const { port } = udpReceiver.address()!;
+
+    const transport = new T140RtpTransport('127.0.0.1', port);
+    const text = new Promise<string>((resolve) => udpReceiver.once('data', resolve));
+    transport.sendText('over the wire');
+
+    expect(await text).toBe('over the wire');
+
+    transport.close();
+    udpReceiver.close();
+  });
+});
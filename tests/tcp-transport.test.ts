@@ -0,0 +1,154 @@
+import { DtlsCertificate } from '../src/interfaces';
+import { createDtlsCertificate } from '../src/rtp/dtls-srtp';
+import { T140RtpReceiver } from '../src/rtp/t140-rtp-receiver';
+import { T140RtpTransport } from '../src/rtp/t140-rtp-transport';
+import { frameRfc4571Packet, Rfc4571Deframer } from '../src/transport/rfc4571';
+import { TcpTransport } from '../src/transport/tcp-transport';
+
+function listening(transport: TcpTransport): Promise<number> {
+  return new Promise((resolve) => {
+    transport.once('listening', () => resolve(transport.address()!.port));
+  });
+}
+
+function nextPacket(transport: TcpTransport): Promise<Buffer> {
+  return new Promise(resolve => transport.once('data', resolve));
+}
+
+function closed(transport: TcpTransport): Promise<void> {
+  return new Promise((resolve) => {
+    transport.once('close', () => resolve());
+    transport.close();
+  });
+}
+
+describe('RFC 4571 framing', () => {
+  test('prefixes packets with their 16-bit length', () => {
+    const frame = frameRfc4571Packet(Buffer.from('abc'));
+    expect(frame).toEqual(Buffer.from([0, 3, 0x61, 0x62, 0x63]));
+    expect(() => frameRfc4571Packet(Buffer.alloc(0))).toThrow();
+    expect(() => frameRfc4571Packet(Buffer.alloc(65536))).toThrow();
+  });
+
+  test('reassembles packets split and coalesced across chunks', () => {
+    const deframer = new Rfc4571Deframer();
+    const packets: string[] = [];
+    deframer.on('data', (packet: Buffer) => packets.push(packet.toString()));
+
+    const stream = Buffer.concat([
+      frameRfc4571Packet(Buffer.from('first')),
+      Buffer.from([0, 0]),
+      frameRfc4571Packet(Buffer.from('second')),
+      frameRfc4571Packet(Buffer.from('third')),
+    ]);
+    deframer.push(stream.slice(0, 1));
+    deframer.push(stream.slice(1, 10));
+    expect(packets).toEqual(['first']);
+    expect(deframer.pending).toBe(1);
+
+    deframer.push(stream.slice(10));
+    expect(packets).toEqual(['first', 'second', 'third']);
+    expect(deframer.pending).toBe(0);
+  });
+});
+
+describe('TcpTransport', () => {
+  const transports: TcpTransport[] = [];
+
+  function track(transport: TcpTransport): TcpTransport {
+    transports.push(transport);
+    transport.on('error', () => undefined);
+    return transport;
+  }
+
+  afterEach(async () => {
+    await Promise.all(transports.splice(0).map(transport => closed(transport)));
+  });
+
+  test('carries packets both ways between active and passive ends', async () => {
+    const passive = track(new TcpTransport({ port: 0, host: '127.0.0.1', setup: 'passive' }));
+    const port = await listening(passive);
+    const active = track(new TcpTransport({ port, host: '127.0.0.1' }));
+
+    // Sent before the connection is up, so it is queued and flushed
+    active.send(Buffer.from('ping'));
+    expect((await nextPacket(passive)).toString()).toBe('ping');
+
+    passive.send(Buffer.from('pong'));
+    expect((await nextPacket(active)).toString()).toBe('pong');
+    expect(active.isConnected).toBe(true);
+  });
+
+  test('feeds T140RtpTransport packets into a T140RtpReceiver', async () => {
+    const passive = new TcpTransport({ port: 0, host: '127.0.0.1', setup: 'passive' });
+    const port = await listening(passive);
+    const receiver = new T140RtpReceiver({ inboundTransport: passive });
+    const active = track(new TcpTransport({ port, host: '127.0.0.1' }));
+    const sender = new T140RtpTransport('127.0.0.1', port, { customTransport: active });
+
+    const text = new Promise<string>(resolve => receiver.once('data', resolve));
+    sender.sendText('Hello over TCP');
+    expect(await text).toBe('Hello over TCP');
+
+    const passiveClosed = new Promise(resolve => passive.once('close', resolve));
+    receiver.close();
+    await passiveClosed;
+  });
+
+  test('reconnects after the connection drops', async () => {
+    const passive = track(new TcpTransport({ port: 0, host: '127.0.0.1', setup: 'passive' }));
+    const port = await listening(passive);
+    const active = track(new TcpTransport({ port, host: '127.0.0.1', reconnectDelay: 10 }));
+    await new Promise(resolve => active.once('connect', resolve));
+
+    const reconnecting = new Promise<number[]>((resolve) => {
+      active.once('reconnecting', (attempt: number, delay: number) => resolve([attempt, delay]));
+    });
+    const reconnected = new Promise(resolve => active.once('connect', resolve));
+    (passive as any).socket.destroy();
+
+    expect(await reconnecting).toEqual([1, 10]);
+    await reconnected;
+    active.send(Buffer.from('again'));
+    expect((await nextPacket(passive)).toString()).toBe('again');
+  });
+
+  test('drops the oldest queued packet when the queue is full', () => {
+    const active = track(new TcpTransport({ port: 9, host: '127.0.0.1', maxQueueSize: 1 }));
+    const results: Array<Error | undefined> = [];
+    active.send(Buffer.from('a'), err => results.push(err));
+    active.send(Buffer.from('b'));
+    expect(results).toHaveLength(1);
+    expect(results[0]!.message).toMatch(/queue full/);
+  });
+
+  describe('with TLS', () => {
+    let certificate: DtlsCertificate;
+
+    beforeAll(async () => {
+      certificate = await createDtlsCertificate();
+    });
+
+    test('requires a certificate on the passive side', () => {
+      expect(() => new TcpTransport({ port: 0, setup: 'passive', tls: {} })).toThrow('certificate');
+    });
+
+    test('carries packets over a TLS connection', async () => {
+      const passive = track(new TcpTransport({
+        port: 0,
+        host: '127.0.0.1',
+        setup: 'passive',
+        tls: { cert: certificate.certPem, key: certificate.keyPem },
+      }));
+      const port = await listening(passive);
+      const active = track(new TcpTransport({
+        port,
+        host: '127.0.0.1',
+        tls: { rejectUnauthorized: false },
+      }));
+
+      active.send(Buffer.from('secret'));
+      expect((await nextPacket(passive)).toString()).toBe('secret');
+    });
+  });
+});
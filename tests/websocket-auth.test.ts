@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { URL } from 'url';
+import WebSocket from 'ws';
+import { WebSocketClaims } from '../src/interfaces';
+import { createDtlsCertificate } from '../src/rtp/dtls-srtp';
+import { signWebSocketUrl, verifySignedWebSocketUrl } from '../src/transport/websocket-auth';
+import {
+  createWebSocketServer,
+  WebSocketServerOptions,
+} from '../src/transport/websocket-server';
+
+const secret = 'test-secret';
+
+/**
+ * Start a server whose backend records each connection's claims
+ */
+async function startServer(
+  options: WebSocketServerOptions,
+  claims: WebSocketClaims[] = []
+): Promise<WebSocket.Server> {
+  const server = createWebSocketServer({
+    ...options,
+    port: 0,
+    backend: (context) => {
+      claims.push(context.claims);
+      return { transport: { send: (_data, callback) => callback?.() } };
+    },
+  });
+  await new Promise(resolve => server.once('listening', resolve));
+  return server;
+}
+
+function baseUrl(server: WebSocket.Server, scheme: string = 'ws'): string {
+  return `${scheme}://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/**
+ * Connect, resolving with 'open' or with the HTTP status of a rejection
+ */
+function attempt(url: string, options: WebSocket.ClientOptions = {}): Promise<WebSocket | number> {
+  const ws = new WebSocket(url, options);
+  return new Promise((resolve, reject) => {
+    ws.once('open', () => resolve(ws));
+    ws.once('unexpected-response', (_req, res) => resolve(res.statusCode!));
+    ws.once('error', reject);
+  });
+}
+
+function closeServer(server: WebSocket.Server): Promise<void> {
+  server.clients.forEach(client => client.terminate());
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+describe('Signed WebSocket URLs', () => {
+  test('round-trip the signed query parameters as claims', () => {
+    const signed = new URL(signWebSocketUrl('ws://example.com/call?user=42', secret));
+    expect(verifySignedWebSocketUrl(signed, secret)).toMatchObject({ user: '42' });
+  });
+
+  test('reject tampered, expired and wrongly keyed URLs', () => {
+    const signed = new URL(signWebSocketUrl('ws://example.com/call?user=42', secret));
+    const tampered = new URL(signed.toString());
+    tampered.searchParams.set('user', '43');
+    const expired = new URL(signWebSocketUrl('ws://example.com/call', secret, -1));
+
+    expect(verifySignedWebSocketUrl(tampered, secret)).toBeUndefined();
+    expect(verifySignedWebSocketUrl(expired, secret)).toBeUndefined();
+    expect(verifySignedWebSocketUrl(signed, 'other-secret')).toBeUndefined();
+    expect(verifySignedWebSocketUrl(new URL('ws://example.com/call'), secret)).toBeUndefined();
+  });
+});
+
+describe('createWebSocketServer admission', () => {
+  let server: WebSocket.Server;
+
+  afterEach(async () => {
+    await closeServer(server);
+  });
+
+  test('accepts bearer tokens and signed URLs and passes their claims on', async () => {
+    const claims: WebSocketClaims[] = [];
+    server = await startServer({
+      auth: {
+        bearerTokens: ['static-token'],
+        verifyBearerToken: token => token === 'jwt' ? { user: 'jwt-user' } : undefined,
+        hmacSecret: secret,
+      },
+    }, claims);
+
+    const withToken = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } });
+    expect(await attempt(baseUrl(server), withToken('static-token'))).toBeInstanceOf(WebSocket);
+    expect(await attempt(baseUrl(server), withToken('jwt'))).toBeInstanceOf(WebSocket);
+    const signed = signWebSocketUrl(`${baseUrl(server)}/call?user=browser`, secret);
+    expect(await attempt(signed)).toBeInstanceOf(WebSocket);
+
+    expect(await attempt(baseUrl(server), withToken('wrong'))).toBe(401);
+    expect(await attempt(baseUrl(server))).toBe(401);
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(claims).toEqual([{}, { user: 'jwt-user' }, expect.objectContaining({ user: 'browser' })]);
+  });
+
+  test('checks the origin and lets verifyClient have the last word', async () => {
+    server = await startServer({
+      allowedOrigins: ['https://app.example.com'],
+      auth: { verifyClient: ({ url }) => url.pathname !== '/blocked' },
+    });
+
+    expect(await attempt(baseUrl(server), { origin: 'https://app.example.com' }))
+      .toBeInstanceOf(WebSocket);
+    expect(await attempt(baseUrl(server), { origin: 'https://evil.example.com' })).toBe(403);
+    expect(await attempt(`${baseUrl(server)}/blocked`)).toBe(403);
+  });
+
+  test('limits concurrent connections per IP', async () => {
+    server = await startServer({ maxConnectionsPerIp: 1 });
+
+    const first = await attempt(baseUrl(server)) as WebSocket;
+    expect(await attempt(baseUrl(server))).toBe(429);
+
+    first.close();
+    await new Promise(resolve => first.once('close', resolve));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(await attempt(baseUrl(server))).toBeInstanceOf(WebSocket);
+  });
+
+  test('closes a connection that sends too many messages per second', async () => {
+    server = await startServer({ maxMessagesPerSecond: 2 });
+
+    const client = await attempt(baseUrl(server)) as WebSocket;
+    const code = new Promise(resolve => client.once('close', resolve));
+    client.send('a');
+    client.send('b');
+    client.send('c');
+    expect(await code).toBe(1008);
+  });
+
+  test('requires a trusted client certificate with mutual TLS', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 't140llm-mtls-'));
+    const serverCert = await createDtlsCertificate();
+    const clientCert = await createDtlsCertificate();
+    const file = (name: string, content: string) => {
+      fs.writeFileSync(path.join(dir, name), content);
+      return path.join(dir, name);
+    };
+    const claims: WebSocketClaims[] = [];
+    try {
+      server = await startServer({
+        tls: {
+          cert: file('server.pem', serverCert.certPem),
+          key: file('server.key', serverCert.keyPem),
+          ca: file('ca.pem', clientCert.certPem),
+          requestClientCert: true,
+        },
+      }, claims);
+      const url = baseUrl(server, 'wss');
+
+      const trusted = await attempt(url, {
+        cert: clientCert.certPem,
+        key: clientCert.keyPem,
+        rejectUnauthorized: false,
+      });
+      expect(trusted).toBeInstanceOf(WebSocket);
+      expect(await attempt(url, { rejectUnauthorized: false })).toBe(401);
+      expect(await attempt(url, {
+        cert: serverCert.certPem,
+        key: serverCert.keyPem,
+        rejectUnauthorized: false,
+      })).toBe(401);
+
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(claims[0].clientCertificate).toMatchObject({ fingerprint256: expect.any(String) });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,198 @@
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { T140WebSocketFrame, TransportStream } from '../src/interfaces';
+import { createT140WebSocketTransport } from '../src/processors/process-ai-stream';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { T140WebSocketClient } from '../src/transport/websocket-client';
+import { parseT140Frame, T140FrameWriter } from '../src/transport/websocket-protocol';
+import {
+  createWebSocketServer,
+  WebSocketServerOptions,
+} from '../src/transport/websocket-server';
+import { T140_WS_SUBPROTOCOL } from '../src/utils/constants';
+
+/**
+ * A backend that records the text it is sent and whether it was closed
+ */
+function recordingBackend(): TransportStream & { text: () => string; closed: boolean } {
+  const packets: Buffer[] = [];
+  const backend = {
+    closed: false,
+    send: (data: Buffer, callback?: (error?: Error) => void) => {
+      packets.push(data);
+      callback?.();
+    },
+    close: () => { backend.closed = true; },
+    text: () => packets.map(packet => parseRtpPacket(packet).payload.toString()).join(''),
+  };
+  return backend;
+}
+
+async function startServer(
+  backend: TransportStream,
+  opened: { count: number } = { count: 0 },
+  options: WebSocketServerOptions = {}
+): Promise<WebSocket.Server> {
+  const server = createWebSocketServer({
+    ...options,
+    port: 0,
+    backend: () => {
+      opened.count += 1;
+      return { transport: backend };
+    },
+  });
+  await new Promise(resolve => server.once('listening', resolve));
+  return server;
+}
+
+function urlOf(server: WebSocket.Server): string {
+  return `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function closeServer(server: WebSocket.Server): Promise<void> {
+  server.clients.forEach(client => client.terminate());
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+function waitFor(check: () => boolean): Promise<void> {
+  return new Promise((resolve) => {
+    const poll = () => check() ? resolve() : setTimeout(poll, 5);
+    poll();
+  });
+}
+
+/**
+ * Open a raw t140.v1 connection and collect the frames the server sends
+ */
+async function rawClient(url: string): Promise<{ ws: WebSocket; frames: T140WebSocketFrame[] }> {
+  const ws = new WebSocket(url, [T140_WS_SUBPROTOCOL]);
+  const frames: T140WebSocketFrame[] = [];
+  ws.on('message', data => frames.push(parseT140Frame(data.toString())));
+  await new Promise(resolve => ws.once('open', resolve));
+  return { frames, ws };
+}
+
+describe('T140WebSocketClient', () => {
+  let server: WebSocket.Server;
+
+  afterEach(async () => {
+    await closeServer(server);
+  });
+
+  test('reconnects after a drop and resumes the same session', async () => {
+    const backend = recordingBackend();
+    const opened = { count: 0 };
+    server = await startServer(backend, opened);
+    const { client, attachStream } = createT140WebSocketTransport(urlOf(server), {
+      reconnect: { delay: 10, jitter: 0 },
+      subprotocol: true,
+    });
+    const states: string[] = [];
+    client.on('state', state => states.push(state));
+    const stream = new EventEmitter();
+    attachStream(stream);
+
+    stream.emit('data', 'Hello');
+    await waitFor(() => backend.text() === 'Hello');
+    server.clients.forEach(socket => socket.terminate());
+    stream.emit('data', ' wor');
+    await new Promise(resolve => client.once('open', resolve));
+    stream.emit('data', 'ld');
+    stream.emit('end');
+    await new Promise(resolve => client.once('close', resolve));
+
+    expect(backend.text()).toBe('Hello world');
+    expect(backend.closed).toBe(true);
+    expect(opened.count).toBe(1);
+    expect(states).toEqual(['open', 'reconnecting', 'open', 'closed']);
+  });
+
+  test('replays what was sent while down without tripping the message limit', async () => {
+    const backend = recordingBackend();
+    server = await startServer(backend, undefined, { maxMessagesPerSecond: 5 });
+    const { client, attachStream } = createT140WebSocketTransport(urlOf(server), {
+      reconnect: { delay: 10, jitter: 0 },
+      subprotocol: true,
+    });
+    const errors: Error[] = [];
+    client.on('error', err => errors.push(err));
+    const stream = new EventEmitter();
+    attachStream(stream);
+
+    stream.emit('data', 'Hi');
+    await waitFor(() => backend.text() === 'Hi');
+    server.clients.forEach(socket => socket.terminate());
+    await new Promise(resolve => client.once('reconnecting', resolve));
+    for (let i = 0; i < 20; i += 1) {
+      stream.emit('data', String(i % 10));
+    }
+    stream.emit('end');
+    await new Promise(resolve => client.once('close', resolve));
+
+    expect(errors).toEqual([]);
+    expect(backend.text()).toBe('Hi01234567890123456789');
+  });
+});
+
+describe('T140WebSocketClient backoff', () => {
+  test('backs off exponentially and gives up after maxAttempts', async () => {
+    const unused = new WebSocket.Server({ port: 0 });
+    await new Promise(resolve => unused.once('listening', resolve));
+    const url = urlOf(unused);
+    await closeServer(unused);
+
+    const client = new T140WebSocketClient(url, {
+      reconnect: { delay: 10, jitter: 0, maxAttempts: 3 },
+    });
+    const delays: number[] = [];
+    client.on('reconnecting', (_attempt, delay) => delays.push(delay));
+    const error = new Promise(resolve => client.once('error', resolve));
+    await new Promise(resolve => client.once('close', resolve));
+
+    expect(delays).toEqual([10, 20, 40]);
+    expect(await error).toMatchObject({ message: expect.stringContaining('not reconnecting') });
+    expect(client.state).toBe('closed');
+  });
+});
+
+describe('createWebSocketServer session resumption', () => {
+  let server: WebSocket.Server;
+
+  afterEach(async () => {
+    await closeServer(server);
+  });
+
+  test('skips replayed frames the session already has', async () => {
+    const backend = recordingBackend();
+    server = await startServer(backend);
+    const writer = new T140FrameWriter();
+    const first = await rawClient(urlOf(server));
+    const sent = [
+      writer.encode({ type: 'start' }),
+      writer.encode({ text: 'ab', type: 'text' }),
+    ];
+    sent.forEach(frame => first.ws.send(frame));
+    await waitFor(() => first.frames.some(frame => frame.type === 'ack' && frame.ack === 1));
+    const token = (first.frames[0] as { token: string }).token;
+    first.ws.terminate();
+
+    const second = await rawClient(urlOf(server));
+    second.ws.send(JSON.stringify({ token, seq: 2, type: 'resume' }));
+    second.ws.send(sent[1]);
+    second.ws.send(writer.encode({ text: 'c', type: 'text' }));
+    second.ws.send(writer.encode({ type: 'end' }));
+    await waitFor(() => backend.closed);
+
+    expect(backend.text()).toBe('abc');
+    second.ws.close();
+  });
+
+  test('closes with 1008 when the session is unknown', async () => {
+    server = await startServer(recordingBackend());
+    const { ws } = await rawClient(urlOf(server));
+    const code = new Promise(resolve => ws.once('close', resolve));
+    ws.send(JSON.stringify({ seq: 0, token: 'nope', type: 'resume' }));
+    expect(await code).toBe(1008);
+  });
+});
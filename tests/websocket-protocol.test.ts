@@ -0,0 +1,209 @@
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { T140RtpErrorType, T140WebSocketFrame, TransportStream } from '../src/interfaces';
+import { createT140WebSocketTransport } from '../src/processors/process-ai-stream';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import {
+  parseT140Frame,
+  T140FrameReader,
+  T140FrameWriter,
+  textToFrameBodies,
+} from '../src/transport/websocket-protocol';
+import { createWebSocketServer } from '../src/transport/websocket-server';
+import { T140_WS_SUBPROTOCOL } from '../src/utils/constants';
+
+/**
+ * A plain WebSocket server that records the messages and protocol of the client
+ */
+async function startRecorder(
+  options: WebSocket.ServerOptions = {}
+): Promise<{ server: WebSocket.Server; messages: Promise<string[]> }> {
+  const server = new WebSocket.Server({ ...options, port: 0 });
+  await new Promise(resolve => server.once('listening', resolve));
+  const messages = new Promise<string[]>((resolve) => {
+    server.once('connection', (ws) => {
+      const received: string[] = [];
+      ws.on('message', data => received.push(data.toString()));
+      ws.on('close', () => resolve(received));
+    });
+  });
+  return { server, messages };
+}
+
+function urlOf(server: WebSocket.Server): string {
+  return `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function closeServer(server: WebSocket.Server): Promise<void> {
+  server.clients.forEach(client => client.terminate());
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+describe('t140.v1 frames', () => {
+  test('number frames and split backspaces into erase frames', () => {
+    const writer = new T140FrameWriter();
+    const frames = textToFrameBodies('ab\b\bc').map(body => parseT140Frame(writer.encode(body)));
+    expect(frames).toEqual([
+      { seq: 0, text: 'ab', type: 'text' },
+      { count: 2, seq: 1, type: 'erase' },
+      { seq: 2, text: 'c', type: 'text' },
+    ]);
+  });
+
+  test('reject invalid frames with INVALID_PACKET', () => {
+    const invalid = expect.objectContaining({ type: T140RtpErrorType.INVALID_PACKET });
+    expect(() => parseT140Frame('not json')).toThrow(invalid);
+    expect(() => parseT140Frame('{"type":"shout","seq":0}')).toThrow(invalid);
+    expect(() => parseT140Frame('{"type":"text","seq":-1,"text":"a"}')).toThrow(invalid);
+    expect(() => parseT140Frame('{"type":"erase","seq":0,"count":0}')).toThrow(invalid);
+  });
+
+  test('report gaps in the sequence', () => {
+    const writer = new T140FrameWriter();
+    const reader = new T140FrameReader();
+    const gaps: number[][] = [];
+    const frames: T140WebSocketFrame[] = [];
+    reader.on('gap', (expected, received) => gaps.push([expected, received]));
+    reader.on('frame', frame => frames.push(frame));
+
+    const encoded = ['a', 'b', 'c', 'd'].map(text => writer.encode({ text, type: 'text' }));
+    reader.push(encoded[0]);
+    reader.push(encoded[3]);
+
+    expect(gaps).toEqual([[1, 3]]);
+    expect(frames).toHaveLength(2);
+  });
+
+  test('report replayed frames as duplicates', () => {
+    const writer = new T140FrameWriter();
+    const reader = new T140FrameReader();
+    const duplicates: number[] = [];
+    const frames: number[] = [];
+    reader.on('duplicate', frame => duplicates.push(frame.seq));
+    reader.on('frame', frame => frames.push(frame.seq));
+
+    const encoded = ['a', 'b', 'c'].map(text => writer.encode({ text, type: 'text' }));
+    [0, 1, 0, 1, 2].forEach(index => reader.push(encoded[index]));
+
+    expect(frames).toEqual([0, 1, 2]);
+    expect(duplicates).toEqual([0, 1]);
+  });
+});
+
+describe('attachStreamToWebSocket', () => {
+  let server: WebSocket.Server;
+
+  afterEach(async () => {
+    await closeServer(server);
+  });
+
+  test('sends typed frames from start to end over the subprotocol', async () => {
+    const recorder = await startRecorder();
+    server = recorder.server;
+    const { connection, attachStream } = createT140WebSocketTransport(urlOf(server), {
+      subprotocol: true,
+    });
+    const stream = new EventEmitter();
+    attachStream(stream, { handleMetadata: true, sendMetadataOverWebsocket: true });
+
+    // Sent before the connection opens, so these are held first
+    stream.emit('data', 'Hi\b');
+    stream.emit('data', { delta: { tool_use: { id: 'tool-1', name: 'lookup' } } });
+    stream.emit('end');
+
+    const frames = (await recorder.messages).map(message => parseT140Frame(message));
+    expect(connection.protocol).toBe(T140_WS_SUBPROTOCOL);
+    expect(frames.slice(0, 4).map(frame => frame.type)).toEqual(['start', 'text', 'erase', 'metadata']);
+    expect(frames[frames.length - 1].type).toBe('end');
+    expect(frames.map(frame => frame.seq)).toEqual(frames.map((_frame, index) => index));
+    expect(frames[3]).toMatchObject({ metadata: { type: 'tool_call', id: 'tool-1' } });
+  });
+
+  test('sends keepalive frames while the stream is idle', async () => {
+    const recorder = await startRecorder();
+    server = recorder.server;
+    const { connection, attachStream } = createT140WebSocketTransport(urlOf(server), {
+      subprotocol: true,
+    });
+    const stream = new EventEmitter();
+    attachStream(stream, { keepaliveInterval: 20 });
+
+    await new Promise(resolve => setTimeout(resolve, 70));
+    connection.close();
+    const types = (await recorder.messages).map(message => parseT140Frame(message).type);
+    expect(types[0]).toBe('start');
+    expect(types.slice(1).length).toBeGreaterThanOrEqual(1);
+    expect(types.slice(1).every(type => type === 'keepalive')).toBe(true);
+  });
+
+  test('sends raw text by default, even to a server that declines the subprotocol', async () => {
+    const recorder = await startRecorder({ handleProtocols: () => false });
+    server = recorder.server;
+    const { connection, attachStream } = createT140WebSocketTransport(urlOf(server));
+    const stream = new EventEmitter();
+    attachStream(stream);
+    stream.emit('data', 'plain');
+    stream.emit('end');
+
+    expect(await recorder.messages).toEqual(['plain']);
+    expect(connection.protocol).toBe('');
+  });
+
+  test('fails the handshake when the server declines an offered subprotocol', async () => {
+    server = new WebSocket.Server({ handleProtocols: () => false, port: 0 });
+    await new Promise(resolve => server.once('listening', resolve));
+    const { connection } = createT140WebSocketTransport(urlOf(server), { subprotocol: true });
+
+    const error = await new Promise<Error>(resolve => connection.once('error', resolve));
+    expect(error.message).toMatch(/subprotocol/);
+  });
+});
+
+describe('createWebSocketServer with the subprotocol', () => {
+  let server: WebSocket.Server;
+
+  afterEach(async () => {
+    await closeServer(server);
+  });
+
+  test('turns frames into T.140 text and ends the stream on an end frame', async () => {
+    const sent: Buffer[] = [];
+    let closed = false;
+    const backend: TransportStream = {
+      send: (data, callback) => { sent.push(data); callback?.(); },
+      close: () => { closed = true; },
+    };
+    const metadata: unknown[] = [];
+    server = createWebSocketServer({
+      port: 0,
+      backend: () => ({ transport: backend }),
+      rtpConfig: { metadataCallback: item => metadata.push(item) },
+    });
+    await new Promise(resolve => server.once('listening', resolve));
+
+    const client = new WebSocket(urlOf(server), [T140_WS_SUBPROTOCOL]);
+    await new Promise(resolve => client.once('open', resolve));
+    expect(client.protocol).toBe(T140_WS_SUBPROTOCOL);
+    const writer = new T140FrameWriter();
+    const replies: T140WebSocketFrame[] = [];
+    client.on('message', data => replies.push(parseT140Frame(data.toString())));
+
+    client.send(writer.encode({ type: 'start' }));
+    client.send(writer.encode({ text: 'ab', type: 'text' }));
+    client.send(writer.encode({ count: 1, type: 'erase' }));
+    client.send(writer.encode({ metadata: { type: 'custom', content: 1 }, type: 'metadata' }));
+    client.send('garbage');
+    client.send(writer.encode({ type: 'end' }));
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const payloads = sent.map(packet => parseRtpPacket(packet).payload.toString()).join('');
+    expect(payloads).toBe('ab\b');
+    expect(metadata).toEqual([{ type: 'custom', content: 1 }]);
+    expect(replies[0]).toMatchObject({ seq: 0, token: expect.any(String), type: 'session' });
+    expect(replies.filter(reply => reply.type === 'error')).toHaveLength(1);
+    expect(replies.filter(reply => reply.type === 'ack').pop()).toMatchObject({ ack: 4 });
+    expect(closed).toBe(true);
+    client.close();
+  });
+});
@@ -0,0 +1,157 @@
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import WebSocket from 'ws';
+import { TransportStream, WebSocketConnectionContext } from '../src/interfaces';
+import { parseRtpPacket } from '../src/rtp/parse-rtp-packet';
+import { T140RtpReceiver } from '../src/rtp/t140-rtp-receiver';
+import { SeqpacketListener } from '../src/transport/seqpacket-transport';
+import { createWebSocketServer } from '../src/transport/websocket-server';
+
+/**
+ * A backend that records what it is given
+ */
+class RecordingTransport extends EventEmitter implements TransportStream {
+  public sentPackets: Buffer[] = [];
+  public closed = false;
+
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    this.sentPackets.push(data);
+    this.emit('sent');
+    callback?.();
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+function connect(server: WebSocket.Server, urlPath: string = '/'): Promise<WebSocket> {
+  const { port } = server.address() as AddressInfo;
+  const ws = new WebSocket(`ws://127.0.0.1:${port}${urlPath}`);
+  return new Promise((resolve, reject) => {
+    ws.once('open', () => resolve(ws));
+    ws.once('error', reject);
+  });
+}
+
+function listening(server: WebSocket.Server): Promise<void> {
+  return new Promise(resolve => server.once('listening', () => resolve()));
+}
+
+function sent(transport: RecordingTransport, count: number): Promise<Buffer[]> {
+  return new Promise((resolve) => {
+    const check = () => {
+      if (transport.sentPackets.length >= count) {
+        transport.removeListener('sent', check);
+        resolve(transport.sentPackets);
+      }
+    };
+    transport.on('sent', check);
+    check();
+  });
+}
+
+function closeServer(server: WebSocket.Server): Promise<void> {
+  server.clients.forEach(client => client.terminate());
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+describe('createWebSocketServer', () => {
+  let server: WebSocket.Server;
+
+  afterEach(async () => {
+    await closeServer(server);
+  });
+
+  test('bridges each connection to the backend chosen from its URL', async () => {
+    const backends: Record<string, RecordingTransport> = {};
+    const contexts: WebSocketConnectionContext[] = [];
+    server = createWebSocketServer({
+      port: 0,
+      rtpConfig: { payloadType: 100 },
+      backend: (context) => {
+        contexts.push(context);
+        const name = context.url.pathname.slice(1);
+        backends[name] = new RecordingTransport();
+        return { transport: backends[name], rtpConfig: { ssrc: name === 'caller' ? 1111 : 2222 } };
+      },
+    });
+    await listening(server);
+
+    const caller = await connect(server, '/caller?lang=en');
+    const recorder = await connect(server, '/recorder');
+    caller.send('Hi');
+    recorder.send('Log');
+    const [callerPackets, recorderPackets] = await Promise.all([
+      sent(backends.caller, 1),
+      sent(backends.recorder, 1),
+    ]);
+
+    expect(contexts.map(context => context.url.searchParams.get('lang'))).toEqual(['en', null]);
+    expect(contexts[0].connectionId).not.toBe(contexts[1].connectionId);
+    expect(parseRtpPacket(callerPackets[0])).toMatchObject({ ssrc: 1111, payloadType: 100 });
+    expect(parseRtpPacket(recorderPackets[0])).toMatchObject({ ssrc: 2222, payloadType: 100 });
+    expect(parseRtpPacket(callerPackets[0]).payload.toString()).toBe('Hi');
+  });
+
+  test('keeps one SSRC and consecutive sequence numbers per connection', async () => {
+    const backend = new RecordingTransport();
+    server = createWebSocketServer({ port: 0, backend: () => ({ transport: backend }) });
+    await listening(server);
+
+    const client = await connect(server);
+    client.send('a');
+    await sent(backend, 1);
+    client.send('b');
+    await sent(backend, 2);
+
+    const packets = backend.sentPackets.map(parseRtpPacket);
+    expect(packets[1].ssrc).toBe(packets[0].ssrc);
+    expect(packets[1].sequenceNumber).toBe((packets[0].sequenceNumber + 1) % 65536);
+
+    client.close();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(backend.closed).toBe(true);
+  });
+
+  test('holds text until an asynchronous backend is ready', async () => {
+    const backend = new RecordingTransport();
+    server = createWebSocketServer({
+      port: 0,
+      backend: () => new Promise(resolve => setTimeout(() => resolve({ transport: backend }), 50)),
+    });
+    await listening(server);
+
+    const client = await connect(server);
+    client.send('early');
+    const packets = await sent(backend, 1);
+    expect(parseRtpPacket(packets[0]).payload.toString()).toBe('early');
+  });
+
+  test('closes the connection with 1011 when no backend can be opened', async () => {
+    server = createWebSocketServer({ port: 0, backend: () => ({}) });
+    await listening(server);
+
+    const client = await connect(server);
+    const code = await new Promise(resolve => client.once('close', resolve));
+    expect(code).toBe(1011);
+  });
+
+  test('sends to the Unix socket by default', async () => {
+    const socketPath = path.join(os.tmpdir(), `t140llm-ws-test-${process.pid}.sock`);
+    const listener = new SeqpacketListener(socketPath);
+    const receiver = new T140RtpReceiver({ inboundTransport: listener });
+    server = createWebSocketServer({ socketPath, port: 0 });
+    await listening(server);
+
+    const client = await connect(server);
+    const text = new Promise(resolve => receiver.once('data', resolve));
+    client.send('over SEQPACKET');
+    expect(await text).toBe('over SEQPACKET');
+
+    receiver.close();
+    await new Promise(resolve => listener.once('close', resolve));
+  });
+});